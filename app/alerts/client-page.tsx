@@ -0,0 +1,717 @@
+"use client";
+
+/**
+ * Alerts Client Page
+ * Defines broker flow and Big Player alert rules, runs them on demand and
+ * shows what the scheduled runs triggered
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import NextLink from "next/link";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Spinner } from "@heroui/spinner";
+import { addToast } from "@heroui/toast";
+import { ActionType, ShareholderBadge } from "@/components/bigplayer/types";
+import {
+  describeCondition,
+  type AlertCondition,
+  type AlertEvent,
+  type AlertRule,
+  type AlertRun,
+  type NotifierConfig,
+} from "@/lib/alerts";
+import {
+  AlertApiError,
+  createAlertRule,
+  deleteAlertRule,
+  fetchAlertHistory,
+  fetchAlertRules,
+  getAlertsApiKey,
+  runAlertRulesNow,
+  setAlertRuleEnabled,
+  setAlertsApiKey,
+} from "@/lib/api/alerts";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
+import { parseSymbols } from "@/lib/watchlists";
+
+// Types
+type RuleType = AlertCondition["type"];
+
+const RULE_TYPES: Array<{ key: RuleType; label: string }> = [
+  { key: "broker_flow", label: "Broker Flow" },
+  { key: "big_player", label: "Big Player" },
+];
+
+const BADGE_CHOICES: Array<{ value: ShareholderBadge; label: string }> = [
+  { value: ShareholderBadge.PENGENDALI, label: "Controller" },
+  { value: ShareholderBadge.DIREKTUR, label: "Director" },
+];
+
+const ACTION_CHOICES: Array<{ value: ActionType; label: string }> = [
+  { value: ActionType.BUY, label: "Buy" },
+  { value: ActionType.SELL, label: "Sell" },
+  { value: ActionType.CROSS, label: "Cross" },
+  { value: ActionType.WARRANT_EXERCISE, label: "Warrant" },
+];
+
+function toggleValue<T>(values: T[], value: T): T[] {
+  return values.includes(value)
+    ? values.filter((item) => item !== value)
+    : [...values, value];
+}
+
+function formatTimestamp(iso: string): string {
+  return new Date(iso).toLocaleString("id-ID", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+function RuleForm({ onCreated }: { onCreated: (rule: AlertRule) => void }) {
+  const watchlists = useWatchlists();
+  const [ruleType, setRuleType] = useState<RuleType>("broker_flow");
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Broker flow
+  const [broker, setBroker] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [minValueBillions, setMinValueBillions] = useState("10");
+
+  // Big Player
+  const [symbolsText, setSymbolsText] = useState("");
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  const [badges, setBadges] = useState<ShareholderBadge[]>([
+    ShareholderBadge.PENGENDALI,
+  ]);
+  const [actionTypes, setActionTypes] = useState<ActionType[]>([
+    ActionType.BUY,
+  ]);
+  const [minChange, setMinChange] = useState("");
+
+  // Notifiers
+  const [inApp, setInApp] = useState(true);
+  const [webhookUrl, setWebhookUrl] = useState("");
+
+  const watchlist = watchlists.find((list) => list.id === watchlistId) || null;
+
+  const buildCondition = (): AlertCondition => {
+    if (ruleType === "broker_flow") {
+      return {
+        type: "broker_flow",
+        broker: broker.trim().toUpperCase(),
+        symbol: symbol.trim().toUpperCase(),
+        side,
+        minValue: Number(minValueBillions) * 1e9,
+      };
+    }
+
+    return {
+      type: "big_player",
+      // The watchlist is copied: the scheduler runs on the server and cannot read localStorage
+      symbols: watchlist
+        ? watchlist.symbols
+        : parseSymbols(symbolsText).symbols,
+      watchlistName: watchlist?.name,
+      badges,
+      actionTypes,
+      minChangeValue: minChange.trim() ? Number(minChange) : null,
+    };
+  };
+
+  const handleSubmit = async () => {
+    const notifiers: NotifierConfig[] = [];
+    if (inApp) notifiers.push({ type: "in_app" });
+    if (webhookUrl.trim())
+      notifiers.push({ type: "webhook", url: webhookUrl.trim() });
+
+    const condition = buildCondition();
+    setIsSaving(true);
+    try {
+      const rule = await createAlertRule({
+        name: name.trim() || describeCondition(condition),
+        condition,
+        notifiers,
+      });
+      onCreated(rule);
+      setName("");
+      addToast({
+        title: "Rule Created",
+        description: rule.name,
+        color: "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Failed to create rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-center gap-1.5">
+          {RULE_TYPES.map((type) => (
+            <Button
+              key={type.key}
+              size="sm"
+              variant={ruleType === type.key ? "solid" : "flat"}
+              color={ruleType === type.key ? "primary" : "default"}
+              className="text-xs px-3 h-7"
+              onPress={() => setRuleType(type.key)}
+            >
+              {type.label}
+            </Button>
+          ))}
+        </div>
+
+        <Input
+          size="sm"
+          label="Rule name (optional)"
+          value={name}
+          onValueChange={setName}
+        />
+
+        {ruleType === "broker_flow" ? (
+          <div className="flex flex-wrap items-end gap-3">
+            <Input
+              size="sm"
+              label="Broker"
+              placeholder="AK"
+              className="w-28"
+              value={broker}
+              onValueChange={setBroker}
+            />
+            <Input
+              size="sm"
+              label="Symbol"
+              placeholder="BBRI"
+              className="w-32"
+              value={symbol}
+              onValueChange={setSymbol}
+            />
+            <div className="flex gap-1.5">
+              {(["buy", "sell"] as const).map((value) => (
+                <Button
+                  key={value}
+                  size="sm"
+                  variant={side === value ? "solid" : "flat"}
+                  color={
+                    side === value
+                      ? value === "buy"
+                        ? "success"
+                        : "danger"
+                      : "default"
+                  }
+                  className="text-xs px-3 h-7"
+                  onPress={() => setSide(value)}
+                >
+                  Net {value}
+                </Button>
+              ))}
+            </div>
+            <Input
+              size="sm"
+              type="number"
+              label="More than (B)"
+              className="w-36"
+              value={minValueBillions}
+              onValueChange={setMinValueBillions}
+            />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-default-500">Symbols:</span>
+              <Chip
+                size="sm"
+                className="cursor-pointer"
+                color={!watchlistId ? "primary" : "default"}
+                variant={!watchlistId ? "solid" : "bordered"}
+                onClick={() => setWatchlistId(null)}
+              >
+                Custom
+              </Chip>
+              {watchlists.map((list) => (
+                <Chip
+                  key={list.id}
+                  size="sm"
+                  className="cursor-pointer"
+                  color={watchlistId === list.id ? "primary" : "default"}
+                  variant={watchlistId === list.id ? "solid" : "bordered"}
+                  onClick={() => setWatchlistId(list.id)}
+                >
+                  {list.name} ({list.symbols.length})
+                </Chip>
+              ))}
+            </div>
+            {!watchlistId && (
+              <Input
+                size="sm"
+                label="Symbols (empty = any symbol)"
+                placeholder="BBCA, BBRI, TLKM"
+                value={symbolsText}
+                onValueChange={setSymbolsText}
+              />
+            )}
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs text-default-500">Holder:</span>
+              {BADGE_CHOICES.map((choice) => (
+                <Chip
+                  key={choice.value}
+                  size="sm"
+                  className="cursor-pointer"
+                  color={badges.includes(choice.value) ? "primary" : "default"}
+                  variant={badges.includes(choice.value) ? "solid" : "bordered"}
+                  onClick={() => setBadges(toggleValue(badges, choice.value))}
+                >
+                  {choice.label}
+                </Chip>
+              ))}
+              <span className="ml-3 text-xs text-default-500">Action:</span>
+              {ACTION_CHOICES.map((choice) => (
+                <Chip
+                  key={choice.value}
+                  size="sm"
+                  className="cursor-pointer"
+                  color={
+                    actionTypes.includes(choice.value) ? "primary" : "default"
+                  }
+                  variant={
+                    actionTypes.includes(choice.value) ? "solid" : "bordered"
+                  }
+                  onClick={() =>
+                    setActionTypes(toggleValue(actionTypes, choice.value))
+                  }
+                >
+                  {choice.label}
+                </Chip>
+              ))}
+            </div>
+            <Input
+              size="sm"
+              type="number"
+              label="Min change (shares, optional)"
+              className="max-w-[220px]"
+              value={minChange}
+              onValueChange={setMinChange}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <Chip
+            size="sm"
+            className="cursor-pointer"
+            color={inApp ? "primary" : "default"}
+            variant={inApp ? "solid" : "bordered"}
+            onClick={() => setInApp(!inApp)}
+          >
+            In-app
+          </Chip>
+          <Input
+            size="sm"
+            label="Webhook URL (optional)"
+            placeholder="https://hooks.example.com/..."
+            className="flex-1 min-w-[240px]"
+            value={webhookUrl}
+            onValueChange={setWebhookUrl}
+          />
+          <Button
+            color="primary"
+            className="font-semibold"
+            onPress={handleSubmit}
+            isLoading={isSaving}
+          >
+            Add Rule
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+function RuleList({
+  rules,
+  onToggle,
+  onDelete,
+}: {
+  rules: AlertRule[];
+  onToggle: (rule: AlertRule) => void;
+  onDelete: (rule: AlertRule) => void;
+}) {
+  if (rules.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 border-2 border-dashed border-default-300 rounded-xl">
+        <div className="text-5xl mb-3">🔔</div>
+        <p className="text-base font-semibold text-default-600">
+          No alert rules yet
+        </p>
+        <p className="text-sm text-default-500 mt-1">
+          e.g. AK net-buys more than 10B in BBRI on any day
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardBody className="divide-y divide-default-100 p-0">
+        {rules.map((rule) => (
+          <div
+            key={rule.id}
+            className="flex flex-wrap items-center justify-between gap-3 px-4 py-3"
+          >
+            <div className="min-w-0">
+              <p
+                className={`font-semibold text-sm ${rule.enabled ? "" : "text-default-400 line-through"}`}
+              >
+                {rule.name}
+              </p>
+              <p className="text-xs text-default-500">
+                {describeCondition(rule.condition)}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {rule.notifiers.map((notifier) => (
+                <Chip key={notifier.type} size="sm" variant="flat">
+                  {notifier.type === "in_app" ? "In-app" : "Webhook"}
+                </Chip>
+              ))}
+              <Button
+                size="sm"
+                variant="flat"
+                className="text-xs px-3 h-7"
+                onPress={() => onToggle(rule)}
+              >
+                {rule.enabled ? "Disable" : "Enable"}
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                color="danger"
+                className="text-xs px-3 h-7"
+                onPress={() => onDelete(rule)}
+              >
+                Delete
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardBody>
+    </Card>
+  );
+}
+
+function EventHistory({
+  events,
+  runs,
+}: {
+  events: AlertEvent[];
+  runs: AlertRun[];
+}) {
+  const lastRun = runs[0];
+
+  return (
+    <Card>
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h2 className="text-base font-semibold">Triggered Alerts</h2>
+          {lastRun && (
+            <span className="text-xs text-default-500">
+              Last run {formatTimestamp(lastRun.finishedAt)} for {lastRun.date}:{" "}
+              {lastRun.rulesEvaluated} rules, {lastRun.triggered} new,{" "}
+              {lastRun.duplicates} already sent
+              {lastRun.errors.length > 0 && `, ${lastRun.errors.length} failed`}
+            </span>
+          )}
+        </div>
+
+        {lastRun && lastRun.errors.length > 0 && (
+          <ul className="text-xs text-danger space-y-0.5">
+            {lastRun.errors.map((error) => (
+              <li key={error.ruleId}>⚠️ {error.message}</li>
+            ))}
+          </ul>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-sm text-default-500">Nothing triggered yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-default-200 text-left text-default-500">
+                  <th className="py-2 pr-3 font-semibold">Triggered</th>
+                  <th className="py-2 pr-3 font-semibold">Rule</th>
+                  <th className="py-2 pr-3 font-semibold">Alert</th>
+                  <th className="py-2 font-semibold">Delivery</th>
+                </tr>
+              </thead>
+              <tbody>
+                {events.map((event) => (
+                  <tr
+                    key={event.id}
+                    className="border-b border-default-100 align-top"
+                  >
+                    <td className="py-2 pr-3 whitespace-nowrap text-default-500">
+                      {formatTimestamp(event.triggeredAt)}
+                    </td>
+                    <td className="py-2 pr-3">{event.ruleName}</td>
+                    <td className="py-2 pr-3">
+                      <NextLink
+                        href={event.href}
+                        className="font-semibold hover:text-primary hover:underline"
+                      >
+                        {event.title}
+                      </NextLink>
+                      <p className="text-default-500">{event.message}</p>
+                    </td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {event.deliveries.map((delivery) => (
+                          <Chip
+                            key={delivery.notifier}
+                            size="sm"
+                            variant="flat"
+                            color={delivery.ok ? "success" : "danger"}
+                            title={delivery.error}
+                          >
+                            {delivery.notifier === "in_app"
+                              ? "In-app"
+                              : "Webhook"}
+                          </Chip>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+function ApiKeyForm({
+  message,
+  onSubmit,
+}: {
+  message: string | null;
+  onSubmit: (key: string) => void;
+}) {
+  const [key, setKey] = useState("");
+
+  return (
+    <Card>
+      <CardBody className="space-y-3">
+        <div>
+          <p className="text-sm font-semibold">Alerts key required</p>
+          <p className="text-xs text-default-500">
+            Enter the server&apos;s ALERTS_API_SECRET. It is kept in this
+            browser only.
+          </p>
+        </div>
+        {message && <p className="text-xs text-danger">{message}</p>}
+        <div className="flex flex-wrap items-end gap-3">
+          <Input
+            size="sm"
+            type="password"
+            label="Alerts key"
+            className="max-w-xs"
+            value={key}
+            onValueChange={setKey}
+            onKeyDown={(event) =>
+              event.key === "Enter" && key.trim() && onSubmit(key.trim())
+            }
+          />
+          <Button
+            color="primary"
+            onPress={() => onSubmit(key.trim())}
+            isDisabled={!key.trim()}
+          >
+            Unlock
+          </Button>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+function AlertsPageContent() {
+  useTrackPageView({ pageTitle: "Alerts" });
+
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [runs, setRuns] = useState<AlertRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+  // Locked until the alert routes accept the stored key
+  const [isLocked, setIsLocked] = useState(false);
+  const [lockMessage, setLockMessage] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    const history = await fetchAlertHistory();
+    setEvents(history.events);
+    setRuns(history.runs);
+  }, []);
+
+  const loadAlerts = useCallback(() => {
+    setIsLoading(true);
+    Promise.all([fetchAlertRules().then(setRules), loadHistory()])
+      .then(() => setIsLocked(false))
+      .catch((error) => {
+        if (
+          error instanceof AlertApiError &&
+          (error.status === 401 || error.status === 503)
+        ) {
+          if (error.status === 401) setAlertsApiKey(null);
+          setIsLocked(true);
+          setLockMessage(error.status === 401 ? "Invalid key" : error.message);
+          return;
+        }
+        addToast({
+          title: "Failed to load alerts",
+          description: error instanceof Error ? error.message : "Unknown error",
+          color: "danger",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [loadHistory]);
+
+  useEffect(() => {
+    if (getAlertsApiKey()) {
+      loadAlerts();
+    } else {
+      setIsLocked(true);
+      setIsLoading(false);
+    }
+  }, [loadAlerts]);
+
+  const handleUnlock = (key: string) => {
+    setAlertsApiKey(key);
+    loadAlerts();
+  };
+
+  const handleLock = () => {
+    setAlertsApiKey(null);
+    setRules([]);
+    setEvents([]);
+    setRuns([]);
+    setLockMessage(null);
+    setIsLocked(true);
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      const updated = await setAlertRuleEnabled(rule.id, !rule.enabled);
+      setRules((current) =>
+        current.map((item) => (item.id === updated.id ? updated : item)),
+      );
+    } catch (error) {
+      addToast({
+        title: "Failed to update rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    try {
+      await deleteAlertRule(rule.id);
+      setRules((current) => current.filter((item) => item.id !== rule.id));
+    } catch (error) {
+      addToast({
+        title: "Failed to delete rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    }
+  };
+
+  const handleRunNow = async () => {
+    setIsRunning(true);
+    try {
+      const run = await runAlertRulesNow();
+      await loadHistory();
+      addToast({
+        title: "Rules Evaluated",
+        description: `${run.triggered} new alerts for ${run.date}`,
+        color: run.errors.length > 0 ? "warning" : "success",
+      });
+    } catch (error) {
+      addToast({
+        title: "Run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4 py-6 space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-xl font-bold">Alerts</h1>
+          <p className="text-xs text-default-500">
+            Rules are evaluated against the latest trading day whenever
+            /api/alerts/run is called (e.g. by cron each evening)
+          </p>
+        </div>
+        {!isLocked && (
+          <div className="flex gap-2">
+            <Button
+              variant="flat"
+              onPress={handleRunNow}
+              isLoading={isRunning}
+              isDisabled={rules.length === 0}
+            >
+              Run now
+            </Button>
+            <Button variant="light" onPress={handleLock}>
+              Lock
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" color="primary" />
+        </div>
+      ) : isLocked ? (
+        <ApiKeyForm message={lockMessage} onSubmit={handleUnlock} />
+      ) : (
+        <>
+          <RuleForm
+            onCreated={(rule) => setRules((current) => [...current, rule])}
+          />
+          <RuleList
+            rules={rules}
+            onToggle={handleToggle}
+            onDelete={handleDelete}
+          />
+          <EventHistory events={events} runs={runs} />
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function AlertsClient() {
+  return <AlertsPageContent />;
+}
@@ -0,0 +1,19 @@
+/**
+ * Alerts Server Wrapper
+ * Handles metadata for the alert rules page
+ */
+
+import { Metadata } from "next";
+import AlertsClient from "./client-page";
+
+export const metadata: Metadata = {
+  title: "Alerts - Haka-Haki Tools",
+  description: "Scheduled alert rules on broker flow and Big Player movements",
+};
+
+/**
+ * Server Component Wrapper
+ */
+export default function AlertsPage() {
+  return <AlertsClient />;
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { NotifierType } from "@/lib/alerts";
+import { authorizeAlertRequest } from "@/lib/alerts/auth";
+import { getAlertState } from "@/lib/alerts/store";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/alerts/events?since=&channel=&limit=
+ * Triggered alerts (newest first) plus the recent runs
+ * - since: only events triggered after this ISO timestamp
+ * - channel: only events delivered through this notifier (e.g. in_app)
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_API_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const { searchParams } = request.nextUrl;
+  const since = searchParams.get("since");
+  const channel = searchParams.get("channel") as NotifierType | null;
+  const limit = Math.min(Number(searchParams.get("limit")) || 100, 500);
+
+  const state = await getAlertState();
+  const events = state.events
+    .filter((event) => !since || event.triggeredAt > since)
+    .filter(
+      (event) =>
+        !channel ||
+        event.deliveries.some(
+          (delivery) => delivery.notifier === channel && delivery.ok,
+        ),
+    )
+    .slice(0, limit);
+
+  return NextResponse.json({
+    success: true,
+    data: { events, runs: state.runs.slice(0, 20) },
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { validateAlertRuleInput, type AlertRuleInput } from "@/lib/alerts";
+import { authorizeAlertRequest } from "@/lib/alerts/auth";
+import { updateAlertState } from "@/lib/alerts/store";
+
+export const dynamic = "force-dynamic";
+
+type Context = { params: Promise<{ id: string }> };
+
+/**
+ * PATCH /api/alerts/rules/:id
+ * `{ enabled }` toggles a rule; a full AlertRuleInput replaces it
+ */
+export async function PATCH(request: NextRequest, { params }: Context) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_API_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+
+  let body: Partial<AlertRuleInput>;
+  let input: AlertRuleInput | null = null;
+  try {
+    body = (await request.json()) as Partial<AlertRuleInput>;
+    if (!body || typeof body !== "object")
+      throw new Error("Request body must be a JSON object");
+    if (body.condition || body.notifiers || body.name) {
+      input = validateAlertRuleInput(body as AlertRuleInput);
+    }
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid rule",
+      },
+      { status: 400 },
+    );
+  }
+
+  const rule = await updateAlertState((state) => {
+    const existing = state.rules.find((item) => item.id === id);
+    if (!existing) return null;
+
+    if (input) {
+      existing.name = input.name;
+      existing.condition = input.condition;
+      existing.notifiers = input.notifiers;
+    }
+    if (typeof body.enabled === "boolean") existing.enabled = body.enabled;
+    existing.updatedAt = new Date().toISOString();
+    return existing;
+  });
+
+  if (!rule) {
+    return NextResponse.json(
+      { success: false, error: "Rule not found" },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json({ success: true, data: rule });
+}
+
+/**
+ * DELETE /api/alerts/rules/:id
+ * Removes the rule; its past events stay in the history
+ */
+export async function DELETE(request: NextRequest, { params }: Context) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_API_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const { id } = await params;
+
+  const removed = await updateAlertState((state) => {
+    const before = state.rules.length;
+    state.rules = state.rules.filter((rule) => rule.id !== id);
+    return state.rules.length < before;
+  });
+
+  if (!removed) {
+    return NextResponse.json(
+      { success: false, error: "Rule not found" },
+      { status: 404 },
+    );
+  }
+  return NextResponse.json({ success: true });
+}
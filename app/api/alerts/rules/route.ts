@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  ALERT_LIMITS,
+  validateAlertRuleInput,
+  type AlertRule,
+  type AlertRuleInput,
+} from "@/lib/alerts";
+import { authorizeAlertRequest } from "@/lib/alerts/auth";
+import {
+  createAlertId,
+  getAlertState,
+  updateAlertState,
+} from "@/lib/alerts/store";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/alerts/rules
+ * Lists the alert rules in creation order
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_API_SECRET");
+  if (unauthorized) return unauthorized;
+
+  const state = await getAlertState();
+  return NextResponse.json({ success: true, data: state.rules });
+}
+
+/**
+ * POST /api/alerts/rules
+ * Creates a rule from an AlertRuleInput body
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_API_SECRET");
+  if (unauthorized) return unauthorized;
+
+  let input: AlertRuleInput;
+  try {
+    input = validateAlertRuleInput((await request.json()) as AlertRuleInput);
+  } catch (error) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Invalid rule",
+      },
+      { status: 400 },
+    );
+  }
+
+  const rule = await updateAlertState((state) => {
+    if (state.rules.length >= ALERT_LIMITS.MAX_RULES) return null;
+
+    const now = new Date().toISOString();
+    const created: AlertRule = {
+      id: createAlertId("rule"),
+      name: input.name,
+      enabled: input.enabled !== false,
+      condition: input.condition,
+      notifiers: input.notifiers,
+      createdAt: now,
+      updatedAt: now,
+    };
+    state.rules.push(created);
+    return created;
+  });
+
+  if (!rule) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `At most ${ALERT_LIMITS.MAX_RULES} rules can be defined`,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({ success: true, data: rule }, { status: 201 });
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAlertRequest } from "@/lib/alerts/auth";
+import { runAlertRules } from "@/lib/alerts/scheduler";
+
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Cron trigger for the alert rules
+ * GET or POST /api/alerts/run?date=YYYY-MM-DD (date defaults to the latest trading day)
+ * Requires `Authorization: Bearer <ALERTS_CRON_SECRET>` and is refused while that secret
+ * is not configured; the alerts page's "Run now" may send ALERTS_API_SECRET instead.
+ *
+ * Example crontab (weekdays 18:30 WIB, after the Big Player data settles):
+ *   30 18 * * 1-5 curl -fsS -H "Authorization: Bearer $ALERTS_CRON_SECRET" http://localhost:9000/api/alerts/run
+ */
+async function handleRun(request: NextRequest) {
+  const unauthorized = authorizeAlertRequest(request, "ALERTS_CRON_SECRET", [
+    "ALERTS_API_SECRET",
+  ]);
+  if (unauthorized) return unauthorized;
+
+  const date = request.nextUrl.searchParams.get("date") || undefined;
+  if (date && !DATE_PATTERN.test(date)) {
+    return NextResponse.json(
+      { success: false, error: "date must be YYYY-MM-DD" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const run = await runAlertRules({ date });
+    return NextResponse.json({ success: true, data: run });
+  } catch (error) {
+    console.error("[Alerts] Run failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Alert run failed",
+      },
+      { status: 500 },
+    );
+  }
+}
+
+export const GET = handleRun;
+export const POST = handleRun;
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchAccessToken } from "@/lib/api/token";
+import { getRequestClientIP } from "@/lib/utils/client-ip";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/auth/token-expiry
+ * Expiry of the backend access token for the notification center, without the
+ * token itself (that stays behind the /token page password)
+ * `data` is null when no token is set.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = await fetchAccessToken({
+      clientIp: getRequestClientIP(request.headers) || undefined,
+    });
+    return NextResponse.json({
+      success: true,
+      data: token ? { exp: token.exp } : null,
+    });
+  } catch (error) {
+    console.error("[Token] Expiry check failed:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to read the access token" },
+      { status: 502 },
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  fetchBigPlayerMovement,
+  getCrawlTypeForDateRange,
+  type BigPlayerStreamEvent,
+} from "@/lib/api/bigplayer";
+import { createMovementAggregator } from "@/lib/utils/aggregation";
+import { getRequestClientIP } from "@/lib/utils/client-ip";
+
+/** Upper bound on backend pages per request (a year of PARTIAL data fits well within it) */
+const MAX_PAGES = 200;
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/big-players/aggregate?date_start=&date_end=
+ * Pulls every /big-players page server-side, aggregates incrementally and
+ * streams the changed groups plus progress as newline-delimited JSON.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const dateStart = searchParams.get("date_start");
+  const dateEnd = searchParams.get("date_end");
+
+  if (!dateStart || !dateEnd) {
+    return NextResponse.json(
+      { success: false, error: "date_start and date_end are required" },
+      { status: 400 },
+    );
+  }
+
+  const crawlType = getCrawlTypeForDateRange(dateStart, dateEnd);
+  // The backend sees this server, so pass the visitor's IP along
+  const clientIp = getRequestClientIP(request.headers) || undefined;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: BigPlayerStreamEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+
+      const aggregator = createMovementAggregator();
+      let page = 0;
+      let movements = 0;
+      let isMore = true;
+
+      try {
+        while (isMore && page < MAX_PAGES) {
+          page++;
+          const response = await fetchBigPlayerMovement(
+            {
+              dateStart,
+              dateEnd,
+              crawlType,
+              page: crawlType === "PARTIAL" ? page : undefined,
+            },
+            { signal: request.signal, clientIp },
+          );
+          const entries = response.data.movement;
+
+          movements += entries.length;
+          isMore = crawlType === "PARTIAL" && response.data.is_more;
+
+          const groups = aggregator.add(entries);
+          if (groups.length > 0) send({ type: "groups", groups });
+          send({
+            type: "progress",
+            page,
+            movements,
+            groups: aggregator.size,
+            isMore,
+          });
+        }
+
+        send({
+          type: "done",
+          pages: page,
+          movements,
+          groups: aggregator.size,
+          truncated: isMore,
+        });
+      } catch (error) {
+        // Nothing to report when the client went away
+        if (!request.signal.aborted) {
+          send({
+            type: "error",
+            message:
+              error instanceof Error
+                ? error.message
+                : "Failed to fetch Big Player Movement",
+          });
+        }
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client cancelled the stream
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
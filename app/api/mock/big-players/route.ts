@@ -0,0 +1,40 @@
+import { NextRequest } from "next/server";
+import { bigPlayersFixture } from "@/lib/mock/fixtures";
+import { isWithinRange, readSymbol } from "@/lib/mock/filters";
+import { mockResponse } from "@/lib/mock/handler";
+
+const PAGE_SIZE = 50;
+
+/**
+ * Mock of GET /big-players
+ * Filters movements by date_start/date_end (and optional symbol) and paginates PARTIAL crawls
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => {
+    const { searchParams } = request.nextUrl;
+    const symbol = readSymbol(searchParams);
+    const dateStart = searchParams.get("date_start");
+    const dateEnd = searchParams.get("date_end");
+
+    const movement = bigPlayersFixture.data.movement.filter(
+      (item) =>
+        isWithinRange(item.date, dateStart, dateEnd) &&
+        (!symbol || item.symbol === symbol),
+    );
+
+    if (searchParams.get("crawl_type") !== "PARTIAL") {
+      return { ...bigPlayersFixture, data: { is_more: false, movement } };
+    }
+
+    const page = Math.max(1, Number(searchParams.get("page")) || 1);
+    const start = (page - 1) * PAGE_SIZE;
+
+    return {
+      ...bigPlayersFixture,
+      data: {
+        is_more: start + PAGE_SIZE < movement.length,
+        movement: movement.slice(start, start + PAGE_SIZE),
+      },
+    };
+  });
+}
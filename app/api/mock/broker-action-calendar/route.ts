@@ -0,0 +1,150 @@
+import { NextRequest } from "next/server";
+import type { BrokerCalendarDay } from "@/lib/api/broker";
+import { brokerCalendarFixture, cloneFixture } from "@/lib/mock/fixtures";
+import {
+  formatMockNumber,
+  isWithinRange,
+  readSymbol,
+} from "@/lib/mock/filters";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Map requested broker codes onto fixture series
+ * Codes present in the fixture keep their own data, unknown codes borrow an unused series
+ */
+function mapBrokerSeries(requested: string[]): Record<string, string> {
+  const available = brokerCalendarFixture.brokers;
+  const codes = requested.length > 0 ? requested : available;
+  const unused = available.filter((code) => !codes.includes(code));
+  const mapping: Record<string, string> = {};
+
+  codes.forEach((code) => {
+    if (available.includes(code)) {
+      mapping[code] = code;
+    } else if (unused.length > 0) {
+      mapping[code] = unused.shift() as string;
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Mock of GET /broker-action-calendar
+ * Serves the calendar fixture for any symbol, filtered by date range and broker_code
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => {
+    const { searchParams } = request.nextUrl;
+    const symbol = readSymbol(searchParams);
+    const from = searchParams.get("from") || brokerCalendarFixture.range.from;
+    const to = searchParams.get("to") || brokerCalendarFixture.range.to;
+
+    if (!symbol) {
+      return mockError(400, "symbol is required");
+    }
+
+    const mapping = mapBrokerSeries(
+      searchParams.getAll("broker_code").map((code) => code.toUpperCase()),
+    );
+    const brokers = Object.keys(mapping);
+    const fixture = cloneFixture(brokerCalendarFixture);
+
+    const data: BrokerCalendarDay[] = fixture.data
+      .filter((day) => isWithinRange(day.date, from, to))
+      .map((day) => {
+        const dayBrokers: BrokerCalendarDay["brokers"] = {};
+        brokers.forEach((code) => {
+          const entry = day.brokers[mapping[code]];
+          if (entry) dayBrokers[code] = entry;
+        });
+
+        const totalValue = Object.values(dayBrokers).reduce(
+          (sum, b) => sum + b.value,
+          0,
+        );
+        const totalVolume = Object.values(dayBrokers).reduce(
+          (sum, b) => sum + b.volume,
+          0,
+        );
+
+        return {
+          ...day,
+          total_value: totalValue,
+          total_value_formatted: formatMockNumber(totalValue),
+          total_volume: totalVolume,
+          total_volume_formatted: formatMockNumber(totalVolume),
+          brokers: dayBrokers,
+        };
+      });
+
+    // Recompute the summary over the filtered days
+    let buyValue = 0;
+    let buyVolume = 0;
+    let sellValue = 0;
+    let sellVolume = 0;
+    const netByBroker: Record<string, number> = {};
+
+    data.forEach((day) => {
+      Object.entries(day.brokers).forEach(([code, entry]) => {
+        if (entry.value > 0) {
+          buyValue += entry.value;
+          buyVolume += entry.volume;
+        } else {
+          sellValue += Math.abs(entry.value);
+          sellVolume += Math.abs(entry.volume);
+        }
+        netByBroker[code] = (netByBroker[code] || 0) + entry.value;
+      });
+    });
+
+    const totalValue = buyValue - sellValue;
+    const totalVolume = buyVolume - sellVolume;
+    const trend = totalValue >= 0 ? "accumulation" : "distribution";
+    const ranked = Object.entries(netByBroker).sort((a, b) => b[1] - a[1]);
+    const first = data[0]?.close_price || 0;
+    const last = data[data.length - 1]?.close_price || 0;
+
+    return {
+      ...fixture,
+      symbol,
+      brokers,
+      range: { from, to },
+      summary: {
+        ...fixture.summary,
+        total_buy_value: buyValue,
+        total_buy_value_formatted: formatMockNumber(buyValue),
+        total_buy_volume: buyVolume,
+        total_buy_volume_formatted: formatMockNumber(buyVolume),
+        total_sell_value: sellValue,
+        total_sell_value_formatted: formatMockNumber(sellValue),
+        total_sell_volume: sellVolume,
+        total_sell_volume_formatted: formatMockNumber(sellVolume),
+        total_value: totalValue,
+        total_value_formatted: formatMockNumber(totalValue),
+        total_volume: totalVolume,
+        total_volume_formatted: formatMockNumber(totalVolume),
+        trend,
+        dominant_brokers: ranked
+          .filter(([, net]) => net > 0)
+          .map(([code]) => code),
+        distribution_brokers: ranked
+          .filter(([, net]) => net < 0)
+          .map(([code]) => code)
+          .reverse(),
+        price_movement: {
+          from: first,
+          to: last,
+          change: last - first,
+          change_pct:
+            first > 0 ? Number((((last - first) / first) * 100).toFixed(2)) : 0,
+        },
+        note:
+          trend === fixture.summary.trend
+            ? fixture.summary.note
+            : `Mock ${trend} phase for ${symbol}`,
+      },
+      data,
+    };
+  });
+}
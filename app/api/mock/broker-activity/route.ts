@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import {
+  brokerActivityFixture,
+  cloneFixture,
+  listBrokersFixture,
+} from "@/lib/mock/fixtures";
+import { readSymbol } from "@/lib/mock/filters";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Mock of GET /broker-activity
+ * Serves the activity fixture for any broker, optionally filtered by symbol
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => {
+    const { searchParams } = request.nextUrl;
+    const brokerCode = readSymbol(searchParams, "broker");
+    const symbol = readSymbol(searchParams);
+
+    if (!brokerCode) {
+      return mockError(400, "broker is required");
+    }
+
+    const broker = listBrokersFixture.data.find((b) => b.code === brokerCode);
+    if (!broker) {
+      return mockError(404, `Broker ${brokerCode} not found`);
+    }
+
+    const fixture = cloneFixture(brokerActivityFixture);
+
+    return {
+      ...fixture,
+      meta: {
+        ...fixture.meta,
+        broker_code: broker.code,
+        broker_name: broker.name,
+        date: searchParams.get("to") || fixture.meta.date,
+      },
+      stocks: {
+        ...fixture.stocks,
+        items: symbol
+          ? fixture.stocks.items.filter((item) => item.symbol === symbol)
+          : fixture.stocks.items,
+      },
+    };
+  });
+}
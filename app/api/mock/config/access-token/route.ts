@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+import { getMockAccessToken, setMockAccessToken } from "@/lib/mock/store";
+
+/**
+ * Mock of GET /config/access-token
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(
+    request,
+    () => getMockAccessToken() || mockError(404, "Access token not set"),
+  );
+}
+
+/**
+ * Mock of POST /config/access-token
+ */
+export async function POST(request: NextRequest) {
+  return mockResponse(request, async () => {
+    const { token } = (await request.json()) as { token?: string };
+
+    if (!token) {
+      return mockError(400, "token is required");
+    }
+
+    setMockAccessToken(token);
+    return { message: "Access token updated" };
+  });
+}
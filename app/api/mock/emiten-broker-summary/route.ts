@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { brokerSummaryFixture, cloneFixture } from "@/lib/mock/fixtures";
+import { readSymbol } from "@/lib/mock/filters";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Deterministic 0.6..1.4 factor so different periods return different totals
+ */
+function periodFactor(key: string): number {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return 0.6 + (hash % 81) / 100;
+}
+
+/**
+ * Mock of GET /emiten-broker-summary
+ * Serves the summary fixture for any symbol, scaled per requested period
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => {
+    const { searchParams } = request.nextUrl;
+    const symbol = readSymbol(searchParams);
+    const from =
+      searchParams.get("from") || brokerSummaryFixture.period?.from || "";
+    const to = searchParams.get("to") || brokerSummaryFixture.period?.to || "";
+
+    if (!symbol) {
+      return mockError(400, "symbol is required");
+    }
+
+    const fixture = cloneFixture(brokerSummaryFixture);
+    const factor = periodFactor(`${symbol}:${from}:${to}`);
+
+    return {
+      ...fixture,
+      symbol,
+      period: { from, to },
+      brokers_buy: fixture.brokers_buy.map((broker) => ({
+        ...broker,
+        stock_code: symbol,
+        buy_value: Math.round(broker.buy_value * factor),
+        buy_volume: Math.round(broker.buy_volume * factor),
+      })),
+      brokers_sell: fixture.brokers_sell.map((broker) => ({
+        ...broker,
+        stock_code: symbol,
+        sell_value: Math.round(broker.sell_value * factor),
+        sell_volume: Math.round(broker.sell_volume * factor),
+      })),
+    };
+  });
+}
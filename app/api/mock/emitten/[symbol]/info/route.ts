@@ -0,0 +1,18 @@
+import { NextRequest } from "next/server";
+import { cloneFixture, emittenInfoFixture } from "@/lib/mock/fixtures";
+import { mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Mock of GET /emitten/:symbol/info
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> },
+) {
+  const { symbol } = await params;
+
+  return mockResponse(request, () => {
+    const fixture = cloneFixture(emittenInfoFixture);
+    return { data: { ...fixture.data, symbol: symbol.toUpperCase() } };
+  });
+}
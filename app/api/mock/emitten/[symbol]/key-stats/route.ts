@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { emittenKeyStatsFixture } from "@/lib/mock/fixtures";
+import { mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Mock of GET /emitten/:symbol/key-stats
+ * The fixture is served for every symbol
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => emittenKeyStatsFixture);
+}
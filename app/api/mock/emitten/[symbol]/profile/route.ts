@@ -0,0 +1,11 @@
+import { NextRequest } from "next/server";
+import { emittenProfileFixture } from "@/lib/mock/fixtures";
+import { mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Mock of GET /emitten/:symbol/profile
+ * The fixture is served for every symbol
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => emittenProfileFixture);
+}
@@ -0,0 +1,10 @@
+import { NextRequest } from "next/server";
+import { listBrokersFixture } from "@/lib/mock/fixtures";
+import { mockResponse } from "@/lib/mock/handler";
+
+/**
+ * Mock of GET /list-brokers
+ */
+export async function GET(request: NextRequest) {
+  return mockResponse(request, () => listBrokersFixture);
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+import { mockShareLinks } from "@/lib/mock/store";
+
+/**
+ * Mock of GET /share-link/:slug
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> },
+) {
+  const { slug } = await params;
+
+  return mockResponse(request, () => {
+    const record = mockShareLinks.get(slug);
+    if (!record) {
+      return mockError(404, "Invalid or expired share link");
+    }
+
+    record.clickCount += 1;
+    record.remainingTime = Math.max(
+      0,
+      new Date(record.expiresAt).getTime() - Date.now(),
+    );
+    record.isValid = record.remainingTime > 0;
+
+    return { success: true, data: record };
+  });
+}
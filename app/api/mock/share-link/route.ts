@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import type { ShareLinkRequest } from "@/lib/api/share";
+import { mockError, mockResponse } from "@/lib/mock/handler";
+import { createMockShareLink, mockShareLinks } from "@/lib/mock/store";
+
+/**
+ * Mock of POST /share-link
+ */
+export async function POST(request: NextRequest) {
+  return mockResponse(request, async () => {
+    const body = (await request.json()) as ShareLinkRequest;
+
+    if (!body.symbol || !body.from || !body.to) {
+      return mockError(400, "symbol, from and to are required");
+    }
+
+    if (body.customSlug && mockShareLinks.has(body.customSlug)) {
+      return mockError(409, `Slug "${body.customSlug}" is already taken`);
+    }
+
+    const record = createMockShareLink(body);
+
+    return {
+      success: true,
+      data: {
+        slug: record.slug,
+        url: `${request.nextUrl.origin}/broker-calendar?share=${record.slug}`,
+        expiresAt: record.expiresAt,
+        createdAt: record.createdAt,
+        queryParams: record.queryParams,
+        isCustomSlug: record.isCustomSlug,
+      },
+    };
+  });
+}
@@ -14,9 +14,28 @@ import { Spinner } from "@heroui/spinner";
 import { addToast } from "@heroui/toast";
 import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
 import { useAnalytics } from "@/lib/hooks/useAnalytics";
+import { useBrokerDirectory } from "@/lib/hooks/useBrokerDirectory";
 import { useRouter } from "next/navigation";
-import { getClientIPSync } from "@/lib/utils/client-ip";
-import { BROKERS } from "@/data/brokers";
+import { fetchBrokerSummary } from "@/lib/api/broker";
+import {
+  getBrokerGroupCode,
+  getBrokerGroupColor,
+  getBrokerGroupTextColor,
+} from "@/lib/brokers";
+import {
+  BUCKET_COUNT_LIMITS,
+  bucketTradingDays,
+  countTradingDays,
+  formatTradingRangeLabel,
+  getLatestTradingDay,
+  getPresetRange,
+  parseTradingBucketing,
+  type TradingBucketing,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
 import { motion, AnimatePresence } from "framer-motion";
 
 interface BigBroksumClientProps {
@@ -38,6 +57,7 @@ interface PeriodData {
   periodLabel: string;
   startDate: string;
   endDate: string;
+  sessions: number;
   buyers: BrokerSummaryData[];
   sellers: BrokerSummaryData[];
 }
@@ -61,6 +81,7 @@ interface PeriodSummary {
 }
 
 interface ExecutiveSummaryData {
+  periodCount: number;
   totalNetFlow: number;
   accumulationPeriods: number;
   distributionPeriods: number;
@@ -79,40 +100,6 @@ interface ExecutiveSummaryData {
   groupDomination: Array<{ period: string; dominant: string }>;
 }
 
-// Helper function to generate random hex string for x-nonce header
-function generateNonce(): string {
-  return Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 16).toString(16)
-  ).join('');
-}
-
-// Helper function to get date based on preset
-function getDateByPreset(preset: string): string {
-  const date = new Date();
-  switch (preset) {
-    case '1week':
-      date.setDate(date.getDate() - 7);
-      break;
-    case '3months':
-      date.setMonth(date.getMonth() - 3);
-      break;
-    case '6months':
-      date.setMonth(date.getMonth() - 6);
-      break;
-    case '12months':
-      date.setFullYear(date.getFullYear() - 1);
-      break;
-    default:
-      date.setMonth(date.getMonth() - 6);
-  }
-  return date.toISOString().split('T')[0];
-}
-
-// Helper function to get today's date
-function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
-}
-
 // Helper function to format date for display
 function formatDate(dateString: string): string {
   return new Date(dateString).toLocaleDateString("en-US", {
@@ -122,71 +109,71 @@ function formatDate(dateString: string): string {
   });
 }
 
-// Divide period into 6 sub-periods
-function dividePeriodInto6(startDate: string, endDate: string): Array<{ label: string; startDate: string; endDate: string }> {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const totalDays = Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24));
-  const daysPerPeriod = Math.floor(totalDays / 6);
-
-  const periods: Array<{ label: string; startDate: string; endDate: string }> = [];
+const DEFAULT_PERIOD_COUNT = 6;
+const DEFAULT_BUCKETING: TradingBucketing = { mode: "count", count: DEFAULT_PERIOD_COUNT };
 
-  for (let i = 0; i < 6; i++) {
-    const periodStart = new Date(start);
-    periodStart.setDate(start.getDate() + (i * daysPerPeriod));
+// More periods than this would flood the broker summary API
+const MAX_PERIODS = 60;
+const PERIOD_FETCH_CONCURRENCY = 6;
 
-    const periodEnd = new Date(periodStart);
-    if (i === 5) {
-      // Last period goes to the end date
-      periodEnd.setTime(end.getTime());
-    } else {
-      periodEnd.setDate(periodStart.getDate() + daysPerPeriod - 1);
-    }
+const BUCKETING_MODES: Array<{ key: TradingBucketing["mode"]; label: string }> = [
+  { key: "count", label: "Equal Periods" },
+  { key: "weekly", label: "Weekly" },
+  { key: "monthly", label: "Monthly" },
+  { key: "custom", label: "Custom Breakpoints" },
+];
 
-    periods.push({
-      label: `Period ${i + 1}`,
-      startDate: periodStart.toISOString().split('T')[0],
-      endDate: periodEnd.toISOString().split('T')[0],
-    });
-  }
+// Divide the range into periods with real date-range labels
+function buildPeriods(
+  startDate: string,
+  endDate: string,
+  bucketing: TradingBucketing
+): Array<{ label: string; startDate: string; endDate: string; sessions: number }> {
+  const periods = bucketTradingDays(startDate, endDate, bucketing).map((bucket) => ({
+    label: formatTradingRangeLabel(bucket.startDate, bucket.endDate),
+    startDate: bucket.startDate,
+    endDate: bucket.endDate,
+    sessions: bucket.sessions,
+  }));
 
   return periods.reverse(); // Reverse to show most recent first
 }
 
+// Parse "2025-04-01, 2025-07-01" into breakpoint dates
+function parseBreakpoints(text: string): string[] {
+  return text
+    .split(/[\s,;]+/)
+    .map((value) => value.trim())
+    .filter((value) => /^\d{4}-\d{2}-\d{2}$/.test(value));
+}
+
+// Summary thresholds scale with the period count (6 periods: strong 5, moderate 4, consistent 3)
+function getSummaryThresholds(periodCount: number) {
+  return {
+    strong: Math.ceil((periodCount * 5) / 6),
+    moderate: Math.ceil((periodCount * 4) / 6),
+    consistent: Math.max(2, Math.ceil(periodCount / 2)),
+  };
+}
+
 // Fetch broker summary from API
-async function fetchBrokerSummary(
+async function fetchPeriodBrokerSummary(
   stockCode: string,
   startDate: string,
-  endDate: string
+  endDate: string,
+  signal?: AbortSignal
 ): Promise<{ buyers: BrokerSummaryData[]; sellers: BrokerSummaryData[] }> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/emiten-broker-summary';
-
-  const params = new URLSearchParams({
-    symbol: stockCode,
-    from: startDate,
-    to: endDate,
-  });
-
-  const url = `${baseUrl}${endpoint}?${params.toString()}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
+  const apiResponse = await fetchBrokerSummary(
+    {
+      symbol: stockCode,
+      from: startDate,
+      to: endDate,
     },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Broker Summary API Error: ${response.status} ${response.statusText}`);
-  }
-
-  const apiResponse = await response.json();
+    { signal }
+  );
 
   // Transform broker buy data
-  const buyBrokers = apiResponse.brokers_buy.map((broker: any) => ({
+  const buyBrokers = apiResponse.brokers_buy.map((broker) => ({
     broker: broker.broker_code,
     buyValue: broker.buy_value,
     buyLot: broker.buy_volume,
@@ -197,7 +184,7 @@ async function fetchBrokerSummary(
   }));
 
   // Transform broker sell data
-  const sellBrokers = apiResponse.brokers_sell.map((broker: any) => ({
+  const sellBrokers = apiResponse.brokers_sell.map((broker) => ({
     broker: broker.broker_code,
     buyValue: 0,
     buyLot: 0,
@@ -232,51 +219,6 @@ async function fetchBrokerSummary(
   };
 }
 
-// Helper function to get broker group color
-function getBrokerGroupColor(group: string): "primary" | "secondary" | "warning" | "default" {
-  switch (group) {
-    case "Asing":
-      return "warning";
-    case "Lokal":
-      return "secondary";
-    case "Pemerintah":
-      return "primary";
-    default:
-      return "default";
-  }
-}
-
-function getBrokerGroupCode(brokerCode: string): string {
-  const broker = BROKERS.find((b) => b.code === brokerCode);
-  return broker?.group || "";
-}
-
-function getBrokerGroupTextColor(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "text-warning";
-    case "Lokal":
-      return "text-secondary";
-    case "Pemerintah":
-      return "text-primary";
-    default:
-      return "text-default-700";
-  }
-}
-
-function getBrokerGroupDisplayName(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "Foreign";
-    case "Lokal":
-      return "Domestic";
-    case "Pemerintah":
-      return "BUMN";
-    default:
-      return group;
-  }
-}
-
 // Calculate period summary
 function calculatePeriodSummary(periodData: PeriodData): PeriodSummary {
   const totalBuyValue = periodData.buyers.reduce((sum, b) => sum + b.buyValue, 0);
@@ -351,13 +293,14 @@ function calculateExecutiveSummary(periodsData: PeriodData[]): ExecutiveSummaryD
   const totalNetFlow = periodSummaries.reduce((sum, s) => sum + s.netFlow, 0);
   const accumulationPeriods = periodSummaries.filter(s => s.phase === "accumulation").length;
   const distributionPeriods = periodSummaries.filter(s => s.phase === "distribution").length;
+  const thresholds = getSummaryThresholds(periodsData.length);
 
   // Trend pattern
   let trendPattern = "Mixed";
-  if (accumulationPeriods >= 5) trendPattern = "Strong Accumulation";
-  else if (accumulationPeriods >= 4) trendPattern = "Moderate Accumulation";
-  else if (distributionPeriods >= 5) trendPattern = "Strong Distribution";
-  else if (distributionPeriods >= 4) trendPattern = "Moderate Distribution";
+  if (accumulationPeriods >= thresholds.strong) trendPattern = "Strong Accumulation";
+  else if (accumulationPeriods >= thresholds.moderate) trendPattern = "Moderate Accumulation";
+  else if (distributionPeriods >= thresholds.strong) trendPattern = "Strong Distribution";
+  else if (distributionPeriods >= thresholds.moderate) trendPattern = "Moderate Distribution";
 
   // Most consistent buyers/sellers
   const buyerAppearance = new Map<string, string[]>();
@@ -376,13 +319,13 @@ function calculateExecutiveSummary(periodsData: PeriodData[]): ExecutiveSummaryD
   });
 
   const mostConsistentBuyers = Array.from(buyerAppearance.entries())
-    .filter(([_, periods]) => periods.length >= 3)
+    .filter(([_, periods]) => periods.length >= thresholds.consistent)
     .map(([broker, periods]) => ({ broker, count: periods.length, periods }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 10);
 
   const mostConsistentSellers = Array.from(sellerAppearance.entries())
-    .filter(([_, periods]) => periods.length >= 3)
+    .filter(([_, periods]) => periods.length >= thresholds.consistent)
     .map(([broker, periods]) => ({ broker, count: periods.length, periods }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 10);
@@ -410,7 +353,7 @@ function calculateExecutiveSummary(periodsData: PeriodData[]): ExecutiveSummaryD
   });
 
   brokerPositions.forEach((positions, broker) => {
-    if (positions.length >= 3) {
+    if (positions.length >= thresholds.consistent) {
       const positionString = positions.join(" → ");
       positionSwitchers.push({
         broker,
@@ -468,6 +411,7 @@ function calculateExecutiveSummary(periodsData: PeriodData[]): ExecutiveSummaryD
   });
 
   return {
+    periodCount: periodsData.length,
     totalNetFlow,
     accumulationPeriods,
     distributionPeriods,
@@ -483,6 +427,59 @@ function calculateExecutiveSummary(periodsData: PeriodData[]): ExecutiveSummaryD
   };
 }
 
+// Build the per-period buyer/seller export (raw values, one row per broker per period)
+function buildPeriodsExport(
+  periodsData: PeriodData[],
+  stockCode: string,
+  dateRange: { startDate: string; endDate: string } | null
+): ExportDocument {
+  type PeriodRow = BrokerSummaryData & { period: PeriodData };
+
+  const toRows = (side: "buyers" | "sellers"): PeriodRow[] =>
+    periodsData.flatMap((period) => period[side].map((broker) => ({ ...broker, period })));
+
+  const periodColumns = [
+    { header: "Period", value: (row: PeriodRow) => row.period.periodLabel },
+    { header: "Period Start", value: (row: PeriodRow) => row.period.startDate },
+    { header: "Period End", value: (row: PeriodRow) => row.period.endDate },
+    { header: "Sessions", value: (row: PeriodRow) => row.period.sessions },
+    { header: "Broker", value: (row: PeriodRow) => row.broker },
+    { header: "Group", value: (row: PeriodRow) => getBrokerGroupCode(row.broker) },
+  ];
+
+  return {
+    filename: buildExportFilename("big-broksum", stockCode, dateRange?.startDate, dateRange?.endDate),
+    metadata: {
+      Symbol: stockCode,
+      "Date From": dateRange?.startDate || "",
+      "Date To": dateRange?.endDate || "",
+      Periods: periodsData.length,
+    },
+    tables: [
+      {
+        name: "Buyers",
+        rows: toRows("buyers"),
+        columns: [
+          ...periodColumns,
+          { header: "Buy Value", value: (row: PeriodRow) => row.buyValue },
+          { header: "Buy Lot", value: (row: PeriodRow) => row.buyLot },
+          { header: "Buy Avg", value: (row: PeriodRow) => row.buyAvg },
+        ],
+      },
+      {
+        name: "Sellers",
+        rows: toRows("sellers"),
+        columns: [
+          ...periodColumns,
+          { header: "Sell Value", value: (row: PeriodRow) => row.sellValue },
+          { header: "Sell Lot", value: (row: PeriodRow) => row.sellLot },
+          { header: "Sell Avg", value: (row: PeriodRow) => row.sellAvg },
+        ],
+      },
+    ],
+  };
+}
+
 // Collapsible Section Component
 function CollapsibleSection({
   title,
@@ -577,13 +574,13 @@ function ExecutiveSummaryComponent({ data }: { data: ExecutiveSummaryData }) {
             {/* Accumulation */}
             <div className="bg-success/10 p-2.5 rounded border border-success/30">
               <p className="text-[8px] text-success mb-0.5">Accumulation</p>
-              <p className="text-lg font-bold text-success">{data.accumulationPeriods}/6</p>
+              <p className="text-lg font-bold text-success">{data.accumulationPeriods}/{data.periodCount}</p>
             </div>
 
             {/* Distribution */}
             <div className="bg-danger/10 p-2.5 rounded border border-danger/30">
               <p className="text-[8px] text-danger mb-0.5">Distribution</p>
-              <p className="text-lg font-bold text-danger">{data.distributionPeriods}/6</p>
+              <p className="text-lg font-bold text-danger">{data.distributionPeriods}/{data.periodCount}</p>
             </div>
 
             {/* Price Range */}
@@ -737,7 +734,12 @@ function BrokerSummaryTable({
   periodData: PeriodData;
   index: number;
 }) {
-  const summary = useMemo(() => calculatePeriodSummary(periodData), [periodData]);
+  // Group nets depend on the directory, so recompute after a broker list sync
+  const { version: directoryVersion } = useBrokerDirectory();
+  const summary = useMemo(
+    () => calculatePeriodSummary(periodData),
+    [periodData, directoryVersion]
+  );
 
   const formatCurrency = (value: number) => {
     const absValue = Math.abs(value);
@@ -768,7 +770,7 @@ function BrokerSummaryTable({
                 {periodData.periodLabel}
               </h3>
               <p className="text-[10px] text-default-500">
-                {formatDate(periodData.startDate)} - {formatDate(periodData.endDate)}
+                {periodData.sessions} trading session{periodData.sessions !== 1 ? "s" : ""}
               </p>
             </div>
             <Chip
@@ -977,6 +979,7 @@ function InputSection({
     startDate: string;
     endDate: string;
     periodPreset: string;
+    bucketing: TradingBucketing;
   }) => void;
   isAnalyzing: boolean;
 }) {
@@ -1000,30 +1003,55 @@ function InputSection({
   };
 
   const initialStockCode = getStoredValue('bigbroksum_stockCode', 'FORE');
-  const initialStartDate = getStoredValue('bigbroksum_startDate', getDateByPreset('6months'));
+  const initialStartDate = getStoredValue("bigbroksum_startDate", getPresetRange("6months").start);
 
   const [stockCode, setStockCode] = useState(initialStockCode);
   const [startDate, setStartDate] = useState(initialStartDate);
-  const [endDate, setEndDate] = useState(getTodayDate());
+  const [endDate, setEndDate] = useState(getLatestTradingDay());
   const [selectedPreset, setSelectedPreset] = useState<string>("6months");
   const [isCustomRange, setIsCustomRange] = useState(false);
   const [hasRestoredHistory, setHasRestoredHistory] = useState(false);
+  const [bucketing, setBucketing] = useState<TradingBucketing>(() => {
+    // Stale or hand-edited values fall back to the default
+    return parseTradingBucketing(getStoredValue("bigbroksum_bucketing", "")) || DEFAULT_BUCKETING;
+  });
+  const [periodCountInput, setPeriodCountInput] = useState(
+    String(bucketing.mode === "count" ? bucketing.count : DEFAULT_PERIOD_COUNT)
+  );
+  const [breakpointsText, setBreakpointsText] = useState(
+    bucketing.mode === "custom" ? bucketing.breakpoints.join(", ") : ""
+  );
+
+  const previewPeriods = useMemo(
+    () => bucketTradingDays(startDate, endDate, bucketing),
+    [startDate, endDate, bucketing]
+  );
+
+  const handleBucketingModeChange = (mode: TradingBucketing["mode"]) => {
+    if (mode === "count") {
+      setBucketing({ mode, count: Number(periodCountInput) || DEFAULT_PERIOD_COUNT });
+    } else if (mode === "custom") {
+      setBucketing({ mode, breakpoints: parseBreakpoints(breakpointsText) });
+    } else {
+      setBucketing({ mode });
+    }
+  };
 
   // Track history restoration on mount
   useEffect(() => {
-    if (initialStockCode !== 'FORE' || initialStartDate !== getDateByPreset('6months')) {
+    if (initialStockCode !== "FORE" || initialStartDate !== getPresetRange("6months").start) {
       trackBigBroksumHistoryRestored(initialStockCode, initialStartDate);
       setHasRestoredHistory(true);
     }
   }, []);
 
-  const handlePresetClick = (preset: string) => {
+  const handlePresetClick = (preset: TradingPreset) => {
     const previousPreset = selectedPreset;
     setSelectedPreset(preset);
     setIsCustomRange(false);
-    const newStartDate = getDateByPreset(preset);
-    setStartDate(newStartDate);
-    setEndDate(getTodayDate());
+    const range = getPresetRange(preset);
+    setStartDate(range.start);
+    setEndDate(range.end);
 
     // Track preset selection
     trackBigBroksumPresetSelected(
@@ -1042,6 +1070,24 @@ function InputSection({
       return;
     }
 
+    if (previewPeriods.length === 0) {
+      addToast({
+        title: "Validation Error",
+        description: "The selected range has no trading sessions",
+        color: "warning",
+      });
+      return;
+    }
+
+    if (previewPeriods.length > MAX_PERIODS) {
+      addToast({
+        title: "Too Many Periods",
+        description: `This division creates ${previewPeriods.length} periods. Use a shorter range or larger periods (max ${MAX_PERIODS}).`,
+        color: "warning",
+      });
+      return;
+    }
+
     // Track stock code entry
     trackBigBroksumStockCodeEntered(
       stockCode.toUpperCase(),
@@ -1052,7 +1098,8 @@ function InputSection({
       stockCode: stockCode.toUpperCase(),
       startDate,
       endDate,
-      periodPreset: isCustomRange ? 'custom' : selectedPreset
+      periodPreset: isCustomRange ? "custom" : selectedPreset,
+      bucketing,
     });
   };
 
@@ -1068,7 +1115,7 @@ function InputSection({
       <CardBody>
         <h2 className="text-lg font-bold mb-3">Big Broksum Analyzer 🤘</h2>
         <p className="text-xs text-default-500 mb-4">
-          Compare broker buy/sell positions across 6 time periods to detect position changes
+          Compare broker buy/sell positions across time periods to detect position changes
         </p>
 
         <div className="space-y-3">
@@ -1140,12 +1187,12 @@ function InputSection({
               Quick Select
             </label>
             <div className="flex flex-wrap gap-1.5">
-              {[
+              {([
                 { key: '1week', label: '1 Week' },
                 { key: '3months', label: '3 Months' },
                 { key: '6months', label: '6 Months' },
                 { key: '12months', label: '12 Months' },
-              ].map((preset) => (
+              ] as Array<{ key: TradingPreset; label: string }>).map((preset) => (
                 <Button
                   key={preset.key}
                   size="sm"
@@ -1162,14 +1209,75 @@ function InputSection({
             </div>
           </div>
 
+          {/* Period Division */}
+          <div>
+            <p className="block text-xs font-medium text-default-700 mb-1.5">
+              Period Division
+            </p>
+            <div className="flex flex-wrap gap-1.5">
+              {BUCKETING_MODES.map((mode) => (
+                <Button
+                  key={mode.key}
+                  size="sm"
+                  variant={bucketing.mode === mode.key ? "solid" : "flat"}
+                  color={bucketing.mode === mode.key ? "primary" : "default"}
+                  className={`text-xs px-3 h-7 ${
+                    bucketing.mode === mode.key ? "font-semibold" : ""
+                  }`}
+                  onPress={() => handleBucketingModeChange(mode.key)}
+                >
+                  {mode.label}
+                </Button>
+              ))}
+            </div>
+
+            {bucketing.mode === "count" && (
+              <Input
+                type="number"
+                label="Number of periods"
+                labelPlacement="outside-left"
+                min={BUCKET_COUNT_LIMITS.MIN}
+                max={BUCKET_COUNT_LIMITS.MAX}
+                value={periodCountInput}
+                onValueChange={(value) => {
+                  setPeriodCountInput(value);
+                  const count = Number(value);
+                  if (count >= BUCKET_COUNT_LIMITS.MIN && count <= BUCKET_COUNT_LIMITS.MAX) {
+                    setBucketing({ mode: "count", count });
+                  }
+                }}
+                onKeyDown={handleKeyDown}
+                size="sm"
+                className="mt-2"
+                classNames={{ label: "text-xs text-default-600", mainWrapper: "w-24" }}
+              />
+            )}
+
+            {bucketing.mode === "custom" && (
+              <Input
+                placeholder="e.g., 2025-04-01, 2025-07-01, 2025-10-01"
+                description="Each date starts a new period"
+                value={breakpointsText}
+                onValueChange={(value) => {
+                  setBreakpointsText(value);
+                  setBucketing({ mode: "custom", breakpoints: parseBreakpoints(value) });
+                }}
+                onKeyDown={handleKeyDown}
+                size="sm"
+                className="mt-2"
+                classNames={{ input: "text-sm" }}
+              />
+            )}
+          </div>
+
           {/* Period Info */}
           <div className="bg-default-100 p-2 rounded-lg">
             <p className="text-[10px] text-default-600">
-              <span className="font-semibold">Period Division:</span> The selected range will be divided into 6 equal periods.
-              {selectedPreset === '12months' && " Each period = 2 months"}
-              {selectedPreset === '6months' && " Each period = 1 month"}
-              {selectedPreset === '3months' && " Each period = ~2 weeks"}
-              {selectedPreset === '1week' && " Each period = ~1 day"}
+              <span className="font-semibold">Period Division:</span> The selected range ({countTradingDays(startDate, endDate)} trading sessions) will be divided into {previewPeriods.length} period{previewPeriods.length !== 1 ? "s" : ""}
+              {previewPeriods.length > 0 && ` of ~${Math.round(countTradingDays(startDate, endDate) / previewPeriods.length)} sessions each`}.
+              {previewPeriods.length > MAX_PERIODS && (
+                <span className="text-warning font-semibold"> Too many periods (max {MAX_PERIODS}).</span>
+              )}
             </p>
           </div>
 
@@ -1384,6 +1492,7 @@ function ChartFloatingButton({
 // Main page component
 function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
   const router = useRouter();
+  useBrokerDirectory();
 
   // Track page view
   useTrackPageView({
@@ -1409,6 +1518,7 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
 
   const [periodsData, setPeriodsData] = useState<PeriodData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadingPeriodCount, setLoadingPeriodCount] = useState(0);
   const [stockCode, setStockCode] = useState<string>("");
   const [dateRange, setDateRange] = useState<{ startDate: string; endDate: string } | null>(null);
   const [analysisStartTime, setAnalysisStartTime] = useState<number>(0);
@@ -1418,12 +1528,20 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
   const [isChartModalOpen, setIsChartModalOpen] = useState(false);
   const [chartSymbol, setChartSymbol] = useState<string | null>(null);
 
+  // A newer analysis cancels the one still loading
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+
   const handleAnalyze = async (data: {
     stockCode: string;
     startDate: string;
     endDate: string;
     periodPreset: string;
+    bucketing: TradingBucketing;
   }) => {
+    analyzeAbortRef.current?.abort();
+    const controller = new AbortController();
+    analyzeAbortRef.current = controller;
+
     setIsLoading(true);
     setStockCode(data.stockCode);
     setDateRange({ startDate: data.startDate, endDate: data.endDate });
@@ -1439,19 +1557,28 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
     );
 
     try {
-      // Divide the period into 6 sub-periods
-      const periods = dividePeriodInto6(data.startDate, data.endDate);
+      // Divide the range into the selected periods
+      const periods = buildPeriods(data.startDate, data.endDate, data.bucketing);
+      setLoadingPeriodCount(periods.length);
 
       let apiCallStart = Date.now();
       let successCount = 0;
       let failCount = 0;
+      let firstError: unknown = null;
 
-      // Fetch data for all periods in parallel
-      const results = await Promise.all(
-        periods.map(async (period) => {
+      // Fetch data for all periods, a few at a time
+      const results = await mapWithConcurrency(
+        periods,
+        PERIOD_FETCH_CONCURRENCY,
+        async (period) => {
           const callStart = Date.now();
           try {
-            const summary = await fetchBrokerSummary(data.stockCode, period.startDate, period.endDate);
+            const summary = await fetchPeriodBrokerSummary(
+              data.stockCode,
+              period.startDate,
+              period.endDate,
+              controller.signal
+            );
             const callDuration = Date.now() - callStart;
 
             // Track individual API call performance
@@ -1468,6 +1595,7 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
               periodLabel: period.label,
               startDate: period.startDate,
               endDate: period.endDate,
+              sessions: period.sessions,
               buyers: summary.buyers,
               sellers: summary.sellers,
             };
@@ -1484,17 +1612,22 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
             );
 
             console.error(`Failed to fetch data for ${period.label}:`, error);
+            firstError = firstError || error;
             return {
               periodLabel: period.label,
               startDate: period.startDate,
               endDate: period.endDate,
+              sessions: period.sessions,
               buyers: [],
               sellers: [],
             };
           }
-        })
+        }
       );
 
+      // Superseded by a newer analysis
+      if (controller.signal.aborted) return;
+
       const totalDuration = Date.now() - apiCallStart;
 
       // Track API batch completed
@@ -1505,11 +1638,20 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
         failCount
       );
 
+      if (firstError) {
+        addToast({
+          title: `${failCount} period(s) failed to load`,
+          description: firstError instanceof Error ? firstError.message : "Unknown error",
+          color: "warning",
+        });
+      }
+
       // Save to localStorage for next time
       if (typeof window !== 'undefined') {
         try {
           localStorage.setItem('bigbroksum_stockCode', JSON.stringify(data.stockCode));
           localStorage.setItem('bigbroksum_startDate', JSON.stringify(data.startDate));
+          localStorage.setItem("bigbroksum_bucketing", JSON.stringify(data.bucketing));
         } catch (error) {
           console.error('Failed to save to localStorage:', error);
         }
@@ -1529,6 +1671,8 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
       // Set chart symbol for TradingView
       setChartSymbol(data.stockCode.toUpperCase());
     } catch (error) {
+      if (controller.signal.aborted) return;
+
       // Track analysis failed
       trackBigBroksumAnalysisFailed(
         data.stockCode,
@@ -1543,7 +1687,7 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
         color: "danger",
       });
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) setIsLoading(false);
     }
   };
 
@@ -1616,7 +1760,7 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
             className="flex flex-col items-center justify-center py-20"
           >
             <Spinner size="lg" color="primary" />
-            <p className="text-sm text-default-500 mt-4">Analyzing broker movements across 6 periods...</p>
+            <p className="text-sm text-default-500 mt-4">Analyzing broker movements across {loadingPeriodCount} periods...</p>
           </motion.div>
         )}
 
@@ -1636,21 +1780,28 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
                   {dateRange && `${formatDate(dateRange.startDate)} - ${formatDate(dateRange.endDate)}`}
                 </p>
               </div>
-              <Button
-                size="sm"
-                variant="flat"
-                onPress={() => {
-                  // Track new analysis button
-                  trackBigBroksumNewAnalysis(stockCode, analysesInSession);
-
-                  setPeriodsData([]);
-                  setStockCode("");
-                  setDateRange(null);
-                  setChartSymbol(null);
-                }}
-              >
-                New Analysis
-              </Button>
+              <div className="flex items-center gap-2">
+                <ExportMenu
+                  getDocument={() => buildPeriodsExport(periodsData, stockCode, dateRange)}
+                  dataType="full"
+                  source="big_broksum_periods"
+                />
+                <Button
+                  size="sm"
+                  variant="flat"
+                  onPress={() => {
+                    // Track new analysis button
+                    trackBigBroksumNewAnalysis(stockCode, analysesInSession);
+  
+                    setPeriodsData([]);
+                    setStockCode("");
+                    setDateRange(null);
+                    setChartSymbol(null);
+                  }}
+                >
+                  New Analysis
+                </Button>
+              </div>
             </div>
 
             {/* Executive Summary */}
@@ -1662,14 +1813,14 @@ function BigBroksumPage({ shareSlug }: { shareSlug?: string }) {
               <ExecutiveSummaryComponent data={calculateExecutiveSummary(periodsData)} />
             </motion.div>
 
-            {/* 6 Broker Summary Tables */}
+            {/* Broker Summary Table per Period */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {periodsData.map((periodData, index) => (
                 <motion.div
                   key={periodData.periodLabel}
                   initial={{ opacity: 0, scale: 0.9 }}
                   animate={{ opacity: 1, scale: 1 }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: Math.min(index, 12) * 0.1 }}
                 >
                   <BrokerSummaryTable periodData={periodData} index={index} />
                 </motion.div>
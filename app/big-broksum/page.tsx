@@ -4,6 +4,7 @@
  */
 
 import { Metadata } from "next";
+import { getSharedLink } from "@/lib/api/share";
 import BigBroksumClient from "./client-page";
 
 type Props = {
@@ -28,18 +29,10 @@ export async function generateMetadata(
   }
 
   try {
-    // Generate nonce for server-side fetch
-    const nonce = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
-
     // Fetch share data for OG tags
-    const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api-idx.gsphomelab.org';
-    const response = await fetch(`${baseUrl}/api/v1/share-link/${share}`, {
-      headers: { 'X-Nonce': nonce },
-      cache: 'no-store',
-    });
+    const result = await getSharedLink(share, "no-store");
 
-    if (response.ok) {
-      const result = await response.json();
+    if (result.success) {
       const data = result.data;
       const frontendUrl = process.env.NEXT_PUBLIC_FRONTEND_URL || 'https://hakahakitools.gsphomelab.org';
 
@@ -1,25 +1,155 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { BigPlayerTable } from "@/components/bigplayer/Table";
 import { FilterBar } from "@/components/bigplayer/FilterBar";
+import { HolderTimeline } from "@/components/bigplayer/HolderTimeline";
 import {
   fetchBigPlayerMovement,
   getCrawlTypeForDateRange,
+  streamBigPlayerAggregation,
 } from "@/lib/api/bigplayer";
 import {
+  AGGREGATION_GROUPINGS,
   aggregateBigPlayerMovements,
   filterBySymbol,
+  filterBySymbols,
   filterByActionType,
   sortEntries,
+  type AggregationGrouping,
 } from "@/lib/utils/aggregation";
-import { formatDateRange } from "@/lib/utils/format";
-import { BigPlayerMovementAggregated, DatePreset } from "@/components/bigplayer/types";
+import { formatDateRange, parseLargeNumber, parsePercentage } from "@/lib/utils/format";
+import { getPresetRange } from "@/lib/utils/trading-calendar";
+import { getHolderRef, type HolderRef } from "@/lib/utils/holder-timeline";
+import {
+  describeAdvancedFilters,
+  filterByThresholds,
+  filterMovements,
+  hasMovementFilters,
+  serializeBigPlayerFilters,
+  type BigPlayerAdvancedFilters,
+  type BigPlayerUrlState,
+} from "@/lib/utils/bigplayer-filters";
+import {
+  BigPlayerMovementAggregated,
+  BigPlayerMovementRaw,
+  DatePreset,
+} from "@/components/bigplayer/types";
 import { Card } from "@heroui/card";
 import { Button } from "@heroui/button";
+import { addToast } from "@heroui/toast";
 import { useAnalytics } from "@/lib/hooks/useAnalytics";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
+import { publishNotification } from "@/lib/notifications";
+
+interface ExportFilters {
+  dateStart: string;
+  dateEnd: string;
+  symbolSearch: string;
+  actionType: string;
+  grouping: AggregationGrouping;
+  advanced: BigPlayerAdvancedFilters;
+  watchlist?: string;
+}
+
+// Strip the enum prefix, e.g. "ACTION_TYPE_BUY" -> "BUY"
+function enumLabel(value: string): string {
+  return value.replace(/^(ACTION_TYPE|NATIONALITY_TYPE|SOURCE_TYPE|BROKER_GROUP|SHAREHOLDER_BADGE)_/, "");
+}
+
+// Build the Big Player export, either one row per aggregated entry or one row per raw movement
+function buildBigPlayerExport(
+  data: BigPlayerMovementAggregated[],
+  filters: ExportFilters,
+  expandRaw: boolean
+): ExportDocument {
+  const metadata = {
+    "Date From": filters.dateStart,
+    "Date To": filters.dateEnd,
+    Symbol: filters.symbolSearch || "All",
+    Watchlist: filters.watchlist || "",
+    "Action Type": filters.actionType,
+    Grouping: AGGREGATION_GROUPINGS.find((option) => option.key === filters.grouping)?.label || filters.grouping,
+    "Advanced Filters": describeAdvancedFilters(filters.advanced) || "None",
+  };
+  const filename = buildExportFilename(
+    "bigplayer-movement",
+    expandRaw ? "raw" : undefined,
+    filters.symbolSearch,
+    filters.dateStart,
+    filters.dateEnd
+  );
+
+  if (expandRaw) {
+    return {
+      filename,
+      metadata,
+      tables: [
+        {
+          name: "Raw Movements",
+          rows: data.flatMap((entry) => entry.raw_entries),
+          columns: [
+            { header: "Date", value: (row: BigPlayerMovementRaw) => row.date },
+            { header: "Symbol", value: (row: BigPlayerMovementRaw) => row.symbol },
+            { header: "Name", value: (row: BigPlayerMovementRaw) => row.name },
+            { header: "CMH ID", value: (row: BigPlayerMovementRaw) => row.cmh_id },
+            { header: "Action", value: (row: BigPlayerMovementRaw) => enumLabel(row.action_type) },
+            { header: "Nationality", value: (row: BigPlayerMovementRaw) => enumLabel(row.nationality) },
+            { header: "Badges", value: (row: BigPlayerMovementRaw) => row.badges.map(enumLabel).join(", ") },
+            { header: "Previous Value", value: (row: BigPlayerMovementRaw) => parseLargeNumber(row.previous.value) },
+            { header: "Previous %", value: (row: BigPlayerMovementRaw) => parsePercentage(row.previous.percentage) },
+            { header: "Current Value", value: (row: BigPlayerMovementRaw) => parseLargeNumber(row.current.value) },
+            { header: "Current %", value: (row: BigPlayerMovementRaw) => parsePercentage(row.current.percentage) },
+            { header: "Change Value", value: (row: BigPlayerMovementRaw) => parseLargeNumber(row.changes.value) },
+            { header: "Change %", value: (row: BigPlayerMovementRaw) => parsePercentage(row.changes.percentage) },
+            { header: "Price", value: (row: BigPlayerMovementRaw) => parseLargeNumber(row.price_formatted) },
+            { header: "Broker", value: (row: BigPlayerMovementRaw) => row.broker_detail?.code || "" },
+            { header: "Source", value: (row: BigPlayerMovementRaw) => row.data_source.label },
+          ],
+        },
+      ],
+    };
+  }
+
+  return {
+    filename,
+    metadata,
+    tables: [
+      {
+        name: "Big Player Movement",
+        rows: data,
+        columns: [
+          { header: "Date", value: (row: BigPlayerMovementAggregated) => row.date },
+          { header: "First Date", value: (row: BigPlayerMovementAggregated) => row.date_start },
+          { header: "Last Date", value: (row: BigPlayerMovementAggregated) => row.date_end },
+          { header: "Symbol", value: (row: BigPlayerMovementAggregated) => row.symbol },
+          { header: "Name", value: (row: BigPlayerMovementAggregated) => row.name },
+          { header: "Action", value: (row: BigPlayerMovementAggregated) => enumLabel(row.action_type) },
+          { header: "Nationality", value: (row: BigPlayerMovementAggregated) => enumLabel(row.nationality) },
+          { header: "Badges", value: (row: BigPlayerMovementAggregated) => row.badges.map(enumLabel).join(", ") },
+          { header: "Previous Value", value: (row: BigPlayerMovementAggregated) => parseLargeNumber(row.previous_holding_value) },
+          { header: "Previous %", value: (row: BigPlayerMovementAggregated) => parsePercentage(row.previous_holding_percentage) },
+          { header: "Current Value", value: (row: BigPlayerMovementAggregated) => parseLargeNumber(row.current_holding_value) },
+          { header: "Current %", value: (row: BigPlayerMovementAggregated) => parsePercentage(row.current_holding_percentage) },
+          { header: "Change Value", value: (row: BigPlayerMovementAggregated) => row.total_change_value },
+          { header: "Change %", value: (row: BigPlayerMovementAggregated) => row.avg_change_percentage },
+          { header: "Brokers", value: (row: BigPlayerMovementAggregated) => row.brokers.join(", ") },
+          { header: "Sources", value: (row: BigPlayerMovementAggregated) => row.sources.map(enumLabel).join(", ") },
+          { header: "Entries", value: (row: BigPlayerMovementAggregated) => row.entry_count },
+        ],
+      },
+    ],
+  };
+}
 
-export default function BigPlayerMovementClientPage() {
+interface BigPlayerMovementClientPageProps {
+  /** Filter state read from the URL */
+  initialFilters?: BigPlayerUrlState;
+}
+
+export default function BigPlayerMovementClientPage({ initialFilters }: BigPlayerMovementClientPageProps) {
   // Analytics
   const {
     trackBigPlayerMovementView,
@@ -30,137 +160,199 @@ export default function BigPlayerMovementClientPage() {
   } = useAnalytics();
 
   // Filters state
-  const [datePreset, setDatePreset] = useState<DatePreset>("today");
-  const [dateStart, setDateStart] = useState("");
-  const [dateEnd, setDateEnd] = useState("");
-  const [symbolSearch, setSymbolSearch] = useState("");
-  const [actionType, setActionType] = useState<"all" | "buy" | "sell" | "other">("all");
+  const [datePreset, setDatePreset] = useState<DatePreset>(initialFilters?.datePreset || "today");
+  const [dateStart, setDateStart] = useState(initialFilters?.dateStart || "");
+  const [dateEnd, setDateEnd] = useState(initialFilters?.dateEnd || "");
+  const [symbolSearch, setSymbolSearch] = useState(initialFilters?.symbolSearch || "");
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  // Symbols from a shared link that match none of this browser's watchlists
+  const [sharedSymbols, setSharedSymbols] = useState<string[]>(initialFilters?.symbols || []);
+  const [actionType, setActionType] = useState<"all" | "buy" | "sell" | "other">(initialFilters?.actionType || "all");
+  const [grouping, setGrouping] = useState<AggregationGrouping>(initialFilters?.grouping || "day");
+  const [advancedFilters, setAdvancedFilters] = useState<BigPlayerAdvancedFilters>(() => ({
+    nationalities: initialFilters?.nationalities || [],
+    sources: initialFilters?.sources || [],
+    badges: initialFilters?.badges || [],
+    brokerGroups: initialFilters?.brokerGroups || [],
+    excludeCross: initialFilters?.excludeCross || false,
+    minChangeValue: initialFilters?.minChangeValue ?? null,
+    maxChangeValue: initialFilters?.maxChangeValue ?? null,
+    minHoldingPercentage: initialFilters?.minHoldingPercentage ?? null,
+  }));
 
   // Data state
-  const [allRawData, setAllRawData] = useState<any[]>([]);
+  const [aggregatedData, setAggregatedData] = useState<BigPlayerMovementAggregated[]>([]);
   const [displayData, setDisplayData] = useState<BigPlayerMovementAggregated[]>([]);
 
+  // Raw movements behind the aggregated groups (holder timeline, page view tracking)
+  const allRawData = useMemo(() => aggregatedData.flatMap((entry) => entry.raw_entries), [aggregatedData]);
+
+  // Fetches and streams always aggregate per day; other groupings and per-movement
+  // filters are rebuilt from the raw movements
+  const groupedData = useMemo(() => {
+    if (grouping === "day" && !hasMovementFilters(advancedFilters)) return aggregatedData;
+    return aggregateBigPlayerMovements(filterMovements(allRawData, advancedFilters), grouping);
+  }, [aggregatedData, allRawData, grouping, advancedFilters]);
+
+  // Holder timeline modal
+  const [selectedHolder, setSelectedHolder] = useState<HolderRef | null>(null);
+
   // Loading state
   const [loading, setLoading] = useState(false);
-  const [loadingMore, setLoadingMore] = useState(false);
 
-  // Pagination state
-  const [currentPage, setCurrentPage] = useState(1);
-  const [hasMore, setHasMore] = useState(false);
+  // Streaming state (PARTIAL ranges are aggregated server-side)
   const [isPartialMode, setIsPartialMode] = useState(false);
-  const [hasScrolled, setHasScrolled] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamProgress, setStreamProgress] = useState<{ pages: number; movements: number; truncated: boolean } | null>(null);
+  const fetchAbortRef = useRef<AbortController | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
 
-  // Observer for infinite scroll
-  const observerTarget = useRef<HTMLDivElement>(null);
+  // Watchlist used as a symbol filter
+  const watchlists = useWatchlists();
+  const activeWatchlist = watchlists.find((list) => list.id === watchlistId) || null;
+  const symbolFilter = activeWatchlist ? activeWatchlist.symbols : sharedSymbols;
+  const watchlistLabel = activeWatchlist?.name || (sharedSymbols.length > 0 ? `Shared: ${sharedSymbols.join(", ")}` : undefined);
 
-  // Get date range based on preset
-  const getDateRange = useCallback((preset: DatePreset) => {
-    const today = new Date();
-    const endDate = today.toISOString().split("T")[0];
-
-    let startDate = endDate;
-
-    switch (preset) {
-      case "today":
-        startDate = endDate;
-        break;
-      case "3days":
-        today.setDate(today.getDate() - 3);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "5days":
-        today.setDate(today.getDate() - 5);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "7days":
-        today.setDate(today.getDate() - 7);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "1month":
-        today.setMonth(today.getMonth() - 1);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "3months":
-        today.setMonth(today.getMonth() - 3);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "6months":
-        today.setMonth(today.getMonth() - 6);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "1year":
-        today.setFullYear(today.getFullYear() - 1);
-        startDate = today.toISOString().split("T")[0];
-        break;
-      case "custom":
-        // Use custom dates from state
-        return { start: dateStart, end: dateEnd };
+  // Select the local watchlist holding exactly the symbols of a shared link
+  useEffect(() => {
+    if (sharedSymbols.length === 0) return;
+    const key = [...sharedSymbols].sort().join(",");
+    const match = watchlists.find((list) => [...list.symbols].sort().join(",") === key);
+    if (match) {
+      setWatchlistId(match.id);
+      setSharedSymbols([]);
     }
+  }, [watchlists, sharedSymbols]);
 
-    return { start: startDate, end: endDate };
+  // Get date range based on preset (trading sessions in WIB)
+  const getDateRange = useCallback((preset: DatePreset) => {
+    if (preset === "custom") {
+      return { start: dateStart, end: dateEnd };
+    }
+    return getPresetRange(preset);
   }, [dateStart, dateEnd]);
 
+  // Stream a PARTIAL range from the aggregation route; groups replace earlier versions by key
+  const streamData = useCallback(
+    async (start: string, end: string, startTime: number, signal: AbortSignal) => {
+      const groupsByKey = new Map<string, BigPlayerMovementAggregated>();
+      let loadedMovements = 0;
+
+      setIsStreaming(true);
+      setStreamProgress({ pages: 0, movements: 0, truncated: false });
+
+      try {
+        const result = await streamBigPlayerAggregation(
+          start,
+          end,
+          (event) => {
+            if (event.type === "groups") {
+              event.groups.forEach((group) => groupsByKey.set(group.key, group));
+              setAggregatedData(Array.from(groupsByKey.values()));
+              setLoading(false);
+            } else if (event.type === "progress") {
+              // Track each page after the first like the former infinite scroll did
+              if (event.page > 1) {
+                trackBigPlayerLoadMore(event.page, event.movements - loadedMovements, event.movements);
+              }
+              loadedMovements = event.movements;
+              setStreamProgress({ pages: event.page, movements: event.movements, truncated: false });
+            }
+          },
+          signal
+        );
+
+        setStreamProgress({ pages: result.pages, movements: result.movements, truncated: result.truncated });
+        if (result.truncated) {
+          addToast({
+            title: "Range Truncated",
+            description: `Only the first ${result.pages} pages were loaded. Narrow the date range for complete results.`,
+            color: "warning",
+          });
+        }
+
+        // Long ranges take a while; leave a note that links back to the same range
+        publishNotification({
+          category: "analysis",
+          level: result.truncated ? "warning" : "success",
+          title: result.truncated ? "Big Player crawl truncated" : "Big Player crawl finished",
+          message: `${formatDateRange(start, end)}: ${result.movements} movements from ${result.pages} pages, ${groupsByKey.size} rows.`,
+          href: `/bigplayer-movement?${new URLSearchParams({ preset: "custom", from: start, to: end })}`,
+        });
+
+        trackBigPlayerDataFetched(start, end, "PARTIAL", result.movements, true, Date.now() - startTime);
+      } finally {
+        if (!signal.aborted) setIsStreaming(false);
+      }
+    },
+    [trackBigPlayerDataFetched, trackBigPlayerLoadMore]
+  );
+
   // Fetch data
   const fetchData = useCallback(
-    async (page: number = 1, append: boolean = false, startOverride?: string, endOverride?: string) => {
+    async (startOverride?: string, endOverride?: string) => {
       const { start, end } = startOverride && endOverride
         ? { start: startOverride, end: endOverride }
         : getDateRange(datePreset);
 
       if (!start || !end) return;
 
+      // A new range cancels the previous request or stream
+      fetchAbortRef.current?.abort();
+      const controller = new AbortController();
+      fetchAbortRef.current = controller;
+
       const crawlType = getCrawlTypeForDateRange(start, end);
       setIsPartialMode(crawlType === "PARTIAL");
+      setIsStreaming(false);
+      setStreamProgress(null);
+      setAggregatedData([]);
 
       const startTime = Date.now();
 
       try {
-        if (append) {
-          setLoadingMore(true);
-        } else {
-          setLoading(true);
+        setLoading(true);
+
+        if (crawlType === "PARTIAL") {
+          await streamData(start, end, startTime, controller.signal);
+          return;
         }
 
-        const response = await fetchBigPlayerMovement({
-          dateStart: start,
-          dateEnd: end,
-          crawlType,
-          page: crawlType === "PARTIAL" ? page : undefined,
-        });
+        const response = await fetchBigPlayerMovement(
+          {
+            dateStart: start,
+            dateEnd: end,
+            crawlType,
+          },
+          { signal: controller.signal }
+        );
 
         const durationMs = Date.now() - startTime;
 
         if (response.data && response.data.movement) {
-          const recordCount = response.data.movement.length;
-
-          if (append) {
-            setAllRawData((prev) => {
-              const newLength = prev.length + recordCount;
-              // Track load more with actual results loaded
-              trackBigPlayerLoadMore(page, recordCount, newLength);
-              return [...prev, ...response.data.movement];
-            });
-          } else {
-            setAllRawData(response.data.movement);
-          }
-
-          setHasMore(response.data.is_more || false);
-          setCurrentPage(page);
+          setAggregatedData(aggregateBigPlayerMovements(response.data.movement));
 
           // Track data fetched
           trackBigPlayerDataFetched(
             start,
             end,
             crawlType,
-            recordCount,
+            response.data.movement.length,
             true,
             durationMs
           );
         }
       } catch (error) {
+        // Superseded by a newer range
+        if (controller.signal.aborted) return;
+
         const durationMs = Date.now() - startTime;
         console.error("Failed to fetch Big Player Movement:", error);
+        addToast({
+          title: "Failed to fetch Big Player Movement",
+          description: error instanceof Error ? error.message : "Unknown error",
+          color: "danger",
+        });
 
         // Track fetch failure
         trackBigPlayerDataFetched(
@@ -172,27 +364,34 @@ export default function BigPlayerMovementClientPage() {
           durationMs
         );
       } finally {
-        setLoading(false);
-        setLoadingMore(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     },
-    [datePreset, trackBigPlayerDataFetched, trackBigPlayerLoadMore]
+    [datePreset, getDateRange, streamData, trackBigPlayerDataFetched]
   );
 
-  // Apply filters and sort
+  // Apply filters and sort over the complete aggregated dataset
   useEffect(() => {
-    let filtered = aggregateBigPlayerMovements(allRawData);
+    let filtered = [...groupedData];
 
     // Filter by symbol search
     if (symbolSearch) {
       filtered = filterBySymbol(filtered, symbolSearch);
     }
 
+    // Filter by watchlist (or shared link) symbols
+    if (symbolFilter.length > 0) {
+      filtered = filterBySymbols(filtered, symbolFilter);
+    }
+
     // Filter by action type
     if (actionType !== "all") {
       filtered = filterByActionType(filtered, actionType);
     }
 
+    // Filter by change value and holding thresholds
+    filtered = filterByThresholds(filtered, advancedFilters);
+
     // Sort: date desc (primary), then change percentage desc (secondary)
     filtered.sort((a, b) => {
       // Primary sort: date desc (newest first)
@@ -207,42 +406,59 @@ export default function BigPlayerMovementClientPage() {
     });
 
     setDisplayData(filtered);
-  }, [allRawData, symbolSearch, actionType]);
+  }, [groupedData, symbolSearch, actionType, symbolFilter, advancedFilters]);
+
+  // Keep the filter state in the URL so a filtered view can be bookmarked and shared.
+  // history.replaceState instead of router.replace: the page reads searchParams, so a
+  // router navigation would re-render it on the server on every keystroke.
+  useEffect(() => {
+    const query = serializeBigPlayerFilters({
+      datePreset,
+      dateStart,
+      dateEnd,
+      symbolSearch,
+      actionType,
+      symbols: symbolFilter,
+      grouping,
+      ...advancedFilters,
+    });
+    if (query === window.location.search.replace(/^\?/, "")) return;
+
+    window.history.replaceState(null, "", query ? `/bigplayer-movement?${query}` : "/bigplayer-movement");
+  }, [datePreset, dateStart, dateEnd, symbolSearch, actionType, symbolFilter, grouping, advancedFilters]);
 
   // Initial fetch on mount - track page view
   useEffect(() => {
-    // Fetch initial data for today's preset
-    const { start, end } = getDateRange("today");
+    // Fetch initial data for the preset from the URL (today by default)
+    const { start, end } = getDateRange(datePreset);
     setDateStart(start);
     setDateEnd(end);
-    fetchData(1, false);
+    fetchData(start, end);
 
     // Track initial page view
-    trackBigPlayerMovementView("today", start, end);
+    trackBigPlayerMovementView(datePreset, start, end);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run only on mount
 
   // Track page view when data changes (debounced by checking significant changes)
   useEffect(() => {
-    if (displayData.length > 0 && dateStart && dateEnd) {
+    if (!isStreaming && displayData.length > 0 && dateStart && dateEnd) {
       trackBigPlayerMovementView(datePreset, dateStart, dateEnd, displayData.length);
     }
-    // Only track when data actually changes significantly
+    // Only track when data actually changes significantly, once a stream has finished
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [allRawData.length]); // Only depend on actual data length change
+  }, [allRawData.length, isStreaming]); // Only depend on actual data length change
 
-  // Track scroll events to detect when user manually scrolls
+  // Cancel a running request or stream when leaving the page
   useEffect(() => {
-    const handleScroll = () => {
-      const scrollY = window.scrollY;
-
-      // Set hasScrolled untuk infinite scroll
-      if (!hasScrolled && scrollY > 0) {
-        setHasScrolled(true);
-      }
+    return () => fetchAbortRef.current?.abort();
+  }, []);
 
+  // Show the scroll to top button after scrolling down
+  useEffect(() => {
+    const handleScroll = () => {
       // Show/hide scroll to top button (tampilkan setelah scroll 400px)
-      if (scrollY > 400) {
+      if (window.scrollY > 400) {
         setShowScrollTop(true);
       } else {
         setShowScrollTop(false);
@@ -252,47 +468,12 @@ export default function BigPlayerMovementClientPage() {
     // Listen to window scroll
     window.addEventListener("scroll", handleScroll);
     return () => window.removeEventListener("scroll", handleScroll);
-  }, [hasScrolled]);
-
-  // Infinite scroll observer
-  useEffect(() => {
-    const currentTarget = observerTarget.current;
-    if (!currentTarget) return;
-
-    const observer = new IntersectionObserver(
-      (entries) => {
-        // Only trigger if:
-        // 1. User has manually scrolled at least once
-        // 2. There is more data to load
-        // 3. Not currently loading
-        // 4. In partial mode (pagination available)
-        // 5. NO active filters (symbol search or action type)
-        const hasActiveFilters = symbolSearch.trim() !== "" || actionType !== "all";
-
-        if (entries[0].isIntersecting && hasMore && !loadingMore && isPartialMode && hasScrolled && !hasActiveFilters) {
-          fetchData(currentPage + 1, true);
-        }
-      },
-      { threshold: 0.1, rootMargin: "100px" }
-    );
-
-    observer.observe(currentTarget);
-
-    return () => {
-      if (currentTarget) {
-        observer.unobserve(currentTarget);
-      }
-    };
-    // Exclude fetchData from deps to prevent recreation on date preset change
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [hasMore, loadingMore, currentPage, isPartialMode, hasScrolled, symbolSearch, actionType]);
+  }, []);
 
   // Handle apply custom filters
   const handleApplyFilters = useCallback(() => {
-    setAllRawData([]);
-    setCurrentPage(1);
     // Pass current dates directly to avoid stale closure
-    fetchData(1, false, dateStart, dateEnd);
+    fetchData(dateStart, dateEnd);
 
     // Track custom filter apply
     trackBigPlayerFilterChanged("date_start", dateStart, "");
@@ -303,9 +484,6 @@ export default function BigPlayerMovementClientPage() {
   const handleDatePresetChange = useCallback((preset: DatePreset) => {
     const previousPreset = datePreset;
     setDatePreset(preset);
-    setAllRawData([]);
-    setCurrentPage(1);
-    setHasScrolled(false);
 
     // Track filter change
     trackBigPlayerFilterChanged("date_preset", preset, previousPreset);
@@ -315,7 +493,7 @@ export default function BigPlayerMovementClientPage() {
       setDateStart(start);
       setDateEnd(end);
       // Auto-fetch for presets - pass dates directly to avoid stale closure
-      fetchData(1, false, start, end);
+      fetchData(start, end);
     }
   }, [datePreset, getDateRange, fetchData, trackBigPlayerFilterChanged]);
 
@@ -346,20 +524,41 @@ export default function BigPlayerMovementClientPage() {
   // Handle symbol search change
   const handleSymbolSearchChange = useCallback((search: string) => {
     setSymbolSearch(search);
-    setHasScrolled(false); // Reset scroll state to prevent auto load more while filtering
     // Track filter change
     trackBigPlayerFilterChanged("symbol_search", search);
   }, [trackBigPlayerFilterChanged]);
 
+  // Handle watchlist filter change
+  const handleWatchlistChange = useCallback((id: string | null) => {
+    setWatchlistId(id);
+    setSharedSymbols([]);
+    // Track filter change
+    trackBigPlayerFilterChanged("watchlist", id ? watchlists.find((list) => list.id === id)?.name || id : "none");
+  }, [watchlists, trackBigPlayerFilterChanged]);
+
   // Handle action type change
   const handleActionTypeChange = useCallback((type: "all" | "buy" | "sell" | "other") => {
     const previousType = actionType;
     setActionType(type);
-    setHasScrolled(false); // Reset scroll state to prevent auto load more while filtering
     // Track filter change
     trackBigPlayerFilterChanged("action_type", type, previousType);
   }, [actionType, trackBigPlayerFilterChanged]);
 
+  // Handle aggregation grouping change
+  const handleGroupingChange = useCallback((value: AggregationGrouping) => {
+    const previousGrouping = grouping;
+    setGrouping(value);
+    // Track filter change
+    trackBigPlayerFilterChanged("grouping", value, previousGrouping);
+  }, [grouping, trackBigPlayerFilterChanged]);
+
+  // Handle advanced filter change
+  const handleAdvancedFiltersChange = useCallback((filters: BigPlayerAdvancedFilters) => {
+    setAdvancedFilters(filters);
+    // Track filter change
+    trackBigPlayerFilterChanged("advanced", describeAdvancedFilters(filters) || "none");
+  }, [trackBigPlayerFilterChanged]);
+
   // Scroll to top function
   const scrollToTop = useCallback(() => {
     const currentScrollPosition = window.scrollY;
@@ -393,12 +592,19 @@ export default function BigPlayerMovementClientPage() {
           dateStart={dateStart}
           dateEnd={dateEnd}
           symbolSearch={symbolSearch}
+          watchlistId={activeWatchlist?.id || null}
+          sharedSymbols={sharedSymbols}
           actionType={actionType}
+          grouping={grouping}
+          advancedFilters={advancedFilters}
           onDatePresetChange={handleDatePresetChange}
           onDateStartChange={handleDateStartChange}
           onDateEndChange={handleDateEndChange}
           onSymbolSearchChange={handleSymbolSearchChange}
+          onWatchlistChange={handleWatchlistChange}
           onActionTypeChange={handleActionTypeChange}
+          onGroupingChange={handleGroupingChange}
+          onAdvancedFiltersChange={handleAdvancedFiltersChange}
           onApplyFilters={handleApplyFilters}
           loading={loading}
         />
@@ -412,19 +618,39 @@ export default function BigPlayerMovementClientPage() {
             <div className="text-default-600">
               Showing <span className="font-semibold">{displayData.length}</span>{" "}
               entries
-              {isPartialMode && hasMore && !symbolSearch && actionType === "all" && (
-                <span className="ml-2 text-default-400">
-                  (scroll to load more)
+              {isStreaming && streamProgress && (
+                <span className="ml-2 inline-flex items-center gap-1.5 text-default-400">
+                  <span className="h-3 w-3 animate-spin rounded-full border-2 border-default-300 border-t-default-600" />
+                  loading page {streamProgress.pages + 1} ({streamProgress.movements} movements so far)
                 </span>
               )}
-              {isPartialMode && hasMore && (symbolSearch || actionType !== "all") && (
+              {isPartialMode && !isStreaming && streamProgress?.truncated && (
                 <span className="ml-2 text-warning-500 text-xs">
-                  ⚠️ Filters active - scroll disabled
+                  ⚠️ Only the first {streamProgress.pages} pages loaded
                 </span>
               )}
             </div>
-            <div className="text-default-500 font-medium">
-              {formatDateRange(dateStart, dateEnd)}
+            <div className="flex items-center gap-2">
+              <div className="text-default-500 font-medium">
+                {formatDateRange(dateStart, dateEnd)}
+              </div>
+              <ExportMenu
+                getDocument={() =>
+                  buildBigPlayerExport(displayData, { dateStart, dateEnd, symbolSearch, actionType, grouping, advanced: advancedFilters, watchlist: watchlistLabel }, false)
+                }
+                dataType="summary"
+                source="bigplayer_movement"
+                className="h-7 text-xs"
+              />
+              <ExportMenu
+                getDocument={() =>
+                  buildBigPlayerExport(displayData, { dateStart, dateEnd, symbolSearch, actionType, grouping, advanced: advancedFilters, watchlist: watchlistLabel }, true)
+                }
+                dataType="full"
+                source="bigplayer_movement_raw"
+                label="Export Raw"
+                className="h-7 text-xs"
+              />
             </div>
           </div>
 
@@ -460,28 +686,29 @@ export default function BigPlayerMovementClientPage() {
 
       {/* Table */}
       <Card>
-        <BigPlayerTable data={displayData} loading={loading} />
+        <BigPlayerTable
+          data={displayData}
+          loading={loading}
+          onSelectHolder={(entry) => setSelectedHolder(getHolderRef(entry.raw_entries[0]))}
+          getSymbolHref={(symbol) =>
+            `/bigplayer-movement/symbol?${new URLSearchParams({ symbol, from: dateStart, to: dateEnd })}`
+          }
+        />
       </Card>
 
-      {/* Infinite scroll sentinel - only show when no active filters */}
-      {isPartialMode && hasMore && !symbolSearch && actionType === "all" && (
-        <div
-          ref={observerTarget}
-          className="flex justify-center py-4"
-        >
-          {loadingMore && (
-            <div className="flex items-center gap-2 text-sm text-default-500">
-              <div className="h-4 w-4 animate-spin rounded-full border-2 border-default-300 border-t-default-600" />
-              Loading more...
-            </div>
-          )}
-        </div>
-      )}
-
-      {/* No more data indicator */}
-      {isPartialMode && !hasMore && displayData.length > 0 && !symbolSearch && actionType === "all" && (
-        <div className="text-center text-sm text-default-400 py-4">
-          No more data to load
+      <HolderTimeline
+        holder={selectedHolder}
+        entries={allRawData}
+        onClose={() => setSelectedHolder(null)}
+      />
+
+      {/* Streaming indicator */}
+      {isStreaming && streamProgress && (
+        <div className="flex justify-center py-4">
+          <div className="flex items-center gap-2 text-sm text-default-500">
+            <div className="h-4 w-4 animate-spin rounded-full border-2 border-default-300 border-t-default-600" />
+            Aggregating {streamProgress.movements} movements from {streamProgress.pages} pages...
+          </div>
         </div>
       )}
 
@@ -1,11 +1,18 @@
 import { Metadata } from "next";
 import BigPlayerMovementClientPage from "./client-page";
+import { parseBigPlayerFilters } from "@/lib/utils/bigplayer-filters";
 
 export const metadata: Metadata = {
   title: "Big Player Movement - IDX Broker Sum",
   description: "Track significant shareholder movements and trading activities in IDX market",
 };
 
-export default function BigPlayerMovementPage() {
-  return <BigPlayerMovementClientPage />;
+type Props = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+export default async function BigPlayerMovementPage({ searchParams }: Props) {
+  const params = await searchParams;
+
+  return <BigPlayerMovementClientPage initialFilters={parseBigPlayerFilters(params)} />;
 }
@@ -0,0 +1,591 @@
+"use client";
+
+/**
+ * Ownership Dashboard Client Page
+ * Symbol-centric view of Big Player movements over a date range
+ */
+
+import { useState, useMemo, useRef, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import NextLink from "next/link";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Card, CardBody } from "@heroui/card";
+import { Progress } from "@heroui/progress";
+import { addToast } from "@heroui/toast";
+import { BigPlayerMovementRaw } from "@/components/bigplayer/types";
+import { fetchAllBigPlayerMovement } from "@/lib/api/bigplayer";
+import { fetchEmittenProfile, type Profile } from "@/lib/api/emitten";
+import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
+import { getMovementKey } from "@/lib/utils/aggregation";
+import {
+  buildOwnershipDashboard,
+  compareWithSnapshot,
+  type InsiderFlow,
+} from "@/lib/utils/ownership-flow";
+import {
+  formatRangeDuration,
+  getMatchingPreset,
+  getPresetRange,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
+import {
+  formatCompactNumber,
+  formatShortDate,
+  getActionTypeDisplay,
+  getBadgeIcons,
+  parsePercentage,
+} from "@/lib/utils/format";
+
+// Types
+interface OwnershipDashboardClientProps {
+  initialSymbol?: string;
+  initialFrom?: string;
+  initialTo?: string;
+}
+
+const QUICK_SELECT_PRESETS: Array<{ key: TradingPreset; label: string }> = [
+  { key: "1week", label: "1 Week" },
+  { key: "1month", label: "1 Month" },
+  { key: "3months", label: "3 Months" },
+  { key: "6months", label: "6 Months" },
+];
+
+const AREA_COLORS = [
+  "#8b5cf6",
+  "#06b6d4",
+  "#f59e0b",
+  "#10b981",
+  "#ec4899",
+  "#3b82f6",
+  "#f97316",
+  "#6366f1",
+];
+
+// Holders drawn in the stacked chart; the rest stay in the tables
+const MAX_CHART_HOLDERS = 8;
+
+const formatShares = (value: number) =>
+  `${value >= 0 ? "+" : "-"}${formatCompactNumber(Math.abs(value))}`;
+
+// Controller / director movement list
+function InsiderCard({
+  title,
+  icon,
+  flow,
+}: {
+  title: string;
+  icon: string;
+  flow: InsiderFlow;
+}) {
+  return (
+    <Card
+      className={flow.entries.length > 0 ? "border-2 border-warning/40" : ""}
+    >
+      <CardBody className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-bold text-default-700">
+            {icon} {title}
+          </h2>
+          {flow.entries.length > 0 && (
+            <span
+              className={`text-sm font-bold ${flow.netShares >= 0 ? "text-success" : "text-danger"}`}
+            >
+              {formatShares(flow.netShares)} shares
+            </span>
+          )}
+        </div>
+        {flow.entries.length === 0 ? (
+          <p className="text-xs text-default-500">No movements in this range</p>
+        ) : (
+          <>
+            <p className="text-xs text-default-500">
+              {flow.buyCount} buy · {flow.sellCount} sell ·{" "}
+              {flow.entries.length} movements
+            </p>
+            <div className="space-y-1 max-h-60 overflow-y-auto">
+              {flow.entries.map((entry, index) => {
+                const action = getActionTypeDisplay(entry.action_type);
+                return (
+                  <div
+                    key={`${getMovementKey(entry)}-${index}`}
+                    className="flex items-center justify-between gap-2 text-xs border-b border-default-100 py-1"
+                  >
+                    <div className="min-w-0">
+                      <div className="font-medium truncate">{entry.name}</div>
+                      <div className="text-default-400">
+                        {formatShortDate(entry.date)} ·{" "}
+                        {parsePercentage(entry.previous.percentage).toFixed(2)}%
+                        → {parsePercentage(entry.current.percentage).toFixed(2)}
+                        %
+                      </div>
+                    </div>
+                    <span
+                      className={`shrink-0 px-1.5 py-0.5 rounded ${action.bgClass} ${action.colorClass}`}
+                    >
+                      {action.icon}
+                      {action.label}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
+
+// Main page component
+function OwnershipDashboardPage({
+  initialSymbol,
+  initialFrom,
+  initialTo,
+}: OwnershipDashboardClientProps) {
+  useTrackPageView({ pageTitle: "Ownership Changes" });
+  const router = useRouter();
+
+  const [symbol, setSymbol] = useState(initialSymbol || "");
+  const [startDate, setStartDate] = useState(
+    () => initialFrom || getPresetRange("1month").start,
+  );
+  const [endDate, setEndDate] = useState(
+    () => initialTo || getPresetRange("1month").end,
+  );
+
+  const [movements, setMovements] = useState<BigPlayerMovementRaw[]>([]);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [loadedSymbol, setLoadedSymbol] = useState("");
+  /** Pages loaded when the page cap cut the range short, otherwise null */
+  const [truncatedPages, setTruncatedPages] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const selectedPreset = getMatchingPreset(
+    startDate,
+    endDate,
+    QUICK_SELECT_PRESETS.map((preset) => preset.key),
+  );
+
+  const dashboard = useMemo(
+    () =>
+      loadedSymbol ? buildOwnershipDashboard(movements, loadedSymbol) : null,
+    [movements, loadedSymbol],
+  );
+  const snapshotRows = useMemo(
+    () =>
+      dashboard && profile?.shareholder
+        ? compareWithSnapshot(dashboard.holders, profile.shareholder)
+        : [],
+    [dashboard, profile],
+  );
+  const chartHolders = dashboard?.holders.slice(0, MAX_CHART_HOLDERS) || [];
+  const chartData = useMemo(
+    () =>
+      (dashboard?.dates || []).map((date) => {
+        const row: Record<string, string | number> = {
+          date,
+          displayDate: formatShortDate(date),
+        };
+        chartHolders.forEach((holder) => {
+          row[holder.name] = holder.percentages[date];
+        });
+        return row;
+      }),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [dashboard],
+  );
+
+  const handleLoad = async () => {
+    const code = symbol.trim().toUpperCase();
+    if (!code) {
+      addToast({
+        title: "Enter a Symbol",
+        description: "Type a stock code, e.g. BBCA.",
+        color: "warning",
+      });
+      return;
+    }
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setIsLoading(true);
+    router.replace(
+      `/bigplayer-movement/symbol?${new URLSearchParams({ symbol: code, from: startDate, to: endDate })}`,
+      { scroll: false },
+    );
+
+    try {
+      const [result, emittenProfile] = await Promise.all([
+        fetchAllBigPlayerMovement(startDate, endDate, {
+          signal: controller.signal,
+        }),
+        // The snapshot is optional; the movements are still useful without it
+        fetchEmittenProfile(code, { signal: controller.signal }).catch(
+          () => null,
+        ),
+      ]);
+      setMovements(result.movements);
+      setTruncatedPages(result.truncated ? result.pages : null);
+      setProfile(emittenProfile);
+      setLoadedSymbol(code);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      addToast({
+        title: "Failed to fetch Big Player Movement",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  // Load the symbol from a shared URL; cancel pending requests on unmount
+  useEffect(() => {
+    if (initialSymbol) handleLoad();
+    return () => abortRef.current?.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4 py-6 space-y-4">
+      <Card>
+        <CardBody className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <h1 className="text-xl font-bold">Ownership Changes</h1>
+              <p className="text-xs text-default-500">
+                Every Big Player movement of one emitten
+              </p>
+            </div>
+            <NextLink
+              href="/bigplayer-movement"
+              className="text-xs text-primary hover:underline"
+            >
+              ← All movements
+            </NextLink>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <Input
+              label="Symbol"
+              size="sm"
+              className="w-40"
+              value={symbol}
+              onValueChange={(value) => setSymbol(value.toUpperCase())}
+              onKeyDown={(event) => {
+                if (event.key === "Enter") handleLoad();
+              }}
+            />
+            <Input
+              type="date"
+              label="From"
+              size="sm"
+              className="w-40"
+              value={startDate}
+              onValueChange={setStartDate}
+            />
+            <Input
+              type="date"
+              label="To"
+              size="sm"
+              className="w-40"
+              value={endDate}
+              onValueChange={setEndDate}
+            />
+            <Button
+              color="primary"
+              className="font-semibold"
+              onPress={handleLoad}
+              isLoading={isLoading}
+            >
+              Load
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            {QUICK_SELECT_PRESETS.map((preset) => (
+              <Button
+                key={preset.key}
+                size="sm"
+                variant={selectedPreset === preset.key ? "solid" : "flat"}
+                color={selectedPreset === preset.key ? "primary" : "default"}
+                className="text-xs px-3 h-7"
+                onPress={() => {
+                  const range = getPresetRange(preset.key);
+                  setStartDate(range.start);
+                  setEndDate(range.end);
+                }}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <span className="text-xs text-default-400 ml-1">
+              {formatRangeDuration(startDate, endDate, true)}
+            </span>
+          </div>
+        </CardBody>
+      </Card>
+
+      {!isLoading && dashboard && truncatedPages !== null && (
+        <Card className="border-2 border-warning/40">
+          <CardBody className="py-3 text-sm text-warning-600">
+            ⚠️ Only the first {truncatedPages} pages of movements were loaded.
+            Holder percentages and net flows may be incomplete; narrow the date
+            range for complete results.
+          </CardBody>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Card>
+          <CardBody className="py-12">
+            <Progress
+              size="sm"
+              isIndeterminate
+              color="primary"
+              aria-label="Loading movements"
+              label="Fetching movements..."
+            />
+          </CardBody>
+        </Card>
+      ) : !dashboard ? (
+        <div className="flex flex-col items-center justify-center py-16 border-2 border-dashed border-default-300 rounded-xl">
+          <div className="text-6xl mb-4">🏛️</div>
+          <p className="text-lg font-semibold text-default-600">
+            Pick a symbol
+          </p>
+          <p className="text-sm text-default-500 mt-1">
+            See who is building or trimming their stake
+          </p>
+        </div>
+      ) : dashboard.entries.length === 0 ? (
+        <Card>
+          <CardBody className="py-12 text-center text-sm text-default-500">
+            No Big Player movements for {dashboard.symbol} in this range
+          </CardBody>
+        </Card>
+      ) : (
+        <>
+          {/* Controller & director activity */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <InsiderCard
+              title="Controller (Pengendali)"
+              icon="👑"
+              flow={dashboard.insiders.controller}
+            />
+            <InsiderCard
+              title="Director (Direktur)"
+              icon="👤"
+              flow={dashboard.insiders.director}
+            />
+          </div>
+
+          {/* Stacked holder timeline */}
+          <Card>
+            <CardBody>
+              <h2 className="text-sm font-bold text-default-700 mb-1">
+                Holder % over time · {dashboard.symbol}
+              </h2>
+              <p className="text-xs text-default-500 mb-3">
+                {dashboard.holders.length} holders over {dashboard.dates.length}{" "}
+                movement dates
+                {dashboard.holders.length > MAX_CHART_HOLDERS &&
+                  ` (largest ${MAX_CHART_HOLDERS} shown)`}
+              </p>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart
+                    data={chartData}
+                    margin={{ top: 10, right: 20, left: 0, bottom: 0 }}
+                  >
+                    <CartesianGrid
+                      strokeDasharray="3 3"
+                      stroke="currentColor"
+                      className="stroke-default-300/50"
+                    />
+                    <XAxis
+                      dataKey="displayDate"
+                      tick={{ fill: "currentColor", fontSize: 11 }}
+                      stroke="currentColor"
+                      className="text-default-600"
+                    />
+                    <YAxis
+                      tick={{ fill: "currentColor", fontSize: 11 }}
+                      stroke="currentColor"
+                      className="text-default-600"
+                      tickFormatter={(value: number) => `${value}%`}
+                    />
+                    <Tooltip
+                      formatter={(value) => `${Number(value).toFixed(2)}%`}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11 }} />
+                    {chartHolders.map((holder, index) => (
+                      <Area
+                        key={holder.name}
+                        type="stepAfter"
+                        dataKey={holder.name}
+                        stackId="holders"
+                        stroke={AREA_COLORS[index % AREA_COLORS.length]}
+                        fill={AREA_COLORS[index % AREA_COLORS.length]}
+                        fillOpacity={0.5}
+                      />
+                    ))}
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            </CardBody>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {/* Net flow by action type */}
+            <Card>
+              <CardBody>
+                <h2 className="text-sm font-bold text-default-700 mb-3">
+                  Net flow by action
+                </h2>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="border-b border-default-200 text-default-500">
+                      <th className="text-left font-medium py-2">Action</th>
+                      <th className="text-right font-medium py-2">Movements</th>
+                      <th className="text-right font-medium py-2">
+                        Net Shares
+                      </th>
+                      <th className="text-right font-medium py-2">
+                        Change Value
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dashboard.flows.map((flow) => {
+                      const action = getActionTypeDisplay(flow.actionType);
+                      return (
+                        <tr
+                          key={flow.actionType}
+                          className="border-b border-default-100"
+                        >
+                          <td
+                            className={`py-1.5 font-semibold ${action.colorClass}`}
+                          >
+                            {action.icon}
+                            {action.label}
+                          </td>
+                          <td className="py-1.5 text-right">{flow.count}</td>
+                          <td
+                            className={`py-1.5 text-right font-medium ${flow.netShares >= 0 ? "text-success" : "text-danger"}`}
+                          >
+                            {formatShares(flow.netShares)}
+                          </td>
+                          <td className="py-1.5 text-right">
+                            {formatCompactNumber(flow.changeValue)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardBody>
+            </Card>
+
+            {/* Profile snapshot vs movements */}
+            <Card>
+              <CardBody>
+                <h2 className="text-sm font-bold text-default-700 mb-1">
+                  Shareholder snapshot vs movements
+                </h2>
+                <p className="text-xs text-default-500 mb-3">
+                  Profile shareholder list next to each holder&apos;s holding
+                  after their latest movement
+                </p>
+                {snapshotRows.length === 0 ? (
+                  <p className="text-xs text-default-500">
+                    No shareholder snapshot available
+                  </p>
+                ) : (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="border-b border-default-200 text-default-500">
+                        <th className="text-left font-medium py-2">Holder</th>
+                        <th className="text-right font-medium py-2">
+                          Snapshot
+                        </th>
+                        <th className="text-right font-medium py-2">
+                          Latest Movement
+                        </th>
+                        <th className="text-right font-medium py-2">Diff</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {snapshotRows.map((row) => {
+                        const diff =
+                          row.snapshotPercentage !== null &&
+                          row.movementPercentage !== null
+                            ? row.movementPercentage - row.snapshotPercentage
+                            : null;
+                        return (
+                          <tr
+                            key={row.name}
+                            className="border-b border-default-100"
+                          >
+                            <td className="py-1.5 pr-2">
+                              <span className="font-medium">{row.name}</span>{" "}
+                              {getBadgeIcons(row.badges)}
+                            </td>
+                            <td className="py-1.5 text-right">
+                              {row.snapshotPercentage !== null
+                                ? `${row.snapshotPercentage.toFixed(2)}%`
+                                : "-"}
+                            </td>
+                            <td className="py-1.5 text-right">
+                              {row.movementPercentage !== null
+                                ? `${row.movementPercentage.toFixed(2)}%`
+                                : "-"}
+                            </td>
+                            <td
+                              className={`py-1.5 text-right font-medium ${
+                                diff === null
+                                  ? "text-default-400"
+                                  : diff >= 0
+                                    ? "text-success"
+                                    : "text-danger"
+                              }`}
+                            >
+                              {diff !== null
+                                ? `${diff >= 0 ? "+" : ""}${diff.toFixed(2)}`
+                                : "-"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+              </CardBody>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function OwnershipDashboardClient(
+  props: OwnershipDashboardClientProps,
+) {
+  return <OwnershipDashboardPage {...props} />;
+}
@@ -0,0 +1,33 @@
+/**
+ * Big Player Symbol Server Wrapper
+ * Handles metadata and the URL query for the per-symbol ownership dashboard
+ */
+
+import { Metadata } from "next";
+import OwnershipDashboardClient from "./client-page";
+
+export const metadata: Metadata = {
+  title: "Ownership Changes - Haka-Haki Tools",
+  description:
+    "Every Big Player movement of one emitten, with controller and director activity highlighted",
+};
+
+type Props = {
+  searchParams: Promise<{ symbol?: string; from?: string; to?: string }>;
+};
+
+/**
+ * Server Component Wrapper
+ * `?symbol=BBCA&from=&to=` opens the dashboard for a symbol
+ */
+export default async function OwnershipDashboardPage({ searchParams }: Props) {
+  const params = await searchParams;
+
+  return (
+    <OwnershipDashboardClient
+      initialSymbol={params.symbol?.toUpperCase()}
+      initialFrom={params.from}
+      initialTo={params.to}
+    />
+  );
+}
@@ -6,6 +6,7 @@
  */
 
 import { useState, useMemo, useRef, useEffect } from "react";
+import NextLink from "next/link";
 import { Button } from "@heroui/button";
 import { Input } from "@heroui/input";
 import { Card, CardBody } from "@heroui/card";
@@ -13,146 +14,40 @@ import { Chip } from "@heroui/chip";
 import { Spinner } from "@heroui/spinner";
 import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
 import { motion, AnimatePresence } from "framer-motion";
-import { BROKERS } from "@/data/brokers";
+import {
+  brokerAutocompleteFilter,
+  getBroker,
+  getBrokerGroupCode,
+  getBrokerGroupColor,
+  getBrokerGroupDisplayName,
+  getBrokerGroupTextColor,
+  getBrokerStatus,
+} from "@/lib/brokers";
 import { addToast } from "@heroui/toast";
 import { useAnalytics } from "@/lib/hooks/useAnalytics";
+import { useBrokerDirectory } from "@/lib/hooks/useBrokerDirectory";
+import {
+  formatRangeDuration,
+  getLatestTradingDay,
+  getMatchingPreset,
+  getPresetRange,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
 import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
-import { BROKERS as BROKER_LIST } from "@/data/brokers";
-import { getClientIPSync } from "@/lib/utils/client-ip";
+import {
+  fetchBrokerActivity,
+  fetchBrokerCalendar,
+  type BrokerActivityResponse,
+  type EmittenCalendarResponse,
+  type StockItem,
+} from "@/lib/api/broker";
+import { fetchEmittenInfo, type EmittenInfo } from "@/lib/api/emitten";
+import { isAbortError } from "@/lib/api/policy";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
+import { DailyRotationMatrix } from "@/components/broker-activity/DailyRotationMatrix";
 
 // Types
-interface StockItem {
-  symbol: string;
-  side: "BUY" | "SELL";
-  avg_price: {
-    raw: number;
-    formatted: string;
-  };
-  volume: {
-    raw: number;
-    formatted: string;
-  };
-  value: {
-    raw: number;
-    formatted: string;
-  };
-}
-
-interface BrokerActivityResponse {
-  meta: {
-    broker_code: string;
-    broker_name: string;
-    date: string;
-    limit: number;
-    transaction_type: string;
-    market_board: string;
-    currency: string;
-  };
-  formatting: {
-    price: string;
-    value: string;
-    volume: string;
-  };
-  market_activity: {
-    total_volume: { raw: number; formatted: string };
-    total_value: { raw: number; formatted: string };
-    average_price: { raw: number; formatted: string };
-    accumulation_distribution: {
-      label: string;
-      net_value: { raw: number; formatted: string };
-      net_volume: { raw: number; formatted: string };
-      strength_percent: number;
-    };
-    buyer_count: number;
-    seller_count: number;
-  };
-  accdist_scope: {
-    top_1: { label: string; net_value: { raw: number; formatted: string } };
-    top_3: { label: string; net_value: { raw: number; formatted: string } };
-    top_5: { label: string; net_value: { raw: number; formatted: string } };
-    top_10: { label: string; net_value: { raw: number; formatted: string } };
-  };
-  stocks: {
-    sorting: {
-      key: string;
-      order: string;
-      description: string;
-    };
-    items: StockItem[];
-  };
-  derived_metrics: {
-    net_exposure_ratio: number;
-    distribution_dominance: { score: number; label: string };
-    focus_index: { value: number; label: string };
-    rotation_indicator: {
-      buy_stock_count: number;
-      sell_stock_count: number;
-      type: string;
-    };
-  };
-  executive_summary: {
-    market_bias: string;
-    broker_behavior: string;
-    conviction_level: string;
-    risk_mode: string;
-    recommended_action: string;
-  };
-}
-
-interface EmittenCalendarResponse {
-  symbol: string;
-  brokers: string[];
-  range: {
-    from: string;
-    to: string;
-  };
-  summary: {
-    total_buy_value: number;
-    total_buy_value_formatted: string;
-    total_buy_volume: number;
-    total_buy_volume_formatted: string;
-    total_sell_value: number;
-    total_sell_value_formatted: string;
-    total_sell_volume: number;
-    total_sell_volume_formatted: string;
-    total_value: number;
-    total_value_formatted: string;
-    total_volume: number;
-    total_volume_formatted: string;
-    trend: string;
-    strength: string;
-    dominant_brokers: string[];
-    distribution_brokers: string[];
-    price_movement: {
-      from: number;
-      to: number;
-      change: number;
-      change_pct: number;
-    };
-    note: string;
-  };
-  data: Array<{
-    date: string;
-    close_price: number;
-    close_price_formatted: string;
-    total_value: number;
-    total_value_formatted: string;
-    total_volume: number;
-    total_volume_formatted: string;
-    signal: {
-      trend: string;
-      strength: string;
-      note: string;
-    };
-    brokers: Record<string, {
-      value: number;
-      value_formatted: string;
-      volume: number;
-      volume_formatted: string;
-    }>;
-  }>;
-}
-
 interface DailyData {
   date: string;
   netLot: number;
@@ -176,39 +71,6 @@ interface DailyData {
   };
 }
 
-interface EmittenInfoResponse {
-  data: {
-    symbol: string;
-    name: string;
-    sector: string;
-    sub_sector: string;
-    price: string;
-    previous: string;
-    change: string;
-    percentage: number;
-    volume: string;
-    value: string;
-    status: string;
-    icon_url: string;
-    indexes: string[];
-    notation: Array<{
-      notation_code: string;
-      notation_desc: string;
-      icon_url?: {
-        light_mode: string;
-        dark_mode: string;
-      };
-    }>;
-  };
-}
-
-// Helper functions
-function generateNonce(): string {
-  return Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 16).toString(16)
-  ).join('');
-}
-
 const STORAGE_KEYS = {
   BROKER_CODE: 'broker-activity-broker-code',
   START_DATE: 'broker-activity-start-date',
@@ -235,206 +97,51 @@ function loadFromLocalStorage<T>(key: string, defaultValue: T): T {
   return defaultValue;
 }
 
-function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
-}
-
-function getDateByPreset(preset: string): string {
-  const date = new Date();
-  switch (preset) {
-    case 'today':
-      // No change, return today
-      break;
-    case '3days':
-      date.setDate(date.getDate() - 3);
-      break;
-    case '1week':
-      date.setDate(date.getDate() - 7);
-      break;
-    case '1month':
-      date.setMonth(date.getMonth() - 1);
-      break;
-    case '3months':
-      date.setMonth(date.getMonth() - 3);
-      break;
-    case '1year':
-      date.setFullYear(date.getFullYear() - 1);
-      break;
-    default:
-      date.setDate(date.getDate() - 7);
-  }
-  return date.toISOString().split('T')[0];
+// Quick select presets (end on the latest trading session)
+const QUICK_SELECT_PRESETS: Array<{ key: TradingPreset; label: string }> = [
+  { key: "today", label: "Today" },
+  { key: "3days", label: "3D" },
+  { key: "1week", label: "1W" },
+  { key: "20sessions", label: "20S" },
+  { key: "1month", label: "1M" },
+  { key: "3months", label: "3M" },
+  { key: "1year", label: "1Y" },
+];
+
+function getMatchingQuickPreset(startDate: string, endDate: string): string {
+  return getMatchingPreset(startDate, endDate, QUICK_SELECT_PRESETS.map((preset) => preset.key));
 }
 
-function getMatchingPreset(startDate: string, endDate: string): string {
-  const today = getTodayDate();
-  if (endDate !== today) return '';
-
-  const presets = ['today', '3days', '1week', '1month', '3months', '1year'];
-  for (const preset of presets) {
-    if (preset === 'today') {
-      if (startDate === today) return preset;
-    } else if (startDate === getDateByPreset(preset)) {
-      return preset;
-    }
-  }
-  return '';
-}
-
-function formatDateRangeDuration(startDate: string, endDate: string): string {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const diffTime = Math.abs(end.getTime() - start.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-  const months = Math.floor(diffDays / 30);
-  const remainingDays = diffDays % 30;
-
-  if (months > 0 && remainingDays > 0) {
-    return `${months}M ${remainingDays}D`;
-  } else if (months > 0) {
-    return `${months}M`;
-  } else {
-    return `${diffDays}D`;
-  }
-}
-
-// API Functions
-async function fetchBrokerActivity(
+// Build the stock list export (raw values)
+function buildStockListExport(
+  activity: BrokerActivityResponse,
   brokerCode: string,
   startDate: string,
   endDate: string
-): Promise<BrokerActivityResponse> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/broker-activity';
-
-  const params = new URLSearchParams({
-    broker: brokerCode,
-    from: startDate,
-    to: endDate,
-  });
-
-  const url = `${baseUrl}${endpoint}?${params.toString()}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
+): ExportDocument {
+  return {
+    filename: buildExportFilename("broker-activity", brokerCode, startDate, endDate),
+    metadata: {
+      Broker: `${brokerCode} - ${activity.meta.broker_name}`,
+      "Date From": startDate,
+      "Date To": endDate,
+      "Net Value": activity.market_activity.accumulation_distribution.net_value.raw,
+      Bias: activity.market_activity.accumulation_distribution.label,
     },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Broker Activity API Error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-async function fetchEmittenCalendar(
-  symbol: string,
-  brokerCode: string,
-  startDate: string,
-  endDate: string
-): Promise<EmittenCalendarResponse> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/broker-action-calendar';
-
-  const params = new URLSearchParams({
-    symbol: symbol,
-    broker_code: brokerCode,
-    from: startDate,
-    to: endDate,
-  });
-
-  const url = `${baseUrl}${endpoint}?${params.toString()}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Emitten Calendar API Error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-async function fetchEmittenInfo(symbol: string): Promise<EmittenInfoResponse> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = `/emitten/${symbol}/info`;
-
-  const url = `${baseUrl}${endpoint}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Emitten Info API Error: ${response.status} ${response.statusText}`);
-  }
-
-  return response.json();
-}
-
-// Helper function to get broker info
-function getBrokerInfo(brokerCode: string) {
-  return BROKER_LIST.find((b) => b.code === brokerCode);
-}
-
-function getBrokerGroupColor(group: string): "primary" | "secondary" | "warning" | "default" {
-  switch (group) {
-    case "Asing":
-      return "warning";
-    case "Lokal":
-      return "secondary";
-    case "Pemerintah":
-      return "primary";
-    default:
-      return "default";
-  }
-}
-
-function getBrokerGroupCode(brokerCode: string): string {
-  const broker = BROKER_LIST.find((b) => b.code === brokerCode);
-  return broker?.group || "";
-}
-
-function getBrokerGroupTextColor(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "text-warning";
-    case "Lokal":
-      return "text-secondary";
-    case "Pemerintah":
-      return "text-primary";
-    default:
-      return "text-default-700";
-  }
-}
-
-function getBrokerGroupDisplayName(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "Foreign";
-    case "Lokal":
-      return "Domestic";
-    case "Pemerintah":
-      return "BUMN";
-    default:
-      return group;
-  }
+    tables: [
+      {
+        name: "Stock Transactions",
+        rows: activity.stocks.items,
+        columns: [
+          { header: "Symbol", value: (row: StockItem) => row.symbol },
+          { header: "Side", value: (row: StockItem) => row.side },
+          { header: "Avg Price", value: (row: StockItem) => row.avg_price.raw },
+          { header: "Volume", value: (row: StockItem) => row.volume.raw },
+          { header: "Value", value: (row: StockItem) => row.value.raw },
+        ],
+      },
+    ],
+  };
 }
 
 // Calendar Cell Component (reused from broker-calendar)
@@ -981,10 +688,10 @@ function BrokerActivityPage() {
     loadFromLocalStorage<string>(STORAGE_KEYS.BROKER_CODE, "SS")
   );
   const [startDate, setStartDate] = useState<string>(() =>
-    loadFromLocalStorage<string>(STORAGE_KEYS.START_DATE, getTodayDate())
+    loadFromLocalStorage<string>(STORAGE_KEYS.START_DATE, getLatestTradingDay())
   );
   const [endDate, setEndDate] = useState<string>(() =>
-    loadFromLocalStorage<string>(STORAGE_KEYS.END_DATE, getTodayDate())
+    loadFromLocalStorage<string>(STORAGE_KEYS.END_DATE, getLatestTradingDay())
   );
   const [selectedPreset, setSelectedPreset] = useState<string>("today");
   const [isCustomRange, setIsCustomRange] = useState(false);
@@ -993,19 +700,36 @@ function BrokerActivityPage() {
   const [emittenCalendar, setEmittenCalendar] = useState<EmittenCalendarResponse | null>(null);
   const [selectedStock, setSelectedStock] = useState<string | null>(null);
   const [isLoadingCalendar, setIsLoadingCalendar] = useState(false);
-  const [emittenInfo, setEmittenInfo] = useState<EmittenInfoResponse | null>(null);
+  const [emittenInfo, setEmittenInfo] = useState<EmittenInfo | null>(null);
   const [isLoadingEmittenInfo, setIsLoadingEmittenInfo] = useState(false);
 
   const [isChartModalOpen, setIsChartModalOpen] = useState(false);
   const [chartSymbol, setChartSymbol] = useState<string | null>(null);
 
-  const brokerInfo = getBrokerInfo(brokerCode);
+  // "range" shows the aggregated stock list, "daily" the per-day rotation matrix
+  const [viewMode, setViewMode] = useState<"range" | "daily">("range");
+
+  const { brokers } = useBrokerDirectory();
+  const brokerInfo = getBroker(brokerCode);
+  const brokerStatus = getBrokerStatus(brokerCode);
+
+  // Keep a retired selection visible so the picker does not go blank
+  const brokerOptions =
+    brokerInfo && brokerStatus === "retired" ? [brokerInfo, ...brokers] : brokers;
 
   // Fetch broker activity when filters change
   useEffect(() => {
     const fetchActivity = async () => {
       try {
-        const data = await fetchBrokerActivity(brokerCode, startDate, endDate);
+        // Changing filters quickly supersedes the previous request
+        const data = await fetchBrokerActivity(
+          {
+            broker: brokerCode,
+            from: startDate,
+            to: endDate,
+          },
+          { channel: "broker-activity" }
+        );
         setBrokerActivity(data);
 
         // Save to localStorage
@@ -1014,7 +738,7 @@ function BrokerActivityPage() {
         saveToLocalStorage(STORAGE_KEYS.END_DATE, endDate);
 
         // Update preset
-        const matchingPreset = getMatchingPreset(startDate, endDate);
+        const matchingPreset = getMatchingQuickPreset(startDate, endDate);
         setSelectedPreset(matchingPreset);
         setIsCustomRange(matchingPreset === '');
 
@@ -1024,6 +748,8 @@ function BrokerActivityPage() {
           setEmittenCalendar(null);
         }
       } catch (error) {
+        if (isAbortError(error)) return;
+
         addToast({
           title: "Failed to fetch broker activity",
           description: error instanceof Error ? error.message : "Unknown error",
@@ -1035,15 +761,27 @@ function BrokerActivityPage() {
     fetchActivity();
   }, [brokerCode, startDate, endDate]);
 
-  // Fetch emitten calendar when stock is selected
+  // Fetch emitten calendar when stock is selected; picking another stock cancels the pending one
   useEffect(() => {
     if (selectedStock) {
+      const controller = new AbortController();
+
       const fetchCalendar = async () => {
         setIsLoadingCalendar(true);
         try {
-          const data = await fetchEmittenCalendar(selectedStock, brokerCode, startDate, endDate);
+          const data = await fetchBrokerCalendar(
+            {
+              symbol: selectedStock,
+              brokerCodes: [brokerCode],
+              from: startDate,
+              to: endDate,
+            },
+            { signal: controller.signal }
+          );
+          if (controller.signal.aborted) return;
           setEmittenCalendar(data);
         } catch (error) {
+          if (controller.signal.aborted) return;
           addToast({
             title: "Failed to fetch calendar data",
             description: error instanceof Error ? error.message : "Unknown error",
@@ -1051,32 +789,38 @@ function BrokerActivityPage() {
           });
           setEmittenCalendar(null);
         } finally {
-          setIsLoadingCalendar(false);
+          if (!controller.signal.aborted) setIsLoadingCalendar(false);
         }
       };
 
       fetchCalendar();
+      return () => controller.abort();
     }
   }, [selectedStock]);
 
-  // Fetch emitten info when stock is selected
+  // Fetch emitten info when stock is selected; picking another stock cancels the pending one
   useEffect(() => {
     if (selectedStock) {
+      const controller = new AbortController();
+
       const fetchInfo = async () => {
         setIsLoadingEmittenInfo(true);
         try {
-          const data = await fetchEmittenInfo(selectedStock);
+          const data = await fetchEmittenInfo(selectedStock, { signal: controller.signal });
+          if (controller.signal.aborted) return;
           setEmittenInfo(data);
         } catch (error) {
+          if (controller.signal.aborted) return;
           // Silently fail for emitten info, it's not critical
           console.error("Failed to fetch emitten info:", error);
           setEmittenInfo(null);
         } finally {
-          setIsLoadingEmittenInfo(false);
+          if (!controller.signal.aborted) setIsLoadingEmittenInfo(false);
         }
       };
 
       fetchInfo();
+      return () => controller.abort();
     }
   }, [selectedStock]);
 
@@ -1088,17 +832,12 @@ function BrokerActivityPage() {
   }, [selectedStock]);
 
   // Handle preset click
-  const handlePresetClick = (preset: string) => {
+  const handlePresetClick = (preset: TradingPreset) => {
     setSelectedPreset(preset);
     setIsCustomRange(false);
-    if (preset === 'today') {
-      const today = getTodayDate();
-      setStartDate(today);
-      setEndDate(today);
-    } else {
-      setStartDate(getDateByPreset(preset));
-      setEndDate(getTodayDate());
-    }
+    const range = getPresetRange(preset);
+    setStartDate(range.start);
+    setEndDate(range.end);
   };
 
   // Transform calendar data to DailyData format
@@ -1179,7 +918,35 @@ function BrokerActivityPage() {
       {/* Top Sticky Filter Bar */}
       <div className="sticky top-0 z-50 bg-background/80 backdrop-blur-md border-b border-default-200 pb-3">
         <div className="max-w-7xl mx-auto px-4 pt-4">
-          <h1 className="text-xl font-bold mb-3">Broker Activity</h1>
+          <div className="flex items-center justify-between mb-3">
+            <h1 className="text-xl font-bold">Broker Activity</h1>
+            <div className="flex items-center gap-1">
+              <NextLink
+                href={`/broker-compare?${new URLSearchParams({ brokers: brokerCode, from: startDate, to: endDate })}`}
+                className="text-xs text-primary hover:underline mr-2"
+              >
+                Compare brokers →
+              </NextLink>
+              <Button
+                size="sm"
+                variant={viewMode === "range" ? "solid" : "flat"}
+                color={viewMode === "range" ? "primary" : "default"}
+                className="text-xs h-7"
+                onPress={() => setViewMode("range")}
+              >
+                Range Summary
+              </Button>
+              <Button
+                size="sm"
+                variant={viewMode === "daily" ? "solid" : "flat"}
+                color={viewMode === "daily" ? "primary" : "default"}
+                className="text-xs h-7"
+                onPress={() => setViewMode("daily")}
+              >
+                Daily Rotation
+              </Button>
+            </div>
+          </div>
 
           <div className="flex flex-wrap items-end gap-3">
             {/* Broker Selection */}
@@ -1188,7 +955,8 @@ function BrokerActivityPage() {
                 Broker
               </label>
               <Autocomplete
-                defaultItems={BROKERS}
+                defaultItems={brokerOptions}
+                defaultFilter={brokerAutocompleteFilter}
                 placeholder="Select a broker"
                 size="sm"
                 variant="bordered"
@@ -1208,6 +976,16 @@ function BrokerActivityPage() {
                       <div className="flex items-center gap-2">
                         <span className="font-bold text-xs">{broker.code}</span>
                         <span className="text-xs text-default-500">{broker.name}</span>
+                        {getBrokerStatus(broker.code) === "new" && (
+                          <Chip size="sm" variant="dot" color="success" className="text-[10px] h-5">
+                            New
+                          </Chip>
+                        )}
+                        {getBrokerStatus(broker.code) === "retired" && (
+                          <Chip size="sm" variant="flat" color="default" className="text-[10px] h-5">
+                            Retired
+                          </Chip>
+                        )}
                       </div>
                       <Chip
                         size="sm"
@@ -1234,7 +1012,7 @@ function BrokerActivityPage() {
                   value={startDate}
                   onValueChange={(value) => {
                     setStartDate(value);
-                    const matchingPreset = getMatchingPreset(value, endDate);
+                    const matchingPreset = getMatchingQuickPreset(value, endDate);
                     setSelectedPreset(matchingPreset);
                     setIsCustomRange(matchingPreset === '');
                   }}
@@ -1251,7 +1029,7 @@ function BrokerActivityPage() {
                   value={endDate}
                   onValueChange={(value) => {
                     setEndDate(value);
-                    const matchingPreset = getMatchingPreset(startDate, value);
+                    const matchingPreset = getMatchingQuickPreset(startDate, value);
                     setSelectedPreset(matchingPreset);
                     setIsCustomRange(matchingPreset === '');
                   }}
@@ -1267,14 +1045,7 @@ function BrokerActivityPage() {
                 Quick Select
               </label>
               <div className="flex flex-wrap gap-1">
-                {[
-                  { key: 'today', label: 'Today' },
-                  { key: '3days', label: '3D' },
-                  { key: '1week', label: '1W' },
-                  { key: '1month', label: '1M' },
-                  { key: '3months', label: '3M' },
-                  { key: '1year', label: '1Y' },
-                ].map((preset) => (
+                {QUICK_SELECT_PRESETS.map((preset) => (
                   <Button
                     key={preset.key}
                     size="sm"
@@ -1295,7 +1066,7 @@ function BrokerActivityPage() {
                     color="primary"
                     className="text-xs px-3 h-8 font-semibold"
                   >
-                    Custom ({formatDateRangeDuration(startDate, endDate)})
+                    Custom ({formatRangeDuration(startDate, endDate, true)})
                   </Button>
                 )}
               </div>
@@ -1315,7 +1086,7 @@ function BrokerActivityPage() {
               <span className="text-sm text-default-600">
                 {formatDate(startDate)} - {formatDate(endDate)}
                 <span className="text-default-400 ml-1">
-                  ({formatDateRangeDuration(startDate, endDate)})
+                  ({formatRangeDuration(startDate, endDate, true)})
                 </span>
               </span>
               <span className="text-default-400">•</span>
@@ -1344,13 +1115,32 @@ function BrokerActivityPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 py-6">
-        {brokerActivity ? (
+        {viewMode === "daily" ? (
+          <DailyRotationMatrix
+            brokerCode={brokerCode}
+            startDate={startDate}
+            endDate={endDate}
+            onSelectSymbol={(symbol) => {
+              setSelectedStock(symbol);
+              setViewMode("range");
+            }}
+          />
+        ) : brokerActivity ? (
           <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
             {/* Left Panel - Stock List (40%) */}
             <div className="lg:col-span-2 space-y-3">
-              <h2 className="text-sm font-bold text-default-700">
-                Stock Transactions ({brokerActivity.stocks.items.length})
-              </h2>
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-bold text-default-700">
+                  Stock Transactions ({brokerActivity.stocks.items.length})
+                </h2>
+                <ExportMenu
+                  getDocument={() => buildStockListExport(brokerActivity, brokerCode, startDate, endDate)}
+                  dataType="summary"
+                  source="broker_activity_stocks"
+                  isDisabled={brokerActivity.stocks.items.length === 0}
+                  className="h-7 text-xs"
+                />
+              </div>
 
               <div className="grid grid-cols-1 gap-2">
                 {brokerActivity.stocks.items.map((stock) => (
@@ -1385,9 +1175,9 @@ function BrokerActivityPage() {
                       {/* Top Row: Logo + Symbol + Company Name + Broker */}
                       <div className="flex items-start justify-between gap-4 mb-3">
                         <div className="flex items-center gap-3">
-                          {emittenInfo?.data.icon_url && (
+                          {emittenInfo?.icon_url && (
                             <img
-                              src={emittenInfo.data.icon_url}
+                              src={emittenInfo.icon_url}
                               alt={selectedStock}
                               className="w-16 h-16 rounded-full object-contain bg-default-100"
                               onError={(e) => {
@@ -1410,7 +1200,7 @@ function BrokerActivityPage() {
                                 </Chip>
                               )}
                               {/* Notations & ISSI */}
-                              {emittenInfo?.data.notation && emittenInfo.data.notation
+                              {emittenInfo?.notation && emittenInfo.notation
                                 .filter(n => n.notation_code !== 'AQ')
                                 .map((notation) => (
                                   <Chip
@@ -1424,7 +1214,7 @@ function BrokerActivityPage() {
                                   </Chip>
                                 ))
                               }
-                              {emittenInfo?.data.indexes.includes('ISSI') && (
+                              {emittenInfo?.indexes?.includes("ISSI") && (
                                 <Chip
                                   size="sm"
                                   variant="flat"
@@ -1435,8 +1225,8 @@ function BrokerActivityPage() {
                                 </Chip>
                               )}
                             </div>
-                            {emittenInfo?.data.name && (
-                              <p className="text-sm text-default-600">{emittenInfo.data.name}</p>
+                            {emittenInfo?.name && (
+                              <p className="text-sm text-default-600">{emittenInfo.name}</p>
                             )}
                             <div className="flex items-center gap-3">
                               <p className="text-xs text-default-500">
@@ -1473,13 +1263,13 @@ function BrokerActivityPage() {
                       </div>
 
                       {/* Sector & Sub-sector */}
-                      {emittenInfo?.data.sector && (
+                      {emittenInfo?.sector && (
                         <div className="flex items-center gap-2 mb-3">
-                          <span className="text-xs text-default-600">{emittenInfo.data.sector}</span>
-                          {emittenInfo.data.sub_sector && (
+                          <span className="text-xs text-default-600">{emittenInfo.sector}</span>
+                          {emittenInfo.sub_sector && (
                             <>
                               <span className="text-default-400">•</span>
-                              <span className="text-xs text-default-500">{emittenInfo.data.sub_sector}</span>
+                              <span className="text-xs text-default-500">{emittenInfo.sub_sector}</span>
                             </>
                           )}
                         </div>
@@ -1538,26 +1328,26 @@ function BrokerActivityPage() {
                         })()}
 
                         {/* Current Price */}
-                        {emittenInfo?.data && (
+                        {emittenInfo && (
                           <div className="bg-default-50 rounded-lg border border-default-200 px-3 py-2">
                             <div className="flex items-center justify-between">
                               <p className="text-[10px] text-default-500 uppercase font-medium">Current Price</p>
-                              {emittenInfo.data.percentage !== undefined && (
+                              {emittenInfo.percentage !== undefined && (
                                 <p className={`text-[10px] font-semibold ${
-                                  emittenInfo.data.percentage > 0 ? 'text-success' :
-                                  emittenInfo.data.percentage < 0 ? 'text-danger' :
+                                  emittenInfo.percentage > 0 ? "text-success" :
+                                  emittenInfo.percentage < 0 ? "text-danger" :
                                   'text-default-500'
                                 }`}>
-                                  {emittenInfo.data.percentage > 0 ? '+' : ''}{emittenInfo.data.percentage.toFixed(2)}%
+                                  {emittenInfo.percentage > 0 ? "+" : ""}{emittenInfo.percentage.toFixed(2)}%
                                 </p>
                               )}
                             </div>
                             <p className="text-base font-bold text-default-700">
-                              IDR {emittenInfo.data.price}
+                              IDR {emittenInfo.price}
                             </p>
-                            {emittenInfo.data.previous && (
+                            {emittenInfo.previous && (
                               <p className="text-[9px] text-default-500">
-                                Previous: IDR {emittenInfo.data.previous}
+                                Previous: IDR {emittenInfo.previous}
                               </p>
                             )}
                           </div>
@@ -1568,7 +1358,7 @@ function BrokerActivityPage() {
                           const stock = brokerActivity.stocks.items.find(s => s.symbol === selectedStock);
                           const isBuy = stock?.side === "BUY";
                           const avgPriceRaw = stock?.avg_price.raw;
-                          const currentPrice = emittenInfo?.data.price ? parseFloat(emittenInfo.data.price) : null;
+                          const currentPrice = emittenInfo?.price ? parseFloat(emittenInfo.price) : null;
 
                           // Calculate percentage difference if net buy and we have both prices
                           const showPercentageDiff = isBuy && avgPriceRaw && currentPrice;
@@ -6,6 +6,7 @@
  */
 
 import { useState, useMemo, useRef, useEffect } from "react";
+import NextLink from "next/link";
 import { Button } from "@heroui/button";
 import { Input } from "@heroui/input";
 import { Card, CardBody } from "@heroui/card";
@@ -13,20 +14,48 @@ import { Chip } from "@heroui/chip";
 import { Spinner } from "@heroui/spinner";
 import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
 import { motion, AnimatePresence } from "framer-motion";
-import { BROKERS } from "@/data/brokers";
+import {
+  brokerAutocompleteFilter,
+  getBroker,
+  getBrokerGroupCode,
+  getBrokerGroupColor,
+  getBrokerGroupDisplayName,
+  getBrokerGroupTextColor,
+  getBrokerStatus,
+} from "@/lib/brokers";
 import { addToast } from "@heroui/toast";
 import { useAnalytics } from "@/lib/hooks/useAnalytics";
+import { useBrokerDirectory } from "@/lib/hooks/useBrokerDirectory";
+import {
+  formatRangeDuration,
+  getLatestTradingDay,
+  getMatchingPreset,
+  getPresetRange,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
 import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
 import { ShareModal } from "@/components/broker-calendar/ShareModal";
 import { ShareFloatingButton } from "@/components/broker-calendar/ShareFloatingButton";
 import { BrokerFlowModal } from "@/components/broker-calendar/BrokerFlowModal";
+import { WatchlistPicker } from "@/components/watchlist/WatchlistPicker";
 import { BrokerFlowFloatingButton } from "@/components/broker-calendar/BrokerFlowFloatingButton";
 import { useRouter } from "next/navigation";
 import { createShareLink, getSharedLink } from "@/lib/api/share";
-import { getClientIPSync } from "@/lib/utils/client-ip";
+import { fetchBrokerCalendar, fetchBrokerSummary } from "@/lib/api/broker";
+
+/** Analysis parameters passed through the URL */
+interface BrokerCalendarQuery {
+  brokers: string[];
+  stockCode: string;
+  startDate: string;
+  endDate: string;
+}
 
 interface BrokerCalendarClientProps {
   shareSlug?: string;
+  initialQuery?: BrokerCalendarQuery;
 }
 
 // Types
@@ -76,58 +105,6 @@ interface AnalysisResult {
   priceMovement: PriceMovement;
 }
 
-// Helper function to get color based on broker group
-function getBrokerGroupColor(group: string): "primary" | "secondary" | "warning" | "default" {
-  switch (group) {
-    case "Asing":
-      return "warning"; // Orange
-    case "Lokal":
-      return "secondary"; // Purple
-    case "Pemerintah":
-      return "primary"; // Blue
-    default:
-      return "default";
-  }
-}
-
-function getBrokerGroupCode(brokerCode: string): string {
-  const broker = BROKERS.find((b) => b.code === brokerCode);
-  return broker?.group || "";
-}
-
-function getBrokerGroupTextColor(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "text-warning"; // Orange
-    case "Lokal":
-      return "text-secondary"; // Purple
-    case "Pemerintah":
-      return "text-primary"; // Blue
-    default:
-      return "text-default-700";
-  }
-}
-
-function getBrokerGroupDisplayName(group: string): string {
-  switch (group) {
-    case "Asing":
-      return "Foreign";
-    case "Lokal":
-      return "Domestic";
-    case "Pemerintah":
-      return "BUMN";
-    default:
-      return group;
-  }
-}
-
-// Generate random hex string for x-nonce header
-function generateNonce(): string {
-  return Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 16).toString(16)
-  ).join('');
-}
-
 // LocalStorage keys
 const STORAGE_KEYS = {
   STOCK_CODE: 'broker-calendar-stock-code',
@@ -155,110 +132,121 @@ function loadFromLocalStorage<T>(key: string, defaultValue: T): T {
   return defaultValue;
 }
 
-// Helper function to get date 3 months ago
-function getDateThreeMonthsAgo(): string {
-  const date = new Date();
-  date.setMonth(date.getMonth() - 3);
-  return date.toISOString().split('T')[0];
-}
+// Quick select presets (end on the latest trading session)
+const QUICK_SELECT_PRESETS: Array<{ key: TradingPreset; label: string }> = [
+  { key: "1week", label: "1 Week" },
+  { key: "20sessions", label: "20 Sessions" },
+  { key: "1month", label: "1 Month" },
+  { key: "3months", label: "3 Months" },
+  { key: "6months", label: "6 Months" },
+  { key: "1year", label: "1 Year" },
+];
 
-// Helper function to get today's date
-function getTodayDate(): string {
-  return new Date().toISOString().split('T')[0];
+// Helper function to check if dates match a preset
+function getMatchingQuickPreset(startDate: string, endDate: string): string {
+  return getMatchingPreset(startDate, endDate, QUICK_SELECT_PRESETS.map((preset) => preset.key));
 }
 
-// Helper function to calculate and format date range duration
-function formatDateRangeDuration(startDate: string, endDate: string): string {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const diffTime = Math.abs(end.getTime() - start.getTime());
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-  const months = Math.floor(diffDays / 30);
-  const remainingDays = diffDays % 30;
-
-  if (months > 0 && remainingDays > 0) {
-    return `${months} Month${months > 1 ? 's' : ''} ${remainingDays} Day${remainingDays > 1 ? 's' : ''}`;
-  } else if (months > 0) {
-    return `${months} Month${months > 1 ? 's' : ''}`;
-  } else {
-    return `${diffDays} Day${diffDays > 1 ? 's' : ''}`;
-  }
+// Export metadata shared by the broker calendar exports
+function getExportMetadata(form: { stockCode: string; brokers: string[]; startDate: string; endDate: string }) {
+  return {
+    Symbol: form.stockCode,
+    Brokers: form.brokers.join(", ") || "Top buyers & sellers",
+    "Date From": form.startDate,
+    "Date To": form.endDate,
+  };
 }
 
-// Helper function to get date based on preset
-function getDateByPreset(preset: string): string {
-  const date = new Date();
-  switch (preset) {
-    case '1week':
-      date.setDate(date.getDate() - 7);
-      break;
-    case '1month':
-      date.setMonth(date.getMonth() - 1);
-      break;
-    case '3months':
-      date.setMonth(date.getMonth() - 3);
-      break;
-    case '6months':
-      date.setMonth(date.getMonth() - 6);
-      break;
-    case '1year':
-      date.setFullYear(date.getFullYear() - 1);
-      break;
-    default:
-      date.setMonth(date.getMonth() - 3);
-  }
-  return date.toISOString().split('T')[0];
+// Build the broker summary export (raw values)
+function buildBrokerSummaryExport(
+  result: AnalysisResult,
+  form: { stockCode: string; brokers: string[]; startDate: string; endDate: string }
+): ExportDocument {
+  return {
+    filename: buildExportFilename("broker-summary", form.stockCode, form.startDate, form.endDate),
+    metadata: getExportMetadata(form),
+    tables: [
+      {
+        name: "Broker Summary",
+        rows: result.brokerSummary,
+        columns: [
+          { header: "Broker", value: (row: BrokerDailyData) => row.broker },
+          { header: "Name", value: (row: BrokerDailyData) => getBroker(row.broker)?.name },
+          { header: "Group", value: (row: BrokerDailyData) => getBrokerGroupDisplayName(getBrokerGroupCode(row.broker)) },
+          { header: "Buy Value", value: (row: BrokerDailyData) => row.buyValue },
+          { header: "Buy Lot", value: (row: BrokerDailyData) => row.buyLot },
+          { header: "Buy Avg", value: (row: BrokerDailyData) => row.buyAvg },
+          { header: "Sell Value", value: (row: BrokerDailyData) => row.sellValue },
+          { header: "Sell Lot", value: (row: BrokerDailyData) => row.sellLot },
+          { header: "Sell Avg", value: (row: BrokerDailyData) => row.sellAvg },
+          { header: "Net Value", value: (row: BrokerDailyData) => row.buyValue - row.sellValue },
+          { header: "Net Lot", value: (row: BrokerDailyData) => row.buyLot - row.sellLot },
+        ],
+      },
+    ],
+  };
 }
 
-// Helper function to check if dates match a preset
-function getMatchingPreset(startDate: string, endDate: string): string {
-  const today = getTodayDate();
-  if (endDate !== today) return '';
-
-  const presets = ['1week', '1month', '3months', '6months', '1year'];
-  for (const preset of presets) {
-    if (startDate === getDateByPreset(preset)) {
-      return preset;
-    }
-  }
-  return '';
+// Build the daily calendar export: one row per day plus one row per broker per day
+function buildCalendarExport(
+  result: AnalysisResult,
+  form: { stockCode: string; brokers: string[]; startDate: string; endDate: string }
+): ExportDocument {
+  const brokerRows: Array<BrokerDailyData & { date: string }> = result.dailyData.flatMap((day) =>
+    day.brokers.map((broker) => ({ date: day.date, ...broker }))
+  );
+
+  return {
+    filename: buildExportFilename("broker-calendar", form.stockCode, form.startDate, form.endDate),
+    metadata: getExportMetadata(form),
+    tables: [
+      {
+        name: "Daily",
+        rows: result.dailyData,
+        columns: [
+          { header: "Date", value: (row: DailyData) => row.date },
+          { header: "Close", value: (row: DailyData) => row.closingPrice },
+          { header: "Price Change", value: (row: DailyData) => row.priceChange },
+          { header: "Price Change %", value: (row: DailyData) => row.priceChangePercent },
+          { header: "Net Value", value: (row: DailyData) => row.netValue },
+          { header: "Net Lot", value: (row: DailyData) => row.netLot },
+          { header: "Trend", value: (row: DailyData) => row.signal?.trend },
+          { header: "Strength", value: (row: DailyData) => row.signal?.strength },
+          { header: "Note", value: (row: DailyData) => row.signal?.note },
+        ],
+      },
+      {
+        name: "Daily Broker Flow",
+        rows: brokerRows,
+        columns: [
+          { header: "Date", value: (row: BrokerDailyData & { date: string }) => row.date },
+          { header: "Broker", value: (row: BrokerDailyData & { date: string }) => row.broker },
+          { header: "Net Value", value: (row: BrokerDailyData & { date: string }) => row.buyValue - row.sellValue },
+          { header: "Net Lot", value: (row: BrokerDailyData & { date: string }) => row.buyLot - row.sellLot },
+        ],
+      },
+    ],
+  };
 }
 
-// Fetch broker summary from dedicated API
-async function fetchBrokerSummary(
+// Fetch broker summary from dedicated API and merge buyers & sellers per broker
+async function fetchMergedBrokerSummary(
   stockCode: string,
   startDate: string,
-  endDate: string
+  endDate: string,
+  signal?: AbortSignal
 ): Promise<BrokerDailyData[]> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/emiten-broker-summary';
-
-  const params = new URLSearchParams({
-    symbol: stockCode,
-    from: startDate,
-    to: endDate,
-  });
-
-  const url = `${baseUrl}${endpoint}?${params.toString()}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
+  const apiResponse = await fetchBrokerSummary(
+    {
+      symbol: stockCode,
+      from: startDate,
+      to: endDate,
     },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Broker Summary API Error: ${response.status} ${response.statusText}`);
-  }
-
-  const apiResponse = await response.json();
+    { signal }
+  );
 
   // Transform broker buy data
-  const buyBrokers = apiResponse.brokers_buy.map((broker: any) => ({
+  const buyBrokers = apiResponse.brokers_buy.map((broker) => ({
     broker: broker.broker_code,
     buyValue: broker.buy_value,
     buyLot: broker.buy_volume,
@@ -269,7 +257,7 @@ async function fetchBrokerSummary(
   }));
 
   // Transform broker sell data
-  const sellBrokers = apiResponse.brokers_sell.map((broker: any) => ({
+  const sellBrokers = apiResponse.brokers_sell.map((broker) => ({
     broker: broker.broker_code,
     buyValue: 0,
     buyLot: 0,
@@ -304,54 +292,33 @@ async function analyzeData(
   brokers: string[],
   stockCode: string,
   startDate: string,
-  endDate: string
+  endDate: string,
+  signal?: AbortSignal
 ): Promise<AnalysisResult> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/broker-action-calendar';
-
-  // Build query parameters
-  const params = new URLSearchParams({
-    symbol: stockCode,
-    from: startDate,
-    to: endDate,
-  });
-
-  // Add multiple broker_code params
-  brokers.forEach(code => {
-    params.append('broker_code', code);
-  });
-
-  const url = `${baseUrl}${endpoint}?${params.toString()}`;
-  const clientIP = getClientIPSync() || 'unknown';
-
   try {
     // Fetch both calendar and broker summary data in parallel
-    const [calendarResponse, brokerSummaryData] = await Promise.all([
-      fetch(url, {
-        method: 'GET',
-        headers: {
-          'x-nonce': generateNonce(),
-          'X-Ip-Client': clientIP,
+    const [apiResponse, brokerSummaryData] = await Promise.all([
+      fetchBrokerCalendar(
+        {
+          symbol: stockCode,
+          from: startDate,
+          to: endDate,
+          brokerCodes: brokers,
         },
-      }),
-      fetchBrokerSummary(stockCode, startDate, endDate),
+        { signal }
+      ),
+      fetchMergedBrokerSummary(stockCode, startDate, endDate, signal),
     ]);
 
-    if (!calendarResponse.ok) {
-      throw new Error(`Calendar API Error: ${calendarResponse.status} ${calendarResponse.statusText}`);
-    }
-
-    const apiResponse = await calendarResponse.json();
-
     // Transform API response to our data structure
-    const dailyData: DailyData[] = apiResponse.data.map((day: any, index: number) => {
+    const dailyData: DailyData[] = apiResponse.data.map((day, index) => {
       const prevDay = apiResponse.data[index - 1];
       const previousPrice = prevDay ? prevDay.close_price : day.close_price;
       const priceChange = day.close_price - previousPrice;
       const priceChangePercent = (priceChange / previousPrice) * 100;
 
       // Transform broker data
-      const brokersData: BrokerDailyData[] = Object.entries(day.brokers).map(([code, data]: [string, any]) => {
+      const brokersData: BrokerDailyData[] = Object.entries(day.brokers).map(([code, data]) => {
         const value = data.value;
         const volume = data.volume;
         const isBuy = value > 0;
@@ -390,7 +357,7 @@ async function analyzeData(
     const netSell = apiResponse.summary.total_sell_value || 0;
 
     return {
-      phase: apiResponse.summary.trend,
+      phase: apiResponse.summary.trend as AnalysisResult["phase"],
       netBuy,
       netSell,
       totalValue: apiResponse.summary.total_value,
@@ -872,7 +839,7 @@ function ExecutiveSummary({ result, startDate, endDate }: { result: AnalysisResu
   };
 
   // Get date range duration
-  const dateRangeDuration = formatDateRangeDuration(startDate, endDate);
+  const dateRangeDuration = formatRangeDuration(startDate, endDate);
 
   return (
     <Card className="w-full">
@@ -1212,6 +1179,7 @@ function InputSection({
   };
 }) {
   const { trackBrokerSelection, trackDateFilterChanged } = useAnalytics();
+  const { brokers } = useBrokerDirectory();
 
   // Load from localStorage on mount (only if no initialData provided)
   const [loadedFromStorage, setLoadedFromStorage] = useState(false);
@@ -1221,16 +1189,16 @@ function InputSection({
   );
   const [stockCode, setStockCode] = useState(initialData?.stockCode || "FORE");
   const [startDate, setStartDate] = useState(
-    initialData?.startDate || getDateThreeMonthsAgo()
+    initialData?.startDate || getPresetRange("3months").start
   );
-  const [endDate, setEndDate] = useState(initialData?.endDate || getTodayDate());
+  const [endDate, setEndDate] = useState(initialData?.endDate || getLatestTradingDay());
   const [selectedPreset, setSelectedPreset] = useState<string>("3months");
   const [isCustomRange, setIsCustomRange] = useState(false);
 
   // Sync selectedPreset when initialData changes or dates change
   useEffect(() => {
     if (initialData?.startDate && initialData?.endDate) {
-      const matchingPreset = getMatchingPreset(initialData.startDate, initialData.endDate);
+      const matchingPreset = getMatchingQuickPreset(initialData.startDate, initialData.endDate);
       setSelectedPreset(matchingPreset);
       setIsCustomRange(matchingPreset === '');
     }
@@ -1272,18 +1240,23 @@ function InputSection({
     }
   };
 
-  const handlePresetClick = (preset: string) => {
+  const handlePresetClick = (preset: TradingPreset) => {
     setSelectedPreset(preset);
     setIsCustomRange(false);
-    const newStartDate = getDateByPreset(preset);
-    setStartDate(newStartDate);
-    setEndDate(getTodayDate());
+    const range = getPresetRange(preset);
+    setStartDate(range.start);
+    setEndDate(range.end);
   };
 
   return (
     <Card className="w-full">
       <CardBody>
-        <h2 className="text-lg font-bold mb-3">Broker Action Analyzer 🤘</h2>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-bold">Broker Action Analyzer 🤘</h2>
+          <NextLink href="/broker-calendar/scan" className="text-xs text-primary hover:underline">
+            Scan many symbols →
+          </NextLink>
+        </div>
         <div className="space-y-3">
           <div>
             <label className="block text-xs font-medium text-default-700 mb-1.5">
@@ -1299,6 +1272,9 @@ function InputSection({
                 input: "uppercase text-sm",
               }}
             />
+            <div className="mt-2">
+              <WatchlistPicker activeSymbol={stockCode} onSelectSymbol={setStockCode} />
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-2">
@@ -1312,7 +1288,7 @@ function InputSection({
                 onValueChange={(value) => {
                   const previousValue = startDate;
                   setStartDate(value);
-                  const matchingPreset = getMatchingPreset(value, endDate);
+                  const matchingPreset = getMatchingQuickPreset(value, endDate);
                   setSelectedPreset(matchingPreset);
                   setIsCustomRange(matchingPreset === '');
                   trackDateFilterChanged('start_date', value, previousValue);
@@ -1332,7 +1308,7 @@ function InputSection({
                 onValueChange={(value) => {
                   const previousValue = endDate;
                   setEndDate(value);
-                  const matchingPreset = getMatchingPreset(startDate, value);
+                  const matchingPreset = getMatchingQuickPreset(startDate, value);
                   setSelectedPreset(matchingPreset);
                   setIsCustomRange(matchingPreset === '');
                   trackDateFilterChanged('end_date', value, previousValue);
@@ -1349,13 +1325,7 @@ function InputSection({
               Quick Select
             </label>
             <div className="flex flex-wrap gap-1.5">
-              {[
-                { key: '1week', label: '1 Week' },
-                { key: '1month', label: '1 Month' },
-                { key: '3months', label: '3 Months' },
-                { key: '6months', label: '6 Months' },
-                { key: '1year', label: '1 Year' },
-              ].map((preset) => (
+              {QUICK_SELECT_PRESETS.map((preset) => (
                 <Button
                   key={preset.key}
                   size="sm"
@@ -1376,7 +1346,7 @@ function InputSection({
                   color="primary"
                   className="text-xs px-3 h-7 font-semibold"
                 >
-                  Custom ({formatDateRangeDuration(startDate, endDate)})
+                  Custom ({formatRangeDuration(startDate, endDate)})
                 </Button>
               )}
             </div>
@@ -1387,7 +1357,8 @@ function InputSection({
               Select Brokers <span className="text-default-400 font-normal">(Optional - leave empty for top buy & sell brokers)</span>
             </label>
             <Autocomplete
-              defaultItems={BROKERS.filter((b) => !selectedBrokers.includes(b.code))}
+              defaultItems={brokers.filter((b) => !selectedBrokers.includes(b.code))}
+              defaultFilter={brokerAutocompleteFilter}
               placeholder={
                 selectedBrokers.length >= 7
                   ? "Maximum 7 brokers reached"
@@ -1408,7 +1379,7 @@ function InputSection({
                     });
                     return;
                   }
-                  const broker = BROKERS.find((b) => b.code === key);
+                  const broker = getBroker(key as string);
                   if (broker) {
                     trackBrokerSelection(broker.code, broker.name, broker.group as 'Asing' | 'Lokal' | 'Pemerintah', 'autocomplete');
                   }
@@ -1429,6 +1400,11 @@ function InputSection({
                     <div className="flex items-center gap-2">
                       <span className="font-bold text-xs">{broker.code}</span>
                       <span className="text-xs text-default-500">{broker.name}</span>
+                      {getBrokerStatus(broker.code) === "new" && (
+                        <Chip size="sm" variant="dot" color="success" className="text-[10px] h-5">
+                          New
+                        </Chip>
+                      )}
                     </div>
                     <Chip
                       size="sm"
@@ -1447,15 +1423,16 @@ function InputSection({
             {selectedBrokers.length > 0 && (
               <div className="flex flex-wrap gap-2 mt-2">
                 {selectedBrokers.map((brokerCode) => {
-                  const broker = BROKERS.find((b) => b.code === brokerCode);
+                  const broker = getBroker(brokerCode);
                   if (!broker) return null;
+                  const isRetired = getBrokerStatus(brokerCode) === "retired";
 
                   return (
                     <Chip
                       key={broker.code}
                       size="sm"
                       variant="flat"
-                      color={getBrokerGroupColor(broker.group)}
+                      color={isRetired ? "default" : getBrokerGroupColor(broker.group)}
                       classNames={{
                         base: "h-6",
                         content: "text-xs",
@@ -1466,6 +1443,7 @@ function InputSection({
                       }}
                     >
                       {broker.code} - {broker.name}
+                      {isRetired && <span className="ml-1 text-default-400">(retired)</span>}
                     </Chip>
                   );
                 })}
@@ -1503,7 +1481,13 @@ function InputSection({
 }
 
 // Main page component
-function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
+function AnalyzerPage({
+  shareSlug,
+  initialQuery,
+}: {
+  shareSlug?: string;
+  initialQuery?: BrokerCalendarQuery;
+}) {
   const { trackAnalysisInitiated, trackAnalysisCompleted, trackAnalysisFailed, trackChartToggled, trackShareLinkClicked, trackBrokerFlowButtonClicked } = useAnalytics();
   const router = useRouter();
 
@@ -1537,12 +1521,19 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
   // Broker Flow Chart States
   const [isBrokerFlowModalOpen, setIsBrokerFlowModalOpen] = useState(false);
 
+  // A newer analysis cancels the one still loading
+  const analyzeAbortRef = useRef<AbortController | null>(null);
+
   const handleAnalyze = async (data: {
     brokers: string[];
     stockCode: string;
     startDate: string;
     endDate: string;
   }) => {
+    analyzeAbortRef.current?.abort();
+    const controller = new AbortController();
+    analyzeAbortRef.current = controller;
+
     setFormData(data);
     setIsLoading(true);
 
@@ -1556,8 +1547,10 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
         data.brokers,
         data.stockCode,
         data.startDate,
-        data.endDate
+        data.endDate,
+        controller.signal
       );
+      if (controller.signal.aborted) return;
       setAnalysisResult(result);
 
       // If no brokers were selected, populate from response
@@ -1586,6 +1579,9 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
       // Set chart symbol for TradingView (load in background)
       setChartSymbol(data.stockCode.toUpperCase());
     } catch (error) {
+      // Superseded by a newer analysis
+      if (controller.signal.aborted) return;
+
       // Track analysis failure
       const duration = Date.now() - startTime;
       trackAnalysisFailed(
@@ -1601,7 +1597,7 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
         color: "danger",
       });
     } finally {
-      setIsLoading(false);
+      if (!controller.signal.aborted) setIsLoading(false);
     }
   };
 
@@ -1659,6 +1655,14 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
     }
   }, [shareSlug]);
 
+  // Open the analysis requested in the URL (e.g. a row of the batch scan)
+  useEffect(() => {
+    if (!shareSlug && initialQuery && !analysisResult && !isLoading) {
+      handleAnalyze(initialQuery);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shareSlug, initialQuery?.stockCode, initialQuery?.startDate, initialQuery?.endDate]);
+
   // Update chartSymbol and shareData when analysis completes
   useEffect(() => {
     if (analysisResult && formData?.stockCode) {
@@ -1722,9 +1726,19 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
               <InputSection onSubmit={handleAnalyze} initialData={formData || undefined} />
               <ExecutiveSummary result={analysisResult} startDate={formData?.startDate || ""} endDate={formData?.endDate || ""} />
               <div>
-                <h3 className="text-sm font-bold mb-2 text-default-700">
-                  Broker Summary
-                </h3>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-bold text-default-700">
+                    Broker Summary
+                  </h3>
+                  {formData && (
+                    <ExportMenu
+                      getDocument={() => buildBrokerSummaryExport(analysisResult, formData)}
+                      dataType="summary"
+                      source="broker_calendar_summary"
+                      className="h-7 text-xs"
+                    />
+                  )}
+                </div>
                 <BrokerSummaryTable brokerSummary={analysisResult.brokerSummary} />
               </div>
             </motion.div>
@@ -1738,7 +1752,16 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
             >
               <Card>
                 <CardBody>
-                  <h2 className="text-xl font-bold mb-4">Calendar View</h2>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-xl font-bold">Calendar View</h2>
+                    {formData && (
+                      <ExportMenu
+                        getDocument={() => buildCalendarExport(analysisResult, formData)}
+                        dataType="calendar"
+                        source="broker_calendar_daily"
+                      />
+                    )}
+                  </div>
                   <CalendarView dailyData={analysisResult.dailyData} />
                 </CardBody>
               </Card>
@@ -1827,7 +1850,7 @@ function AnalyzerPage({ shareSlug }: { shareSlug?: string }) {
   );
 }
 
-// Client component that receives shareSlug from server component
-export default function BrokerCalendarClient({ shareSlug }: BrokerCalendarClientProps) {
-  return <AnalyzerPage shareSlug={shareSlug} />;
+// Client component that receives shareSlug and the URL query from server component
+export default function BrokerCalendarClient({ shareSlug, initialQuery }: BrokerCalendarClientProps) {
+  return <AnalyzerPage shareSlug={shareSlug} initialQuery={initialQuery} />;
 }
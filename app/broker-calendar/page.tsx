@@ -4,10 +4,17 @@
  */
 
 import { Metadata } from "next";
+import { getSharedLink } from "@/lib/api/share";
 import BrokerCalendarClient from "./client-page";
 
 type Props = {
-  searchParams: Promise<{ share?: string }>;
+  searchParams: Promise<{
+    share?: string;
+    symbol?: string;
+    from?: string;
+    to?: string;
+    brokers?: string;
+  }>;
 };
 
 /**
@@ -28,18 +35,10 @@ export async function generateMetadata(
   }
 
   try {
-    // Generate nonce for server-side fetch
-    const nonce = `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
-
     // Fetch share data for OG tags
-    const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'https://api-idx.gsphomelab.org';
-    const response = await fetch(`${baseUrl}/api/v1/share-link/${share}`, {
-      headers: { 'X-Nonce': nonce },
-      cache: 'no-store',
-    });
+    const result = await getSharedLink(share, "no-store");
 
-    if (response.ok) {
-      const result = await response.json();
+    if (result.success) {
       const data = result.data;
       const brokers = data.queryParams.broker_code.join(', ');
       const frontendUrl = process.env.NEXT_PUBLIC_FRONTEND_URL || 'https://hakahakitools.gsphomelab.org';
@@ -87,9 +86,18 @@ export async function generateMetadata(
 /**
  * Server Component Wrapper
  * Renders the client component with search params
+ * `?symbol=&from=&to=&brokers=` opens a specific analysis (e.g. from the batch scan)
  */
 export default async function BrokerCalendarPage({ searchParams }: Props) {
   const params = await searchParams;
+  const initialQuery = params.symbol && params.from && params.to
+    ? {
+        stockCode: params.symbol.toUpperCase(),
+        startDate: params.from,
+        endDate: params.to,
+        brokers: params.brokers ? params.brokers.split(",").filter(Boolean) : [],
+      }
+    : undefined;
 
-  return <BrokerCalendarClient shareSlug={params.share} />;
+  return <BrokerCalendarClient shareSlug={params.share} initialQuery={initialQuery} />;
 }
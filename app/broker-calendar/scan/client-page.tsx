@@ -0,0 +1,597 @@
+"use client";
+
+/**
+ * Broker Calendar Scan Client Page
+ * Runs the broker calendar analysis of one broker set over a watchlist and ranks the results
+ */
+
+import { useState, useMemo, useRef, useEffect } from "react";
+import NextLink from "next/link";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Progress } from "@heroui/progress";
+import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
+import { addToast } from "@heroui/toast";
+import {
+  brokerAutocompleteFilter,
+  getBroker,
+  getBrokerGroupColor,
+  getBrokerGroupDisplayName,
+} from "@/lib/brokers";
+import { useBrokerDirectory } from "@/lib/hooks/useBrokerDirectory";
+import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { parseSymbols } from "@/lib/watchlists";
+import {
+  BROKER_SCAN_LIMITS,
+  buildBrokerCalendarHref,
+  rankScanRows,
+  scanBrokerCalendar,
+  type BrokerScanRow,
+  type BrokerScanSortKey,
+} from "@/lib/utils/broker-scan";
+import {
+  formatRangeDuration,
+  getLatestTradingDay,
+  getMatchingPreset,
+  getPresetRange,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
+import { formatCompactNumber } from "@/lib/utils/format";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
+
+// Types
+interface ScanRequest {
+  symbols: string[];
+  brokers: string[];
+  from: string;
+  to: string;
+}
+
+const MAX_BROKERS = 7;
+
+const QUICK_SELECT_PRESETS: Array<{ key: TradingPreset; label: string }> = [
+  { key: "1week", label: "1 Week" },
+  { key: "20sessions", label: "20 Sessions" },
+  { key: "1month", label: "1 Month" },
+  { key: "3months", label: "3 Months" },
+];
+
+const SORT_OPTIONS: Array<{ key: BrokerScanSortKey; label: string }> = [
+  { key: "net", label: "Net Value" },
+  { key: "phase", label: "Phase" },
+  { key: "price", label: "Price Change" },
+];
+
+// Build the scan results export (raw values)
+function buildScanExport(
+  rows: BrokerScanRow[],
+  request: ScanRequest,
+): ExportDocument {
+  return {
+    filename: buildExportFilename(
+      "broker-scan",
+      request.brokers.join("-"),
+      request.from,
+      request.to,
+    ),
+    metadata: {
+      Brokers: request.brokers.join(", ") || "Top buyers & sellers",
+      Symbols: request.symbols.length,
+      "Date From": request.from,
+      "Date To": request.to,
+    },
+    tables: [
+      {
+        name: "Scan Results",
+        rows,
+        columns: [
+          { header: "Symbol", value: (row: BrokerScanRow) => row.symbol },
+          { header: "Phase", value: (row: BrokerScanRow) => row.phase },
+          { header: "Strength", value: (row: BrokerScanRow) => row.strength },
+          { header: "Net Buy", value: (row: BrokerScanRow) => row.netBuy },
+          { header: "Net Sell", value: (row: BrokerScanRow) => row.netSell },
+          { header: "Net", value: (row: BrokerScanRow) => row.net },
+          {
+            header: "Broker Summary Net",
+            value: (row: BrokerScanRow) => row.summaryNet,
+          },
+          {
+            header: "Price From",
+            value: (row: BrokerScanRow) => row.priceFrom,
+          },
+          { header: "Price To", value: (row: BrokerScanRow) => row.priceTo },
+          {
+            header: "Price Change %",
+            value: (row: BrokerScanRow) => row.priceChangePercent,
+          },
+          {
+            header: "Dominant Brokers",
+            value: (row: BrokerScanRow) => row.dominantBrokers.join(", "),
+          },
+          { header: "Top Buyer", value: (row: BrokerScanRow) => row.topBuyer },
+          {
+            header: "Top Seller",
+            value: (row: BrokerScanRow) => row.topSeller,
+          },
+          { header: "Error", value: (row: BrokerScanRow) => row.error || "" },
+        ],
+      },
+    ],
+  };
+}
+
+// Results table
+function ScanResultsTable({
+  rows,
+  request,
+  sortKey,
+  onSortChange,
+}: {
+  rows: BrokerScanRow[];
+  request: ScanRequest;
+  sortKey: BrokerScanSortKey;
+  onSortChange: (key: BrokerScanSortKey) => void;
+}) {
+  const rankedRows = useMemo(
+    () => rankScanRows(rows, sortKey),
+    [rows, sortKey],
+  );
+
+  return (
+    <Card>
+      <CardBody className="p-0">
+        <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-3 border-b border-default-200">
+          <div className="flex items-center gap-1.5">
+            <span className="text-xs text-default-500 mr-1">Rank by:</span>
+            {SORT_OPTIONS.map((option) => (
+              <Button
+                key={option.key}
+                size="sm"
+                variant={sortKey === option.key ? "solid" : "flat"}
+                color={sortKey === option.key ? "primary" : "default"}
+                className="text-xs px-3 h-7"
+                onPress={() => onSortChange(option.key)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <ExportMenu
+            getDocument={() => buildScanExport(rankedRows, request)}
+            dataType="summary"
+            source="broker_calendar_scan"
+            isDisabled={rows.length === 0}
+            className="h-7 text-xs"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-default-500 border-b border-default-200">
+                <th className="text-left font-medium px-4 py-2">#</th>
+                <th className="text-left font-medium px-2 py-2">Symbol</th>
+                <th className="text-left font-medium px-2 py-2">Phase</th>
+                <th className="text-right font-medium px-2 py-2">Net Buy</th>
+                <th className="text-right font-medium px-2 py-2">Net Sell</th>
+                <th className="text-right font-medium px-2 py-2">Net</th>
+                <th className="text-right font-medium px-2 py-2">Price</th>
+                <th className="text-left font-medium px-2 py-2">Dominant</th>
+                <th className="text-left font-medium px-2 py-2">
+                  Top Buyer / Seller
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {rankedRows.map((row, index) => (
+                <tr
+                  key={row.symbol}
+                  className="border-b border-default-100 hover:bg-default-50"
+                >
+                  <td className="px-4 py-2 text-default-400">{index + 1}</td>
+                  <td className="px-2 py-2">
+                    <NextLink
+                      href={buildBrokerCalendarHref(row.symbol, request)}
+                      className="font-bold text-primary hover:underline"
+                    >
+                      {row.symbol}
+                    </NextLink>
+                  </td>
+                  {row.error ? (
+                    <td colSpan={7} className="px-2 py-2 text-danger">
+                      {row.error}
+                    </td>
+                  ) : (
+                    <>
+                      <td className="px-2 py-2">
+                        {row.phase ? (
+                          <Chip
+                            size="sm"
+                            variant="flat"
+                            color={
+                              row.phase === "accumulation"
+                                ? "success"
+                                : "danger"
+                            }
+                            className="text-[10px] capitalize"
+                          >
+                            {row.phase}
+                            {row.strength ? ` · ${row.strength}` : ""}
+                          </Chip>
+                        ) : (
+                          <span className="text-default-400">-</span>
+                        )}
+                      </td>
+                      <td className="px-2 py-2 text-right text-success">
+                        {formatCompactNumber(row.netBuy)}
+                      </td>
+                      <td className="px-2 py-2 text-right text-danger">
+                        {formatCompactNumber(row.netSell)}
+                      </td>
+                      <td
+                        className={`px-2 py-2 text-right font-semibold ${row.net >= 0 ? "text-success" : "text-danger"}`}
+                      >
+                        {row.net >= 0 ? "+" : ""}
+                        {formatCompactNumber(row.net)}
+                      </td>
+                      <td
+                        className={`px-2 py-2 text-right ${row.priceChangePercent >= 0 ? "text-success" : "text-danger"}`}
+                      >
+                        {row.priceChangePercent >= 0 ? "+" : ""}
+                        {row.priceChangePercent.toFixed(2)}%
+                      </td>
+                      <td className="px-2 py-2 text-default-600">
+                        {row.dominantBrokers.slice(0, 3).join(", ") || "-"}
+                      </td>
+                      <td className="px-2 py-2 text-default-600">
+                        {row.topBuyer || "-"} / {row.topSeller || "-"}
+                      </td>
+                    </>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+// Main page component
+function BrokerScanPage() {
+  useTrackPageView({ pageTitle: "Broker Calendar Scan" });
+
+  const { brokers } = useBrokerDirectory();
+  const watchlists = useWatchlists();
+
+  // Form state
+  const [symbolInput, setSymbolInput] = useState("");
+  const [selectedBrokers, setSelectedBrokers] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState(
+    () => getPresetRange("1month").start,
+  );
+  const [endDate, setEndDate] = useState(() => getLatestTradingDay());
+
+  // Scan state
+  const [rows, setRows] = useState<BrokerScanRow[]>([]);
+  const [request, setRequest] = useState<ScanRequest | null>(null);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [isScanning, setIsScanning] = useState(false);
+  const [sortKey, setSortKey] = useState<BrokerScanSortKey>("net");
+  const abortRef = useRef<AbortController | null>(null);
+
+  const parsed = useMemo(() => parseSymbols(symbolInput), [symbolInput]);
+  const selectedPreset = getMatchingPreset(
+    startDate,
+    endDate,
+    QUICK_SELECT_PRESETS.map((preset) => preset.key),
+  );
+
+  // Cancel a running scan when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleScan = async () => {
+    if (parsed.symbols.length === 0) {
+      addToast({
+        title: "No Symbols",
+        description: "Enter symbols or load a watchlist first.",
+        color: "warning",
+      });
+      return;
+    }
+    if (parsed.symbols.length > BROKER_SCAN_LIMITS.MAX_SYMBOLS) {
+      addToast({
+        title: "Too Many Symbols",
+        description: `A scan can cover at most ${BROKER_SCAN_LIMITS.MAX_SYMBOLS} symbols.`,
+        color: "warning",
+      });
+      return;
+    }
+
+    const scanRequest: ScanRequest = {
+      symbols: parsed.symbols,
+      brokers: selectedBrokers,
+      from: startDate,
+      to: endDate,
+    };
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setRequest(scanRequest);
+    setRows([]);
+    setProgress({ completed: 0, total: scanRequest.symbols.length });
+    setIsScanning(true);
+
+    try {
+      await scanBrokerCalendar(scanRequest, {
+        signal: controller.signal,
+        onResult: (row, completed, total) => {
+          setRows((previous) => [...previous, row]);
+          setProgress({ completed, total });
+        },
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        addToast({
+          title: "Scan Failed",
+          description:
+            error instanceof Error
+              ? error.message
+              : "Failed to scan symbols. Please try again.",
+          color: "danger",
+        });
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsScanning(false);
+      }
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsScanning(false);
+  };
+
+  const failedCount = rows.filter((row) => row.error).length;
+
+  return (
+    <div className="w-full max-w-6xl mx-auto space-y-4">
+      <Card>
+        <CardBody className="space-y-3">
+          <div>
+            <h2 className="text-lg font-bold">Broker Calendar Scan 🔭</h2>
+            <p className="text-xs text-default-500">
+              Run the broker calendar for one broker set over many symbols and
+              rank where it is accumulating.
+            </p>
+          </div>
+
+          {/* Symbols */}
+          <div>
+            <p className="text-xs font-medium text-default-700 mb-1.5">
+              Symbols{" "}
+              <span className="text-default-400 font-normal">
+                (max {BROKER_SCAN_LIMITS.MAX_SYMBOLS})
+              </span>
+            </p>
+            <Input
+              placeholder="e.g., BBCA BBRI BMRI, ADRO PTBA"
+              value={symbolInput}
+              onValueChange={(value) => setSymbolInput(value.toUpperCase())}
+              size="sm"
+              isClearable
+              onClear={() => setSymbolInput("")}
+            />
+            {watchlists.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                <span className="text-xs text-default-500 mr-1">
+                  Load watchlist:
+                </span>
+                {watchlists.map((list) => (
+                  <Chip
+                    key={list.id}
+                    size="sm"
+                    variant="bordered"
+                    className="cursor-pointer"
+                    onClick={() => setSymbolInput(list.symbols.join(" "))}
+                  >
+                    {list.name} ({list.symbols.length})
+                  </Chip>
+                ))}
+              </div>
+            )}
+            <p className="text-[10px] mt-1 text-default-500">
+              {parsed.symbols.length} symbol(s)
+              {parsed.invalid.length > 0 && (
+                <span className="text-warning">
+                  {" "}
+                  · ignored: {parsed.invalid.join(", ")}
+                </span>
+              )}
+            </p>
+          </div>
+
+          {/* Brokers */}
+          <div>
+            <p className="text-xs font-medium text-default-700 mb-1.5">
+              Broker Set{" "}
+              <span className="text-default-400 font-normal">
+                (Optional - leave empty for top buy & sell brokers per symbol)
+              </span>
+            </p>
+            <Autocomplete
+              defaultItems={brokers.filter(
+                (b) => !selectedBrokers.includes(b.code),
+              )}
+              defaultFilter={brokerAutocompleteFilter}
+              placeholder={
+                selectedBrokers.length >= MAX_BROKERS
+                  ? "Maximum 7 brokers reached"
+                  : "Type to search brokers..."
+              }
+              size="sm"
+              variant="bordered"
+              isDisabled={selectedBrokers.length >= MAX_BROKERS}
+              onSelectionChange={(key) => {
+                if (
+                  key &&
+                  !selectedBrokers.includes(key as string) &&
+                  selectedBrokers.length < MAX_BROKERS
+                ) {
+                  setSelectedBrokers([...selectedBrokers, key as string]);
+                }
+              }}
+              classNames={{
+                base: "w-full",
+                listbox: "max-h-60",
+              }}
+            >
+              {(broker) => (
+                <AutocompleteItem
+                  key={broker.code}
+                  textValue={`${broker.code} - ${broker.name}`}
+                >
+                  <div className="flex items-center justify-between gap-2 w-full">
+                    <div className="flex items-center gap-2">
+                      <span className="font-bold text-xs">{broker.code}</span>
+                      <span className="text-xs text-default-500">
+                        {broker.name}
+                      </span>
+                    </div>
+                    <Chip
+                      size="sm"
+                      variant="flat"
+                      color={getBrokerGroupColor(broker.group)}
+                      className="text-[10px]"
+                    >
+                      {getBrokerGroupDisplayName(broker.group)}
+                    </Chip>
+                  </div>
+                </AutocompleteItem>
+              )}
+            </Autocomplete>
+            {selectedBrokers.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {selectedBrokers.map((code) => (
+                  <Chip
+                    key={code}
+                    size="sm"
+                    variant="flat"
+                    color={getBrokerGroupColor(getBroker(code)?.group || "")}
+                    classNames={{ base: "h-6", content: "text-xs" }}
+                    onClose={() =>
+                      setSelectedBrokers(
+                        selectedBrokers.filter((b) => b !== code),
+                      )
+                    }
+                  >
+                    {code}
+                  </Chip>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Date Range */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <Input
+              type="date"
+              label="Start Date"
+              size="sm"
+              value={startDate}
+              onValueChange={setStartDate}
+            />
+            <Input
+              type="date"
+              label="End Date"
+              size="sm"
+              value={endDate}
+              onValueChange={setEndDate}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-1.5">
+            {QUICK_SELECT_PRESETS.map((preset) => (
+              <Button
+                key={preset.key}
+                size="sm"
+                variant={selectedPreset === preset.key ? "solid" : "flat"}
+                color={selectedPreset === preset.key ? "primary" : "default"}
+                className="text-xs px-3 h-7"
+                onPress={() => {
+                  const range = getPresetRange(preset.key);
+                  setStartDate(range.start);
+                  setEndDate(range.end);
+                }}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <span className="text-xs text-default-400 ml-1">
+              {formatRangeDuration(startDate, endDate)}
+            </span>
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              color="primary"
+              className="flex-1 font-semibold"
+              onPress={handleScan}
+              isLoading={isScanning}
+            >
+              Scan{" "}
+              {parsed.symbols.length > 0
+                ? `${parsed.symbols.length} Symbols`
+                : ""}
+            </Button>
+            {isScanning && (
+              <Button variant="flat" color="danger" onPress={handleCancel}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+
+      {/* Progress */}
+      {progress.total > 0 &&
+        (isScanning || progress.completed < progress.total) && (
+          <Progress
+            size="sm"
+            color="primary"
+            aria-label="Scan progress"
+            label={`${progress.completed}/${progress.total} symbols analyzed${isScanning ? "" : " (cancelled)"}`}
+            value={(progress.completed / progress.total) * 100}
+            showValueLabel
+          />
+        )}
+
+      {failedCount > 0 && !isScanning && (
+        <p className="text-xs text-warning">
+          {failedCount} symbol(s) could not be analyzed and are listed at the
+          bottom.
+        </p>
+      )}
+
+      {request && rows.length > 0 && (
+        <ScanResultsTable
+          rows={rows}
+          request={request}
+          sortKey={sortKey}
+          onSortChange={setSortKey}
+        />
+      )}
+    </div>
+  );
+}
+
+export default function BrokerScanClient() {
+  return <BrokerScanPage />;
+}
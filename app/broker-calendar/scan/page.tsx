@@ -0,0 +1,20 @@
+/**
+ * Broker Calendar Scan Server Wrapper
+ * Handles metadata for the multi-symbol scan page
+ */
+
+import { Metadata } from "next";
+import BrokerScanClient from "./client-page";
+
+export const metadata: Metadata = {
+  title: "Broker Calendar Scan - Haka-Haki Tools",
+  description: "Scan a watchlist for stocks where a broker set is accumulating",
+};
+
+/**
+ * Server Component Wrapper
+ * Renders the client component
+ */
+export default function BrokerScanPage() {
+  return <BrokerScanClient />;
+}
@@ -0,0 +1,691 @@
+"use client";
+
+/**
+ * Broker Compare Client Page
+ * Side-by-side broker activity for two to four brokers over the same window
+ */
+
+import { useState, useMemo, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Spinner } from "@heroui/spinner";
+import { Autocomplete, AutocompleteItem } from "@heroui/autocomplete";
+import { addToast } from "@heroui/toast";
+import {
+  brokerAutocompleteFilter,
+  getBroker,
+  getBrokerGroupColor,
+  getBrokerGroupDisplayName,
+} from "@/lib/brokers";
+import { fetchBrokerActivity } from "@/lib/api/broker";
+import { useBrokerDirectory } from "@/lib/hooks/useBrokerDirectory";
+import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
+import {
+  COMPARE_LIMITS,
+  buildStockOverlap,
+  type ComparedBroker,
+  type OverlapCategory,
+  type StockOverlapRow,
+} from "@/lib/utils/broker-compare";
+import {
+  formatRangeDuration,
+  getLatestTradingDay,
+  getMatchingPreset,
+  getPresetRange,
+  type TradingPreset,
+} from "@/lib/utils/trading-calendar";
+import { formatCompactNumber } from "@/lib/utils/format";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
+
+// Types
+interface BrokerCompareClientProps {
+  initialBrokers?: string[];
+  initialFrom?: string;
+  initialTo?: string;
+}
+
+type OverlapFilter = "overlap" | OverlapCategory | "absorption";
+
+const QUICK_SELECT_PRESETS: Array<{ key: TradingPreset; label: string }> = [
+  { key: "today", label: "Today" },
+  { key: "3days", label: "3D" },
+  { key: "1week", label: "1W" },
+  { key: "1month", label: "1M" },
+  { key: "3months", label: "3M" },
+];
+
+const OVERLAP_FILTERS: Array<{ key: OverlapFilter; label: string }> = [
+  { key: "overlap", label: "All Overlaps" },
+  { key: "all_buy", label: "Bought by All" },
+  { key: "all_sell", label: "Sold by All" },
+  { key: "opposite", label: "Opposite Sides" },
+  { key: "absorption", label: "Absorption" },
+  { key: "single", label: "Single Broker" },
+];
+
+const CATEGORY_LABELS: Record<
+  OverlapCategory,
+  {
+    label: string;
+    color: "success" | "danger" | "warning" | "default" | "primary";
+  }
+> = {
+  all_buy: { label: "All Buy", color: "success" },
+  all_sell: { label: "All Sell", color: "danger" },
+  opposite: { label: "Opposite", color: "warning" },
+  partial: { label: "Partial", color: "primary" },
+  single: { label: "Single", color: "default" },
+};
+
+// Rows shown for each overlap filter
+function matchesFilter(row: StockOverlapRow, filter: OverlapFilter): boolean {
+  switch (filter) {
+    case "overlap":
+      return row.category !== "single";
+    case "absorption":
+      return !!row.absorption;
+    default:
+      return row.category === filter;
+  }
+}
+
+// Build the overlap export (raw values, one column group per broker)
+function buildOverlapExport(
+  rows: StockOverlapRow[],
+  brokers: string[],
+  from: string,
+  to: string,
+): ExportDocument {
+  return {
+    filename: buildExportFilename(
+      "broker-compare",
+      brokers.join("-"),
+      from,
+      to,
+    ),
+    metadata: {
+      Brokers: brokers.join(", "),
+      "Date From": from,
+      "Date To": to,
+    },
+    tables: [
+      {
+        name: "Stock Overlap",
+        rows,
+        columns: [
+          { header: "Symbol", value: (row: StockOverlapRow) => row.symbol },
+          {
+            header: "Category",
+            value: (row: StockOverlapRow) =>
+              CATEGORY_LABELS[row.category].label,
+          },
+          ...brokers.flatMap((code) => [
+            {
+              header: `${code} Side`,
+              value: (row: StockOverlapRow) => row.positions[code]?.side || "",
+            },
+            {
+              header: `${code} Value`,
+              value: (row: StockOverlapRow) =>
+                row.positions[code]?.value ?? null,
+            },
+            {
+              header: `${code} Volume`,
+              value: (row: StockOverlapRow) =>
+                row.positions[code]?.volume ?? null,
+            },
+            {
+              header: `${code} Avg Price`,
+              value: (row: StockOverlapRow) =>
+                row.positions[code]?.avgPrice ?? null,
+            },
+          ]),
+          {
+            header: "Absorbed By",
+            value: (row: StockOverlapRow) => row.absorption?.buyer || "",
+          },
+          {
+            header: "Absorbed From",
+            value: (row: StockOverlapRow) => row.absorption?.seller || "",
+          },
+          {
+            header: "Absorption Ratio",
+            value: (row: StockOverlapRow) => row.absorption?.ratio ?? null,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// Side-by-side market_activity and derived_metrics
+function MetricsComparison({ compared }: { compared: ComparedBroker[] }) {
+  const metrics: Array<{
+    label: string;
+    render: (broker: ComparedBroker) => React.ReactNode;
+  }> = [
+    {
+      label: "Bias",
+      render: ({ activity }) => {
+        const label = activity.market_activity.accumulation_distribution.label;
+        return (
+          <Chip
+            size="sm"
+            variant="flat"
+            color={
+              label === "Accumulation"
+                ? "success"
+                : label === "Distribution"
+                  ? "danger"
+                  : "default"
+            }
+            className="h-5 text-[10px]"
+          >
+            {label}
+          </Chip>
+        );
+      },
+    },
+    {
+      label: "Net Value",
+      render: ({ activity }) => {
+        const net =
+          activity.market_activity.accumulation_distribution.net_value;
+        return (
+          <span className={net.raw >= 0 ? "text-success" : "text-danger"}>
+            {net.formatted}
+          </span>
+        );
+      },
+    },
+    {
+      label: "Strength",
+      render: ({ activity }) =>
+        `${activity.market_activity.accumulation_distribution.strength_percent.toFixed(1)}%`,
+    },
+    {
+      label: "Total Value",
+      render: ({ activity }) => activity.market_activity.total_value.formatted,
+    },
+    {
+      label: "Total Volume",
+      render: ({ activity }) => activity.market_activity.total_volume.formatted,
+    },
+    {
+      label: "Average Price",
+      render: ({ activity }) =>
+        activity.market_activity.average_price.formatted,
+    },
+    {
+      label: "Buy / Sell Stocks",
+      render: ({ activity }) =>
+        `${activity.market_activity.buyer_count} / ${activity.market_activity.seller_count}`,
+    },
+    {
+      label: "Net Exposure",
+      render: ({ activity }) =>
+        activity.derived_metrics.net_exposure_ratio.toFixed(2),
+    },
+    {
+      label: "Distribution Dominance",
+      render: ({ activity }) =>
+        activity.derived_metrics.distribution_dominance
+          ? `${activity.derived_metrics.distribution_dominance.label} (${activity.derived_metrics.distribution_dominance.score.toFixed(2)})`
+          : "-",
+    },
+    {
+      label: "Focus Index",
+      render: ({ activity }) =>
+        activity.derived_metrics.focus_index
+          ? `${activity.derived_metrics.focus_index.label} (${activity.derived_metrics.focus_index.value.toFixed(2)})`
+          : "-",
+    },
+    {
+      label: "Rotation",
+      render: ({ activity }) => {
+        const rotation = activity.derived_metrics.rotation_indicator;
+        return `${rotation.type} (${rotation.buy_stock_count}B / ${rotation.sell_stock_count}S)`;
+      },
+    },
+    {
+      label: "Recommended Action",
+      render: ({ activity }) =>
+        activity.executive_summary?.recommended_action || "-",
+    },
+  ];
+
+  return (
+    <Card>
+      <CardBody className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-default-200">
+              <th className="text-left font-medium text-default-500 py-2 pr-4">
+                Metric
+              </th>
+              {compared.map(({ code, activity }) => {
+                const broker = getBroker(code);
+                return (
+                  <th key={code} className="text-left py-2 px-2">
+                    <div className="flex items-center gap-1.5">
+                      <span className="font-bold text-sm">{code}</span>
+                      {broker && (
+                        <Chip
+                          size="sm"
+                          variant="flat"
+                          color={getBrokerGroupColor(broker.group)}
+                          className="h-5 text-[10px]"
+                        >
+                          {getBrokerGroupDisplayName(broker.group)}
+                        </Chip>
+                      )}
+                    </div>
+                    <div className="text-[10px] font-normal text-default-500 truncate max-w-[180px]">
+                      {activity.meta.broker_name}
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map((metric) => (
+              <tr key={metric.label} className="border-b border-default-100">
+                <td className="py-1.5 pr-4 text-default-500 whitespace-nowrap">
+                  {metric.label}
+                </td>
+                {compared.map((broker) => (
+                  <td key={broker.code} className="py-1.5 px-2 font-medium">
+                    {metric.render(broker)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardBody>
+    </Card>
+  );
+}
+
+// Stock overlap table
+function OverlapTable({
+  rows,
+  brokers,
+  from,
+  to,
+}: {
+  rows: StockOverlapRow[];
+  brokers: string[];
+  from: string;
+  to: string;
+}) {
+  const [filter, setFilter] = useState<OverlapFilter>("overlap");
+  const visibleRows = rows.filter((row) => matchesFilter(row, filter));
+
+  return (
+    <Card>
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-1.5">
+            {OVERLAP_FILTERS.map((option) => (
+              <Button
+                key={option.key}
+                size="sm"
+                variant={filter === option.key ? "solid" : "flat"}
+                color={filter === option.key ? "primary" : "default"}
+                className="text-xs px-3 h-7"
+                onPress={() => setFilter(option.key)}
+              >
+                {option.label} (
+                {rows.filter((row) => matchesFilter(row, option.key)).length})
+              </Button>
+            ))}
+          </div>
+          <ExportMenu
+            getDocument={() =>
+              buildOverlapExport(visibleRows, brokers, from, to)
+            }
+            dataType="summary"
+            source="broker_compare_overlap"
+            isDisabled={visibleRows.length === 0}
+            className="h-7 text-xs"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-default-200 text-default-500">
+                <th className="text-left font-medium py-2 pr-2">Symbol</th>
+                {brokers.map((code) => (
+                  <th key={code} className="text-right font-medium py-2 px-2">
+                    {code}
+                  </th>
+                ))}
+                <th className="text-left font-medium py-2 px-2">Flags</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr
+                  key={row.symbol}
+                  className={`border-b border-default-100 ${row.absorption ? "bg-warning/5" : ""}`}
+                >
+                  <td className="py-1.5 pr-2 font-bold">{row.symbol}</td>
+                  {brokers.map((code) => {
+                    const position = row.positions[code];
+                    return (
+                      <td
+                        key={code}
+                        className="py-1.5 px-2 text-right whitespace-nowrap"
+                      >
+                        {position ? (
+                          <span
+                            className={
+                              position.side === "BUY"
+                                ? "text-success"
+                                : "text-danger"
+                            }
+                          >
+                            {position.side === "BUY" ? "B" : "S"}{" "}
+                            {formatCompactNumber(position.value)}
+                          </span>
+                        ) : (
+                          <span className="text-default-300">-</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="py-1.5 px-2">
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={CATEGORY_LABELS[row.category].color}
+                        className="h-5 text-[10px]"
+                      >
+                        {CATEGORY_LABELS[row.category].label}
+                      </Chip>
+                      {row.absorption && (
+                        <span className="text-[10px] text-warning-600">
+                          {row.absorption.buyer} absorbs {row.absorption.seller}{" "}
+                          ({(row.absorption.ratio * 100).toFixed(0)}%)
+                        </span>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleRows.length === 0 && (
+            <p className="text-center text-xs text-default-500 py-6">
+              No stocks in this category
+            </p>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
+
+// Main page component
+function BrokerComparePage({
+  initialBrokers,
+  initialFrom,
+  initialTo,
+}: BrokerCompareClientProps) {
+  useTrackPageView({ pageTitle: "Broker Compare" });
+  const router = useRouter();
+  const { brokers } = useBrokerDirectory();
+
+  const [selectedBrokers, setSelectedBrokers] = useState<string[]>(
+    (initialBrokers || [])
+      .map((code) => code.toUpperCase())
+      .slice(0, COMPARE_LIMITS.MAX_BROKERS),
+  );
+  const [startDate, setStartDate] = useState(
+    () => initialFrom || getLatestTradingDay(),
+  );
+  const [endDate, setEndDate] = useState(
+    () => initialTo || getLatestTradingDay(),
+  );
+
+  const [compared, setCompared] = useState<ComparedBroker[]>([]);
+  const [comparedRange, setComparedRange] = useState({ from: "", to: "" });
+  const [isLoading, setIsLoading] = useState(false);
+
+  const selectedPreset = getMatchingPreset(
+    startDate,
+    endDate,
+    QUICK_SELECT_PRESETS.map((preset) => preset.key),
+  );
+  const overlapRows = useMemo(() => buildStockOverlap(compared), [compared]);
+  const comparedCodes = compared.map((broker) => broker.code);
+
+  const handleCompare = async () => {
+    if (selectedBrokers.length < COMPARE_LIMITS.MIN_BROKERS) {
+      addToast({
+        title: "Select More Brokers",
+        description: `Pick at least ${COMPARE_LIMITS.MIN_BROKERS} brokers to compare.`,
+        color: "warning",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    router.replace(
+      `/broker-compare?${new URLSearchParams({ brokers: selectedBrokers.join(","), from: startDate, to: endDate })}`,
+      { scroll: false },
+    );
+
+    try {
+      const activities = await Promise.all(
+        selectedBrokers.map((code) =>
+          fetchBrokerActivity({ broker: code, from: startDate, to: endDate }),
+        ),
+      );
+      setCompared(
+        selectedBrokers.map((code, index) => ({
+          code,
+          activity: activities[index],
+        })),
+      );
+      setComparedRange({ from: startDate, to: endDate });
+    } catch (error) {
+      addToast({
+        title: "Failed to fetch broker activity",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Run the comparison from a shared URL
+  useEffect(() => {
+    if (selectedBrokers.length >= COMPARE_LIMITS.MIN_BROKERS) {
+      handleCompare();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4 py-6 space-y-4">
+      <Card>
+        <CardBody className="space-y-3">
+          <div>
+            <h1 className="text-xl font-bold">Broker Compare</h1>
+            <p className="text-xs text-default-500">
+              Compare {COMPARE_LIMITS.MIN_BROKERS}-{COMPARE_LIMITS.MAX_BROKERS}{" "}
+              brokers over the same window
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[240px]">
+              <Autocomplete
+                label="Add Broker"
+                defaultItems={brokers.filter(
+                  (b) => !selectedBrokers.includes(b.code),
+                )}
+                defaultFilter={brokerAutocompleteFilter}
+                placeholder={
+                  selectedBrokers.length >= COMPARE_LIMITS.MAX_BROKERS
+                    ? `Maximum ${COMPARE_LIMITS.MAX_BROKERS} brokers reached`
+                    : "Type to search brokers..."
+                }
+                size="sm"
+                variant="bordered"
+                isDisabled={
+                  selectedBrokers.length >= COMPARE_LIMITS.MAX_BROKERS
+                }
+                onSelectionChange={(key) => {
+                  if (key && !selectedBrokers.includes(key as string)) {
+                    setSelectedBrokers([...selectedBrokers, key as string]);
+                  }
+                }}
+                classNames={{
+                  base: "w-full",
+                  listbox: "max-h-60",
+                }}
+              >
+                {(broker) => (
+                  <AutocompleteItem
+                    key={broker.code}
+                    textValue={`${broker.code} - ${broker.name}`}
+                  >
+                    <div className="flex items-center justify-between gap-2 w-full">
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-xs">{broker.code}</span>
+                        <span className="text-xs text-default-500">
+                          {broker.name}
+                        </span>
+                      </div>
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={getBrokerGroupColor(broker.group)}
+                        className="text-[10px]"
+                      >
+                        {getBrokerGroupDisplayName(broker.group)}
+                      </Chip>
+                    </div>
+                  </AutocompleteItem>
+                )}
+              </Autocomplete>
+            </div>
+
+            <Input
+              type="date"
+              label="From"
+              size="sm"
+              className="w-40"
+              value={startDate}
+              onValueChange={setStartDate}
+            />
+            <Input
+              type="date"
+              label="To"
+              size="sm"
+              className="w-40"
+              value={endDate}
+              onValueChange={setEndDate}
+            />
+
+            <Button
+              color="primary"
+              className="font-semibold"
+              onPress={handleCompare}
+              isLoading={isLoading}
+            >
+              Compare
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            {QUICK_SELECT_PRESETS.map((preset) => (
+              <Button
+                key={preset.key}
+                size="sm"
+                variant={selectedPreset === preset.key ? "solid" : "flat"}
+                color={selectedPreset === preset.key ? "primary" : "default"}
+                className="text-xs px-3 h-7"
+                onPress={() => {
+                  const range = getPresetRange(preset.key);
+                  setStartDate(range.start);
+                  setEndDate(range.end);
+                }}
+              >
+                {preset.label}
+              </Button>
+            ))}
+            <span className="text-xs text-default-400 ml-1">
+              {formatRangeDuration(startDate, endDate, true)}
+            </span>
+          </div>
+
+          {selectedBrokers.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {selectedBrokers.map((code) => {
+                const broker = getBroker(code);
+                return (
+                  <Chip
+                    key={code}
+                    size="sm"
+                    variant="flat"
+                    color={getBrokerGroupColor(broker?.group || "")}
+                    onClose={() =>
+                      setSelectedBrokers(
+                        selectedBrokers.filter((b) => b !== code),
+                      )
+                    }
+                  >
+                    {code}
+                    {broker ? ` - ${broker.name}` : ""}
+                  </Chip>
+                );
+              })}
+            </div>
+          )}
+        </CardBody>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Spinner size="lg" color="primary" />
+        </div>
+      ) : compared.length > 0 ? (
+        <>
+          <MetricsComparison compared={compared} />
+          <OverlapTable
+            rows={overlapRows}
+            brokers={comparedCodes}
+            from={comparedRange.from}
+            to={comparedRange.to}
+          />
+        </>
+      ) : (
+        <div className="flex flex-col items-center justify-center py-16 border-2 border-dashed border-default-300 rounded-xl">
+          <div className="text-6xl mb-4">⚖️</div>
+          <p className="text-lg font-semibold text-default-600">
+            Pick brokers to compare
+          </p>
+          <p className="text-sm text-default-500 mt-1">
+            e.g. AK vs ZP vs BK over the last week
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BrokerCompareClient(props: BrokerCompareClientProps) {
+  return <BrokerComparePage {...props} />;
+}
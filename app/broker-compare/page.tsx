@@ -0,0 +1,35 @@
+/**
+ * Broker Compare Server Wrapper
+ * Handles metadata and the URL query for the broker comparison page
+ */
+
+import { Metadata } from "next";
+import BrokerCompareClient from "./client-page";
+
+export const metadata: Metadata = {
+  title: "Broker Compare - Haka-Haki Tools",
+  description:
+    "Compare the stock transactions of several brokers over the same window",
+};
+
+type Props = {
+  searchParams: Promise<{ brokers?: string; from?: string; to?: string }>;
+};
+
+/**
+ * Server Component Wrapper
+ * `?brokers=AK,ZP&from=&to=` preselects the comparison
+ */
+export default async function BrokerComparePage({ searchParams }: Props) {
+  const params = await searchParams;
+
+  return (
+    <BrokerCompareClient
+      initialBrokers={
+        params.brokers ? params.brokers.split(",").filter(Boolean) : undefined
+      }
+      initialFrom={params.from}
+      initialTo={params.to}
+    />
+  );
+}
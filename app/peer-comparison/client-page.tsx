@@ -0,0 +1,631 @@
+"use client";
+
+/**
+ * Peer Comparison Client Page
+ * One emitten's key metrics, fundamental scores and fair-value upside next to its peers
+ */
+
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Progress } from "@heroui/progress";
+import { addToast } from "@heroui/toast";
+import { fetchAllEmittenData } from "@/lib/api/emitten";
+import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { getWatchlist, getWatchlists, parseSymbols } from "@/lib/watchlists";
+import {
+  findMatchingPreset,
+  readStoredAssumptions,
+  type ValuationMode,
+} from "@/lib/valuation";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import {
+  OUTLIER_IQR_MULTIPLIER,
+  PEER_COLUMNS,
+  PEER_LIMITS,
+  buildPeerRow,
+  findAllOutliers,
+  findSubSectorPeers,
+  isSameSubSector,
+  sortPeerRows,
+  type OutlierSide,
+  type PeerColumn,
+  type PeerRow,
+  type PeerSortKey,
+  type SortDirection,
+} from "@/lib/utils/peer-comparison";
+import { formatCompactNumber } from "@/lib/utils/format";
+import { buildExportFilename, type ExportDocument } from "@/lib/export";
+import { ExportMenu } from "@/components/ui";
+
+// Types
+interface PeerComparisonClientProps {
+  initialSymbol?: string;
+  initialPeers?: string[];
+  initialWatchlistId?: string;
+  initialSameSubSector?: boolean;
+}
+
+interface FailedPeer {
+  symbol: string;
+  message: string;
+}
+
+const VALUATION_MODE_LABELS: Record<ValuationMode, string> = {
+  conservative: "Konservatif",
+  moderate: "Moderat",
+  aggressive: "Agresif",
+};
+
+// Display value of one cell
+function formatCell(
+  value: number | null,
+  format: PeerColumn["format"],
+): string {
+  if (value === null) return "-";
+  switch (format) {
+    case "multiple":
+      return `${value.toFixed(2)}×`;
+    case "percent":
+      return `${value.toFixed(1)}%`;
+    case "amount":
+      return formatCompactNumber(value);
+    default:
+      return value.toFixed(0);
+  }
+}
+
+// Favourable outliers are tinted green, unfavourable ones red, neutral ones amber
+function getOutlierClass(
+  side: OutlierSide | undefined,
+  better: PeerColumn["better"],
+): string {
+  if (!side) return "";
+  if (!better) return "bg-warning/15";
+  return (side === "high") === (better === "higher")
+    ? "bg-success/15"
+    : "bg-danger/15";
+}
+
+// Build the peer grid export (raw values)
+function buildPeerExport(
+  rows: PeerRow[],
+  baseSymbol: string,
+  assumptionsLabel: string,
+): ExportDocument {
+  return {
+    filename: buildExportFilename("peer-comparison", baseSymbol),
+    metadata: {
+      Symbol: baseSymbol,
+      Peers: rows
+        .filter((row) => row.symbol !== baseSymbol)
+        .map((row) => row.symbol)
+        .join(", "),
+      "Valuation Assumptions": assumptionsLabel,
+    },
+    tables: [
+      {
+        name: "Peers",
+        rows,
+        columns: [
+          { header: "Symbol", value: (row: PeerRow) => row.symbol },
+          { header: "Name", value: (row: PeerRow) => row.name },
+          { header: "Sub-sector", value: (row: PeerRow) => row.subSector },
+          {
+            header: "Threshold Profile",
+            value: (row: PeerRow) => row.profileLabel,
+          },
+          ...PEER_COLUMNS.map((column) => ({
+            header: column.label,
+            value: (row: PeerRow) => row.values[column.key],
+          })),
+        ],
+      },
+    ],
+  };
+}
+
+// Sortable peer grid
+function PeerTable({
+  rows,
+  baseSymbol,
+  assumptionsLabel,
+}: {
+  rows: PeerRow[];
+  baseSymbol: string;
+  assumptionsLabel: string;
+}) {
+  const [sortKey, setSortKey] = useState<PeerSortKey>("overall");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+
+  const sortedRows = useMemo(
+    () => sortPeerRows(rows, sortKey, sortDirection),
+    [rows, sortKey, sortDirection],
+  );
+  const outliers = useMemo(() => findAllOutliers(rows), [rows]);
+
+  const handleSort = (key: PeerSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection(key === "symbol" ? "asc" : "desc");
+    }
+  };
+
+  const sortIndicator = (key: PeerSortKey) =>
+    key === sortKey ? (sortDirection === "asc" ? " ▲" : " ▼") : "";
+
+  return (
+    <Card>
+      <CardBody className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap items-center gap-3 text-[10px] text-default-500">
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm bg-success/15" /> Favourable
+              outlier
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm bg-danger/15" /> Unfavourable
+              outlier
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="w-3 h-3 rounded-sm bg-warning/15" /> Outlier
+            </span>
+            <span>Upside: {assumptionsLabel} assumptions</span>
+          </div>
+          <ExportMenu
+            getDocument={() =>
+              buildPeerExport(sortedRows, baseSymbol, assumptionsLabel)
+            }
+            dataType="summary"
+            source="peer_comparison"
+            isDisabled={rows.length === 0}
+            className="h-7 text-xs"
+          />
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="border-b border-default-200 text-default-500">
+                <th className="text-left font-medium py-2 pr-2">
+                  <button
+                    className="hover:text-foreground"
+                    onClick={() => handleSort("symbol")}
+                  >
+                    Symbol{sortIndicator("symbol")}
+                  </button>
+                </th>
+                {PEER_COLUMNS.map((column) => (
+                  <th
+                    key={column.key}
+                    className="text-right font-medium py-2 px-2 whitespace-nowrap"
+                  >
+                    <button
+                      className="hover:text-foreground"
+                      onClick={() => handleSort(column.key)}
+                    >
+                      {column.label}
+                      {sortIndicator(column.key)}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRows.map((row) => (
+                <tr
+                  key={row.symbol}
+                  className={`border-b border-default-100 ${row.symbol === baseSymbol ? "bg-primary/10" : ""}`}
+                >
+                  <td className="py-1.5 pr-2">
+                    <div className="font-bold">{row.symbol}</div>
+                    <div
+                      className="text-[10px] text-default-500 truncate max-w-[180px]"
+                      title={row.profileLabel}
+                    >
+                      {row.name}
+                    </div>
+                  </td>
+                  {PEER_COLUMNS.map((column) => {
+                    const value = row.values[column.key];
+                    return (
+                      <td
+                        key={column.key}
+                        className={`py-1.5 px-2 text-right whitespace-nowrap ${getOutlierClass(
+                          outliers[column.key].get(row.symbol),
+                          column.better,
+                        )}`}
+                      >
+                        <span
+                          className={
+                            column.key === "upside" && value !== null
+                              ? value >= 0
+                                ? "text-success"
+                                : "text-danger"
+                              : ""
+                          }
+                        >
+                          {column.key === "upside" &&
+                          value !== null &&
+                          value >= 0
+                            ? "+"
+                            : ""}
+                          {formatCell(value, column.format)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="text-[10px] text-default-500">
+          Outliers sit beyond Q1 − {OUTLIER_IQR_MULTIPLIER}×IQR or Q3 +{" "}
+          {OUTLIER_IQR_MULTIPLIER}×IQR of the rows shown, once at least{" "}
+          {PEER_LIMITS.MIN_OUTLIER_SAMPLE} of them report the metric. Scores use
+          each emitten&apos;s own sector profile.
+        </p>
+      </CardBody>
+    </Card>
+  );
+}
+
+// Main page component
+function PeerComparisonPage({
+  initialSymbol,
+  initialPeers,
+  initialWatchlistId,
+  initialSameSubSector = false,
+}: PeerComparisonClientProps) {
+  useTrackPageView({ pageTitle: "Peer Comparison" });
+  const router = useRouter();
+  const watchlists = useWatchlists();
+
+  const [symbolText, setSymbolText] = useState(
+    (initialSymbol || "").toUpperCase(),
+  );
+  const [peersText, setPeersText] = useState(
+    (initialPeers || []).join(", ").toUpperCase(),
+  );
+  const [sameSubSector, setSameSubSector] = useState(initialSameSubSector);
+
+  const [baseSymbol, setBaseSymbol] = useState("");
+  const [rows, setRows] = useState<PeerRow[]>([]);
+  const [failed, setFailed] = useState<FailedPeer[]>([]);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [assumptionsLabel, setAssumptionsLabel] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isFindingPeers, setIsFindingPeers] = useState(false);
+
+  // A newer comparison discards the rows of the one still running
+  const runRef = useRef(0);
+
+  const baseRow = rows.find((row) => row.symbol === baseSymbol) || null;
+  const visibleRows =
+    sameSubSector && baseRow
+      ? rows.filter(
+          (row) => row.symbol === baseSymbol || isSameSubSector(row, baseRow),
+        )
+      : rows;
+  const hiddenCount = rows.length - visibleRows.length;
+
+  const syncUrl = (symbol: string, peers: string[], same: boolean) => {
+    router.replace(
+      `/peer-comparison?${new URLSearchParams({
+        symbol,
+        peers: peers.join(","),
+        ...(same ? { same: "1" } : {}),
+      })}`,
+      { scroll: false },
+    );
+  };
+
+  const handleCompare = async (
+    symbolInput = symbolText,
+    peersInput = peersText,
+  ) => {
+    const symbol = parseSymbols(symbolInput).symbols[0];
+    if (!symbol) {
+      addToast({
+        title: "Enter a Symbol",
+        description: "Type the emitten to compare, e.g. BBCA.",
+        color: "warning",
+      });
+      return;
+    }
+
+    const { symbols, invalid } = parseSymbols(peersInput);
+    const candidates = symbols.filter((peer) => peer !== symbol);
+    const peers = candidates.slice(0, PEER_LIMITS.MAX_PEERS);
+    if (invalid.length > 0 || candidates.length > peers.length) {
+      addToast({
+        title: "Some Peers Skipped",
+        description: [
+          invalid.length > 0 ? `Not a valid symbol: ${invalid.join(", ")}` : "",
+          candidates.length > peers.length
+            ? `Only the first ${PEER_LIMITS.MAX_PEERS} peers are compared`
+            : "",
+        ]
+          .filter(Boolean)
+          .join(". "),
+        color: "warning",
+      });
+    }
+
+    const runId = ++runRef.current;
+    const assumptions = readStoredAssumptions();
+    const preset = findMatchingPreset(assumptions);
+    const targets = [symbol, ...peers];
+
+    setSymbolText(symbol);
+    setPeersText(peers.join(", "));
+    setBaseSymbol(symbol);
+    setRows([]);
+    setFailed([]);
+    setProgress({ done: 0, total: targets.length });
+    setAssumptionsLabel(preset ? VALUATION_MODE_LABELS[preset] : "Custom");
+    setIsLoading(true);
+    syncUrl(symbol, peers, sameSubSector);
+
+    // Rows appear as they arrive; a failed peer does not abort the rest
+    await mapWithConcurrency(
+      targets,
+      PEER_LIMITS.CONCURRENCY,
+      async (target) => {
+        try {
+          const data = await fetchAllEmittenData(target);
+          if (runRef.current !== runId) return;
+          const row = buildPeerRow(data.info, data.keyStats, assumptions);
+          setRows((current) => [...current, row]);
+        } catch (error) {
+          if (runRef.current !== runId) return;
+          setFailed((current) => [
+            ...current,
+            {
+              symbol: target,
+              message: error instanceof Error ? error.message : "Unknown error",
+            },
+          ]);
+        } finally {
+          if (runRef.current === runId) {
+            setProgress((current) => ({ ...current, done: current.done + 1 }));
+          }
+        }
+      },
+    );
+
+    if (runRef.current === runId) setIsLoading(false);
+  };
+
+  // Fill the peers with same-sub-sector emittens, optionally comparing right away
+  const handleFindPeers = async (symbolInput = symbolText, compare = false) => {
+    const symbol = parseSymbols(symbolInput).symbols[0];
+    if (!symbol) {
+      addToast({
+        title: "Enter a Symbol",
+        description: "Type the emitten to find peers for, e.g. BBCA.",
+        color: "warning",
+      });
+      return;
+    }
+
+    setIsFindingPeers(true);
+    try {
+      const watchlistSymbols = getWatchlists().flatMap((list) => list.symbols);
+      const { subSector, peers } = await findSubSectorPeers(
+        symbol,
+        watchlistSymbols,
+      );
+      if (peers.length === 0) {
+        addToast({
+          title: "No Peers Found",
+          description: subSector
+            ? `No other ${subSector} emitten is known yet. Open a few or add them to a watchlist, then try again.`
+            : `The sub-sector of ${symbol} is unknown.`,
+          color: "warning",
+        });
+        return;
+      }
+
+      setPeersText(peers.join(", "));
+      addToast({
+        title: "Peers Found",
+        description: `${peers.length} ${subSector} emitten${peers.length > 1 ? "s" : ""}`,
+        color: "success",
+      });
+      if (compare) handleCompare(symbol, peers.join(", "));
+    } catch (error) {
+      addToast({
+        title: "Peer Search Failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setIsFindingPeers(false);
+    }
+  };
+
+  const loadWatchlist = (id: string) => {
+    const list = getWatchlist(id);
+    if (list) setPeersText(list.symbols.join(", "));
+  };
+
+  const toggleSameSubSector = () => {
+    const next = !sameSubSector;
+    setSameSubSector(next);
+    if (baseSymbol) {
+      syncUrl(
+        baseSymbol,
+        rows.map((row) => row.symbol).filter((symbol) => symbol !== baseSymbol),
+        next,
+      );
+    }
+  };
+
+  // Run the comparison from a shared URL or the emitten sidebar
+  useEffect(() => {
+    const peers = initialPeers?.length
+      ? initialPeers.join(", ")
+      : initialWatchlistId
+        ? (getWatchlist(initialWatchlistId)?.symbols || []).join(", ")
+        : "";
+    setPeersText(peers);
+    if (initialSymbol && peers) {
+      handleCompare(initialSymbol, peers);
+    } else if (initialSymbol) {
+      handleFindPeers(initialSymbol, true);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  return (
+    <div className="w-full max-w-7xl mx-auto px-4 py-6 space-y-4">
+      <Card>
+        <CardBody className="space-y-3">
+          <div>
+            <h1 className="text-xl font-bold">Peer Comparison</h1>
+            <p className="text-xs text-default-500">
+              Compare an emitten with up to {PEER_LIMITS.MAX_PEERS} peers on
+              valuation, profitability and fundamental scores
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            <Input
+              label="Symbol"
+              size="sm"
+              variant="bordered"
+              className="w-32"
+              value={symbolText}
+              onValueChange={(value) => setSymbolText(value.toUpperCase())}
+              onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+            />
+            <Input
+              label="Peers"
+              placeholder="e.g. BBRI, BMRI, BBNI"
+              size="sm"
+              variant="bordered"
+              className="flex-1 min-w-[240px]"
+              value={peersText}
+              onValueChange={(value) => setPeersText(value.toUpperCase())}
+              onKeyDown={(e) => e.key === "Enter" && handleCompare()}
+            />
+            <Button
+              variant="flat"
+              onPress={() => handleFindPeers()}
+              isLoading={isFindingPeers}
+            >
+              Find sub-sector peers
+            </Button>
+            <Button
+              color="primary"
+              className="font-semibold"
+              onPress={() => handleCompare()}
+              isLoading={isLoading}
+            >
+              Compare
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-1.5">
+            <Button
+              size="sm"
+              variant={sameSubSector ? "solid" : "flat"}
+              color={sameSubSector ? "primary" : "default"}
+              className="text-xs px-3 h-7"
+              onPress={toggleSameSubSector}
+            >
+              Same sub-sector only
+            </Button>
+            {watchlists.length > 0 && (
+              <span className="text-xs text-default-400 ml-2">
+                Peers from watchlist:
+              </span>
+            )}
+            {watchlists.map((list) => (
+              <Button
+                key={list.id}
+                size="sm"
+                variant="flat"
+                className="text-xs px-3 h-7"
+                onPress={() => loadWatchlist(list.id)}
+              >
+                {list.name} ({list.symbols.length})
+              </Button>
+            ))}
+          </div>
+          <p className="text-[10px] text-default-500">
+            &quot;Find sub-sector peers&quot; picks emittens of the
+            symbol&apos;s sub-sector from the ones opened in this browser and
+            your watchlists; no API lists emittens by sector, so open or watch
+            more to widen the pick. &quot;Same sub-sector only&quot; hides typed
+            or watchlist peers outside the symbol&apos;s sub-sector.
+          </p>
+        </CardBody>
+      </Card>
+
+      {progress.total > 0 && isLoading && (
+        <Progress
+          size="sm"
+          color="primary"
+          aria-label="Loading peers"
+          label={`Loading ${progress.done}/${progress.total}`}
+          value={(progress.done / progress.total) * 100}
+          classNames={{ label: "text-xs text-default-500" }}
+        />
+      )}
+
+      {(hiddenCount > 0 || failed.length > 0) && (
+        <div className="flex flex-wrap gap-2">
+          {hiddenCount > 0 && (
+            <Chip size="sm" variant="flat" color="default">
+              {hiddenCount} peer{hiddenCount > 1 ? "s" : ""} outside{" "}
+              {baseRow?.subSector} hidden
+            </Chip>
+          )}
+          {failed.map((peer) => (
+            <Chip
+              key={peer.symbol}
+              size="sm"
+              variant="flat"
+              color="danger"
+              title={peer.message}
+            >
+              {peer.symbol}: failed to load
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      {visibleRows.length > 0 ? (
+        <PeerTable
+          rows={visibleRows}
+          baseSymbol={baseSymbol}
+          assumptionsLabel={assumptionsLabel}
+        />
+      ) : !isLoading ? (
+        <div className="flex flex-col items-center justify-center py-16 border-2 border-dashed border-default-300 rounded-xl">
+          <div className="text-6xl mb-4">🧮</div>
+          <p className="text-lg font-semibold text-default-600">
+            Pick an emitten and its peers
+          </p>
+          <p className="text-sm text-default-500 mt-1">
+            e.g. BBCA vs BBRI, BMRI and BBNI
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function PeerComparisonClient(props: PeerComparisonClientProps) {
+  return <PeerComparisonPage {...props} />;
+}
@@ -0,0 +1,43 @@
+/**
+ * Peer Comparison Server Wrapper
+ * Handles metadata and the URL query for the peer comparison page
+ */
+
+import { Metadata } from "next";
+import PeerComparisonClient from "./client-page";
+
+export const metadata: Metadata = {
+  title: "Peer Comparison - Haka-Haki Tools",
+  description:
+    "Compare an emitten's valuation, profitability and fundamental scores with its peers",
+};
+
+type Props = {
+  searchParams: Promise<{
+    symbol?: string;
+    peers?: string;
+    watchlist?: string;
+    same?: string;
+  }>;
+};
+
+/**
+ * Server Component Wrapper
+ * `?symbol=BBCA&peers=BBRI,BMRI&same=1` preselects the comparison;
+ * `watchlist=<id>` fills the peers from a saved watchlist instead; with
+ * neither, same-sub-sector peers are looked up for the symbol
+ */
+export default async function PeerComparisonPage({ searchParams }: Props) {
+  const params = await searchParams;
+
+  return (
+    <PeerComparisonClient
+      initialSymbol={params.symbol}
+      initialPeers={
+        params.peers ? params.peers.split(",").filter(Boolean) : undefined
+      }
+      initialWatchlistId={params.watchlist}
+      initialSameSubSector={params.same === "1"}
+    />
+  );
+}
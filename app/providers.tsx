@@ -7,6 +7,9 @@ import { HeroUIProvider } from "@heroui/system";
 import { useRouter } from "next/navigation";
 import { ThemeProvider as NextThemesProvider } from "next-themes";
 
+import { syncBrokerDirectory } from "@/lib/brokers";
+import { startNotificationWatchers } from "@/lib/notifications";
+
 export interface ProvidersProps {
   children: React.ReactNode;
   themeProps?: ThemeProviderProps;
@@ -23,6 +26,14 @@ declare module "@react-types/shared" {
 export function Providers({ children, themeProps }: ProvidersProps) {
   const router = useRouter();
 
+  // Refresh the broker directory once per session; the bundled list stays the fallback
+  React.useEffect(() => {
+    void syncBrokerDirectory();
+  }, []);
+
+  // Token expiry, share link expiry and in-app alerts feed the navbar notification center
+  React.useEffect(() => startNotificationWatchers(), []);
+
   return (
     <HeroUIProvider navigate={router.push}>
       <NextThemesProvider {...themeProps}>{children}</NextThemesProvider>
@@ -8,21 +8,7 @@ import { Chip } from "@heroui/chip";
 import { Spinner } from "@heroui/spinner";
 import { addToast } from "@heroui/toast";
 import { useTrackPageView } from "@/lib/hooks/useTrackPageView";
-import { getClientIPSync } from "@/lib/utils/client-ip";
-
-// Types
-interface TokenInfo {
-  exp: number;
-  iat: number;
-  profile_token: string;
-}
-
-// Generate random hex string for x-nonce header
-function generateNonce(): string {
-  return Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 16).toString(16)
-  ).join('');
-}
+import { fetchAccessToken, getTimeRemaining, setAccessToken, type TokenInfo } from "@/lib/api/token";
 
 // Format timestamp to readable date
 function formatTimestamp(timestamp: number): string {
@@ -38,23 +24,6 @@ function maskToken(token: string): string {
   return `${token.substring(0, 8)}...${token.substring(token.length - 4)}`;
 }
 
-// Calculate time remaining until expiration
-function getTimeRemaining(exp: number): string {
-  const now = Math.floor(Date.now() / 1000);
-  const seconds = exp - now;
-
-  if (seconds <= 0) return 'Expired';
-
-  const days = Math.floor(seconds / 86400);
-  const hours = Math.floor((seconds % 86400) / 3600);
-  const minutes = Math.floor((seconds % 3600) / 60);
-
-  if (days > 0) return `${days} day${days > 1 ? 's' : ''}`;
-  if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''}`;
-  if (minutes > 0) return `${minutes} minute${minutes > 1 ? 's' : ''}`;
-  return 'Less than a minute';
-}
-
 // Extract token from curl command or plain text
 function extractToken(input: string): string {
   const trimmed = input.trim();
@@ -204,26 +173,9 @@ export default function TokenPage() {
     setIsLoading(true);
 
     try {
-      const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-      const endpoint = '/config/access-token';
-
       // Extract token from input (supports curl command or plain token)
       const extractedToken = extractToken(tokenInput);
-      const clientIP = getClientIPSync() || 'unknown';
-
-      const response = await fetch(`${baseUrl}${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-nonce': generateNonce(),
-          'X-Ip-Client': clientIP,
-        },
-        body: JSON.stringify({ token: extractedToken }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
+      await setAccessToken(extractedToken);
 
       addToast({
         title: "Success",
@@ -250,29 +202,7 @@ export default function TokenPage() {
     setIsLoadingToken(true);
 
     try {
-      const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-      const endpoint = '/config/access-token';
-      const clientIP = getClientIPSync() || 'unknown';
-
-      const response = await fetch(`${baseUrl}${endpoint}`, {
-        method: 'GET',
-        headers: {
-          'x-nonce': generateNonce(),
-          'X-Ip-Client': clientIP,
-        },
-      });
-
-      if (response.status === 404) {
-        // Token doesn't exist
-        setTokenInfo(null);
-        return;
-      }
-
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
-      }
-
-      const data: TokenInfo = await response.json();
+      const data = await fetchAccessToken();
       setTokenInfo(data);
     } catch (error) {
       addToast({
@@ -1,21 +1,43 @@
 "use client";
 
+import { useState } from "react";
 import { Input } from "@heroui/input";
 import { Button } from "@heroui/button";
 import { Chip } from "@heroui/chip";
 import { DatePreset } from "./types";
+import { AGGREGATION_GROUPINGS, AggregationGrouping } from "@/lib/utils/aggregation";
+import {
+  BADGE_OPTIONS,
+  BROKER_GROUP_OPTIONS,
+  DEFAULT_ADVANCED_FILTERS,
+  NATIONALITY_OPTIONS,
+  SOURCE_OPTIONS,
+  countAdvancedFilters,
+  type BigPlayerAdvancedFilters,
+  type FilterOption,
+} from "@/lib/utils/bigplayer-filters";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { WatchlistModal } from "@/components/watchlist/WatchlistModal";
 
 interface FilterBarProps {
   datePreset: DatePreset;
   dateStart: string;
   dateEnd: string;
   symbolSearch: string;
+  watchlistId: string | null;
+  /** Symbols of a shared link that match none of the local watchlists */
+  sharedSymbols: string[];
   actionType: "all" | "buy" | "sell" | "other";
+  grouping: AggregationGrouping;
+  advancedFilters: BigPlayerAdvancedFilters;
   onDatePresetChange: (preset: DatePreset) => void;
   onDateStartChange: (date: string) => void;
   onDateEndChange: (date: string) => void;
   onSymbolSearchChange: (search: string) => void;
+  onWatchlistChange: (id: string | null) => void;
   onActionTypeChange: (type: "all" | "buy" | "sell" | "other") => void;
+  onGroupingChange: (grouping: AggregationGrouping) => void;
+  onAdvancedFiltersChange: (filters: BigPlayerAdvancedFilters) => void;
   onApplyFilters: () => void;
   loading?: boolean;
 }
@@ -25,15 +47,30 @@ export function FilterBar({
   dateStart,
   dateEnd,
   symbolSearch,
+  watchlistId,
+  sharedSymbols,
   actionType,
+  grouping,
+  advancedFilters,
   onDatePresetChange,
   onDateStartChange,
   onDateEndChange,
   onSymbolSearchChange,
+  onWatchlistChange,
   onActionTypeChange,
+  onGroupingChange,
+  onAdvancedFiltersChange,
   onApplyFilters,
   loading = false,
 }: FilterBarProps) {
+  const watchlists = useWatchlists();
+  const [isWatchlistModalOpen, setIsWatchlistModalOpen] = useState(false);
+  const activeAdvancedCount = countAdvancedFilters(advancedFilters);
+  const [showAdvanced, setShowAdvanced] = useState(activeAdvancedCount > 0);
+
+  const updateAdvanced = (patch: Partial<BigPlayerAdvancedFilters>) =>
+    onAdvancedFiltersChange({ ...advancedFilters, ...patch });
+
   return (
     <div className="space-y-4">
       {/* Date Presets */}
@@ -192,6 +229,153 @@ export function FilterBar({
         </div>
       </div>
 
+      {/* Watchlist Filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-default-500">Watchlist:</span>
+        <Chip
+          size="sm"
+          className="cursor-pointer transition-colors hover:bg-default-100"
+          color={!watchlistId && sharedSymbols.length === 0 ? "primary" : "default"}
+          variant={!watchlistId && sharedSymbols.length === 0 ? "solid" : "bordered"}
+          onClick={() => onWatchlistChange(null)}
+        >
+          All Symbols
+        </Chip>
+        {sharedSymbols.length > 0 && (
+          <Chip size="sm" color="primary" variant="solid" title={sharedSymbols.join(", ")}>
+            Shared list ({sharedSymbols.length})
+          </Chip>
+        )}
+        {watchlists.map((list) => (
+          <Chip
+            key={list.id}
+            size="sm"
+            className="cursor-pointer transition-colors hover:bg-default-100"
+            color={watchlistId === list.id ? "primary" : "default"}
+            variant={watchlistId === list.id ? "solid" : "bordered"}
+            onClick={() => onWatchlistChange(list.id)}
+          >
+            {list.name} ({list.symbols.length})
+          </Chip>
+        ))}
+        <Button
+          size="sm"
+          variant="light"
+          className="h-6 min-w-0 px-2"
+          onPress={() => setIsWatchlistModalOpen(true)}
+        >
+          {watchlists.length === 0 ? "+ New Watchlist" : "Manage"}
+        </Button>
+      </div>
+
+      {/* Aggregation Grouping */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-default-500">Group by:</span>
+        {AGGREGATION_GROUPINGS.map((option) => (
+          <Chip
+            key={option.key}
+            size="sm"
+            className="cursor-pointer transition-colors hover:bg-default-100"
+            color={grouping === option.key ? "primary" : "default"}
+            variant={grouping === option.key ? "solid" : "bordered"}
+            onClick={() => onGroupingChange(option.key)}
+          >
+            {option.label}
+          </Chip>
+        ))}
+        <Button
+          size="sm"
+          variant="light"
+          className="h-6 min-w-0 px-2"
+          onPress={() => setShowAdvanced((value) => !value)}
+        >
+          {showAdvanced ? "Hide filters" : "More filters"}
+          {activeAdvancedCount > 0 && ` (${activeAdvancedCount})`}
+        </Button>
+      </div>
+
+      {/* Advanced Filters */}
+      {showAdvanced && (
+        <div className="space-y-3 rounded-lg border border-default-200 p-3">
+          <MultiSelectChips
+            label="Nationality"
+            options={NATIONALITY_OPTIONS}
+            selected={advancedFilters.nationalities}
+            onChange={(nationalities) => updateAdvanced({ nationalities })}
+          />
+          <MultiSelectChips
+            label="Source"
+            options={SOURCE_OPTIONS}
+            selected={advancedFilters.sources}
+            onChange={(sources) => updateAdvanced({ sources })}
+          />
+          <MultiSelectChips
+            label="Badge"
+            options={BADGE_OPTIONS}
+            selected={advancedFilters.badges}
+            onChange={(badges) => updateAdvanced({ badges })}
+          />
+          <MultiSelectChips
+            label="Broker group"
+            options={BROKER_GROUP_OPTIONS}
+            selected={advancedFilters.brokerGroups}
+            onChange={(brokerGroups) => updateAdvanced({ brokerGroups })}
+          />
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Input
+              type="number"
+              size="sm"
+              label="Min change (shares)"
+              className="max-w-[180px]"
+              value={advancedFilters.minChangeValue?.toString() ?? ""}
+              onChange={(e) => updateAdvanced({ minChangeValue: toNumberOrNull(e.target.value) })}
+            />
+            <Input
+              type="number"
+              size="sm"
+              label="Max change (shares)"
+              className="max-w-[180px]"
+              value={advancedFilters.maxChangeValue?.toString() ?? ""}
+              onChange={(e) => updateAdvanced({ maxChangeValue: toNumberOrNull(e.target.value) })}
+            />
+            <Input
+              type="number"
+              size="sm"
+              label="Min holding %"
+              className="max-w-[150px]"
+              value={advancedFilters.minHoldingPercentage?.toString() ?? ""}
+              onChange={(e) => updateAdvanced({ minHoldingPercentage: toNumberOrNull(e.target.value) })}
+            />
+            <Chip
+              size="sm"
+              className="cursor-pointer transition-colors hover:bg-default-100"
+              color={advancedFilters.excludeCross ? "primary" : "default"}
+              variant={advancedFilters.excludeCross ? "solid" : "bordered"}
+              onClick={() => updateAdvanced({ excludeCross: !advancedFilters.excludeCross })}
+            >
+              Exclude Cross
+            </Chip>
+            {activeAdvancedCount > 0 && (
+              <Button
+                size="sm"
+                variant="light"
+                className="h-6 min-w-0 px-2"
+                onPress={() => onAdvancedFiltersChange(DEFAULT_ADVANCED_FILTERS)}
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <WatchlistModal
+        isOpen={isWatchlistModalOpen}
+        onClose={() => setIsWatchlistModalOpen(false)}
+        initialWatchlistId={watchlistId}
+      />
+
       {/* Apply Button (for custom date range) */}
       {datePreset === "custom" && (
         <div>
@@ -208,3 +392,43 @@ export function FilterBar({
     </div>
   );
 }
+
+function toNumberOrNull(value: string): number | null {
+  if (value.trim() === "") return null;
+  const parsed = Number(value);
+  return isFinite(parsed) ? parsed : null;
+}
+
+interface MultiSelectChipsProps<T extends string> {
+  label: string;
+  options: FilterOption<T>[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+// Chip group where every chip toggles one value; nothing selected means "all"
+function MultiSelectChips<T extends string>({ label, options, selected, onChange }: MultiSelectChipsProps<T>) {
+  const toggle = (value: T) =>
+    onChange(selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-24 text-xs text-default-500">{label}:</span>
+      {options.map((option) => {
+        const isSelected = selected.includes(option.value);
+        return (
+          <Chip
+            key={option.value}
+            size="sm"
+            className="cursor-pointer transition-colors hover:bg-default-100"
+            color={isSelected ? "primary" : "default"}
+            variant={isSelected ? "solid" : "bordered"}
+            onClick={() => toggle(option.value)}
+          >
+            {option.label}
+          </Chip>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { addToast } from "@heroui/toast";
+import { BigPlayerMovementRaw, SourceType } from "./types";
+import { fetchAllBigPlayerMovement } from "@/lib/api/bigplayer";
+import { getMovementKey } from "@/lib/utils/aggregation";
+import {
+  buildHolderTimeline,
+  type HolderRef,
+} from "@/lib/utils/holder-timeline";
+import { getPresetRange } from "@/lib/utils/trading-calendar";
+import {
+  formatCompactNumber,
+  formatShortDate,
+  getActionTypeDisplay,
+  getBadgeIcons,
+  getNationalityIcon,
+  parseLargeNumber,
+  parsePercentage,
+} from "@/lib/utils/format";
+
+interface HolderTimelineProps {
+  /** Holder to show; the modal is closed while null */
+  holder: HolderRef | null;
+  /** Movements already loaded by the page */
+  entries: BigPlayerMovementRaw[];
+  onClose: () => void;
+}
+
+const LINE_COLORS = [
+  "#006FEE",
+  "#17C964",
+  "#F5A524",
+  "#F31260",
+  "#7828C8",
+  "#0E8AAA",
+  "#C4841D",
+  "#71717A",
+];
+
+export function HolderTimeline({
+  holder,
+  entries,
+  onClose,
+}: HolderTimelineProps) {
+  const [history, setHistory] = useState<BigPlayerMovementRaw[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  // Fetched history is dropped when another holder is opened
+  useEffect(() => {
+    setHistory([]);
+  }, [holder]);
+
+  const timeline = useMemo(
+    () =>
+      holder ? buildHolderTimeline([...history, ...entries], holder) : null,
+    [holder, entries, history],
+  );
+
+  // One row per date with the holding percentage of each symbol
+  const chartData = useMemo(() => {
+    if (!timeline) return [];
+    const rows = new Map<string, Record<string, string | number>>();
+    timeline.symbols.forEach((summary) => {
+      summary.points.forEach((point) => {
+        const row = rows.get(point.date) || {
+          date: point.date,
+          displayDate: formatShortDate(point.date),
+        };
+        row[summary.symbol] = point.percentage;
+        rows.set(point.date, row);
+      });
+    });
+    return Array.from(rows.values()).sort(
+      (a, b) =>
+        new Date(a.date as string).getTime() -
+        new Date(b.date as string).getTime(),
+    );
+  }, [timeline]);
+
+  const handleLoadHistory = async () => {
+    setLoadingHistory(true);
+    try {
+      const { start, end } = getPresetRange("3months");
+      const { movements } = await fetchAllBigPlayerMovement(start, end);
+      setHistory(movements);
+    } catch (error) {
+      addToast({
+        title: "Failed to load holder history",
+        description: error instanceof Error ? error.message : "Unknown error",
+        color: "danger",
+      });
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {holder && timeline && (
+        <>
+          {/* Modal Content - HIGHER z-index */}
+          <div className="fixed inset-0 z-[10002] flex items-center justify-center p-4 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              transition={{ duration: 0.2 }}
+              className="w-full max-w-5xl pointer-events-auto"
+            >
+              <div className="bg-content1 border border-default-200 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-default-200 flex-shrink-0">
+                  <div className="flex flex-col gap-1 min-w-0">
+                    <h2 className="text-xl font-bold truncate">
+                      {timeline.name}{" "}
+                      <span className="text-base">
+                        {getNationalityIcon(timeline.nationality || "")}
+                        {getBadgeIcons(timeline.badges)}
+                      </span>
+                    </h2>
+                    <p className="text-sm text-default-500">
+                      {timeline.entries.length} movements across{" "}
+                      {timeline.symbols.length} symbols
+                      {timeline.cmhIds.length > 0 &&
+                        ` · CMH ${timeline.cmhIds.join(", ")}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="flat"
+                      color="primary"
+                      onPress={handleLoadHistory}
+                      isLoading={loadingHistory}
+                      isDisabled={history.length > 0}
+                    >
+                      {history.length > 0 ? "3 months loaded" : "Load 3 months"}
+                    </Button>
+                    <Button
+                      isIconOnly
+                      size="sm"
+                      variant="flat"
+                      onPress={onClose}
+                      className="rounded-full"
+                    >
+                      ✕
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Body */}
+                <div className="p-6 space-y-6 overflow-y-auto">
+                  {/* Holding % chart */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-default-700 mb-2">
+                      Holding % over time
+                    </h3>
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart
+                          data={chartData}
+                          margin={{ top: 10, right: 20, left: 0, bottom: 0 }}
+                        >
+                          <CartesianGrid
+                            strokeDasharray="3 3"
+                            stroke="currentColor"
+                            className="stroke-default-300/50"
+                          />
+                          <XAxis
+                            dataKey="displayDate"
+                            tick={{ fill: "currentColor", fontSize: 11 }}
+                            stroke="currentColor"
+                            className="text-default-600"
+                          />
+                          <YAxis
+                            tick={{ fill: "currentColor", fontSize: 11 }}
+                            stroke="currentColor"
+                            className="text-default-600"
+                            tickFormatter={(value: number) => `${value}%`}
+                            domain={["auto", "auto"]}
+                          />
+                          <Tooltip
+                            formatter={(value) =>
+                              `${Number(value).toFixed(2)}%`
+                            }
+                          />
+                          <Legend wrapperStyle={{ fontSize: 11 }} />
+                          {timeline.symbols.map((summary, index) => (
+                            <Line
+                              key={summary.symbol}
+                              type="stepAfter"
+                              dataKey={summary.symbol}
+                              stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                              strokeWidth={2}
+                              dot={{ r: 3 }}
+                              connectNulls
+                            />
+                          ))}
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+
+                  {/* Net accumulation per symbol */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-default-700 mb-2">
+                      Net accumulation per symbol
+                    </h3>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {timeline.symbols.map((summary) => (
+                        <div
+                          key={summary.symbol}
+                          className="rounded-lg border border-default-200 p-3 text-xs space-y-1"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-bold text-sm text-default-700">
+                              {summary.symbol}
+                            </span>
+                            <span
+                              className={`font-semibold ${summary.netShares >= 0 ? "text-success" : "text-danger"}`}
+                            >
+                              {summary.netShares >= 0 ? "+" : "-"}
+                              {formatCompactNumber(
+                                Math.abs(summary.netShares),
+                              )}{" "}
+                              shares
+                            </span>
+                          </div>
+                          <div className="text-default-500">
+                            {summary.firstPercentage.toFixed(2)}% →{" "}
+                            {summary.lastPercentage.toFixed(2)}%
+                          </div>
+                          <div className="text-default-400">
+                            {summary.buyCount} buy · {summary.sellCount} sell
+                            {summary.otherCount > 0 &&
+                              ` · ${summary.otherCount} other`}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Raw movements */}
+                  <div>
+                    <h3 className="text-sm font-semibold text-default-700 mb-2">
+                      All movements
+                    </h3>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="border-b border-default-200 text-default-500">
+                            <th className="px-2 py-2 text-left font-medium">
+                              Date
+                            </th>
+                            <th className="px-2 py-2 text-left font-medium">
+                              Symbol
+                            </th>
+                            <th className="px-2 py-2 text-center font-medium">
+                              Action
+                            </th>
+                            <th className="px-2 py-2 text-right font-medium">
+                              Previous %
+                            </th>
+                            <th className="px-2 py-2 text-right font-medium">
+                              Current %
+                            </th>
+                            <th className="px-2 py-2 text-right font-medium">
+                              Change
+                            </th>
+                            <th className="px-2 py-2 text-right font-medium">
+                              Price
+                            </th>
+                            <th className="px-2 py-2 text-left font-medium">
+                              Broker
+                            </th>
+                            <th className="px-2 py-2 text-left font-medium">
+                              Source
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {[...timeline.entries]
+                            .reverse()
+                            .map((entry, index) => {
+                              const actionDisplay = getActionTypeDisplay(
+                                entry.action_type,
+                              );
+                              return (
+                                <tr
+                                  key={`${getMovementKey(entry)}-${index}`}
+                                  className="border-b border-default-100"
+                                >
+                                  <td className="px-2 py-1.5 whitespace-nowrap text-default-600">
+                                    {formatShortDate(entry.date)}
+                                  </td>
+                                  <td className="px-2 py-1.5 font-bold text-default-700">
+                                    {entry.symbol}
+                                  </td>
+                                  <td className="px-2 py-1.5 text-center whitespace-nowrap">
+                                    <span
+                                      className={`px-1.5 py-0.5 rounded ${actionDisplay.bgClass} ${actionDisplay.colorClass}`}
+                                    >
+                                      {actionDisplay.icon}
+                                      {actionDisplay.label}
+                                    </span>
+                                  </td>
+                                  <td className="px-2 py-1.5 text-right">
+                                    {parsePercentage(
+                                      entry.previous.percentage,
+                                    ).toFixed(2)}
+                                    %
+                                  </td>
+                                  <td className="px-2 py-1.5 text-right">
+                                    {parsePercentage(
+                                      entry.current.percentage,
+                                    ).toFixed(2)}
+                                    %
+                                  </td>
+                                  <td className="px-2 py-1.5 text-right whitespace-nowrap">
+                                    {formatCompactNumber(
+                                      parseLargeNumber(entry.changes.value),
+                                    )}
+                                  </td>
+                                  <td className="px-2 py-1.5 text-right">
+                                    {entry.price_formatted || "-"}
+                                  </td>
+                                  <td className="px-2 py-1.5 font-mono text-default-500">
+                                    {entry.broker_detail?.code || "-"}
+                                  </td>
+                                  <td className="px-2 py-1.5">
+                                    <Chip
+                                      size="sm"
+                                      variant="flat"
+                                      color={
+                                        entry.data_source.type ===
+                                        SourceType.KSEI
+                                          ? "secondary"
+                                          : "primary"
+                                      }
+                                      className="h-5 text-[10px]"
+                                    >
+                                      {entry.data_source.label}
+                                    </Chip>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* Backdrop - LOWER z-index */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[10001]"
+            onClick={onClose}
+          />
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
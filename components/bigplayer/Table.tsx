@@ -1,5 +1,6 @@
 "use client";
 
+import NextLink from "next/link";
 import { BigPlayerMovementAggregated } from "./types";
 import {
   formatCompactNumber,
@@ -14,9 +15,18 @@ import {
 interface BigPlayerTableProps {
   data: BigPlayerMovementAggregated[];
   loading?: boolean;
+  /** Open the holder timeline for an investor */
+  onSelectHolder?: (entry: BigPlayerMovementAggregated) => void;
+  /** Link target of the symbol cell (the per-symbol ownership dashboard) */
+  getSymbolHref?: (symbol: string) => string;
 }
 
-export function BigPlayerTable({ data, loading = false }: BigPlayerTableProps) {
+export function BigPlayerTable({
+  data,
+  loading = false,
+  onSelectHolder,
+  getSymbolHref,
+}: BigPlayerTableProps) {
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -78,7 +88,11 @@ export function BigPlayerTable({ data, loading = false }: BigPlayerTableProps) {
             const nationalityIcon = getNationalityIcon(item.nationality);
             const badgeIcons = getBadgeIcons(item.badges);
             const brokerString = formatBrokers(item.brokers);
-            const relativeDate = getRelativeDateLabel(item.date);
+            // Week, range and holder groups span several dates
+            const relativeDate =
+              item.date_start !== item.date_end
+                ? `${getRelativeDateLabel(item.date_start)} – ${getRelativeDateLabel(item.date_end)}`
+                : getRelativeDateLabel(item.date);
 
             return (
               <tr
@@ -92,15 +106,35 @@ export function BigPlayerTable({ data, loading = false }: BigPlayerTableProps) {
 
                 {/* Symbol */}
                 <td className="px-3 py-3 whitespace-nowrap">
-                  <span className="font-bold text-default-700">{item.symbol}</span>
+                  {getSymbolHref && item.raw_entries.every((entry) => entry.symbol === item.symbol) ? (
+                    <NextLink
+                      href={getSymbolHref(item.symbol)}
+                      className="font-bold text-default-700 hover:text-primary hover:underline"
+                      title="Show ownership changes"
+                    >
+                      {item.symbol}
+                    </NextLink>
+                  ) : (
+                    <span className="font-bold text-default-700">{item.symbol}</span>
+                  )}
                 </td>
 
                 {/* Investor + Nationality + Badges */}
                 <td className="px-3 py-3 min-w-[200px] max-w-[250px]">
                   <div className="flex items-center gap-1">
-                    <span className="truncate font-medium text-default-700">
-                      {item.name}
-                    </span>
+                    {onSelectHolder ? (
+                      <button
+                        onClick={() => onSelectHolder(item)}
+                        className="truncate text-left font-medium text-default-700 hover:text-primary hover:underline"
+                        title="Show holder timeline"
+                      >
+                        {item.name}
+                      </button>
+                    ) : (
+                      <span className="truncate font-medium text-default-700">
+                        {item.name}
+                      </span>
+                    )}
                     {nationalityIcon && (
                       <span className="shrink-0" title={item.nationality}>
                         {nationalityIcon}
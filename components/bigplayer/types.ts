@@ -74,10 +74,12 @@ export interface BigPlayerResponse {
 
 // Aggregated interface for table display
 export interface BigPlayerMovementAggregated {
-  key: string; // composite key: name-symbol-date-action
+  key: string; // composite key, see getGroupKey (default: name-symbol-date-action)
   name: string;
-  symbol: string;
-  date: string;
+  symbol: string; // comma separated when grouped across symbols
+  date: string; // latest movement date
+  date_start: string; // earliest movement date in the group
+  date_end: string; // latest movement date in the group
   action_type: ActionType;
   nationality: NationalityType;
   badges: ShareholderBadge[];
@@ -85,10 +87,10 @@ export interface BigPlayerMovementAggregated {
   // Aggregated values
   total_change_value: number; // sum of all changes
   avg_change_percentage: number; // weighted average
-  current_holding_value: string; // latest current value
-  current_holding_percentage: string; // latest current percentage
-  previous_holding_value: string; // earliest previous value
-  previous_holding_percentage: string; // earliest previous percentage
+  current_holding_value: string; // holding after the latest movement
+  current_holding_percentage: string; // empty when grouped across symbols
+  previous_holding_value: string; // holding before the earliest movement
+  previous_holding_percentage: string; // empty when grouped across symbols
 
   // Additional info
   brokers: string[]; // array of broker codes
@@ -102,11 +104,24 @@ export interface BigPlayerMovementAggregated {
 
 // Filter and sort types
 export interface BigPlayerFilters {
-  datePreset: "today" | "3days" | "5days" | "7days" | "custom";
+  datePreset: DatePreset;
   dateStart?: string;
   dateEnd?: string;
   symbolSearch?: string;
   actionType?: "all" | "buy" | "sell" | "other";
+  symbols?: string[]; // symbol set (a watchlist's symbols); empty matches everything
+
+  // Per-movement filters; an empty list matches everything
+  nationalities: NationalityType[];
+  sources: SourceType[];
+  badges: ShareholderBadge[];
+  brokerGroups: BrokerGroup[];
+  excludeCross: boolean;
+
+  // Row thresholds, applied after aggregation
+  minChangeValue: number | null; // shares, compared against the absolute net change
+  maxChangeValue: number | null;
+  minHoldingPercentage: number | null; // current holding %
 }
 
 export type DatePreset =
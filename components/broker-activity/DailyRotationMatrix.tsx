@@ -0,0 +1,323 @@
+"use client";
+
+/**
+ * DailyRotationMatrix Component
+ * Days x symbols view of a broker's net value, highlighting stocks it rotated out of (or into)
+ */
+
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@heroui/button";
+import { Card, CardBody } from "@heroui/card";
+import { Chip } from "@heroui/chip";
+import { Progress } from "@heroui/progress";
+import { addToast } from "@heroui/toast";
+import {
+  DRILLDOWN_LIMITS,
+  buildRotationMatrix,
+  fetchDailyBrokerActivity,
+  type DailyBrokerActivity,
+  type RotationMatrixRow,
+} from "@/lib/utils/broker-rotation";
+import {
+  countTradingDays,
+  formatTradingRangeLabel,
+} from "@/lib/utils/trading-calendar";
+import { formatCompactNumber } from "@/lib/utils/format";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DailyRotationMatrixProps {
+  brokerCode: string;
+  startDate: string;
+  endDate: string;
+  /** Open the single-stock calendar for a symbol */
+  onSelectSymbol: (symbol: string) => void;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const formatDay = (date: string) =>
+  formatTradingRangeLabel(date, date).slice(0, 6);
+
+/**
+ * Cell background scaled by the value relative to the largest cell
+ */
+const getCellClass = (value: number | undefined, maxAbs: number): string => {
+  if (!value) return "text-default-300";
+  const intensity = maxAbs > 0 ? Math.abs(value) / maxAbs : 0;
+  const level =
+    intensity > 0.66 ? "strong" : intensity > 0.33 ? "medium" : "light";
+
+  if (value > 0) {
+    return {
+      strong: "bg-success/40 text-success-700",
+      medium: "bg-success/25 text-success-700",
+      light: "bg-success/10 text-success-600",
+    }[level];
+  }
+  return {
+    strong: "bg-danger/40 text-danger-700",
+    medium: "bg-danger/25 text-danger-700",
+    light: "bg-danger/10 text-danger-600",
+  }[level];
+};
+
+const getRotationLabel = (row: RotationMatrixRow) =>
+  row.rotation?.direction === "buy_to_sell" ? "Buy → Sell" : "Sell → Buy";
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function DailyRotationMatrix({
+  brokerCode,
+  startDate,
+  endDate,
+  onSelectSymbol,
+}: DailyRotationMatrixProps) {
+  const [days, setDays] = useState<DailyBrokerActivity[]>([]);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [isLoading, setIsLoading] = useState(false);
+  const [rotationsOnly, setRotationsOnly] = useState(false);
+
+  const sessionCount = countTradingDays(startDate, endDate);
+  const isTruncated = sessionCount > DRILLDOWN_LIMITS.MAX_DAYS;
+
+  // Fetch one snapshot per trading day; a newer range cancels the pending one
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchDays = async () => {
+      setIsLoading(true);
+      setDays([]);
+      setProgress({
+        completed: 0,
+        total: Math.min(sessionCount, DRILLDOWN_LIMITS.MAX_DAYS),
+      });
+
+      try {
+        const result = await fetchDailyBrokerActivity(
+          brokerCode,
+          startDate,
+          endDate,
+          {
+            signal: controller.signal,
+            onProgress: (completed, total) => setProgress({ completed, total }),
+          },
+        );
+        setDays(result);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        addToast({
+          title: "Failed to fetch daily activity",
+          description: error instanceof Error ? error.message : "Unknown error",
+          color: "danger",
+        });
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchDays();
+    return () => controller.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [brokerCode, startDate, endDate]);
+
+  const matrix = useMemo(() => buildRotationMatrix(days), [days]);
+  const failedDays = days.filter((day) => day.error);
+  const rotatedRows = matrix.rows.filter((row) => row.rotation);
+  const visibleRows = rotationsOnly ? rotatedRows : matrix.rows;
+  const maxAbs = useMemo(
+    () =>
+      Math.max(
+        0,
+        ...matrix.rows.flatMap((row) => Object.values(row.cells).map(Math.abs)),
+      ),
+    [matrix],
+  );
+  const changedDates = new Set(matrix.typeChanges.map((change) => change.date));
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardBody className="py-12">
+          <Progress
+            size="sm"
+            color="primary"
+            aria-label="Loading daily activity"
+            label={`Fetching ${brokerCode} day by day (${progress.completed}/${progress.total} sessions)`}
+            value={
+              progress.total > 0
+                ? (progress.completed / progress.total) * 100
+                : 0
+            }
+            showValueLabel
+          />
+        </CardBody>
+      </Card>
+    );
+  }
+
+  if (matrix.dates.length === 0) {
+    return (
+      <Card>
+        <CardBody className="py-12 text-center text-sm text-default-500">
+          No trading days in the selected range
+        </CardBody>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardBody className="space-y-4">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h2 className="text-sm font-bold text-default-700">
+              Daily Rotation · {brokerCode}
+            </h2>
+            <p className="text-xs text-default-500">
+              {matrix.rows.length} stocks over {matrix.dates.length} sessions
+              {isTruncated &&
+                ` (last ${DRILLDOWN_LIMITS.MAX_DAYS} of ${sessionCount} sessions)`}
+              {" · "}
+              <span className="text-warning-600">
+                {rotatedRows.length} rotated
+              </span>
+            </p>
+          </div>
+          <Button
+            size="sm"
+            variant={rotationsOnly ? "solid" : "flat"}
+            color={rotationsOnly ? "warning" : "default"}
+            className="text-xs h-7"
+            onPress={() => setRotationsOnly(!rotationsOnly)}
+          >
+            Rotations only
+          </Button>
+        </div>
+
+        {/* Rotation indicator changes */}
+        {matrix.typeChanges.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-default-500">Rotation type changed:</span>
+            {matrix.typeChanges.map((change) => (
+              <Chip
+                key={change.date}
+                size="sm"
+                variant="flat"
+                color="secondary"
+                className="text-[10px]"
+              >
+                {formatDay(change.date)}: {change.from} → {change.to}
+              </Chip>
+            ))}
+          </div>
+        )}
+
+        {failedDays.length > 0 && (
+          <p className="text-xs text-warning">
+            Could not load{" "}
+            {failedDays.map((day) => formatDay(day.date)).join(", ")}
+          </p>
+        )}
+
+        {/* Matrix */}
+        <div className="overflow-x-auto">
+          <table className="text-[11px] border-separate border-spacing-0.5">
+            <thead>
+              <tr>
+                <th className="sticky left-0 z-10 bg-content1 text-left font-medium text-default-500 px-2 py-1">
+                  Symbol
+                </th>
+                {matrix.dates.map((date) => (
+                  <th
+                    key={date}
+                    className={`font-medium px-1 py-1 whitespace-nowrap ${
+                      changedDates.has(date)
+                        ? "text-secondary"
+                        : "text-default-500"
+                    }`}
+                    title={
+                      matrix.rotationTypes[date]
+                        ? `Rotation: ${matrix.rotationTypes[date]}`
+                        : undefined
+                    }
+                  >
+                    {formatDay(date)}
+                    {changedDates.has(date) && " ↻"}
+                  </th>
+                ))}
+                <th className="font-medium text-default-500 px-2 py-1 text-right">
+                  Net
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map((row) => (
+                <tr key={row.symbol}>
+                  <td className="sticky left-0 z-10 bg-content1 px-2 py-1 whitespace-nowrap">
+                    <button
+                      onClick={() => onSelectSymbol(row.symbol)}
+                      className="font-bold hover:text-primary"
+                    >
+                      {row.symbol}
+                    </button>
+                    {row.rotation && (
+                      <Chip
+                        size="sm"
+                        variant="flat"
+                        color={
+                          row.rotation.direction === "buy_to_sell"
+                            ? "warning"
+                            : "primary"
+                        }
+                        className="ml-1 h-4 text-[9px]"
+                      >
+                        {getRotationLabel(row)}
+                      </Chip>
+                    )}
+                  </td>
+                  {matrix.dates.map((date) => {
+                    const value = row.cells[date];
+                    const isSwitch = row.rotation?.date === date;
+                    return (
+                      <td
+                        key={date}
+                        className={`px-1.5 py-1 text-center rounded whitespace-nowrap ${getCellClass(value, maxAbs)} ${
+                          isSwitch ? "ring-2 ring-warning" : ""
+                        }`}
+                        title={
+                          isSwitch
+                            ? `${getRotationLabel(row)} on ${formatDay(date)}`
+                            : undefined
+                        }
+                      >
+                        {value ? formatCompactNumber(value) : "·"}
+                      </td>
+                    );
+                  })}
+                  <td
+                    className={`px-2 py-1 text-right font-semibold ${row.total >= 0 ? "text-success" : "text-danger"}`}
+                  >
+                    {formatCompactNumber(row.total)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visibleRows.length === 0 && (
+            <p className="text-center text-xs text-default-500 py-6">
+              No rotations in this range
+            </p>
+          )}
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
@@ -17,6 +17,7 @@ import {
   ResponsiveContainer,
   ReferenceLine,
 } from 'recharts';
+import { getBrokerColor } from "@/lib/brokers";
 
 // ============================================================================
 // Types
@@ -34,20 +35,6 @@ export interface BrokerFlowChartProps {
   symbol?: string;
 }
 
-// Color palette for brokers (cycling through distinct colors)
-const BROKER_COLORS = [
-  '#ef4444', // red-500
-  '#f97316', // orange-500
-  '#eab308', // yellow-500
-  '#22c55e', // green-500
-  '#06b6d4', // cyan-500
-  '#3b82f6', // blue-500
-  '#8b5cf6', // violet-500
-  '#d946ef', // fuchsia-500
-  '#ec4899', // pink-500
-  '#6366f1', // indigo-500
-];
-
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -400,11 +387,6 @@ export function BrokerFlowChart({
     return activeBrokers.has(brokerCode) ? 1.0 : 0.15;
   };
 
-  // Get broker color
-  const getBrokerColor = (index: number) => {
-    return BROKER_COLORS[index % BROKER_COLORS.length];
-  };
-
   return (
     <div className="w-full h-full">
       {/* Chart Header */}
@@ -501,13 +483,13 @@ export function BrokerFlowChart({
             />
 
             {/* Broker Flow Lines */}
-            {brokers.map((broker, index) => (
+            {brokers.map((broker) => (
               <Line
                 key={broker}
                 yAxisId="flow"
                 type="monotone"
                 dataKey={broker}
-                stroke={getBrokerColor(index)}
+                stroke={getBrokerColor(broker)}
                 strokeWidth={2}
                 dot={false}
                 name={`${broker} (${optimalUnit || 'IDR'})`}
@@ -541,7 +523,7 @@ export function BrokerFlowChart({
         </button>
 
         {/* Broker Toggles */}
-        {brokers.map((broker, index) => (
+        {brokers.map((broker) => (
           <button
             key={broker}
             onClick={() => toggleBroker(broker)}
@@ -552,7 +534,7 @@ export function BrokerFlowChart({
             }`}
             style={
               activeBrokers.has(broker)
-                ? { backgroundColor: getBrokerColor(index) }
+                ? { backgroundColor: getBrokerColor(broker) }
                 : undefined
             }
           >
@@ -13,6 +13,7 @@ import { Input } from '@heroui/input';
 import { addToast } from '@heroui/toast';
 import { createShareLink } from '@/lib/api/share';
 import { copyToClipboard } from '@/lib/utils/clipboard';
+import { trackShareLink } from "@/lib/notifications";
 import { useAnalytics } from '@/lib/hooks/useAnalytics';
 
 // ============================================================================
@@ -165,6 +166,12 @@ export function ShareModal({ isOpen, onClose, shareData }: ShareModalProps) {
         ttlDays: 30,
       });
 
+      trackShareLink({
+        slug: response.data.slug,
+        url: response.data.url,
+        expiresAt: response.data.expiresAt,
+      });
+
       const copied = await copyToClipboard(response.data.url);
 
       if (copied) {
@@ -3,6 +3,7 @@
 import { DiamondIcon } from "@/components/icons";
 import { FundamentalScore } from "@/components/emitten/fundamental-score";
 import { IntrinsicValue } from "@/components/emitten/intrinsic-value";
+import { ValuationAssumptionsPanel } from "@/components/emitten/valuation-assumptions";
 import { OwnershipDonut } from "@/components/emitten/ownership-donut";
 import { InvestorGrowthChart } from "@/components/emitten/investor-growth-chart";
 import { SubsidiaryCompanies } from "@/components/emitten/subsidiary-companies";
@@ -10,29 +11,37 @@ import { LiquidityInfo } from "@/components/emitten/liquidity-info";
 import { CompanyHistory } from "@/components/emitten/company-history";
 import { EmittenSummarySkeleton } from "@/components/emitten/skeleton-loading";
 import {
+  calculateEmittenFundamentals,
   calculateIntrinsicValue,
-  calculateFundamentalScore,
-  scoreProfitability,
-  scoreValuation,
-  scoreRisk,
-  scoreGrowth,
-  parsePercentage,
-  parseNumber,
-} from "@/lib/utils/valuation";
+  extractValuationInputs,
+  extractFundamentalMetrics,
+  findMatchingPreset,
+  getKeyStatValue,
+  type EmittenFundamentals,
+  type ValuationAssumptions,
+} from "@/lib/valuation";
+import { VALUATION_PRESETS } from "@/config/valuation";
 import type { EmittenInfo, KeyStats, Profile } from "@/lib/api/emitten";
 
-type ValuationMode = "conservative" | "moderate" | "aggressive";
-
 interface EmittenSummaryProps {
   emittenInfo: EmittenInfo | null;
   keyStats: KeyStats | null;
   profile: Profile | null;
   loading: boolean;
   error?: string | null;
-  valuationMode?: ValuationMode;
+  assumptions?: ValuationAssumptions;
+  onAssumptionsChange?: (assumptions: ValuationAssumptions) => void;
 }
 
-export function EmittenSummary({ emittenInfo, keyStats, profile, loading, error, valuationMode = "moderate" }: EmittenSummaryProps) {
+export function EmittenSummary({
+  emittenInfo,
+  keyStats,
+  profile,
+  loading,
+  error,
+  assumptions = VALUATION_PRESETS.moderate,
+  onAssumptionsChange,
+}: EmittenSummaryProps) {
   if (loading) {
     return <EmittenSummarySkeleton />;
   }
@@ -49,27 +58,10 @@ export function EmittenSummary({ emittenInfo, keyStats, profile, loading, error,
   }
 
   // Extract key metrics from keyStats
-  const getMetricValue = (categoryName: string, metricName: string) => {
-    if (!keyStats) return "-";
-
-    const category = keyStats.closure_fin_items_results.find(
-      (cat) => cat.keystats_name === categoryName
-    );
-
-    if (!category) return "-";
+  const getMetricValue = (categoryName: string, metricName: string) =>
+    getKeyStatValue(keyStats, categoryName, metricName);
 
-    const metric = category.fin_name_results.find(
-      (item) => item.fitem.name === metricName
-    );
-
-    return metric?.fitem.value || "-";
-  };
-
-  const currentPE = getMetricValue("Current Valuation", "Current PE Ratio (TTM)");
-  const pbv = getMetricValue("Current Valuation", "Current Price to Book Value");
-  const roe = getMetricValue("Management Effectiveness", "Return on Equity (TTM)");
-  const netMargin = getMetricValue("Profitability", "Net Profit Margin (Quarter)");
-  const debtToEquity = getMetricValue("Solvency", "Debt to Equity Ratio (Quarter)");
+  const { pe: currentPE, pbv, roe, netMargin, debtToEquity } = extractFundamentalMetrics(keyStats);
   const revenueTTM = getMetricValue("Income Statement", "Revenue (TTM)");
   const netIncomeTTM = getMetricValue("Income Statement", "Net Income (TTM)");
   const epsTTM = getMetricValue("Per Share", "Current EPS (TTM)");
@@ -79,49 +71,18 @@ export function EmittenSummary({ emittenInfo, keyStats, profile, loading, error,
   const marketCap = keyStats?.stats?.market_cap || undefined;
 
   // Calculate Intrinsic Value
+  const valuationInputs = extractValuationInputs(emittenInfo, keyStats);
   let intrinsicValueData = null;
   try {
-    const bookValuePS = getMetricValue("Per Share", "Current Book Value Per Share");
-    const revenueGrowth = getMetricValue("Growth", "Revenue (Quarter YoY Growth)");
-
-    const parsedEPS = parsePercentage(epsTTM);
-    const parsedBookValue = parsePercentage(bookValuePS);
-    const parsedGrowth = parsePercentage(revenueGrowth);
-    const parsedPrice = parsePercentage(emittenInfo.price);
-    const parsedIHSGPE = parsePercentage(currentPE.replace("× IHSG", "").trim());
-
-    intrinsicValueData = calculateIntrinsicValue(
-      parsedEPS,
-      parsedBookValue,
-      parsedGrowth,
-      parsedPrice,
-      parsedIHSGPE,
-      valuationMode
-    );
+    intrinsicValueData = calculateIntrinsicValue(valuationInputs, assumptions);
   } catch (e) {
     console.error("Error calculating intrinsic value:", e);
   }
 
-  // Calculate Fundamental Score
-  let fundamentalScoreData = null;
+  // Calculate Fundamental Score against the emitten's sector thresholds
+  let fundamentals: EmittenFundamentals | null = null;
   try {
-    const altmanZScore = getMetricValue("Solvency", "Altman Z-Score (Modified)");
-    const roaValue = getMetricValue("Management Effectiveness", "Return on Assets (TTM)");
-
-    const profitabilityScore = scoreProfitability(roe, netMargin, roaValue || "-");
-    const valuationScore = scoreValuation(currentPE, pbv);
-    const riskScore = scoreRisk(altmanZScore, debtToEquity, "-");
-    const growthScore = scoreGrowth(
-      getMetricValue("Growth", "Revenue (Quarter YoY Growth)"),
-      getMetricValue("Growth", "Net Income (Quarter YoY Growth)")
-    );
-
-    fundamentalScoreData = calculateFundamentalScore(
-      profitabilityScore,
-      valuationScore,
-      riskScore,
-      growthScore
-    );
+    fundamentals = calculateEmittenFundamentals(emittenInfo, keyStats);
   } catch (e) {
     console.error("Error calculating fundamental score:", e);
   }
@@ -184,14 +145,28 @@ export function EmittenSummary({ emittenInfo, keyStats, profile, loading, error,
       {/* Intrinsic Value Analysis */}
       {intrinsicValueData && (
         <div className="border-t border-violet-800 pt-4">
-          <IntrinsicValue data={intrinsicValueData} valuationMode={valuationMode} />
+          <IntrinsicValue data={intrinsicValueData} valuationMode={findMatchingPreset(assumptions)} />
+          {onAssumptionsChange && (
+            <div className="mt-3">
+              <ValuationAssumptionsPanel
+                symbol={emittenInfo.symbol}
+                inputs={valuationInputs}
+                assumptions={assumptions}
+                onChange={onAssumptionsChange}
+              />
+            </div>
+          )}
         </div>
       )}
 
       {/* Fundamental Score */}
-      {fundamentalScoreData && (
+      {fundamentals && (
         <div className="border-t border-violet-800 pt-4">
-          <FundamentalScore score={fundamentalScoreData} />
+          <FundamentalScore
+            score={fundamentals.score}
+            profile={fundamentals.profile}
+            benchmarks={fundamentals.benchmarks}
+          />
         </div>
       )}
 
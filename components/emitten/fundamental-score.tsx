@@ -1,12 +1,34 @@
 "use client";
 
-import { FundamentalScore as ScoreType } from "@/lib/utils/valuation";
+import {
+  FundamentalScore as ScoreType,
+  type BenchmarkRank,
+  type SectorBenchmark,
+  type ThresholdProfile,
+} from "@/lib/utils/valuation";
 
 interface FundamentalScoreProps {
   score: ScoreType;
+  /** Sector thresholds the scores were calculated with */
+  profile?: ThresholdProfile;
+  benchmarks?: SectorBenchmark[];
 }
 
-export function FundamentalScore({ score }: FundamentalScoreProps) {
+const RANK_STYLES: Record<BenchmarkRank, { label: string; className: string }> = {
+  top: { label: "Top", className: "bg-green-600/30 text-green-300" },
+  above: { label: "Above", className: "bg-lime-600/30 text-lime-300" },
+  inline: { label: "In line", className: "bg-yellow-600/30 text-yellow-300" },
+  below: { label: "Below", className: "bg-orange-600/30 text-orange-300" },
+  bottom: { label: "Bottom", className: "bg-red-600/30 text-red-300" },
+};
+
+const PROFILE_SOURCES: Record<ThresholdProfile["matchedBy"], string> = {
+  sub_sector: "sub-sektor",
+  sector: "sektor",
+  default: "default",
+};
+
+export function FundamentalScore({ score, profile, benchmarks = [] }: FundamentalScoreProps) {
   const categories = [
     {
       name: "Profitability",
@@ -58,6 +80,13 @@ export function FundamentalScore({ score }: FundamentalScoreProps) {
         </div>
       </div>
 
+      {profile && (
+        <p className="text-[10px] text-violet-400">
+          Threshold profile: <span className="text-violet-200">{profile.label}</span>{" "}
+          ({PROFILE_SOURCES[profile.matchedBy]})
+        </p>
+      )}
+
       <div className="space-y-3">
         {categories.map((cat) => (
           <div key={cat.name} className="space-y-1 group relative">
@@ -89,10 +118,55 @@ export function FundamentalScore({ score }: FundamentalScoreProps) {
           </div>
         ))}
       </div>
+
+      {benchmarks.length > 0 && <SectorBenchmarks benchmarks={benchmarks} />}
     </div>
   );
 }
 
+function SectorBenchmarks({ benchmarks }: { benchmarks: SectorBenchmark[] }) {
+  const ahead = benchmarks.filter((item) => item.rank === "top" || item.rank === "above").length;
+  const behind = benchmarks.filter((item) => item.rank === "below" || item.rank === "bottom").length;
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-violet-400 hover:text-violet-300">
+        Vs sector: ahead on {ahead}, behind on {behind} of {benchmarks.length} metrics ▼
+      </summary>
+      <table className="mt-2 w-full text-[10px]">
+        <thead>
+          <tr className="text-violet-500">
+            <th className="text-left font-normal">Metric</th>
+            <th className="text-right font-normal">Value</th>
+            <th className="text-right font-normal">Sector</th>
+            <th className="text-right font-normal">Rank</th>
+          </tr>
+        </thead>
+        <tbody>
+          {benchmarks.map((item) => (
+            <tr key={item.key} className="border-t border-violet-900">
+              <td className="py-0.5 text-violet-300">{item.label}</td>
+              <td className="text-right text-violet-200">
+                {item.value.toFixed(2)}
+                {item.unit}
+              </td>
+              <td className="text-right text-violet-400">
+                {item.benchmark}
+                {item.unit}
+              </td>
+              <td className="text-right">
+                <span className={`px-1.5 rounded ${RANK_STYLES[item.rank].className}`}>
+                  {RANK_STYLES[item.rank].label}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
+
 function getBarColor(score: number): string {
   if (score >= 80) return "#22c55e"; // green-500
   if (score >= 60) return "#84cc16"; // lime-500
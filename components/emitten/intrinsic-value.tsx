@@ -1,14 +1,76 @@
 "use client";
 
-import { IntrinsicValueResult } from "@/lib/utils/valuation";
+import { formatCompactNumber } from "@/lib/utils/format";
+import type {
+  IntrinsicValueResult,
+  ValuationMode,
+  ValuationModelInput,
+  ValuationModelResult,
+} from "@/lib/valuation";
 
 interface IntrinsicValueProps {
   data: IntrinsicValueResult;
-  valuationMode?: "conservative" | "moderate" | "aggressive";
+  /** Preset the assumptions match; null when the user edited them */
+  valuationMode?: ValuationMode | null;
+}
+
+function formatModelInput({ value, format }: ValuationModelInput): string {
+  switch (format) {
+    case "currency":
+      return `Rp ${value.toLocaleString("id-ID", { maximumFractionDigits: 2 })}`;
+    case "amount":
+      return formatCompactNumber(value);
+    case "percent":
+      return `${value.toFixed(1)}%`;
+    case "multiple":
+      return `${value.toFixed(2)}×`;
+    case "years":
+      return `${value} th`;
+    default:
+      return value.toLocaleString("id-ID");
+  }
+}
+
+/**
+ * @param share - Share of the weighted mid, null when mid is the midpoint of the range
+ */
+function ModelBreakdown({ model, share }: { model: ValuationModelResult; share: number | null }) {
+  return (
+    <div className={model.included ? "" : "opacity-60"}>
+      <div className="flex justify-between items-center gap-2">
+        <span className="text-violet-400">
+          {model.label}:
+          {model.included && (
+            <span className="ml-1 text-[10px] text-violet-500">
+              bobot {model.weight}
+              {share !== null && ` (${(share * 100).toFixed(0)}% of mid)`}
+            </span>
+          )}
+          {model.weight === 0 && <span className="ml-1 text-[10px] text-violet-500">bobot 0</span>}
+        </span>
+        <span className="text-violet-200">
+          {model.value !== null ? `Rp ${model.value.toFixed(0)}` : "n/a"}
+        </span>
+      </div>
+
+      <p className="text-violet-500 mt-0.5 text-[10px]">{model.formula}</p>
+      <div className="mt-1 grid grid-cols-2 gap-x-2 text-[10px]">
+        {model.inputs.map((input) => (
+          <div key={input.label} className="contents">
+            <span className="text-violet-500">{input.label}</span>
+            <span className="text-right text-violet-300">{formatModelInput(input)}</span>
+          </div>
+        ))}
+      </div>
+      {model.note && (
+        <p className="mt-0.5 text-[10px] text-yellow-500">{model.note}</p>
+      )}
+    </div>
+  );
 }
 
 export function IntrinsicValue({ data, valuationMode = "moderate" }: IntrinsicValueProps) {
-  const { range, currentPrice, upside, status } = data;
+  const { range, midMethod, currentPrice, upside, status, models } = data;
 
   const modeLabels = {
     conservative: "Konservatif",
@@ -16,18 +78,6 @@ export function IntrinsicValue({ data, valuationMode = "moderate" }: IntrinsicVa
     aggressive: "Agresif",
   };
 
-  const modeMultipliers = {
-    conservative: { label: "Diskon", values: ["15%", "20%", "15%", "10%"] },
-    moderate: { label: "Normal", values: ["0%", "0%", "0%", "0%"] },
-    aggressive: { label: "Premium", values: ["+15%", "+20%", "+15%", "+10%"] },
-  };
-
-  // Calculate position percentage for gauge (0-100%)
-  // The gauge shows from range.low to range.high
-  const gaugeMin = range.low * 0.8;
-  const gaugeMax = range.high * 1.2;
-  const currentPosition = ((currentPrice - gaugeMin) / (gaugeMax - gaugeMin)) * 100;
-
   const statusColors = {
     undervalued: "#22c55e", // green
     fair: "#eab308",        // yellow
@@ -40,6 +90,10 @@ export function IntrinsicValue({ data, valuationMode = "moderate" }: IntrinsicVa
     overvalued: "Overvalued",
   };
 
+  const totalWeight = models
+    .filter((model) => model.included)
+    .reduce((sum, model) => sum + model.weight, 0);
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
@@ -47,114 +101,114 @@ export function IntrinsicValue({ data, valuationMode = "moderate" }: IntrinsicVa
           Intrinsic Value Analysis
         </h3>
         <span className="text-xs bg-violet-700 text-violet-200 px-2 py-1 rounded">
-          {modeLabels[valuationMode]}
+          {valuationMode ? modeLabels[valuationMode] : "Custom"}
         </span>
       </div>
 
-      {/* Gauge Chart */}
-      <div className="relative pt-6 pb-2">
-        {/* Gauge bar */}
-        <div className="h-3 bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 rounded-full relative">
-          {/* Current price indicator */}
-          <div
-            className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 bg-white border-2 border-gray-800 rounded-full shadow-lg z-10"
-            style={{
-              left: `${Math.min(Math.max(currentPosition, 0), 100)}%`,
-            }}
-          />
-        </div>
-
-        {/* Labels */}
-        <div className="flex justify-between text-xs text-violet-400 mt-1">
-          <span>Rp {range.low.toFixed(0)}</span>
-          <span>Rp {range.mid.toFixed(0)}</span>
-          <span>Rp {range.high.toFixed(0)}</span>
-        </div>
-      </div>
-
-      {/* Current Price Badge */}
-      <div className="bg-violet-900/50 rounded-lg p-3">
-        <div className="flex justify-between items-center">
-          <span className="text-xs text-violet-400">Current Price</span>
-          <span className="text-lg font-bold text-white">
-            Rp {currentPrice.toFixed(0)}
-          </span>
-        </div>
-        <div className="flex justify-between items-center mt-2">
-          <span className="text-xs text-violet-400">Fair Value Range</span>
-          <span className="text-xs text-violet-300">
-            Rp {range.low.toFixed(0)} - Rp {range.high.toFixed(0)}
-          </span>
-        </div>
-        <div className="flex justify-between items-center mt-2">
-          <span className="text-xs text-violet-400">Upside/Downside</span>
-          <span
-            className={`text-sm font-semibold ${
-              upside >= 0 ? "text-green-400" : "text-red-400"
-            }`}
-          >
-            {upside >= 0 ? "+" : ""}
-            {upside.toFixed(1)}%
-          </span>
-        </div>
-      </div>
-
-      {/* Status Badge */}
-      <div
-        className="text-center py-2 px-4 rounded-lg"
-        style={{
-          backgroundColor: statusColors[status],
-        }}
-      >
-        <p className="text-sm font-bold text-white uppercase">
-          {statusLabels[status]}
-        </p>
-      </div>
+      {range ? (
+        <>
+          <ValueGauge range={range} currentPrice={currentPrice} />
 
-      {/* Calculation Methods (Collapsible) */}
-      <details className="text-xs">
-        <summary className="cursor-pointer text-violet-400 hover:text-violet-300">
-          Rumus Perhitungan ▼
-        </summary>
-        <div className="mt-2 space-y-2 pl-4 border-l-2 border-violet-800">
-          <div>
+          {/* Current Price Badge */}
+          <div className="bg-violet-900/50 rounded-lg p-3">
             <div className="flex justify-between items-center">
-              <span className="text-violet-400">Graham Formula:</span>
-              <span className="text-violet-200">Rp {data.graham.toFixed(0)}</span>
+              <span className="text-xs text-violet-400">Current Price</span>
+              <span className="text-lg font-bold text-white">
+                Rp {currentPrice.toFixed(0)}
+              </span>
             </div>
-            <p className="text-violet-500 mt-0.5 text-[10px]">
-              EPS × (8.5 + 2×g) × {modeMultipliers[valuationMode].values[0]}
-            </p>
-          </div>
-          <div>
-            <div className="flex justify-between items-center">
-              <span className="text-violet-400">Peter Lynch:</span>
-              <span className="text-violet-200">Rp {data.peterLynch.toFixed(0)}</span>
+            <div className="flex justify-between items-center mt-2">
+              <span className="text-xs text-violet-400">Fair Value Range</span>
+              <span className="text-xs text-violet-300">
+                Rp {range.low.toFixed(0)} - Rp {range.high.toFixed(0)}
+              </span>
             </div>
-            <p className="text-violet-500 mt-0.5 text-[10px]">
-              EPS × g × {modeMultipliers[valuationMode].values[1]}
-            </p>
-          </div>
-          <div>
-            <div className="flex justify-between items-center">
-              <span className="text-violet-400">IHSG Relative:</span>
-              <span className="text-violet-200">Rp {data.ihsgRelative.toFixed(0)}</span>
+            <div className="flex justify-between items-center mt-2">
+              <span className="text-xs text-violet-400">
+                {midMethod === "weighted" ? "Weighted Fair Value" : "Fair Value (Midpoint)"}
+              </span>
+              <span className="text-xs text-violet-300">Rp {range.mid.toFixed(0)}</span>
             </div>
-            <p className="text-violet-500 mt-0.5 text-[10px]">
-              EPS × PE IHSG × {modeMultipliers[valuationMode].values[2]}
-            </p>
+            {upside !== null && (
+              <div className="flex justify-between items-center mt-2">
+                <span className="text-xs text-violet-400">Upside/Downside</span>
+                <span
+                  className={`text-sm font-semibold ${
+                    upside >= 0 ? "text-green-400" : "text-red-400"
+                  }`}
+                >
+                  {upside >= 0 ? "+" : ""}
+                  {upside.toFixed(1)}%
+                </span>
+              </div>
+            )}
           </div>
-          <div>
-            <div className="flex justify-between items-center">
-              <span className="text-violet-400">Asset Based:</span>
-              <span className="text-violet-200">Rp {data.assetBased.toFixed(0)}</span>
+
+          {/* Status Badge */}
+          {status && (
+            <div
+              className="text-center py-2 px-4 rounded-lg"
+              style={{
+                backgroundColor: statusColors[status],
+              }}
+            >
+              <p className="text-sm font-bold text-white uppercase">
+                {statusLabels[status]}
+              </p>
             </div>
-            <p className="text-violet-500 mt-0.5 text-[10px]">
-              BVPS × {modeMultipliers[valuationMode].values[3]}
-            </p>
-          </div>
+          )}
+        </>
+      ) : (
+        <div className="bg-violet-900/50 rounded-lg p-3 text-xs text-violet-300">
+          No model produced a usable fair value. Check the models below or adjust the assumptions.
+        </div>
+      )}
+
+      {/* Per-model inputs and outputs (Collapsible) */}
+      <details className="text-xs" open={!range}>
+        <summary className="cursor-pointer text-violet-400 hover:text-violet-300">
+          Rumus Perhitungan ▼
+        </summary>
+        <div className="mt-2 space-y-3 pl-4 border-l-2 border-violet-800">
+          {models.map((model) => (
+            <ModelBreakdown
+              key={model.id}
+              model={model}
+              share={midMethod === "weighted" && totalWeight > 0 ? model.weight / totalWeight : null}
+            />
+          ))}
         </div>
       </details>
     </div>
   );
 }
+
+function ValueGauge({ range, currentPrice }: { range: NonNullable<IntrinsicValueResult["range"]>; currentPrice: number }) {
+  // Calculate position percentage for gauge (0-100%)
+  // The gauge shows from range.low to range.high
+  const gaugeMin = range.low * 0.8;
+  const gaugeMax = range.high * 1.2;
+  const currentPosition = ((currentPrice - gaugeMin) / (gaugeMax - gaugeMin)) * 100;
+
+  return (
+    <div className="relative pt-6 pb-2">
+      {/* Gauge bar */}
+      <div className="h-3 bg-gradient-to-r from-green-500 via-yellow-500 to-red-500 rounded-full relative">
+        {/* Current price indicator */}
+        <div
+          className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-4 h-4 bg-white border-2 border-gray-800 rounded-full shadow-lg z-10"
+          style={{
+            left: `${Math.min(Math.max(currentPosition, 0), 100)}%`,
+          }}
+        />
+      </div>
+
+      {/* Labels */}
+      <div className="flex justify-between text-xs text-violet-400 mt-1">
+        <span>Rp {range.low.toFixed(0)}</span>
+        <span>Rp {range.mid.toFixed(0)}</span>
+        <span>Rp {range.high.toFixed(0)}</span>
+      </div>
+    </div>
+  );
+}
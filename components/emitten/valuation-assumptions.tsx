@@ -0,0 +1,390 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useValuationScenarios } from "@/lib/hooks/useValuationScenarios";
+import {
+  calculateIntrinsicValue,
+  deleteScenario,
+  getModelWeight,
+  getReportedIhsgPE,
+  getScenariosForSymbol,
+  getValuationModels,
+  isSameAssumptions,
+  saveScenario,
+  type ValuationAssumptions,
+  type ValuationInputs,
+} from "@/lib/valuation";
+
+interface ValuationAssumptionsPanelProps {
+  symbol: string;
+  /** Reported inputs, shown as placeholders for the overridable fields */
+  inputs: ValuationInputs;
+  assumptions: ValuationAssumptions;
+  onChange: (assumptions: ValuationAssumptions) => void;
+}
+
+/** Saved scenarios compared next to the current assumptions */
+const MAX_COMPARED = 3;
+
+/**
+ * Number input that keeps the raw text while typing, so a field can be
+ * cleared or hold "-" without snapping back to the last valid value
+ */
+function NumberField({
+  label,
+  value,
+  placeholder,
+  suffix,
+  optional = false,
+  onChange,
+}: {
+  label: string;
+  value: number | null;
+  placeholder?: string;
+  suffix?: string;
+  /** Empty clears the value (null) instead of being ignored */
+  optional?: boolean;
+  onChange: (value: number | null) => void;
+}) {
+  const [draft, setDraft] = useState(value === null ? "" : String(value));
+
+  useEffect(() => {
+    setDraft((current) =>
+      Number(current) === value && current !== ""
+        ? current
+        : value === null
+          ? ""
+          : String(value),
+    );
+  }, [value]);
+
+  const handleChange = (text: string) => {
+    setDraft(text);
+    if (text.trim() === "") {
+      if (optional) onChange(null);
+      return;
+    }
+    const parsed = Number(text);
+    if (Number.isFinite(parsed)) onChange(parsed);
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2">
+      <span className="text-violet-400">{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          type="number"
+          value={draft}
+          placeholder={placeholder}
+          onChange={(e) => handleChange(e.target.value)}
+          className="w-16 bg-violet-900 text-white placeholder-violet-500 text-xs rounded px-1.5 py-0.5 text-right focus:outline-none focus:ring-1 focus:ring-violet-500"
+        />
+        {suffix && <span className="w-3 text-violet-500">{suffix}</span>}
+      </span>
+    </label>
+  );
+}
+
+export function ValuationAssumptionsPanel({
+  symbol,
+  inputs,
+  assumptions,
+  onChange,
+}: ValuationAssumptionsPanelProps) {
+  const scenarios = getScenariosForSymbol(useValuationScenarios(), symbol);
+  const [scenarioName, setScenarioName] = useState("");
+  const [scenarioError, setScenarioError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const update = (patch: Partial<ValuationAssumptions>) =>
+    onChange({ ...assumptions, ...patch });
+  const setWeight = (modelId: string, weight: number) =>
+    update({ weights: { ...assumptions.weights, [modelId]: weight } });
+
+  const handleSave = () => {
+    try {
+      saveScenario(symbol, scenarioName, assumptions);
+      setScenarioName("");
+      setScenarioError(null);
+    } catch (error) {
+      setScenarioError(
+        error instanceof Error ? error.message : "Failed to save scenario",
+      );
+    }
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds((current) =>
+      current.includes(id)
+        ? current.filter((item) => item !== id)
+        : [...current, id].slice(-MAX_COMPARED),
+    );
+  };
+
+  const compared = scenarios.filter((scenario) =>
+    compareIds.includes(scenario.id),
+  );
+
+  return (
+    <details className="text-xs">
+      <summary className="cursor-pointer text-violet-400 hover:text-violet-300">
+        Asumsi & Skenario ▼
+      </summary>
+
+      <div className="mt-2 space-y-3">
+        {/* Assumptions */}
+        <div className="space-y-1.5">
+          <NumberField
+            label="Growth Rate"
+            value={assumptions.growthRate}
+            placeholder={inputs.growthRate.toFixed(1)}
+            suffix="%"
+            optional
+            onChange={(growthRate) => update({ growthRate })}
+          />
+          <NumberField
+            label="PE IHSG"
+            value={assumptions.ihsgPE}
+            placeholder={getReportedIhsgPE(inputs, assumptions).toFixed(2)}
+            suffix="×"
+            optional
+            onChange={(ihsgPE) => update({ ihsgPE })}
+          />
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-violet-400">Sumber PE IHSG</span>
+            <span className="flex gap-1">
+              {(
+                [
+                  ["current", "PE Emiten"],
+                  ["median", "Median IHSG"],
+                ] as const
+              ).map(([source, label]) => (
+                <button
+                  key={source}
+                  disabled={source === "median" && inputs.ihsgMedianPE === null}
+                  onClick={() => update({ ihsgPESource: source })}
+                  className={`px-1.5 py-0.5 rounded disabled:opacity-40 ${
+                    assumptions.ihsgPESource === source
+                      ? "bg-violet-600 text-white"
+                      : "bg-violet-900 text-violet-300 hover:bg-violet-800"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </span>
+          </div>
+          <NumberField
+            label="Discount Rate"
+            value={assumptions.discountRate}
+            suffix="%"
+            onChange={(discountRate) =>
+              discountRate !== null && update({ discountRate })
+            }
+          />
+          <NumberField
+            label="Margin of Safety"
+            value={assumptions.marginOfSafety}
+            suffix="%"
+            onChange={(marginOfSafety) =>
+              marginOfSafety !== null && update({ marginOfSafety })
+            }
+          />
+          <p className="text-[10px] text-violet-500">
+            Kosongkan growth / PE IHSG untuk memakai angka laporan. Margin
+            negatif = premium.
+          </p>
+        </div>
+
+        {/* Model weights */}
+        <div className="space-y-1.5 border-t border-violet-800 pt-2">
+          <p className="text-violet-300 font-medium">Bobot Model</p>
+          {getValuationModels().map((model) => (
+            <NumberField
+              key={model.id}
+              label={model.label}
+              value={getModelWeight(
+                assumptions.weights,
+                model.id,
+                model.defaultWeight,
+              )}
+              onChange={(weight) =>
+                weight !== null && setWeight(model.id, Math.max(0, weight))
+              }
+            />
+          ))}
+          <p className="text-[10px] text-violet-500">
+            Bobot 0 mengeluarkan model dari rentang nilai wajar. Bobot sama:
+            nilai wajar = titik tengah rentang; bobot berbeda: rata-rata
+            tertimbang.
+          </p>
+        </div>
+
+        {/* Scenarios */}
+        <div className="space-y-1.5 border-t border-violet-800 pt-2">
+          <p className="text-violet-300 font-medium">Skenario {symbol}</p>
+          <div className="flex gap-1">
+            <input
+              type="text"
+              value={scenarioName}
+              onChange={(e) => setScenarioName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSave()}
+              placeholder="Nama skenario (ex: Bear case)"
+              className="flex-1 min-w-0 bg-violet-900 text-white placeholder-violet-500 text-xs rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-violet-500"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!scenarioName.trim()}
+              className="px-2 py-1 rounded bg-violet-600 text-white disabled:opacity-50 hover:bg-violet-500"
+            >
+              Simpan
+            </button>
+          </div>
+          {scenarioError && <p className="text-red-400">{scenarioError}</p>}
+
+          {scenarios.length === 0 ? (
+            <p className="text-violet-500">Belum ada skenario tersimpan</p>
+          ) : (
+            <div className="space-y-1">
+              {scenarios.map((scenario) => {
+                const isActive = isSameAssumptions(
+                  scenario.assumptions,
+                  assumptions,
+                );
+                return (
+                  <div key={scenario.id} className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(scenario.id)}
+                      onChange={() => toggleCompare(scenario.id)}
+                      className="accent-violet-500"
+                      aria-label={`Compare ${scenario.name}`}
+                    />
+                    <button
+                      onClick={() => onChange(scenario.assumptions)}
+                      className={`flex-1 text-left truncate ${
+                        isActive
+                          ? "text-white font-medium"
+                          : "text-violet-300 hover:text-white"
+                      }`}
+                    >
+                      {scenario.name}
+                    </button>
+                    <button
+                      onClick={() => deleteScenario(scenario.id)}
+                      className="text-violet-500 hover:text-red-400"
+                      aria-label={`Delete ${scenario.name}`}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Side-by-side comparison */}
+        {compared.length > 0 && (
+          <ScenarioComparison
+            inputs={inputs}
+            columns={[
+              { key: "current", name: "Saat Ini", assumptions },
+              ...compared.map((scenario) => ({
+                key: scenario.id,
+                name: scenario.name,
+                assumptions: scenario.assumptions,
+              })),
+            ]}
+          />
+        )}
+      </div>
+    </details>
+  );
+}
+
+function ScenarioComparison({
+  inputs,
+  columns,
+}: {
+  inputs: ValuationInputs;
+  columns: Array<{
+    key: string;
+    name: string;
+    assumptions: ValuationAssumptions;
+  }>;
+}) {
+  const results = columns.map((column) => ({
+    ...column,
+    result: calculateIntrinsicValue(inputs, column.assumptions),
+  }));
+
+  const formatRp = (value: number | undefined) =>
+    value === undefined ? "-" : `Rp ${value.toFixed(0)}`;
+  const rows: Array<{
+    label: string;
+    render: (item: (typeof results)[number]) => string;
+  }> = [
+    {
+      label: "Growth",
+      render: (item) =>
+        `${(item.assumptions.growthRate ?? inputs.growthRate).toFixed(1)}%`,
+    },
+    {
+      label: "PE IHSG",
+      render: (item) =>
+        `${(item.assumptions.ihsgPE ?? getReportedIhsgPE(inputs, item.assumptions)).toFixed(2)}×`,
+    },
+    {
+      label: "Discount",
+      render: (item) => `${item.assumptions.discountRate}%`,
+    },
+    {
+      label: "Margin",
+      render: (item) => `${item.assumptions.marginOfSafety}%`,
+    },
+    { label: "Low", render: (item) => formatRp(item.result.range?.low) },
+    { label: "Mid", render: (item) => formatRp(item.result.range?.mid) },
+    { label: "High", render: (item) => formatRp(item.result.range?.high) },
+    {
+      label: "Upside",
+      render: (item) =>
+        item.result.upside === null
+          ? "-"
+          : `${item.result.upside >= 0 ? "+" : ""}${item.result.upside.toFixed(1)}%`,
+    },
+  ];
+
+  return (
+    <div className="border-t border-violet-800 pt-2 overflow-x-auto">
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr>
+            <th />
+            {results.map((item) => (
+              <th
+                key={item.key}
+                className="px-1 text-right font-medium text-violet-300 truncate max-w-[72px]"
+              >
+                {item.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.label} className="border-t border-violet-900">
+              <td className="py-0.5 text-violet-500">{row.label}</td>
+              {results.map((item) => (
+                <td key={item.key} className="px-1 text-right text-violet-200">
+                  {row.render(item)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
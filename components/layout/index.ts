@@ -1,2 +1,3 @@
 export * from './navbar';
+export * from "./notification-center";
 export * from './sidebar-toggle';
@@ -17,6 +17,7 @@ import clsx from "clsx";
 
 import { siteConfig } from "@/config/site";
 import { ThemeSwitch } from "@/components/ui";
+import { NotificationCenter } from "./notification-center";
 import {
   TwitterIcon,
   GithubIcon,
@@ -69,6 +70,7 @@ export const Navbar = () => {
           <Link isExternal aria-label="Github" href={siteConfig.links.github}>
             <GithubIcon className="text-default-500" />
           </Link> */}
+          <NotificationCenter />
           <ThemeSwitch />
         </NavbarItem>
         <NavbarItem className="hidden md:flex">
@@ -89,6 +91,7 @@ export const Navbar = () => {
         {/* <Link isExternal aria-label="Github" href={siteConfig.links.github}>
           <GithubIcon className="text-default-500" />
         </Link> */}
+        <NotificationCenter />
         <ThemeSwitch />
         <NavbarMenuToggle />
       </NavbarContent>
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import NextLink from "next/link";
+import { Badge } from "@heroui/badge";
+import { Button } from "@heroui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@heroui/popover";
+import clsx from "clsx";
+
+import { useNotifications } from "@/lib/hooks/useNotifications";
+import {
+  NOTIFICATION_CATEGORIES,
+  clearNotifications,
+  countUnread,
+  markAllNotificationsRead,
+  markNotificationRead,
+  removeNotification,
+  type AppNotification,
+  type NotificationCategory,
+  type NotificationLevel,
+} from "@/lib/notifications";
+
+const LEVEL_ICONS: Record<NotificationLevel, string> = {
+  info: "ℹ️",
+  success: "✅",
+  warning: "⚠️",
+  danger: "⛔",
+};
+
+// e.g. "5m ago", "3h ago", "2d ago"
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function NotificationItem({
+  notification,
+  onNavigate,
+}: {
+  notification: AppNotification;
+  onNavigate: () => void;
+}) {
+  const content = (
+    <div className="flex gap-2">
+      <span className="text-sm">{LEVEL_ICONS[notification.level]}</span>
+      <div className="min-w-0 flex-1">
+        <p
+          className={clsx(
+            "text-sm",
+            notification.read
+              ? "text-default-500"
+              : "font-semibold text-default-800",
+          )}
+        >
+          {notification.title}
+        </p>
+        <p className="text-xs text-default-500">{notification.message}</p>
+        <p className="mt-0.5 text-[10px] text-default-400">
+          {formatAge(notification.createdAt)}
+        </p>
+      </div>
+    </div>
+  );
+
+  return (
+    <div
+      className={clsx(
+        "group relative rounded-lg px-2 py-2 hover:bg-default-100",
+        !notification.read && "bg-primary-50/40",
+      )}
+    >
+      {notification.href ? (
+        <NextLink
+          href={notification.href}
+          onClick={() => {
+            markNotificationRead(notification.id);
+            onNavigate();
+          }}
+        >
+          {content}
+        </NextLink>
+      ) : (
+        <button
+          className="w-full text-left"
+          onClick={() => markNotificationRead(notification.id)}
+        >
+          {content}
+        </button>
+      )}
+      <button
+        aria-label="Remove notification"
+        className="absolute right-1 top-1 hidden text-xs text-default-400 hover:text-danger group-hover:block"
+        onClick={() => removeNotification(notification.id)}
+      >
+        ✕
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Navbar bell with the persistent notification history
+ */
+export const NotificationCenter = () => {
+  const notifications = useNotifications();
+  const [isOpen, setIsOpen] = useState(false);
+  const [category, setCategory] = useState<NotificationCategory | null>(null);
+
+  const unread = countUnread(notifications);
+  const visible = category
+    ? notifications.filter((notification) => notification.category === category)
+    : notifications;
+
+  return (
+    <Popover placement="bottom-end" isOpen={isOpen} onOpenChange={setIsOpen}>
+      <Badge
+        content={unread > 99 ? "99+" : unread}
+        color="danger"
+        size="sm"
+        shape="circle"
+        isInvisible={unread === 0}
+      >
+        <PopoverTrigger>
+          <Button
+            isIconOnly
+            size="sm"
+            variant="light"
+            aria-label={`Notifications (${unread} unread)`}
+          >
+            <span className="text-lg">🔔</span>
+          </Button>
+        </PopoverTrigger>
+      </Badge>
+      <PopoverContent className="w-[360px] p-0">
+        <div className="w-full">
+          <div className="flex items-center justify-between border-b border-default-200 px-3 py-2">
+            <span className="text-sm font-semibold">Notifications</span>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="light"
+                className="h-6 min-w-0 px-2 text-xs"
+                isDisabled={
+                  countUnread(notifications, category || undefined) === 0
+                }
+                onPress={() => markAllNotificationsRead(category || undefined)}
+              >
+                Mark all read
+              </Button>
+              <Button
+                size="sm"
+                variant="light"
+                className="h-6 min-w-0 px-2 text-xs"
+                isDisabled={visible.length === 0}
+                onPress={() => clearNotifications(category || undefined)}
+              >
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-1 border-b border-default-200 px-3 py-2">
+            <Button
+              size="sm"
+              variant={!category ? "solid" : "flat"}
+              color={!category ? "primary" : "default"}
+              className="h-6 min-w-0 px-2 text-xs"
+              onPress={() => setCategory(null)}
+            >
+              All{unread > 0 && ` (${unread})`}
+            </Button>
+            {NOTIFICATION_CATEGORIES.map((item) => {
+              const count = countUnread(notifications, item.key);
+              return (
+                <Button
+                  key={item.key}
+                  size="sm"
+                  variant={category === item.key ? "solid" : "flat"}
+                  color={category === item.key ? "primary" : "default"}
+                  className="h-6 min-w-0 px-2 text-xs"
+                  onPress={() => setCategory(item.key)}
+                >
+                  {item.label}
+                  {count > 0 && ` (${count})`}
+                </Button>
+              );
+            })}
+          </div>
+
+          <div className="max-h-[420px] overflow-y-auto p-1">
+            {visible.length === 0 ? (
+              <p className="px-3 py-6 text-center text-xs text-default-500">
+                No notifications
+              </p>
+            ) : (
+              visible.map((notification) => (
+                <NotificationItem
+                  key={notification.id}
+                  notification={notification}
+                  onNavigate={() => setIsOpen(false)}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -1,11 +1,30 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import NextLink from "next/link";
 import { DiamondIcon } from "@/components/icons";
 import { EmittenSummary } from "@/components/emitten/emitten-summary";
+import { WatchlistModal } from "@/components/watchlist/WatchlistModal";
 import { fetchAllEmittenData, EmittenInfo, KeyStats, Profile } from "@/lib/api/emitten";
+import { isAbortError } from "@/lib/api/policy";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { addSymbolsToWatchlist } from "@/lib/watchlists";
+import {
+  ASSUMPTIONS_STORAGE_KEY,
+  findMatchingPreset,
+  readStoredAssumptions,
+  type ValuationAssumptions,
+  type ValuationMode,
+} from "@/lib/valuation";
+import { VALUATION_PRESETS } from "@/config/valuation";
 
-type ValuationMode = "conservative" | "moderate" | "aggressive";
+const SIDEBAR_WATCHLIST_KEY = "sidebar-watchlist";
+
+const VALUATION_MODE_LABELS: Record<ValuationMode, string> = {
+  conservative: "Konservatif",
+  moderate: "Moderat",
+  aggressive: "Agresif",
+};
 
 export function SidebarToggle({ children }: { children: React.ReactNode }) {
   const [isOpen, setIsOpen] = useState(true);
@@ -15,33 +34,87 @@ export function SidebarToggle({ children }: { children: React.ReactNode }) {
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [valuationMode, setValuationMode] = useState<ValuationMode>("moderate");
+  const [assumptions, setAssumptions] = useState<ValuationAssumptions>(VALUATION_PRESETS.moderate);
+  const activePreset = findMatchingPreset(assumptions);
+
+  // Watchlists
+  const watchlists = useWatchlists();
+  const [watchlistId, setWatchlistId] = useState<string | null>(null);
+  const [isWatchlistModalOpen, setIsWatchlistModalOpen] = useState(false);
+  const activeWatchlist = watchlists.find((list) => list.id === watchlistId) || null;
+  const loadedSymbol = emittenInfo?.symbol || "";
+
+  // Restore the last opened watchlist (localStorage is client-only)
+  useEffect(() => {
+    setWatchlistId(localStorage.getItem(SIDEBAR_WATCHLIST_KEY));
+  }, []);
+
+  // Restore the last valuation assumptions
+  useEffect(() => {
+    setAssumptions(readStoredAssumptions());
+  }, []);
+
+  const changeAssumptions = (next: ValuationAssumptions) => {
+    setAssumptions(next);
+    localStorage.setItem(ASSUMPTIONS_STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const selectWatchlist = (id: string) => {
+    const next = id === watchlistId ? null : id;
+    setWatchlistId(next);
+    if (next) {
+      localStorage.setItem(SIDEBAR_WATCHLIST_KEY, next);
+    } else {
+      localStorage.removeItem(SIDEBAR_WATCHLIST_KEY);
+    }
+  };
+
+  const loadEmitten = async (code: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Fetch all emitten data from real API; a newer search supersedes this one
+      const data = await fetchAllEmittenData(code, { channel: "sidebar-emitten" });
+
+      setEmittenInfo(data.info);
+      setKeyStats(data.keyStats);
+      setProfile(data.profile);
+      setLoading(false);
+    } catch (error) {
+      // The newer search owns the loading state now
+      if (isAbortError(error)) return;
+
+      console.error("Error fetching emitten data:", error);
+      setError(error instanceof Error ? error.message : "Failed to fetch emitten data");
+      // Reset data on error
+      setEmittenInfo(null);
+      setKeyStats(null);
+      setProfile(null);
+      setLoading(false);
+    }
+  };
 
   const handleSearch = async (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === "Enter" && searchCode.trim()) {
-      setLoading(true);
-      setError(null);
-
-      try {
-        // Fetch all emitten data from real API
-        const data = await fetchAllEmittenData(searchCode.trim());
-
-        setEmittenInfo(data.info);
-        setKeyStats(data.keyStats);
-        setProfile(data.profile);
-      } catch (error) {
-        console.error("Error fetching emitten data:", error);
-        setError(error instanceof Error ? error.message : "Failed to fetch emitten data");
-        // Reset data on error
-        setEmittenInfo(null);
-        setKeyStats(null);
-        setProfile(null);
-      } finally {
-        setLoading(false);
-      }
+      await loadEmitten(searchCode.trim());
     }
   };
 
+  const handleAddToWatchlist = () => {
+    if (!activeWatchlist || !loadedSymbol) return;
+    try {
+      addSymbolsToWatchlist(activeWatchlist.id, [loadedSymbol]);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update watchlist");
+    }
+  };
+
+  const handleWatchlistSymbol = (symbol: string) => {
+    setSearchCode(symbol);
+    void loadEmitten(symbol);
+  };
+
   return (
     <div className="flex" style={{ height: "calc(100vh - 64px)" }}>
       {/* Main Content - Left Dominant Space (75%) */}
@@ -75,41 +148,98 @@ export function SidebarToggle({ children }: { children: React.ReactNode }) {
           {error && (
             <p className="text-red-400 text-xs mt-2">{error}</p>
           )}
+          {loadedSymbol && (
+            <NextLink
+              href={`/peer-comparison?${new URLSearchParams({
+                symbol: loadedSymbol,
+                ...(activeWatchlist ? { watchlist: activeWatchlist.id } : {}),
+              })}`}
+              className="inline-block text-xs text-violet-300 hover:text-white mt-2"
+            >
+              Compare {loadedSymbol} with peers →
+            </NextLink>
+          )}
 
-          {/* Valuation Mode Toggle */}
+          {/* Watchlists */}
           <div className="mt-3">
-            <p className="text-xs text-violet-400 mb-2">Mode Valuasi</p>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs text-violet-400">Watchlist</p>
+              <div className="flex gap-2">
+                {activeWatchlist && loadedSymbol && !activeWatchlist.symbols.includes(loadedSymbol) && (
+                  <button
+                    onClick={handleAddToWatchlist}
+                    className="text-xs text-violet-300 hover:text-white"
+                  >
+                    + {loadedSymbol}
+                  </button>
+                )}
+                <button
+                  onClick={() => setIsWatchlistModalOpen(true)}
+                  className="text-xs text-violet-300 hover:text-white"
+                >
+                  {watchlists.length === 0 ? "+ New" : "Manage"}
+                </button>
+              </div>
+            </div>
+            {watchlists.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {watchlists.map((list) => (
+                  <button
+                    key={list.id}
+                    onClick={() => selectWatchlist(list.id)}
+                    className={`px-2 py-1 text-xs rounded-md transition-all ${
+                      list.id === watchlistId
+                        ? "bg-violet-600 text-white font-medium"
+                        : "bg-violet-900/50 text-violet-300 hover:bg-violet-800"
+                    }`}
+                  >
+                    {list.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            {activeWatchlist && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {activeWatchlist.symbols.map((symbol) => (
+                  <button
+                    key={symbol}
+                    onClick={() => handleWatchlistSymbol(symbol)}
+                    disabled={loading}
+                    className={`px-2 py-0.5 text-xs rounded border transition-all ${
+                      symbol === loadedSymbol
+                        ? "border-violet-400 text-white bg-violet-700"
+                        : "border-violet-800 text-violet-300 hover:bg-violet-800"
+                    }`}
+                  >
+                    {symbol}
+                  </button>
+                ))}
+                {activeWatchlist.symbols.length === 0 && (
+                  <p className="text-xs text-violet-500">No symbols yet</p>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Valuation presets; editing any assumption switches to a custom set */}
+          <div className="mt-3">
+            <p className="text-xs text-violet-400 mb-2">
+              Mode Valuasi{!activePreset && <span className="text-violet-500"> · Custom</span>}
+            </p>
             <div className="flex gap-1">
-              <button
-                onClick={() => setValuationMode("conservative")}
-                className={`flex-1 px-2 py-1.5 text-xs rounded-md transition-all ${
-                  valuationMode === "conservative"
-                    ? "bg-violet-600 text-white font-medium"
-                    : "bg-violet-900/50 text-violet-300 hover:bg-violet-800"
-                }`}
-              >
-                Konservatif
-              </button>
-              <button
-                onClick={() => setValuationMode("moderate")}
-                className={`flex-1 px-2 py-1.5 text-xs rounded-md transition-all ${
-                  valuationMode === "moderate"
-                    ? "bg-violet-600 text-white font-medium"
-                    : "bg-violet-900/50 text-violet-300 hover:bg-violet-800"
-                }`}
-              >
-                Moderat
-              </button>
-              <button
-                onClick={() => setValuationMode("aggressive")}
-                className={`flex-1 px-2 py-1.5 text-xs rounded-md transition-all ${
-                  valuationMode === "aggressive"
-                    ? "bg-violet-600 text-white font-medium"
-                    : "bg-violet-900/50 text-violet-300 hover:bg-violet-800"
-                }`}
-              >
-                Agresif
-              </button>
+              {(Object.keys(VALUATION_PRESETS) as ValuationMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => changeAssumptions(VALUATION_PRESETS[mode])}
+                  className={`flex-1 px-2 py-1.5 text-xs rounded-md transition-all ${
+                    activePreset === mode
+                      ? "bg-violet-600 text-white font-medium"
+                      : "bg-violet-900/50 text-violet-300 hover:bg-violet-800"
+                  }`}
+                >
+                  {VALUATION_MODE_LABELS[mode]}
+                </button>
+              ))}
             </div>
           </div>
         </div>
@@ -121,10 +251,18 @@ export function SidebarToggle({ children }: { children: React.ReactNode }) {
           profile={profile}
           loading={loading}
           error={error}
-          valuationMode={valuationMode}
+          assumptions={assumptions}
+          onAssumptionsChange={changeAssumptions}
         />
       </section>
 
+      <WatchlistModal
+        isOpen={isWatchlistModalOpen}
+        onClose={() => setIsWatchlistModalOpen(false)}
+        initialWatchlistId={watchlistId}
+        suggestedSymbols={loadedSymbol ? [loadedSymbol] : []}
+      />
+
       {/* Toggle Button */}
       <button
         onClick={() => setIsOpen(!isOpen)}
@@ -0,0 +1,102 @@
+"use client";
+
+import { FC } from "react";
+import { Button, ButtonProps } from "@heroui/button";
+import {
+  Dropdown,
+  DropdownItem,
+  DropdownMenu,
+  DropdownTrigger,
+} from "@heroui/dropdown";
+import { addToast } from "@heroui/toast";
+
+import {
+  countExportRecords,
+  exportDocument,
+  type ExportDocument,
+  type ExportFormat,
+} from "@/lib/export";
+import { useAnalytics } from "@/lib/hooks/useAnalytics";
+
+export interface ExportMenuProps {
+  /** Built lazily when a format is picked */
+  getDocument: () => ExportDocument;
+  /** Analytics data type of the export */
+  dataType: "summary" | "calendar" | "full";
+  /** Analytics source identifier, e.g. "broker_calendar_summary" */
+  source: string;
+  label?: string;
+  size?: ButtonProps["size"];
+  isDisabled?: boolean;
+  className?: string;
+}
+
+export const ExportMenu: FC<ExportMenuProps> = ({
+  getDocument,
+  dataType,
+  source,
+  label = "Export",
+  size = "sm",
+  isDisabled,
+  className,
+}) => {
+  const { trackDataExportInitiated, trackDataExportCompleted, trackError } =
+    useAnalytics();
+
+  const handleExport = (format: ExportFormat) => {
+    const startTime = Date.now();
+    const analyticsFormat = format === "xlsx" ? "excel" : "csv";
+
+    try {
+      const exportDoc = getDocument();
+      trackDataExportInitiated(
+        analyticsFormat,
+        dataType,
+        countExportRecords(exportDoc),
+        source,
+      );
+
+      const fileSize = exportDocument(exportDoc, format);
+      trackDataExportCompleted(
+        analyticsFormat,
+        fileSize,
+        Date.now() - startTime,
+        source,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Export failed";
+      trackError("unknown", message, `export:${source}`);
+      addToast({
+        title: "Export Failed",
+        description: message,
+        color: "danger",
+      });
+    }
+  };
+
+  return (
+    <Dropdown>
+      <DropdownTrigger>
+        <Button
+          size={size}
+          variant="flat"
+          isDisabled={isDisabled}
+          className={className}
+        >
+          {label}
+        </Button>
+      </DropdownTrigger>
+      <DropdownMenu
+        aria-label="Export format"
+        onAction={(key) => handleExport(key as ExportFormat)}
+      >
+        <DropdownItem key="csv" description="Comma-separated values">
+          CSV
+        </DropdownItem>
+        <DropdownItem key="xlsx" description="Excel workbook">
+          Excel (XLSX)
+        </DropdownItem>
+      </DropdownMenu>
+    </Dropdown>
+  );
+};
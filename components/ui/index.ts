@@ -1,2 +1,3 @@
 export * from './theme-switch';
 export * from './counter';
+export * from "./export-menu";
@@ -0,0 +1,391 @@
+"use client";
+
+/**
+ * WatchlistModal Component
+ * Create, edit, delete, import and export named symbol watchlists
+ * Following the same pattern as ShareModal
+ */
+
+import { useState, useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Button } from "@heroui/button";
+import { Input } from "@heroui/input";
+import { Chip } from "@heroui/chip";
+import { addToast } from "@heroui/toast";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import {
+  addSymbolsToWatchlist,
+  createWatchlist,
+  deleteWatchlist,
+  exportWatchlists,
+  getWatchlists,
+  importWatchlists,
+  parseSymbols,
+  removeSymbolFromWatchlist,
+  renameWatchlist,
+} from "@/lib/watchlists";
+import { downloadBlob } from "@/lib/export";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface WatchlistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Watchlist to show first */
+  initialWatchlistId?: string | null;
+  /** Symbols offered when creating a new list (e.g. the current analysis symbol) */
+  suggestedSymbols?: string[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const showError = (title: string, error: unknown) => {
+  addToast({
+    title,
+    description:
+      error instanceof Error ? error.message : "Something went wrong",
+    color: "danger",
+  });
+};
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function WatchlistModal({
+  isOpen,
+  onClose,
+  initialWatchlistId,
+  suggestedSymbols = [],
+}: WatchlistModalProps) {
+  const watchlists = useWatchlists();
+
+  // State
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [nameDraft, setNameDraft] = useState("");
+  const [symbolInput, setSymbolInput] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = watchlists.find((list) => list.id === selectedId) || null;
+
+  // Pick the initial list when the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedId(initialWatchlistId || watchlists[0]?.id || null);
+    } else {
+      setNewName("");
+      setSymbolInput("");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, initialWatchlistId]);
+
+  // Keep the rename field in sync with the selected list
+  useEffect(() => {
+    setNameDraft(selected?.name || "");
+  }, [selected?.id, selected?.name]);
+
+  // Handle ESC key to close modal
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && isOpen) {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const handleCreate = () => {
+    try {
+      const list = createWatchlist(newName, suggestedSymbols);
+      setSelectedId(list.id);
+      setNewName("");
+    } catch (error) {
+      showError("Cannot Create Watchlist", error);
+    }
+  };
+
+  const handleRename = () => {
+    if (!selected || nameDraft.trim() === selected.name) return;
+    try {
+      renameWatchlist(selected.id, nameDraft);
+    } catch (error) {
+      showError("Cannot Rename Watchlist", error);
+      setNameDraft(selected.name);
+    }
+  };
+
+  const handleAddSymbols = () => {
+    if (!selected) return;
+    const { symbols, invalid } = parseSymbols(symbolInput);
+
+    try {
+      addSymbolsToWatchlist(selected.id, symbols);
+      setSymbolInput(invalid.join(" "));
+      if (invalid.length > 0) {
+        addToast({
+          title: "Some Symbols Skipped",
+          description: `Not valid IDX tickers: ${invalid.join(", ")}`,
+          color: "warning",
+        });
+      }
+    } catch (error) {
+      showError("Cannot Add Symbols", error);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    if (!window.confirm(`Delete watchlist "${selected.name}"?`)) return;
+
+    deleteWatchlist(selected.id);
+    setSelectedId(
+      watchlists.find((list) => list.id !== selected.id)?.id || null,
+    );
+  };
+
+  const handleExport = () => {
+    const json = exportWatchlists();
+    downloadBlob(
+      new Blob([json], { type: "application/json" }),
+      "watchlists.json",
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = importWatchlists(await file.text());
+      const summary = [
+        result.created.length > 0 && `${result.created.length} created`,
+        result.merged.length > 0 && `${result.merged.length} merged`,
+        result.invalidSymbols.length > 0 &&
+          `${result.invalidSymbols.length} invalid symbols skipped`,
+        ...result.errors,
+      ].filter(Boolean);
+
+      addToast({
+        title: "Watchlists Imported",
+        description: summary.join(" • ") || "Nothing new to import",
+        color: result.errors.length > 0 ? "warning" : "success",
+      });
+      if (!selectedId) setSelectedId(getWatchlists()[0]?.id || null);
+    } catch (error) {
+      showError("Import Failed", error);
+    }
+  };
+
+  return (
+    <AnimatePresence>
+      {isOpen && (
+        <>
+          {/* Modal Content - HIGHER z-index */}
+          <div className="fixed inset-0 z-[10002] flex items-center justify-center p-4 pointer-events-none">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.95 }}
+              transition={{ duration: 0.2 }}
+              className="w-full max-w-2xl pointer-events-auto"
+            >
+              <div className="bg-content1 border border-default-200 rounded-2xl shadow-2xl overflow-hidden flex flex-col max-h-[85vh]">
+                {/* Header */}
+                <div className="flex items-center justify-between px-6 py-4 border-b border-default-200 flex-shrink-0">
+                  <div className="flex flex-col gap-1">
+                    <h2 className="text-xl font-bold">Watchlists</h2>
+                    <p className="text-sm text-default-500">
+                      Named symbol groups, saved in this browser
+                    </p>
+                  </div>
+                  <Button
+                    isIconOnly
+                    size="sm"
+                    variant="flat"
+                    onPress={onClose}
+                    className="rounded-full"
+                  >
+                    ✕
+                  </Button>
+                </div>
+
+                {/* Body */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 p-6 overflow-y-auto">
+                  {/* Lists */}
+                  <div className="space-y-2">
+                    <div className="flex flex-col gap-1">
+                      {watchlists.map((list) => (
+                        <button
+                          key={list.id}
+                          onClick={() => setSelectedId(list.id)}
+                          className={`flex items-center justify-between px-3 py-2 rounded-lg text-sm text-left transition-colors ${
+                            list.id === selectedId
+                              ? "bg-primary text-primary-foreground"
+                              : "bg-default-100 hover:bg-default-200"
+                          }`}
+                        >
+                          <span className="truncate">{list.name}</span>
+                          <span className="text-xs opacity-70">
+                            {list.symbols.length}
+                          </span>
+                        </button>
+                      ))}
+                      {watchlists.length === 0 && (
+                        <p className="text-xs text-default-400">
+                          No watchlists yet
+                        </p>
+                      )}
+                    </div>
+                    <Input
+                      size="sm"
+                      placeholder="New watchlist name"
+                      value={newName}
+                      onValueChange={setNewName}
+                      onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                      variant="bordered"
+                    />
+                    <Button
+                      size="sm"
+                      color="primary"
+                      variant="flat"
+                      fullWidth
+                      onPress={handleCreate}
+                      isDisabled={!newName.trim()}
+                    >
+                      + Create
+                      {suggestedSymbols.length > 0
+                        ? ` with ${suggestedSymbols.join(", ")}`
+                        : ""}
+                    </Button>
+                  </div>
+
+                  {/* Selected list */}
+                  <div className="sm:col-span-2 space-y-3">
+                    {selected ? (
+                      <>
+                        <Input
+                          size="sm"
+                          label="Name"
+                          value={nameDraft}
+                          onValueChange={setNameDraft}
+                          onBlur={handleRename}
+                          onKeyDown={(e) => e.key === "Enter" && handleRename()}
+                          variant="bordered"
+                        />
+                        <div className="flex gap-2">
+                          <Input
+                            size="sm"
+                            placeholder="Add symbols, e.g. BBCA BBRI, BMRI"
+                            value={symbolInput}
+                            onValueChange={(value) =>
+                              setSymbolInput(value.toUpperCase())
+                            }
+                            onKeyDown={(e) =>
+                              e.key === "Enter" && handleAddSymbols()
+                            }
+                            variant="bordered"
+                          />
+                          <Button
+                            size="sm"
+                            color="primary"
+                            onPress={handleAddSymbols}
+                            isDisabled={!symbolInput.trim()}
+                          >
+                            Add
+                          </Button>
+                        </div>
+                        <div className="flex flex-wrap gap-1.5 min-h-[2rem]">
+                          {selected.symbols.map((symbol) => (
+                            <Chip
+                              key={symbol}
+                              size="sm"
+                              variant="flat"
+                              onClose={() =>
+                                removeSymbolFromWatchlist(selected.id, symbol)
+                              }
+                            >
+                              {symbol}
+                            </Chip>
+                          ))}
+                          {selected.symbols.length === 0 && (
+                            <p className="text-xs text-default-400">
+                              No symbols yet
+                            </p>
+                          )}
+                        </div>
+                        <Button
+                          size="sm"
+                          color="danger"
+                          variant="light"
+                          onPress={handleDelete}
+                        >
+                          Delete Watchlist
+                        </Button>
+                      </>
+                    ) : (
+                      <p className="text-sm text-default-400">
+                        Create a watchlist to start adding symbols.
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                {/* Footer */}
+                <div className="flex items-center gap-2 px-6 py-4 border-t border-default-200 flex-shrink-0">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) void handleImport(file);
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    onPress={() => fileInputRef.current?.click()}
+                  >
+                    Import JSON
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    onPress={handleExport}
+                    isDisabled={watchlists.length === 0}
+                  >
+                    Export JSON
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="flat"
+                    onPress={onClose}
+                    className="ml-auto"
+                  >
+                    Close
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+
+          {/* Backdrop - LOWER z-index */}
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            className="fixed inset-0 bg-black/30 backdrop-blur-sm z-[10001]"
+            onClick={onClose}
+          />
+        </>
+      )}
+    </AnimatePresence>
+  );
+}
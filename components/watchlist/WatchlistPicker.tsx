@@ -0,0 +1,138 @@
+"use client";
+
+/**
+ * WatchlistPicker Component
+ * Pick a watchlist, then click one of its symbols to use it as input
+ */
+
+import { useState, useEffect } from "react";
+import { Button } from "@heroui/button";
+import { Chip } from "@heroui/chip";
+import { addToast } from "@heroui/toast";
+import { useWatchlists } from "@/lib/hooks/useWatchlists";
+import { addSymbolsToWatchlist, isValidSymbol } from "@/lib/watchlists";
+import { WatchlistModal } from "./WatchlistModal";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface WatchlistPickerProps {
+  /** Called with the clicked symbol */
+  onSelectSymbol: (symbol: string) => void;
+  /** Symbol currently in use; highlighted and offered for "+ Add" */
+  activeSymbol?: string;
+}
+
+const ACTIVE_WATCHLIST_KEY = "watchlist-picker-active";
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function WatchlistPicker({
+  onSelectSymbol,
+  activeSymbol = "",
+}: WatchlistPickerProps) {
+  const watchlists = useWatchlists();
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  // Restore the last used watchlist after mount (localStorage is client-only)
+  useEffect(() => {
+    setActiveId(localStorage.getItem(ACTIVE_WATCHLIST_KEY));
+  }, []);
+
+  const active = watchlists.find((list) => list.id === activeId) || null;
+  const symbol = activeSymbol.trim().toUpperCase();
+  const canAdd =
+    !!active && isValidSymbol(symbol) && !active.symbols.includes(symbol);
+
+  const selectWatchlist = (id: string | null) => {
+    setActiveId(id);
+    if (id) {
+      localStorage.setItem(ACTIVE_WATCHLIST_KEY, id);
+    } else {
+      localStorage.removeItem(ACTIVE_WATCHLIST_KEY);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!active) return;
+    try {
+      addSymbolsToWatchlist(active.id, [symbol]);
+    } catch (error) {
+      addToast({
+        title: "Cannot Add Symbol",
+        description:
+          error instanceof Error ? error.message : "Something went wrong",
+        color: "danger",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="text-xs text-default-500 mr-1">Watchlist:</span>
+        {watchlists.map((list) => (
+          <Chip
+            key={list.id}
+            size="sm"
+            className="cursor-pointer"
+            color={list.id === activeId ? "primary" : "default"}
+            variant={list.id === activeId ? "solid" : "bordered"}
+            onClick={() =>
+              selectWatchlist(list.id === activeId ? null : list.id)
+            }
+          >
+            {list.name} ({list.symbols.length})
+          </Chip>
+        ))}
+        {canAdd && (
+          <Button
+            size="sm"
+            variant="light"
+            color="primary"
+            className="h-6 min-w-0 px-2"
+            onPress={handleAdd}
+          >
+            + {symbol}
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="light"
+          className="h-6 min-w-0 px-2"
+          onPress={() => setIsModalOpen(true)}
+        >
+          {watchlists.length === 0 ? "+ New Watchlist" : "Manage"}
+        </Button>
+      </div>
+
+      {active && active.symbols.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {active.symbols.map((item) => (
+            <Chip
+              key={item}
+              size="sm"
+              className="cursor-pointer"
+              color={item === symbol ? "secondary" : "default"}
+              variant="flat"
+              onClick={() => onSelectSymbol(item)}
+            >
+              {item}
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      <WatchlistModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        initialWatchlistId={activeId}
+        suggestedSymbols={isValidSymbol(symbol) ? [symbol] : []}
+      />
+    </div>
+  );
+}
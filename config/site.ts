@@ -12,6 +12,14 @@ export const siteConfig = {
       label: "Broker Activity",
       href: "/broker-activity",
     },
+    {
+      label: "Broker Compare",
+      href: "/broker-compare",
+    },
+    {
+      label: "Peer Compare",
+      href: "/peer-comparison",
+    },
     {
       label: "Big Player Movement",
       href: "/bigplayer-movement",
@@ -20,6 +28,10 @@ export const siteConfig = {
       label: "Big Broksum",
       href: "/big-broksum",
     },
+    {
+      label: "Alerts",
+      href: "/alerts",
+    },
   ],
   navMenuItems: [
     {
@@ -3,6 +3,8 @@
  * All values are based on IDX market standards
  */
 
+import type { ValuationAssumptions, ValuationMode } from "@/lib/valuation/types";
+
 // ============================================================================
 // THRESHOLDS
 // ============================================================================
@@ -74,6 +76,174 @@ export const THRESHOLDS = {
   },
 };
 
+// ============================================================================
+// SECTOR THRESHOLD PROFILES
+// ============================================================================
+
+export type Thresholds = typeof THRESHOLDS;
+
+export type ThresholdOverrides = {
+  [K in keyof Thresholds]?: Partial<Thresholds[K]>;
+};
+
+export interface ThresholdProfileConfig {
+  id: string;
+  label: string;
+  /** EmittenInfo.sector / sub_sector names (Indonesian and English), matched case-insensitively */
+  match: string[];
+  /** Only the thresholds that differ from the global THRESHOLDS (or the sector's, for sub-sectors) */
+  overrides: ThresholdOverrides;
+}
+
+/**
+ * Per-sector thresholds (IDX-IC sectors)
+ * Rough IDX norms: a bank's leverage or a coal miner's PE is judged against its peers, not consumer stocks.
+ */
+export const SECTOR_THRESHOLD_PROFILES: ThresholdProfileConfig[] = [
+  {
+    id: "energy",
+    label: "Energi",
+    match: ["Energi", "Energy"],
+    overrides: {
+      pe: { cheap: 5, fair: 8, expensive: 12 },
+      pbv: { cheap: 0.8, fair: 1.2, expensive: 2.0 },
+      revenueGrowth: { excellent: 15, good: 10, fair: 5, poor: 0 },
+    },
+  },
+  {
+    id: "basic-materials",
+    label: "Barang Baku",
+    match: ["Barang Baku", "Basic Materials"],
+    overrides: {
+      pe: { cheap: 8, fair: 12, expensive: 18 },
+      netMargin: { excellent: 15, good: 10, fair: 6, poor: 2 },
+    },
+  },
+  {
+    id: "industrials",
+    label: "Perindustrian",
+    match: ["Perindustrian", "Industrials"],
+    overrides: {
+      netMargin: { excellent: 12, good: 8, fair: 5, poor: 2 },
+    },
+  },
+  {
+    id: "consumer-non-cyclicals",
+    label: "Barang Konsumen Primer",
+    match: ["Barang Konsumen Primer", "Consumer Non-Cyclicals"],
+    overrides: {
+      roe: { excellent: 25, good: 18, fair: 12, poor: 6 },
+      netMargin: { excellent: 12, good: 8, fair: 5, poor: 2 },
+      pe: { cheap: 14, fair: 20, expensive: 28 },
+      pbv: { cheap: 2.0, fair: 3.5, expensive: 5.0 },
+    },
+  },
+  {
+    id: "consumer-cyclicals",
+    label: "Barang Konsumen Non-Primer",
+    match: ["Barang Konsumen Non-Primer", "Consumer Cyclicals"],
+    overrides: {
+      netMargin: { excellent: 12, good: 8, fair: 5, poor: 2 },
+      pe: { cheap: 10, fair: 15, expensive: 22 },
+    },
+  },
+  {
+    id: "healthcare",
+    label: "Kesehatan",
+    match: ["Kesehatan", "Healthcare"],
+    overrides: {
+      pe: { cheap: 15, fair: 22, expensive: 30 },
+      pbv: { cheap: 2.0, fair: 3.5, expensive: 5.0 },
+      netMargin: { excellent: 15, good: 10, fair: 6, poor: 2 },
+    },
+  },
+  {
+    id: "financials",
+    label: "Keuangan",
+    match: ["Keuangan", "Financials"],
+    overrides: {
+      // Leverage and liquidity ratios of lenders are structurally different
+      roa: { excellent: 2.5, good: 1.5, fair: 1.0, poor: 0.5 },
+      netMargin: { excellent: 35, good: 25, fair: 15, poor: 5 },
+      pbv: { cheap: 1.0, fair: 2.0, expensive: 3.0 },
+      debtToEquity: { safe: 2.0, moderate: 4.0, risky: 6.0 },
+      currentRatio: { strong: 1.2, adequate: 1.0, weak: 0.8 },
+      altmanZScore: { safe: 1.5, moderate: 1.0, distress: 0.5 },
+    },
+  },
+  {
+    id: "property",
+    label: "Properti & Real Estat",
+    match: ["Properti & Real Estat", "Properties & Real Estate"],
+    overrides: {
+      roe: { excellent: 12, good: 9, fair: 6, poor: 3 },
+      pe: { cheap: 6, fair: 10, expensive: 15 },
+      pbv: { cheap: 0.5, fair: 0.8, expensive: 1.2 },
+    },
+  },
+  {
+    id: "technology",
+    label: "Teknologi",
+    match: ["Teknologi", "Technology"],
+    overrides: {
+      pbv: { cheap: 1.5, fair: 3.0, expensive: 5.0 },
+      revenueGrowth: { excellent: 30, good: 20, fair: 10, poor: 0 },
+    },
+  },
+  {
+    id: "infrastructures",
+    label: "Infrastruktur",
+    match: ["Infrastruktur", "Infrastructures"],
+    overrides: {
+      debtToEquity: { safe: 1.5, moderate: 2.5, risky: 3.5 },
+      currentRatio: { strong: 1.5, adequate: 1.0, weak: 0.7 },
+    },
+  },
+  {
+    id: "transportation",
+    label: "Transportasi & Logistik",
+    match: ["Transportasi & Logistik", "Transportation & Logistic"],
+    overrides: {
+      debtToEquity: { safe: 1.5, moderate: 2.0, risky: 3.0 },
+      netMargin: { excellent: 12, good: 8, fair: 4, poor: 1 },
+    },
+  },
+];
+
+/**
+ * Sub-sector refinements, applied on top of the matching sector profile
+ */
+export const SUB_SECTOR_THRESHOLD_PROFILES: ThresholdProfileConfig[] = [
+  {
+    id: "banks",
+    label: "Bank",
+    match: ["Bank", "Banks"],
+    overrides: {
+      roe: { excellent: 18, good: 14, fair: 10, poor: 6 },
+      pe: { cheap: 8, fair: 12, expensive: 18 },
+      debtToEquity: { safe: 6.0, moderate: 8.0, risky: 10.0 },
+    },
+  },
+  {
+    id: "coal",
+    label: "Batu Bara",
+    match: ["Batu Bara", "Batubara", "Coal"],
+    overrides: {
+      pe: { cheap: 4, fair: 6, expensive: 9 },
+      netMargin: { excellent: 25, good: 15, fair: 8, poor: 3 },
+    },
+  },
+  {
+    id: "telecommunication",
+    label: "Telekomunikasi",
+    match: ["Telekomunikasi", "Telecommunication"],
+    overrides: {
+      debtToEquity: { safe: 1.0, moderate: 1.5, risky: 2.5 },
+      pe: { cheap: 12, fair: 16, expensive: 22 },
+    },
+  },
+];
+
 // ============================================================================
 // SCORING WEIGHTS
 // ============================================================================
@@ -115,3 +285,71 @@ export const VALUATION_COLORS = {
   fair: "#eab308",        // yellow
   overvalued: "#ef4444",  // red
 };
+
+// ============================================================================
+// VALUATION MODES
+// ============================================================================
+
+/**
+ * Built-in assumption presets, one per valuation mode
+ * Users start from one of these and can edit or save their own scenarios.
+ * The per-model adjustments are the multipliers the modes always applied; the
+ * margin of safety starts at 0 and is the user's own discount on top.
+ */
+export const VALUATION_PRESETS: Record<ValuationMode, ValuationAssumptions> = {
+  conservative: {
+    growthRate: null,     // reported revenue growth
+    ihsgPE: null,         // reported PE
+    ihsgPESource: "current", // the emitten's Current PE Ratio (TTM)
+    discountRate: 14,     // % cost of equity
+    marginOfSafety: 0,
+    maxGrowthRate: 10,
+    highGrowthYears: 5,
+    fadeYears: 5,
+    terminalGrowth: 3,
+    dividendGrowth: 3,
+    evEbitdaMultiple: 6,
+    adjustments: {
+      graham: 0.85,       // 15% discount
+      peterLynch: 0.80,   // 20% discount
+      ihsgRelative: 0.85, // 15% discount
+      assetBased: 0.90,   // 10% discount
+    },
+    weights: {},
+  },
+  moderate: {
+    growthRate: null,
+    ihsgPE: null,
+    ihsgPESource: "current",
+    discountRate: 12,
+    marginOfSafety: 0,
+    maxGrowthRate: 15,
+    highGrowthYears: 5,
+    fadeYears: 5,
+    terminalGrowth: 4,
+    dividendGrowth: 5,
+    evEbitdaMultiple: 8,
+    adjustments: {},
+    weights: {},
+  },
+  aggressive: {
+    growthRate: null,
+    ihsgPE: null,
+    ihsgPESource: "current",
+    discountRate: 10,
+    marginOfSafety: 0,
+    maxGrowthRate: 20,
+    highGrowthYears: 5,
+    fadeYears: 5,
+    terminalGrowth: 5,
+    dividendGrowth: 6,
+    evEbitdaMultiple: 10,
+    adjustments: {
+      graham: 1.15,       // 15% premium
+      peterLynch: 1.20,   // 20% premium
+      ihsgRelative: 1.15, // 15% premium
+      assetBased: 1.10,   // 10% premium
+    },
+    weights: {},
+  },
+};
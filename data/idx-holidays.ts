@@ -0,0 +1,87 @@
+export interface IdxHoliday {
+  date: string;
+  name: string;
+}
+
+/**
+ * IDX exchange holidays (bursa libur), including cuti bersama
+ * Source: IDX trading calendar announcements. Update when the next year's calendar is published.
+ */
+export const IDX_HOLIDAYS: IdxHoliday[] = [
+  // 2024
+  { date: "2024-01-01", name: "Tahun Baru Masehi" },
+  { date: "2024-02-08", name: "Isra Mikraj" },
+  { date: "2024-02-09", name: "Cuti Bersama Tahun Baru Imlek" },
+  { date: "2024-02-14", name: "Pemilihan Umum" },
+  { date: "2024-03-11", name: "Hari Suci Nyepi" },
+  { date: "2024-03-12", name: "Cuti Bersama Hari Suci Nyepi" },
+  { date: "2024-03-29", name: "Wafat Yesus Kristus" },
+  { date: "2024-04-08", name: "Cuti Bersama Idul Fitri" },
+  { date: "2024-04-09", name: "Cuti Bersama Idul Fitri" },
+  { date: "2024-04-10", name: "Idul Fitri" },
+  { date: "2024-04-11", name: "Idul Fitri" },
+  { date: "2024-04-12", name: "Cuti Bersama Idul Fitri" },
+  { date: "2024-04-15", name: "Cuti Bersama Idul Fitri" },
+  { date: "2024-05-01", name: "Hari Buruh" },
+  { date: "2024-05-09", name: "Kenaikan Yesus Kristus" },
+  { date: "2024-05-10", name: "Cuti Bersama Kenaikan Yesus Kristus" },
+  { date: "2024-05-23", name: "Hari Raya Waisak" },
+  { date: "2024-05-24", name: "Cuti Bersama Hari Raya Waisak" },
+  { date: "2024-06-17", name: "Idul Adha" },
+  { date: "2024-06-18", name: "Cuti Bersama Idul Adha" },
+  { date: "2024-09-16", name: "Maulid Nabi Muhammad SAW" },
+  { date: "2024-11-27", name: "Pemilihan Kepala Daerah" },
+  { date: "2024-12-25", name: "Hari Raya Natal" },
+  { date: "2024-12-26", name: "Cuti Bersama Hari Raya Natal" },
+  { date: "2024-12-31", name: "Libur Bursa Akhir Tahun" },
+
+  // 2025
+  { date: "2025-01-01", name: "Tahun Baru Masehi" },
+  { date: "2025-01-27", name: "Isra Mikraj" },
+  { date: "2025-01-28", name: "Cuti Bersama Tahun Baru Imlek" },
+  { date: "2025-01-29", name: "Tahun Baru Imlek" },
+  { date: "2025-03-28", name: "Cuti Bersama Hari Suci Nyepi" },
+  { date: "2025-03-31", name: "Idul Fitri" },
+  { date: "2025-04-01", name: "Idul Fitri" },
+  { date: "2025-04-02", name: "Cuti Bersama Idul Fitri" },
+  { date: "2025-04-03", name: "Cuti Bersama Idul Fitri" },
+  { date: "2025-04-04", name: "Cuti Bersama Idul Fitri" },
+  { date: "2025-04-07", name: "Cuti Bersama Idul Fitri" },
+  { date: "2025-04-18", name: "Wafat Yesus Kristus" },
+  { date: "2025-05-01", name: "Hari Buruh" },
+  { date: "2025-05-12", name: "Hari Raya Waisak" },
+  { date: "2025-05-13", name: "Cuti Bersama Hari Raya Waisak" },
+  { date: "2025-05-29", name: "Kenaikan Yesus Kristus" },
+  { date: "2025-05-30", name: "Cuti Bersama Kenaikan Yesus Kristus" },
+  { date: "2025-06-06", name: "Idul Adha" },
+  { date: "2025-06-09", name: "Cuti Bersama Idul Adha" },
+  { date: "2025-06-27", name: "Tahun Baru Islam" },
+  { date: "2025-08-18", name: "Cuti Bersama Hari Kemerdekaan" },
+  { date: "2025-09-05", name: "Maulid Nabi Muhammad SAW" },
+  { date: "2025-12-25", name: "Hari Raya Natal" },
+  { date: "2025-12-26", name: "Cuti Bersama Hari Raya Natal" },
+  { date: "2025-12-31", name: "Libur Bursa Akhir Tahun" },
+
+  // 2026
+  { date: "2026-01-01", name: "Tahun Baru Masehi" },
+  { date: "2026-01-16", name: "Isra Mikraj" },
+  { date: "2026-02-16", name: "Cuti Bersama Tahun Baru Imlek" },
+  { date: "2026-02-17", name: "Tahun Baru Imlek" },
+  { date: "2026-03-18", name: "Cuti Bersama Hari Suci Nyepi" },
+  { date: "2026-03-19", name: "Hari Suci Nyepi" },
+  { date: "2026-03-20", name: "Idul Fitri" },
+  { date: "2026-03-23", name: "Cuti Bersama Idul Fitri" },
+  { date: "2026-03-24", name: "Cuti Bersama Idul Fitri" },
+  { date: "2026-04-03", name: "Wafat Yesus Kristus" },
+  { date: "2026-05-01", name: "Hari Buruh" },
+  { date: "2026-05-14", name: "Kenaikan Yesus Kristus" },
+  { date: "2026-05-15", name: "Cuti Bersama Kenaikan Yesus Kristus" },
+  { date: "2026-05-27", name: "Idul Adha" },
+  { date: "2026-06-01", name: "Hari Lahir Pancasila" },
+  { date: "2026-06-16", name: "Tahun Baru Islam" },
+  { date: "2026-08-17", name: "Hari Kemerdekaan" },
+  { date: "2026-08-25", name: "Maulid Nabi Muhammad SAW" },
+  { date: "2026-12-24", name: "Cuti Bersama Hari Raya Natal" },
+  { date: "2026-12-25", name: "Hari Raya Natal" },
+  { date: "2026-12-31", name: "Libur Bursa Akhir Tahun" },
+];
@@ -0,0 +1,69 @@
+/**
+ * Alert route authorization (server only)
+ * Every /api/alerts route requires `Authorization: Bearer <secret>`. The rule and
+ * event routes use ALERTS_API_SECRET, the cron trigger ALERTS_CRON_SECRET. A
+ * route whose secret is not configured refuses every request instead of
+ * running unprotected.
+ */
+
+import { createHash, timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AlertSecretName = "ALERTS_API_SECRET" | "ALERTS_CRON_SECRET";
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+// Compare digests so neither the content nor the length of the secret leaks through timing
+function matchesSecret(token: string, secret: string): boolean {
+  const digest = (value: string) =>
+    new Uint8Array(createHash("sha256").update(value).digest());
+  return timingSafeEqual(digest(token), digest(secret));
+}
+
+/**
+ * Check the bearer secret of an alert route request
+ * @param secretName - Secret the route requires; the route is refused while it is unset
+ * @param alsoAccepted - Other secrets accepted when they are configured
+ * @returns The error response to send, or null when the request may proceed
+ */
+export function authorizeAlertRequest(
+  request: Request,
+  secretName: AlertSecretName,
+  alsoAccepted: AlertSecretName[] = [],
+): NextResponse | null {
+  if (!process.env[secretName]) {
+    console.error(
+      `[Alerts] ${secretName} is not configured, refusing ${new URL(request.url).pathname}`,
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Alerts are disabled: ${secretName} is not configured`,
+      },
+      { status: 503 },
+    );
+  }
+
+  const token =
+    request.headers
+      .get("authorization")
+      ?.match(/^Bearer\s+(.+)$/i)?.[1]
+      ?.trim() || "";
+  const secrets = [secretName, ...alsoAccepted]
+    .map((name) => process.env[name])
+    .filter((secret): secret is string => !!secret);
+
+  if (!token || !secrets.some((secret) => matchesSecret(token, secret))) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+  return null;
+}
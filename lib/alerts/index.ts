@@ -0,0 +1,8 @@
+/**
+ * Alert module barrel exports (client-safe)
+ * The store, notifiers and scheduler touch the file system and are imported
+ * directly by the /api/alerts route handlers.
+ */
+
+export * from "./types";
+export * from "./rules";
@@ -0,0 +1,94 @@
+/**
+ * Webhook destination checks
+ * Webhooks are POSTed from the server, so their host must not point back into
+ * the server's own network. Pure functions, safe to import on the client.
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Name suffixes that only resolve inside a private network */
+const INTERNAL_HOST_SUFFIXES = [
+  ".localhost",
+  ".local",
+  ".internal",
+  ".lan",
+  ".home.arpa",
+];
+
+// ============================================================================
+// Addresses
+// ============================================================================
+
+function parseIPv4(address: string): number[] | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+
+  const octets = match.slice(1).map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  if (a === 0 || a === 10 || a === 127) return false; // this network, private, loopback
+  if (a === 100 && b >= 64 && b <= 127) return false; // carrier-grade NAT
+  if (a === 169 && b === 254) return false; // link-local (cloud metadata)
+  if (a === 172 && b >= 16 && b <= 31) return false; // private
+  if (a === 192 && b === 168) return false; // private
+  if (a === 192 && b === 0 && c === 0) return false; // IETF protocol assignments
+  if (a === 198 && (b === 18 || b === 19)) return false; // benchmarking
+  return a < 224; // multicast and reserved
+}
+
+function isPublicIPv6(address: string): boolean {
+  // Unspecified, loopback and IPv4-mapped / -compatible addresses all start with "::"
+  if (address.startsWith("::")) return false;
+
+  const firstGroup = parseInt(address.split(":")[0] || "0", 16);
+  if ((firstGroup & 0xfe00) === 0xfc00) return false; // unique local fc00::/7
+  if ((firstGroup & 0xffc0) === 0xfe80) return false; // link-local fe80::/10
+  if ((firstGroup & 0xffc0) === 0xfec0) return false; // site-local fec0::/10
+  return (firstGroup & 0xff00) !== 0xff00; // multicast ff00::/8
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ * Loopback, private, link-local, multicast and reserved ranges are not.
+ * @param address - IPv4 or IPv6 address, brackets allowed
+ */
+export function isPublicAddress(address: string): boolean {
+  const normalized = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const ipv4 = parseIPv4(normalized);
+  if (ipv4) return isPublicIPv4(ipv4);
+  if (normalized.includes(":")) return isPublicIPv6(normalized);
+  return false;
+}
+
+// ============================================================================
+// Hosts
+// ============================================================================
+
+/**
+ * Why a webhook host may not be called, or null when it may
+ * Only judges the host as written; names are resolved again before delivery.
+ * @param hostname - `URL.hostname`, so IPv4 shorthands are already normalized
+ */
+export function getBlockedHostReason(hostname: string): string | null {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+
+  if (parseIPv4(host) || host.startsWith("[")) {
+    return isPublicAddress(host)
+      ? null
+      : "Webhook URL must not point to a private or loopback address";
+  }
+  if (
+    host === "localhost" ||
+    INTERNAL_HOST_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  ) {
+    return "Webhook URL must not point to a local host";
+  }
+  if (!host.includes(".")) {
+    return "Webhook URL must use a fully qualified host name";
+  }
+  return null;
+}
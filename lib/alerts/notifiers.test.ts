@@ -0,0 +1,126 @@
+import type { LookupAddress } from "dns";
+import type { AddressInfo } from "net";
+import type { AlertEvent } from "./types";
+
+import { createServer, type Server } from "http";
+
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { createNotifier } from "./notifiers";
+
+// Every name resolves to whatever the test sets, like a rebinding DNS server would
+const resolved = vi.hoisted(() => ({ address: "127.0.0.1" }));
+
+vi.mock("dns", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("dns")>();
+
+  return {
+    ...dns,
+    lookup: (
+      _hostname: string,
+      _options: unknown,
+      callback: (error: null, addresses: LookupAddress[]) => void,
+    ) => callback(null, [{ address: resolved.address, family: 4 }]),
+  };
+});
+
+// Lets the test server on loopback stand in for a public host
+const publicAddresses = vi.hoisted(() => new Set<string>());
+
+vi.mock("./network", async (importOriginal) => {
+  const network = await importOriginal<typeof import("./network")>();
+
+  return {
+    ...network,
+    isPublicAddress: (address: string) =>
+      publicAddresses.has(address) || network.isPublicAddress(address),
+  };
+});
+
+const event = {
+  title: "BBCA crossed 10,000",
+  message: "Price 10,025",
+} as AlertEvent;
+
+let server: Server;
+let port: number;
+const received: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    let body = "";
+
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push(body);
+      response.writeHead(request.url === "/moved" ? 302 : 200).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  port = (server.address() as AddressInfo).port;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  received.length = 0;
+  publicAddresses.clear();
+  resolved.address = "127.0.0.1";
+});
+
+describe("webhook notifier", () => {
+  it("delivers to a host that resolves to a public address", async () => {
+    publicAddresses.add("127.0.0.1");
+
+    await createNotifier({
+      type: "webhook",
+      url: `http://hooks.example.com:${port}/alert`,
+    }).send(event);
+
+    expect(received).toHaveLength(1);
+    expect(JSON.parse(received[0]).text).toBe(
+      "BBCA crossed 10,000\nPrice 10,025",
+    );
+  });
+
+  it("refuses a host that resolves to a private address when connecting", async () => {
+    await expect(
+      createNotifier({
+        type: "webhook",
+        url: `http://hooks.example.com:${port}/alert`,
+      }).send(event),
+    ).rejects.toThrow(
+      "Webhook host hooks.example.com resolves to a private address",
+    );
+    expect(received).toHaveLength(0);
+  });
+
+  it("refuses private address literals without resolving them", async () => {
+    await expect(
+      createNotifier({
+        type: "webhook",
+        url: `http://127.0.0.1:${port}/alert`,
+      }).send(event),
+    ).rejects.toThrow("must not point to a private or loopback address");
+    expect(received).toHaveLength(0);
+  });
+
+  it("treats a redirect as a failed delivery", async () => {
+    publicAddresses.add("127.0.0.1");
+
+    await expect(
+      createNotifier({
+        type: "webhook",
+        url: `http://hooks.example.com:${port}/moved`,
+      }).send(event),
+    ).rejects.toThrow("Webhook responded with 302");
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Alert notifiers (server only)
+ * A notifier delivers one triggered alert to a channel. New channels register
+ * a factory under their config `type`; rules then opt in per notifier.
+ */
+
+import type { LookupFunction } from "net";
+import type { AlertEvent, NotifierConfig, NotifierType } from "./types";
+
+import { lookup } from "dns";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+
+import { getBlockedHostReason, isPublicAddress } from "./network";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Notifier {
+  type: NotifierType;
+  /** Rejects when the alert could not be delivered */
+  send(event: AlertEvent): Promise<void>;
+}
+
+type NotifierFactory<T extends NotifierConfig = NotifierConfig> = (
+  config: T,
+) => Notifier;
+
+/** Callback of a lookup asked for one address instead of all of them */
+type SingleLookupCallback = (
+  error: NodeJS.ErrnoException | null,
+  address: string,
+  family: number,
+) => void;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// Built-in notifiers
+// ============================================================================
+
+/**
+ * In-app delivery
+ * The scheduler stores every event; the app polls /api/alerts/events for the
+ * ones delivered in-app, so there is nothing to send here.
+ */
+const createInAppNotifier: NotifierFactory = () => ({
+  type: "in_app",
+  async send() {},
+});
+
+/**
+ * DNS lookup for webhook connections that refuses private addresses
+ * Rules are validated when saved, but a public name can later resolve to a
+ * private address. The check runs on the resolution the socket connects to, so
+ * a name re-resolving to a private address after a separate check (DNS
+ * rebinding) cannot slip through.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+
+      return;
+    }
+    if (
+      addresses.length === 0 ||
+      addresses.some(({ address }) => !isPublicAddress(address))
+    ) {
+      callback(
+        new Error(`Webhook host ${hostname} resolves to a private address`),
+        [],
+      );
+
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      // Without autoSelectFamily, net asks for a single address
+      const single = callback as unknown as SingleLookupCallback;
+
+      single(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POST a JSON body over a connection that only reaches public addresses
+ * Redirects are not followed (http.request never does), they could lead to a
+ * private address.
+ * @returns Status of the response; the body is discarded
+ */
+function postWebhook(
+  url: URL,
+  body: string,
+): Promise<{ status: number; statusText: string }> {
+  const blockedReason = getBlockedHostReason(url.hostname);
+
+  if (blockedReason) return Promise.reject(new Error(blockedReason));
+
+  const send = url.protocol === "https:" ? httpsRequest : httpRequest;
+
+  return new Promise((resolve, reject) => {
+    const request = send(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+        },
+        lookup: lookupPublicAddress,
+        // A fresh connection per delivery, so every send resolves and checks the host again
+        agent: false,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      },
+      (response) => {
+        response.resume();
+        resolve({
+          status: response.statusCode ?? 0,
+          statusText: response.statusMessage ?? "",
+        });
+      },
+    );
+
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+/**
+ * POSTs the event as JSON; `text` makes the payload readable in Slack/Discord-style webhooks
+ * Any status outside 2xx, redirects included, counts as a failed delivery.
+ */
+const createWebhookNotifier: NotifierFactory<
+  Extract<NotifierConfig, { type: "webhook" }>
+> = (config) => ({
+  type: "webhook",
+  async send(event) {
+    const { status, statusText } = await postWebhook(
+      new URL(config.url),
+      JSON.stringify({ text: `${event.title}\n${event.message}`, event }),
+    );
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with ${status} ${statusText}`);
+    }
+  },
+});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const factories = new Map<NotifierType, NotifierFactory>([
+  ["in_app", createInAppNotifier],
+  ["webhook", createWebhookNotifier as NotifierFactory],
+]);
+
+/**
+ * Register (or replace) the factory for a notifier type
+ */
+export function registerNotifier<T extends NotifierConfig>(
+  type: T["type"],
+  factory: NotifierFactory<T>,
+): void {
+  factories.set(type, factory as NotifierFactory);
+}
+
+/**
+ * Build the notifier for a rule's notifier config
+ * @throws Error when no factory is registered for the type
+ */
+export function createNotifier(config: NotifierConfig): Notifier {
+  const factory = factories.get(config.type);
+
+  if (!factory) throw new Error(`No notifier registered for "${config.type}"`);
+
+  return factory(config);
+}
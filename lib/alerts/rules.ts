@@ -0,0 +1,190 @@
+/**
+ * Alert rule validation and labels
+ * Used by the rule routes to reject malformed input and by the alerts page
+ * to describe rules; safe to import on the client.
+ */
+
+import { ActionType, ShareholderBadge } from "@/components/bigplayer/types";
+import { formatCompactNumber } from "@/lib/utils/format";
+import { isValidSymbol } from "@/lib/watchlists/store";
+import { getBlockedHostReason } from "./network";
+import type { AlertCondition, AlertRuleInput, NotifierConfig } from "./types";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const ALERT_LIMITS = {
+  MAX_RULES: 100,
+  MAX_NAME_LENGTH: 80,
+  MAX_SYMBOLS: 200,
+};
+
+const BROKER_CODE_PATTERN = /^[A-Z0-9]{2}$/;
+
+const BADGE_LABELS: Record<ShareholderBadge, string> = {
+  [ShareholderBadge.PENGENDALI]: "controller",
+  [ShareholderBadge.DIREKTUR]: "director",
+};
+
+const ACTION_VERBS: Record<ActionType, string> = {
+  [ActionType.BUY]: "buys",
+  [ActionType.SELL]: "sells",
+  [ActionType.CROSS]: "crosses",
+  [ActionType.WARRANT_EXERCISE]: "exercises warrants",
+  [ActionType.MESOP_OPTION]: "exercises MESOP",
+  [ActionType.MSOP_OPTION]: "exercises MSOP",
+};
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function validateCondition(condition: AlertCondition): AlertCondition {
+  if (condition?.type === "broker_flow") {
+    const broker = String(condition.broker || "")
+      .trim()
+      .toUpperCase();
+    const symbol = String(condition.symbol || "")
+      .trim()
+      .toUpperCase();
+    if (!BROKER_CODE_PATTERN.test(broker))
+      throw new Error("Broker code must be two letters or digits");
+    if (!isValidSymbol(symbol))
+      throw new Error(`"${symbol}" is not a valid symbol`);
+    if (condition.side !== "buy" && condition.side !== "sell")
+      throw new Error("Side must be buy or sell");
+    if (!(Number(condition.minValue) > 0))
+      throw new Error("Minimum net value must be greater than zero");
+
+    return {
+      type: "broker_flow",
+      broker,
+      symbol,
+      side: condition.side,
+      minValue: Number(condition.minValue),
+    };
+  }
+
+  if (condition?.type === "big_player") {
+    const symbols = Array.from(
+      new Set(
+        (condition.symbols || []).map((symbol) => symbol.trim().toUpperCase()),
+      ),
+    );
+    const invalid = symbols.filter((symbol) => !isValidSymbol(symbol));
+    if (invalid.length > 0)
+      throw new Error(`Invalid symbols: ${invalid.join(", ")}`);
+    if (symbols.length > ALERT_LIMITS.MAX_SYMBOLS) {
+      throw new Error(
+        `A rule can watch at most ${ALERT_LIMITS.MAX_SYMBOLS} symbols`,
+      );
+    }
+
+    const badges = (condition.badges || []).filter((badge) =>
+      Object.values(ShareholderBadge).includes(badge),
+    );
+    const actionTypes = (condition.actionTypes || []).filter((action) =>
+      Object.values(ActionType).includes(action),
+    );
+    const minChangeValue =
+      condition.minChangeValue === null ||
+      condition.minChangeValue === undefined
+        ? null
+        : Number(condition.minChangeValue);
+    if (minChangeValue !== null && !(minChangeValue >= 0))
+      throw new Error("Minimum change must not be negative");
+
+    return {
+      type: "big_player",
+      symbols,
+      watchlistName: condition.watchlistName?.trim() || undefined,
+      badges,
+      actionTypes,
+      minChangeValue,
+    };
+  }
+
+  throw new Error("Unknown rule type");
+}
+
+function validateNotifiers(notifiers: NotifierConfig[]): NotifierConfig[] {
+  if (!Array.isArray(notifiers) || notifiers.length === 0) {
+    throw new Error("Pick at least one notifier");
+  }
+
+  return notifiers.map((notifier) => {
+    if (notifier?.type === "in_app") return { type: "in_app" };
+    if (notifier?.type === "webhook") {
+      let url: URL;
+      try {
+        url = new URL(notifier.url);
+      } catch {
+        throw new Error("Webhook URL is not valid");
+      }
+      if (url.protocol !== "https:" && url.protocol !== "http:") {
+        throw new Error("Webhook URL must use http or https");
+      }
+      const blockedReason = getBlockedHostReason(url.hostname);
+      if (blockedReason) throw new Error(blockedReason);
+      return { type: "webhook", url: url.toString() };
+    }
+    throw new Error("Unknown notifier type");
+  });
+}
+
+/**
+ * Normalize a rule coming from a client
+ * @throws Error with a user-facing message when the input is invalid
+ */
+export function validateAlertRuleInput(input: AlertRuleInput): AlertRuleInput {
+  const name = String(input?.name || "")
+    .trim()
+    .replace(/\s+/g, " ");
+  if (!name) throw new Error("Rule name is required");
+  if (name.length > ALERT_LIMITS.MAX_NAME_LENGTH) {
+    throw new Error(
+      `Rule name must not exceed ${ALERT_LIMITS.MAX_NAME_LENGTH} characters`,
+    );
+  }
+
+  return {
+    name,
+    enabled: input.enabled !== false,
+    condition: validateCondition(input.condition),
+    notifiers: validateNotifiers(input.notifiers),
+  };
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+/**
+ * One-line description of a condition, e.g. "AK net-buys ≥ 10B in BBRI"
+ */
+export function describeCondition(condition: AlertCondition): string {
+  if (condition.type === "broker_flow") {
+    const verb = condition.side === "buy" ? "net-buys" : "net-sells";
+    return `${condition.broker} ${verb} ≥ ${formatCompactNumber(condition.minValue)} in ${condition.symbol} on a day`;
+  }
+
+  const who =
+    condition.badges.length > 0
+      ? `A ${condition.badges.map((badge) => BADGE_LABELS[badge]).join(" or ")}`
+      : "A big player";
+  const action =
+    condition.actionTypes.length > 0
+      ? condition.actionTypes.map((action) => ACTION_VERBS[action]).join(" or ")
+      : "moves";
+  const where = condition.watchlistName
+    ? `watchlist "${condition.watchlistName}"`
+    : condition.symbols.length > 0
+      ? condition.symbols.join(", ")
+      : "any symbol";
+  const size = condition.minChangeValue
+    ? ` (≥ ${formatCompactNumber(condition.minChangeValue)} shares)`
+    : "";
+
+  return `${who} ${action} in ${where}${size}`;
+}
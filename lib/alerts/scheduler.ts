@@ -0,0 +1,290 @@
+/**
+ * Alert rule evaluation (server only)
+ * Evaluates every enabled rule against one trading day of /broker-action-calendar
+ * and /big-players data, delivers new hits through the rule's notifiers and
+ * records the run. Triggered by /api/alerts/run (e.g. from cron every evening).
+ */
+
+import {
+  ActionType,
+  type BigPlayerMovementRaw,
+} from "@/components/bigplayer/types";
+import { fetchBigPlayerMovement } from "@/lib/api/bigplayer";
+import { fetchBrokerCalendar } from "@/lib/api/broker";
+import { aggregateBigPlayerMovements } from "@/lib/utils/aggregation";
+import { buildBrokerCalendarHref } from "@/lib/utils/broker-scan";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { formatCompactNumber } from "@/lib/utils/format";
+import { getLatestTradingDay } from "@/lib/utils/trading-calendar";
+import { createNotifier } from "./notifiers";
+import { createAlertId, getAlertState, updateAlertState } from "./store";
+import type {
+  AlertEvent,
+  AlertMatch,
+  AlertRule,
+  AlertRun,
+  BigPlayerCondition,
+  BrokerFlowCondition,
+} from "./types";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/** Broker calendar requests in flight at once */
+const RULE_CONCURRENCY = 3;
+
+// ============================================================================
+// Evaluators
+// ============================================================================
+
+async function evaluateBrokerFlow(
+  condition: BrokerFlowCondition,
+  date: string,
+): Promise<AlertMatch[]> {
+  const calendar = await fetchBrokerCalendar({
+    symbol: condition.symbol,
+    from: date,
+    to: date,
+    brokerCodes: [condition.broker],
+  });
+
+  const day = calendar.data.find((entry) => entry.date === date);
+  const net = day?.brokers[condition.broker]?.value ?? 0;
+  const hit =
+    condition.side === "buy"
+      ? net >= condition.minValue
+      : -net >= condition.minValue;
+  if (!day || !hit) return [];
+
+  const verb = condition.side === "buy" ? "net-bought" : "net-sold";
+  return [
+    {
+      dedupeKey: `${condition.broker}|${condition.symbol}|${date}|${condition.side}`,
+      date,
+      symbol: condition.symbol,
+      title: `${condition.broker} ${verb} ${formatCompactNumber(Math.abs(net))} of ${condition.symbol}`,
+      message: `${condition.broker} ${verb} Rp ${formatCompactNumber(Math.abs(net))} of ${condition.symbol} on ${date} (threshold ${formatCompactNumber(condition.minValue)}).`,
+      href: buildBrokerCalendarHref(condition.symbol, {
+        brokers: [condition.broker],
+        from: date,
+        to: date,
+      }),
+    },
+  ];
+}
+
+function evaluateBigPlayer(
+  condition: BigPlayerCondition,
+  movements: BigPlayerMovementRaw[],
+  date: string,
+): AlertMatch[] {
+  const symbols = new Set(condition.symbols);
+  const matching = movements.filter(
+    (entry) =>
+      (symbols.size === 0 || symbols.has(entry.symbol.toUpperCase())) &&
+      (condition.badges.length === 0 ||
+        (entry.badges || []).some((badge) =>
+          condition.badges.includes(badge),
+        )) &&
+      (condition.actionTypes.length === 0 ||
+        condition.actionTypes.includes(entry.action_type)),
+  );
+
+  // One alert per holder, symbol, day and action, like the Big Player table rows
+  return aggregateBigPlayerMovements(matching)
+    .filter(
+      (group) =>
+        condition.minChangeValue === null ||
+        Math.abs(group.total_change_value) >= condition.minChangeValue,
+    )
+    .map((group) => {
+      const verb =
+        group.action_type === ActionType.BUY
+          ? "bought"
+          : group.action_type === ActionType.SELL
+            ? "sold"
+            : "moved";
+      const shares = formatCompactNumber(Math.abs(group.total_change_value));
+      return {
+        dedupeKey: group.key,
+        date,
+        symbol: group.symbol,
+        title: `${group.name} ${verb} ${shares} ${group.symbol} shares`,
+        message: `${group.name} ${verb} ${shares} shares of ${group.symbol} on ${group.date}; holding now ${group.current_holding_percentage}%.`,
+        href: `/bigplayer-movement/symbol?${new URLSearchParams({ symbol: group.symbol, from: date, to: date })}`,
+      };
+    });
+}
+
+// ============================================================================
+// Run
+// ============================================================================
+
+export interface RunAlertOptions {
+  /** Trading day to evaluate (YYYY-MM-DD); defaults to the latest trading day */
+  date?: string;
+  /** Only evaluate these rules (still only when enabled) */
+  ruleIds?: string[];
+}
+
+/** Runs scheduled or in progress, keyed by their options */
+const pendingRuns = new Map<string, Promise<AlertRun>>();
+/** Last scheduled run; a run with other options starts after it */
+let lastRun: Promise<unknown> = Promise.resolve();
+
+function getRunKey({ date, ruleIds }: RunAlertOptions): string {
+  return `${date}|${ruleIds ? Array.from(new Set(ruleIds)).sort().join(",") : "*"}`;
+}
+
+/**
+ * Evaluate the enabled rules and deliver new hits
+ * Overlapping calls with the same date and rules (e.g. cron firing while the same
+ * manual run is going) share one evaluation; calls with other options run after
+ * the ones already scheduled, one at a time.
+ */
+export function runAlertRules(
+  options: RunAlertOptions = {},
+): Promise<AlertRun> {
+  const resolved: RunAlertOptions = {
+    date: options.date || getLatestTradingDay(),
+    ruleIds: options.ruleIds,
+  };
+  const key = getRunKey(resolved);
+
+  const pending = pendingRuns.get(key);
+  if (pending) return pending;
+
+  // A failed run must not block the ones queued behind it
+  const run = lastRun
+    .catch(() => undefined)
+    .then(() => evaluateRules(resolved))
+    .finally(() => {
+      if (pendingRuns.get(key) === run) pendingRuns.delete(key);
+    });
+  pendingRuns.set(key, run);
+  lastRun = run;
+  return run;
+}
+
+async function evaluateRules({
+  date = getLatestTradingDay(),
+  ruleIds,
+}: RunAlertOptions): Promise<AlertRun> {
+  const startedAt = new Date().toISOString();
+  const state = await getAlertState();
+  const rules = state.rules.filter(
+    (rule) => rule.enabled && (!ruleIds || ruleIds.includes(rule.id)),
+  );
+  const errors: AlertRun["errors"] = [];
+
+  // Big Player rules share one fetch of the day's movements
+  let movements: Promise<BigPlayerMovementRaw[]> | null = null;
+  const getMovements = () => {
+    movements ??= fetchBigPlayerMovement({
+      dateStart: date,
+      dateEnd: date,
+      crawlType: "ALL",
+    }).then((response) => response.data.movement);
+    return movements;
+  };
+
+  const results = await mapWithConcurrency(
+    rules,
+    RULE_CONCURRENCY,
+    async (rule) => {
+      try {
+        const matches =
+          rule.condition.type === "broker_flow"
+            ? await evaluateBrokerFlow(rule.condition, date)
+            : evaluateBigPlayer(rule.condition, await getMovements(), date);
+        return { rule, matches };
+      } catch (error) {
+        errors.push({
+          ruleId: rule.id,
+          message: error instanceof Error ? error.message : "Evaluation failed",
+        });
+        return { rule, matches: [] as AlertMatch[] };
+      }
+    },
+  );
+
+  // Claim the de-duplication keys before delivering so a concurrent process cannot deliver twice
+  const fresh = await updateAlertState((current) => {
+    const claimed: Array<{ rule: AlertRule; match: AlertMatch }> = [];
+    results.forEach(({ rule, matches }) => {
+      matches.forEach((match) => {
+        const key = `${rule.id}|${match.dedupeKey}`;
+        if (current.firedKeys[key]) return;
+        current.firedKeys[key] = Date.now();
+        claimed.push({ rule, match });
+      });
+    });
+    return claimed;
+  });
+  const totalMatches = results.reduce(
+    (sum, { matches }) => sum + matches.length,
+    0,
+  );
+
+  const events = await Promise.all(
+    fresh.map(({ rule, match }) => deliver(rule, match)),
+  );
+
+  const run: AlertRun = {
+    id: createAlertId("run"),
+    date,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    rulesEvaluated: rules.length,
+    triggered: events.length,
+    duplicates: totalMatches - fresh.length,
+    errors,
+  };
+
+  await updateAlertState((current) => {
+    current.events = [...[...events].reverse(), ...current.events];
+    current.runs = [run, ...current.runs];
+
+    // Release keys nobody received so the next run retries them
+    events
+      .filter((event) => event.deliveries.every((delivery) => !delivery.ok))
+      .forEach(
+        (event) =>
+          delete current.firedKeys[`${event.ruleId}|${event.dedupeKey}`],
+      );
+  });
+
+  return run;
+}
+
+async function deliver(
+  rule: AlertRule,
+  match: AlertMatch,
+): Promise<AlertEvent> {
+  const event: AlertEvent = {
+    ...match,
+    id: createAlertId("evt"),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    triggeredAt: new Date().toISOString(),
+    deliveries: [],
+  };
+
+  event.deliveries = await Promise.all(
+    rule.notifiers.map(async (config) => {
+      try {
+        await createNotifier(config).send(event);
+        return { notifier: config.type, ok: true };
+      } catch (error) {
+        return {
+          notifier: config.type,
+          ok: false,
+          error: error instanceof Error ? error.message : "Delivery failed",
+        };
+      }
+    }),
+  );
+
+  return event;
+}
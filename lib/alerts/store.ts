@@ -0,0 +1,123 @@
+/**
+ * Alert persistence (server only)
+ * Rules, delivered events, run history and de-duplication keys live in one
+ * JSON file under ALERTS_DATA_DIR (default: .data/ in the working directory).
+ * Writes are serialized within the process and replace the file atomically.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+import type { AlertEvent, AlertRule, AlertRun } from "./types";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AlertState {
+  rules: AlertRule[];
+  /** Newest first */
+  events: AlertEvent[];
+  /** Newest first */
+  runs: AlertRun[];
+  /** `${ruleId}|${dedupeKey}` -> epoch ms of the first delivery */
+  firedKeys: Record<string, number>;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const ALERT_STORE_LIMITS = {
+  MAX_EVENTS: 500,
+  MAX_RUNS: 100,
+  /** De-duplication keys older than this are forgotten */
+  FIRED_KEY_TTL_MS: 60 * 24 * 60 * 60 * 1000,
+};
+
+const DATA_DIR =
+  process.env.ALERTS_DATA_DIR || path.join(process.cwd(), ".data");
+const STATE_FILE = path.join(DATA_DIR, "alerts.json");
+
+const EMPTY_STATE: AlertState = {
+  rules: [],
+  events: [],
+  runs: [],
+  firedKeys: {},
+};
+
+// ============================================================================
+// State
+// ============================================================================
+
+// Every read-modify-write goes through this chain so concurrent requests do not lose updates
+let queue: Promise<unknown> = Promise.resolve();
+
+async function readState(): Promise<AlertState> {
+  try {
+    const stored = JSON.parse(
+      await readFile(STATE_FILE, "utf8"),
+    ) as Partial<AlertState>;
+    return {
+      rules: Array.isArray(stored.rules) ? stored.rules : [],
+      events: Array.isArray(stored.events) ? stored.events : [],
+      runs: Array.isArray(stored.runs) ? stored.runs : [],
+      firedKeys:
+        stored.firedKeys && typeof stored.firedKeys === "object"
+          ? stored.firedKeys
+          : {},
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT")
+      return { ...EMPTY_STATE };
+    throw error;
+  }
+}
+
+async function writeState(state: AlertState): Promise<void> {
+  const cutoff = Date.now() - ALERT_STORE_LIMITS.FIRED_KEY_TTL_MS;
+  const trimmed: AlertState = {
+    rules: state.rules,
+    events: state.events.slice(0, ALERT_STORE_LIMITS.MAX_EVENTS),
+    runs: state.runs.slice(0, ALERT_STORE_LIMITS.MAX_RUNS),
+    firedKeys: Object.fromEntries(
+      Object.entries(state.firedKeys).filter(
+        ([, firedAt]) => firedAt >= cutoff,
+      ),
+    ),
+  };
+
+  await mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${STATE_FILE}.${process.pid}.tmp`;
+  await writeFile(tempFile, JSON.stringify(trimmed, null, 2), "utf8");
+  await rename(tempFile, STATE_FILE);
+}
+
+/**
+ * Current alert state
+ */
+export function getAlertState(): Promise<AlertState> {
+  const next = queue.then(readState);
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Read, change and persist the alert state in one step
+ * @param mutate - Returns the value handed back to the caller; may modify `state` in place
+ */
+export function updateAlertState<T>(
+  mutate: (state: AlertState) => T | Promise<T>,
+): Promise<T> {
+  const next = queue.then(async () => {
+    const state = await readState();
+    const result = await mutate(state);
+    await writeState(state);
+    return result;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+export function createAlertId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
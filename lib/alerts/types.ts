@@ -0,0 +1,111 @@
+/**
+ * Alert rule types
+ * Shared by the scheduler (server) and the alerts page (client).
+ */
+
+import type {
+  ActionType,
+  ShareholderBadge,
+} from "@/components/bigplayer/types";
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * A broker's net value in one symbol on a single trading day
+ * e.g. "AK net-buys more than 10B in BBRI"
+ */
+export interface BrokerFlowCondition {
+  type: "broker_flow";
+  broker: string;
+  symbol: string;
+  side: "buy" | "sell";
+  /** Minimum absolute net value (Rp) */
+  minValue: number;
+}
+
+/**
+ * Big Player movements on a single trading day
+ * e.g. "a PENGENDALI buys in any watchlist symbol"
+ */
+export interface BigPlayerCondition {
+  type: "big_player";
+  /** Symbols to watch; empty means every symbol */
+  symbols: string[];
+  /** Watchlist the symbols were copied from, for display only */
+  watchlistName?: string;
+  /** Holder badges; empty means any holder */
+  badges: ShareholderBadge[];
+  /** Action types; empty means any action */
+  actionTypes: ActionType[];
+  /** Minimum absolute change (shares) of the holder's daily movement */
+  minChangeValue: number | null;
+}
+
+export type AlertCondition = BrokerFlowCondition | BigPlayerCondition;
+
+export type NotifierConfig =
+  | { type: "in_app" }
+  | { type: "webhook"; url: string };
+
+export type NotifierType = NotifierConfig["type"];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  notifiers: NotifierConfig[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields a client sends to create or update a rule */
+export type AlertRuleInput = Pick<
+  AlertRule,
+  "name" | "condition" | "notifiers"
+> & { enabled?: boolean };
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** One condition hit, before delivery */
+export interface AlertMatch {
+  /** Stable identity of the hit; a key is delivered at most once per rule */
+  dedupeKey: string;
+  date: string;
+  symbol: string;
+  title: string;
+  message: string;
+  /** App path showing the underlying data */
+  href: string;
+}
+
+export interface AlertDelivery {
+  notifier: NotifierType;
+  ok: boolean;
+  error?: string;
+}
+
+export interface AlertEvent extends AlertMatch {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  triggeredAt: string;
+  deliveries: AlertDelivery[];
+}
+
+export interface AlertRun {
+  id: string;
+  /** Trading day the rules were evaluated against */
+  date: string;
+  startedAt: string;
+  finishedAt: string;
+  rulesEvaluated: number;
+  triggered: number;
+  /** Matches skipped because they were delivered before */
+  duplicates: number;
+  errors: Array<{ ruleId: string; message: string }>;
+}
@@ -0,0 +1,148 @@
+import type {
+  AlertEvent,
+  AlertRule,
+  AlertRuleInput,
+  AlertRun,
+} from "@/lib/alerts";
+
+/**
+ * Alert rules API
+ * Talks to this app's /api/alerts route handlers (not the IDX backend). They
+ * require the server's ALERTS_API_SECRET, which the alerts page asks for once
+ * and keeps in this browser's localStorage.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AlertHistory {
+  /** Newest first */
+  events: AlertEvent[];
+  /** Most recent evaluation runs, newest first */
+  runs: AlertRun[];
+}
+
+interface AlertApiResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Error thrown when an alert route answers with a non-2xx status
+ * 401: missing or wrong key; 503: alerts are not configured on the server.
+ */
+export class AlertApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AlertApiError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const API_KEY_STORAGE_KEY = "alerts:api-key";
+
+// ============================================================================
+// API Key
+// ============================================================================
+
+/**
+ * Key sent to the alert routes, or null when none was entered in this browser
+ */
+export function getAlertsApiKey(): string | null {
+  if (typeof window === "undefined") return null;
+  return localStorage.getItem(API_KEY_STORAGE_KEY) || null;
+}
+
+/**
+ * Remember the key for the alert routes; null forgets it
+ */
+export function setAlertsApiKey(key: string | null): void {
+  if (key) localStorage.setItem(API_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(API_KEY_STORAGE_KEY);
+}
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+async function alertRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  const headers: Record<string, string> = {};
+  const apiKey = getAlertsApiKey();
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+  if (init?.body) headers["Content-Type"] = "application/json";
+
+  const response = await fetch(`/api/alerts${path}`, { ...init, headers });
+  const payload = (await response
+    .json()
+    .catch(() => null)) as AlertApiResponse<T> | null;
+
+  if (!response.ok || !payload?.success) {
+    throw new AlertApiError(
+      payload?.error ||
+        `Alert request failed: ${response.status} ${response.statusText}`,
+      response.status,
+    );
+  }
+  return payload.data as T;
+}
+
+export function fetchAlertRules(): Promise<AlertRule[]> {
+  return alertRequest<AlertRule[]>("/rules");
+}
+
+export function createAlertRule(input: AlertRuleInput): Promise<AlertRule> {
+  return alertRequest<AlertRule>("/rules", {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+}
+
+export function setAlertRuleEnabled(
+  id: string,
+  enabled: boolean,
+): Promise<AlertRule> {
+  return alertRequest<AlertRule>(`/rules/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ enabled }),
+  });
+}
+
+export function deleteAlertRule(id: string): Promise<void> {
+  return alertRequest<void>(`/rules/${encodeURIComponent(id)}`, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Triggered alerts and recent runs
+ * @param params.since - Only events triggered after this ISO timestamp
+ * @param params.channel - Only events delivered through this notifier
+ */
+export function fetchAlertHistory(
+  params: { since?: string; channel?: string } = {},
+): Promise<AlertHistory> {
+  const query = new URLSearchParams();
+  if (params.since) query.set("since", params.since);
+  if (params.channel) query.set("channel", params.channel);
+  return alertRequest<AlertHistory>(
+    `/events${query.size > 0 ? `?${query}` : ""}`,
+  );
+}
+
+/**
+ * Evaluate the rules now instead of waiting for the scheduled run
+ * @param date - Trading day (YYYY-MM-DD); defaults to the latest trading day
+ */
+export function runAlertRulesNow(date?: string): Promise<AlertRun> {
+  return alertRequest<AlertRun>(`/run${date ? `?date=${date}` : ""}`, {
+    method: "POST",
+  });
+}
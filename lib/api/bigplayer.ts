@@ -1,10 +1,13 @@
-import { BigPlayerResponse } from "@/components/bigplayer/types";
+import {
+  BigPlayerMovementAggregated,
+  BigPlayerMovementRaw,
+  BigPlayerResponse,
+} from "@/components/bigplayer/types";
+import { apiRequest } from "@/lib/api/client";
+import type { RequestControl } from "@/lib/api/policy";
+import { s } from "@/lib/api/schema";
 import { getClientIPSync } from "@/lib/utils/client-ip";
 
-function generateNonce(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
-}
-
 export interface BigPlayerParams {
   dateStart: string;
   dateEnd: string;
@@ -12,52 +15,165 @@ export interface BigPlayerParams {
   page?: number;
 }
 
+const holdingDataSchema = s.object({
+  value: s.string(),
+  percentage: s.string(),
+});
+
+const bigPlayerResponseSchema = s.object({
+  data: s.object({
+    is_more: s.boolean(),
+    movement: s.array(
+      s.object({
+        name: s.string(),
+        symbol: s.string(),
+        date: s.string(),
+        previous: holdingDataSchema,
+        current: holdingDataSchema,
+        changes: holdingDataSchema,
+        nationality: s.string(),
+        action_type: s.string(),
+        data_source: s.object({ label: s.string(), type: s.string() }),
+        price_formatted: s.string(),
+        badges: s.optional(s.array(s.string())),
+      })
+    ),
+  }),
+});
+
 /**
  * Fetch Big Player Movement data from IDX API
  * @param params - Query parameters
+ * @param control - Optional timeout, retry and cancellation overrides
  * @returns Promise with Big Player data
  */
 export async function fetchBigPlayerMovement(
-  params: BigPlayerParams
+  params: BigPlayerParams,
+  control?: RequestControl
 ): Promise<BigPlayerResponse> {
-  const baseUrl = 'https://api-idx.gsphomelab.org/api/v1';
-  const endpoint = '/big-players';
+  const crawlType = params.crawlType || "ALL";
+
+  try {
+    return await apiRequest<BigPlayerResponse>("/big-players", {
+      label: "Big Player Movement",
+      schema: bigPlayerResponseSchema,
+      cached: true,
+      ...control,
+      query: {
+        date_start: params.dateStart,
+        date_end: params.dateEnd,
+        crawl_type: crawlType,
+        page: crawlType === "PARTIAL" ? params.page : undefined,
+      },
+    });
+  } catch (error) {
+    console.error("Failed to fetch Big Player Movement:", error);
+    throw error;
+  }
+}
 
-  const queryParams = new URLSearchParams({
-    date_start: params.dateStart,
-    date_end: params.dateEnd,
-    crawl_type: params.crawlType || "ALL",
+/**
+ * Result of fetchAllBigPlayerMovement
+ * `truncated` is set when the page cap was reached while the API still reported more pages.
+ */
+export interface BigPlayerMovementPages {
+  movements: BigPlayerMovementRaw[];
+  pages: number;
+  truncated: boolean;
+}
+
+/**
+ * Fetch every movement in a date range
+ * PARTIAL ranges are paged through until `is_more` is false or `maxPages` is reached.
+ * @param dateStart - Range start (YYYY-MM-DD)
+ * @param dateEnd - Range end (YYYY-MM-DD)
+ * @param options - Page cap and cancellation
+ * @returns Movements of all fetched pages, the page count and whether the cap cut the range short
+ */
+export async function fetchAllBigPlayerMovement(
+  dateStart: string,
+  dateEnd: string,
+  options: { maxPages?: number; signal?: AbortSignal } = {}
+): Promise<BigPlayerMovementPages> {
+  const { maxPages = 10, signal } = options;
+  const crawlType = getCrawlTypeForDateRange(dateStart, dateEnd);
+  const movements: BigPlayerMovementRaw[] = [];
+  let pages = 0;
+  let isMore = false;
+
+  for (let page = 1; page <= maxPages; page++) {
+    const response = await fetchBigPlayerMovement(
+      { dateStart, dateEnd, crawlType, page: crawlType === "PARTIAL" ? page : undefined },
+      { signal }
+    );
+    movements.push(...response.data.movement);
+    pages = page;
+    isMore = crawlType === "PARTIAL" && response.data.is_more;
+    if (!isMore) break;
+  }
+
+  return { movements, pages, truncated: isMore };
+}
+
+/**
+ * Events of the /api/big-players/aggregate stream (one JSON object per line)
+ * - groups: new or updated aggregated groups, replacing earlier ones with the same key
+ * - progress: a page was fetched
+ * - done: every page was fetched; `truncated` when the page cap was hit
+ * - error: the stream stopped early
+ */
+export type BigPlayerStreamEvent =
+  | { type: "groups"; groups: BigPlayerMovementAggregated[] }
+  | { type: "progress"; page: number; movements: number; groups: number; isMore: boolean }
+  | { type: "done"; pages: number; movements: number; groups: number; truncated: boolean }
+  | { type: "error"; message: string };
+
+/**
+ * Aggregate a long range server-side and stream the groups back
+ * Used for PARTIAL ranges so filters and sorting see the complete dataset.
+ * @param dateStart - Range start (YYYY-MM-DD)
+ * @param dateEnd - Range end (YYYY-MM-DD)
+ * @param onEvent - Called for every streamed event, in order
+ * @param signal - Cancels the stream
+ * @returns The final "done" event
+ */
+export async function streamBigPlayerAggregation(
+  dateStart: string,
+  dateEnd: string,
+  onEvent: (event: BigPlayerStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<Extract<BigPlayerStreamEvent, { type: "done" }>> {
+  const query = new URLSearchParams({ date_start: dateStart, date_end: dateEnd });
+  const clientIp = getClientIPSync();
+  const response = await fetch(`/api/big-players/aggregate?${query}`, {
+    signal,
+    headers: clientIp ? { "X-Ip-Client": clientIp } : undefined,
   });
 
-  if (params.crawlType === "PARTIAL" && params.page) {
-    queryParams.append("page", params.page.toString());
+  if (!response.ok || !response.body) {
+    throw new Error(`Big Player aggregation failed: ${response.status} ${response.statusText}`);
   }
 
-  const url = `${baseUrl}${endpoint}?${queryParams.toString()}`;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
 
-  // Get client IP for header
-  const clientIP = getClientIPSync() || 'unknown';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
 
-  try {
-    const response = await fetch(url, {
-      method: "GET",
-      headers: {
-        "X-Nonce": generateNonce(),
-        "X-Ip-Client": clientIP,
-      },
-    });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
 
-    if (!response.ok) {
-      throw new Error(
-        `Big Player Movement API Error: ${response.status} ${response.statusText}`
-      );
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as BigPlayerStreamEvent;
+      if (event.type === "error") throw new Error(event.message);
+      onEvent(event);
+      if (event.type === "done") return event;
     }
 
-    const data: BigPlayerResponse = await response.json();
-    return data;
-  } catch (error) {
-    console.error("Failed to fetch Big Player Movement:", error);
-    throw error;
+    if (done) throw new Error("Big Player aggregation ended unexpectedly");
   }
 }
 
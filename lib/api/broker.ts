@@ -0,0 +1,409 @@
+import type { Broker } from "@/data/brokers";
+import { apiRequest } from "@/lib/api/client";
+import type { RequestControl } from "@/lib/api/policy";
+import { s } from "@/lib/api/schema";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FormattedNumber {
+  raw: number;
+  formatted: string;
+}
+
+export interface BrokerCalendarParams {
+  symbol: string;
+  from: string;
+  to: string;
+  /** Broker codes to analyze; leave empty for the top buy & sell brokers */
+  brokerCodes?: string[];
+}
+
+export interface BrokerCalendarBrokerEntry {
+  value: number;
+  value_formatted: string;
+  volume: number;
+  volume_formatted: string;
+}
+
+export interface BrokerCalendarDay {
+  date: string;
+  close_price: number;
+  close_price_formatted: string;
+  total_value: number;
+  total_value_formatted: string;
+  total_volume: number;
+  total_volume_formatted: string;
+  signal: {
+    trend: string;
+    strength: string;
+    note: string;
+  };
+  brokers: Record<string, BrokerCalendarBrokerEntry>;
+}
+
+export interface EmittenCalendarResponse {
+  symbol: string;
+  brokers: string[];
+  range: {
+    from: string;
+    to: string;
+  };
+  summary: {
+    total_buy_value: number;
+    total_buy_value_formatted: string;
+    total_buy_volume: number;
+    total_buy_volume_formatted: string;
+    total_sell_value: number;
+    total_sell_value_formatted: string;
+    total_sell_volume: number;
+    total_sell_volume_formatted: string;
+    total_value: number;
+    total_value_formatted: string;
+    total_volume: number;
+    total_volume_formatted: string;
+    trend: string;
+    strength: string;
+    dominant_brokers: string[];
+    distribution_brokers: string[];
+    price_movement: {
+      from: number;
+      to: number;
+      change: number;
+      change_pct: number;
+    };
+    note: string;
+  };
+  data: BrokerCalendarDay[];
+}
+
+export interface BrokerSummaryParams {
+  symbol: string;
+  from: string;
+  to: string;
+}
+
+export interface BrokerSummaryBuyEntry {
+  broker_code: string;
+  buy_volume: number;
+  buy_value: number;
+  avg_price: number;
+  type?: string;
+  date?: string;
+  stock_code?: string;
+}
+
+export interface BrokerSummarySellEntry {
+  broker_code: string;
+  sell_volume: number;
+  sell_value: number;
+  avg_price: number;
+  type?: string;
+  date?: string;
+  stock_code?: string;
+}
+
+export interface BrokerSummaryResponse {
+  symbol: string;
+  period?: {
+    from: string;
+    to: string;
+  };
+  brokers_buy: BrokerSummaryBuyEntry[];
+  brokers_sell: BrokerSummarySellEntry[];
+}
+
+export interface BrokerActivityParams {
+  broker: string;
+  from: string;
+  to: string;
+}
+
+export interface StockItem {
+  symbol: string;
+  side: "BUY" | "SELL";
+  avg_price: FormattedNumber;
+  volume: FormattedNumber;
+  value: FormattedNumber;
+}
+
+export interface BrokerActivityResponse {
+  meta: {
+    broker_code: string;
+    broker_name: string;
+    date: string;
+    limit: number;
+    transaction_type: string;
+    market_board: string;
+    currency: string;
+  };
+  formatting: {
+    price: string;
+    value: string;
+    volume: string;
+  };
+  market_activity: {
+    total_volume: FormattedNumber;
+    total_value: FormattedNumber;
+    average_price: FormattedNumber;
+    accumulation_distribution: {
+      label: string;
+      net_value: FormattedNumber;
+      net_volume: FormattedNumber;
+      strength_percent: number;
+    };
+    buyer_count: number;
+    seller_count: number;
+  };
+  accdist_scope: {
+    top_1: { label: string; net_value: FormattedNumber };
+    top_3: { label: string; net_value: FormattedNumber };
+    top_5: { label: string; net_value: FormattedNumber };
+    top_10: { label: string; net_value: FormattedNumber };
+  };
+  stocks: {
+    sorting: {
+      key: string;
+      order: string;
+      description: string;
+    };
+    items: StockItem[];
+  };
+  derived_metrics: {
+    net_exposure_ratio: number;
+    distribution_dominance: { score: number; label: string };
+    focus_index: { value: number; label: string };
+    rotation_indicator: {
+      buy_stock_count: number;
+      sell_stock_count: number;
+      type: string;
+    };
+  };
+  executive_summary: {
+    market_bias: string;
+    broker_behavior: string;
+    conviction_level: string;
+    risk_mode: string;
+    recommended_action: string;
+  };
+}
+
+export interface BrokerListResponse {
+  message: string;
+  data: Broker[];
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const formattedNumberSchema = s.object({
+  raw: s.number(),
+  formatted: s.string(),
+});
+
+const brokerCalendarSchema = s.object({
+  symbol: s.string(),
+  brokers: s.optional(s.array(s.string())),
+  summary: s.object({
+    total_buy_value: s.optional(s.number()),
+    total_sell_value: s.optional(s.number()),
+    total_value: s.number(),
+    trend: s.string(),
+    note: s.optional(s.string()),
+    dominant_brokers: s.optional(s.array(s.string())),
+    distribution_brokers: s.optional(s.array(s.string())),
+    price_movement: s.optional(
+      s.object({
+        from: s.number(),
+        to: s.number(),
+        change: s.number(),
+        change_pct: s.number(),
+      }),
+    ),
+  }),
+  data: s.array(
+    s.object({
+      date: s.string(),
+      close_price: s.number(),
+      total_value: s.number(),
+      total_volume: s.number(),
+      signal: s.optional(
+        s.object({
+          trend: s.string(),
+          strength: s.string(),
+          note: s.string(),
+        }),
+      ),
+      brokers: s.record(
+        s.object({
+          value: s.number(),
+          volume: s.number(),
+        }),
+      ),
+    }),
+  ),
+});
+
+const brokerSummarySchema = s.object({
+  brokers_buy: s.array(
+    s.object({
+      broker_code: s.string(),
+      buy_volume: s.number(),
+      buy_value: s.number(),
+      avg_price: s.number(),
+    }),
+  ),
+  brokers_sell: s.array(
+    s.object({
+      broker_code: s.string(),
+      sell_volume: s.number(),
+      sell_value: s.number(),
+      avg_price: s.number(),
+    }),
+  ),
+});
+
+const brokerActivitySchema = s.object({
+  meta: s.object({
+    broker_code: s.string(),
+    broker_name: s.string(),
+  }),
+  market_activity: s.object({
+    total_volume: formattedNumberSchema,
+    total_value: formattedNumberSchema,
+    average_price: formattedNumberSchema,
+    accumulation_distribution: s.object({
+      label: s.string(),
+      net_value: formattedNumberSchema,
+      net_volume: formattedNumberSchema,
+      strength_percent: s.number(),
+    }),
+    buyer_count: s.number(),
+    seller_count: s.number(),
+  }),
+  stocks: s.object({
+    items: s.array(
+      s.object({
+        symbol: s.string(),
+        side: s.string(),
+        avg_price: formattedNumberSchema,
+        volume: formattedNumberSchema,
+        value: formattedNumberSchema,
+      }),
+    ),
+  }),
+  derived_metrics: s.object({
+    net_exposure_ratio: s.number(),
+    rotation_indicator: s.object({
+      buy_stock_count: s.number(),
+      sell_stock_count: s.number(),
+      type: s.string(),
+    }),
+  }),
+  executive_summary: s.object({
+    market_bias: s.string(),
+    recommended_action: s.string(),
+  }),
+});
+
+const brokerListSchema = s.object({
+  data: s.array(
+    s.object({
+      code: s.string(),
+      name: s.string(),
+      group: s.string(),
+    }),
+  ),
+});
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Fetch daily broker actions for a symbol (broker calendar)
+ * @param params - Symbol, date range and optional broker codes
+ * @param control - Optional timeout, retry and cancellation overrides
+ * @returns Calendar data with summary
+ */
+export async function fetchBrokerCalendar(
+  params: BrokerCalendarParams,
+  control?: RequestControl,
+): Promise<EmittenCalendarResponse> {
+  return apiRequest<EmittenCalendarResponse>("/broker-action-calendar", {
+    label: "Calendar",
+    schema: brokerCalendarSchema,
+    cached: true,
+    ...control,
+    query: {
+      symbol: params.symbol,
+      from: params.from,
+      to: params.to,
+      broker_code: params.brokerCodes,
+    },
+  });
+}
+
+/**
+ * Fetch aggregated buyers and sellers of a symbol over a date range
+ * @param params - Symbol and date range
+ * @param control - Optional timeout, retry and cancellation overrides
+ * @returns Raw broker summary payload
+ */
+export async function fetchBrokerSummary(
+  params: BrokerSummaryParams,
+  control?: RequestControl,
+): Promise<BrokerSummaryResponse> {
+  return apiRequest<BrokerSummaryResponse>("/emiten-broker-summary", {
+    label: "Broker Summary",
+    schema: brokerSummarySchema,
+    cached: true,
+    ...control,
+    query: {
+      symbol: params.symbol,
+      from: params.from,
+      to: params.to,
+    },
+  });
+}
+
+/**
+ * Fetch the stocks a broker traded over a date range
+ * @param params - Broker code and date range
+ * @param control - Optional timeout, retry and cancellation overrides
+ * @returns Broker activity data
+ */
+export async function fetchBrokerActivity(
+  params: BrokerActivityParams,
+  control?: RequestControl,
+): Promise<BrokerActivityResponse> {
+  return apiRequest<BrokerActivityResponse>("/broker-activity", {
+    label: "Broker Activity",
+    schema: brokerActivitySchema,
+    cached: true,
+    ...control,
+    query: {
+      broker: params.broker,
+      from: params.from,
+      to: params.to,
+    },
+  });
+}
+
+/**
+ * Fetch the current broker directory from the backend
+ * @returns Brokers with their groups and permissions
+ */
+export async function fetchBrokerList(
+  control?: RequestControl,
+): Promise<Broker[]> {
+  const data = await apiRequest<BrokerListResponse>("/list-brokers", {
+    label: "Broker List",
+    schema: brokerListSchema,
+    cached: true,
+    ...control,
+  });
+  return data.data;
+}
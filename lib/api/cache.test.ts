@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import {
+  buildQueryKey,
+  cachedQuery,
+  clearQueryCache,
+  getQueryTtl,
+  QUERY_TTL,
+} from "./cache";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * A fetcher whose requests settle only when the test says so
+ * Each call records the cache-owned signal it was given.
+ */
+function createDeferredFetcher<T>() {
+  const calls: Array<{
+    signal: AbortSignal;
+    resolve: (value: T) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+
+  const fetcher = vi.fn(
+    (signal: AbortSignal) =>
+      new Promise<T>((resolve, reject) => {
+        calls.push({ signal, resolve, reject });
+        signal.addEventListener("abort", () => reject(signal.reason), {
+          once: true,
+        });
+      }),
+  );
+
+  return { fetcher, calls };
+}
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await clearQueryCache();
+});
+
+// ============================================================================
+// Keys and TTLs
+// ============================================================================
+
+describe("buildQueryKey", () => {
+  it("sorts keys and array values and drops empty values", () => {
+    expect(
+      buildQueryKey("/broker-activity", {
+        to: "2026-01-31",
+        from: "2026-01-02",
+        symbols: ["bbri", "BBCA"],
+        page: undefined,
+        filter: "",
+        group: null,
+      }),
+    ).toBe("/broker-activity?from=2026-01-02&symbols=BBCA,BBRI&to=2026-01-31");
+  });
+});
+
+describe("getQueryTtl", () => {
+  it("picks the TTL from the endpoint and the end of the range", () => {
+    expect(getQueryTtl("/emitten/BBCA/info")).toBe(QUERY_TTL.QUOTE);
+    expect(getQueryTtl("/emitten/BBCA/key-stats")).toBe(QUERY_TTL.FUNDAMENTAL);
+    expect(getQueryTtl("/list-brokers")).toBe(QUERY_TTL.REFERENCE);
+    expect(getQueryTtl("/broker-activity", { to: "2020-01-31" })).toBe(
+      QUERY_TTL.HISTORICAL,
+    );
+    expect(getQueryTtl("/broker-activity", { to: "2999-01-31" })).toBe(
+      QUERY_TTL.LIVE,
+    );
+    expect(getQueryTtl("/broker-activity")).toBe(QUERY_TTL.LIVE);
+  });
+});
+
+// ============================================================================
+// In-flight sharing
+// ============================================================================
+
+describe("cachedQuery", () => {
+  it("shares one request between concurrent callers and caches the result", async () => {
+    const { fetcher, calls } = createDeferredFetcher<string>();
+
+    const first = cachedQuery("shared", QUERY_TTL.LIVE, fetcher);
+    const second = cachedQuery("shared", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].resolve("data");
+
+    await expect(first).resolves.toBe("data");
+    await expect(second).resolves.toBe("data");
+    await expect(cachedQuery("shared", QUERY_TTL.LIVE, fetcher)).resolves.toBe(
+      "data",
+    );
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the request running while another caller still waits on it", async () => {
+    const { fetcher, calls } = createDeferredFetcher<string>();
+    const leaving = new AbortController();
+
+    const left = cachedQuery(
+      "waiters",
+      QUERY_TTL.LIVE,
+      fetcher,
+      leaving.signal,
+    );
+    const staying = cachedQuery(
+      "waiters",
+      QUERY_TTL.LIVE,
+      fetcher,
+      new AbortController().signal,
+    );
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    leaving.abort(new Error("left"));
+
+    await expect(left).rejects.toThrow("left");
+    expect(calls[0].signal.aborted).toBe(false);
+
+    calls[0].resolve("data");
+    await expect(staying).resolves.toBe("data");
+  });
+
+  it("aborts the request once every caller left, and starts a new one for the next caller", async () => {
+    const { fetcher, calls } = createDeferredFetcher<string>();
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = cachedQuery("abandoned", QUERY_TTL.LIVE, fetcher, a.signal);
+    const second = cachedQuery("abandoned", QUERY_TTL.LIVE, fetcher, b.signal);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    a.abort(new Error("a"));
+    b.abort(new Error("b"));
+
+    await expect(first).rejects.toThrow("a");
+    await expect(second).rejects.toThrow("b");
+    expect(calls[0].signal.aborted).toBe(true);
+    expect(calls[0].signal.reason).toEqual(new Error("b"));
+
+    const third = cachedQuery("abandoned", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1].resolve("fresh");
+    await expect(third).resolves.toBe("fresh");
+  });
+
+  it("rejects right away for a caller that is already aborted", async () => {
+    const { fetcher, calls } = createDeferredFetcher<string>();
+    const controller = new AbortController();
+
+    controller.abort(new Error("gone"));
+
+    await expect(
+      cachedQuery("pre-aborted", QUERY_TTL.LIVE, fetcher, controller.signal),
+    ).rejects.toThrow("gone");
+    expect(calls[0].signal.aborted).toBe(true);
+  });
+
+  it("passes fetch errors to every waiter without caching them", async () => {
+    const { fetcher, calls } = createDeferredFetcher<string>();
+
+    const first = cachedQuery("failing", QUERY_TTL.LIVE, fetcher);
+    const second = cachedQuery("failing", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].reject(new Error("boom"));
+
+    await expect(first).rejects.toThrow("boom");
+    await expect(second).rejects.toThrow("boom");
+
+    const retry = cachedQuery("failing", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1].resolve("ok");
+    await expect(retry).resolves.toBe("ok");
+  });
+
+  it("serves a stale entry and refreshes it in the background", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T09:00:00Z"));
+
+    const { fetcher, calls } = createDeferredFetcher<string>();
+    const initial = cachedQuery("stale", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].resolve("old");
+    await expect(initial).resolves.toBe("old");
+
+    vi.setSystemTime(Date.now() + QUERY_TTL.LIVE);
+
+    await expect(cachedQuery("stale", QUERY_TTL.LIVE, fetcher)).resolves.toBe(
+      "old",
+    );
+    expect(calls).toHaveLength(2);
+
+    calls[1].resolve("new");
+    await vi.waitFor(() =>
+      expect(cachedQuery("stale", QUERY_TTL.LIVE, fetcher)).resolves.toBe(
+        "new",
+      ),
+    );
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops entries past their maximum staleness", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-01-05T09:00:00Z"));
+
+    const { fetcher, calls } = createDeferredFetcher<string>();
+    const initial = cachedQuery("expired", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(1));
+    calls[0].resolve("old");
+    await initial;
+
+    vi.setSystemTime(Date.now() + QUERY_TTL.LIVE + QUERY_TTL.MAX_STALE);
+
+    const next = cachedQuery("expired", QUERY_TTL.LIVE, fetcher);
+
+    await vi.waitFor(() => expect(calls).toHaveLength(2));
+    calls[1].resolve("new");
+    await expect(next).resolves.toBe("new");
+  });
+});
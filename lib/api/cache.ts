@@ -0,0 +1,336 @@
+import { env } from "@/lib/env";
+import { getTodayDate } from "@/lib/utils/trading-calendar";
+
+/**
+ * Shared client-side query cache with stale-while-revalidate
+ *
+ * - Keyed by endpoint + normalized query params
+ * - TTL chosen per endpoint: historical ranges live long, ranges touching today are short
+ * - Concurrent identical requests share one in-flight request, aborted only once
+ *   every caller waiting on it has aborted
+ * - Stale entries are returned immediately and refreshed in the background
+ * - Optional IndexedDB persistence (NEXT_PUBLIC_QUERY_CACHE_PERSIST=true)
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface CacheEntry {
+  data: unknown;
+  /** Epoch ms after which the entry is stale */
+  staleAt: number;
+  /** Epoch ms after which the entry is discarded */
+  expiresAt: number;
+}
+
+type QueryParams = Record<string, unknown>;
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  /** Owned by the cache, not by any one caller */
+  controller: AbortController;
+  /** Callers still waiting on the request */
+  waiters: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+export const QUERY_TTL = {
+  /** Ranges that include today (data still changing) */
+  LIVE: 2 * MINUTE,
+  /** Ranges that ended before today */
+  HISTORICAL: 24 * HOUR,
+  /** Quote-like data (price, change) */
+  QUOTE: 1 * MINUTE,
+  /** Fundamentals and profile, updated a few times a year */
+  FUNDAMENTAL: 6 * HOUR,
+  /** Reference data such as the broker list */
+  REFERENCE: 24 * HOUR,
+  /** How long a stale entry may still be served while revalidating */
+  MAX_STALE: 7 * 24 * HOUR,
+};
+
+const MAX_MEMORY_ENTRIES = 200;
+const IDB_NAME = "haka-haki-query-cache";
+const IDB_STORE = "queries";
+
+// ============================================================================
+// State
+// ============================================================================
+
+const memoryCache = new Map<string, CacheEntry>();
+const inFlight = new Map<string, InFlightRequest>();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Build a stable cache key: keys sorted, arrays sorted, empty values dropped
+ */
+export function buildQueryKey(
+  endpoint: string,
+  params: QueryParams = {},
+): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .filter((key) => {
+      const value = params[key];
+      return value !== undefined && value !== null && value !== "";
+    })
+    .map((key) => {
+      const value = params[key];
+      const text = Array.isArray(value)
+        ? value
+            .map((item) => String(item).toUpperCase())
+            .sort()
+            .join(",")
+        : String(value);
+      return `${key}=${text}`;
+    })
+    .join("&");
+
+  return `${endpoint}?${normalized}`;
+}
+
+/**
+ * Pick the TTL for an endpoint based on what it returns and its date range
+ */
+export function getQueryTtl(
+  endpoint: string,
+  params: QueryParams = {},
+): number {
+  if (/^\/emitten\/[^/]+\/info$/.test(endpoint)) return QUERY_TTL.QUOTE;
+  if (/^\/emitten\/[^/]+\/(key-stats|profile)$/.test(endpoint))
+    return QUERY_TTL.FUNDAMENTAL;
+  if (endpoint === "/list-brokers") return QUERY_TTL.REFERENCE;
+
+  const rangeEnd = (params.to ?? params.date_end) as string | undefined;
+  if (!rangeEnd || rangeEnd >= getTodayDate()) return QUERY_TTL.LIVE;
+
+  return QUERY_TTL.HISTORICAL;
+}
+
+function setMemoryEntry(key: string, entry: CacheEntry): void {
+  memoryCache.delete(key);
+  memoryCache.set(key, entry);
+
+  // Evict least recently written entries
+  while (memoryCache.size > MAX_MEMORY_ENTRIES) {
+    const oldest = memoryCache.keys().next().value as string;
+    memoryCache.delete(oldest);
+  }
+}
+
+/**
+ * Wait on a shared in-flight request for one caller
+ * An aborting caller stops waiting; the request itself is aborted once the last
+ * waiter left. Waiters without a signal (background revalidation) never leave.
+ */
+function joinInFlight<T>(
+  key: string,
+  request: InFlightRequest,
+  signal?: AbortSignal,
+): Promise<T> {
+  request.waiters++;
+  if (!signal) return request.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const leave = () => {
+      request.waiters--;
+      if (request.waiters === 0) {
+        request.controller.abort(signal.reason);
+        // Later callers start a new request instead of joining the aborted one
+        if (inFlight.get(key) === request) inFlight.delete(key);
+      }
+      reject(signal.reason);
+    };
+
+    if (signal.aborted) {
+      leave();
+      return;
+    }
+
+    signal.addEventListener("abort", leave, { once: true });
+    request.promise.then(
+      (data) => {
+        signal.removeEventListener("abort", leave);
+        resolve(data as T);
+      },
+      (error) => {
+        signal.removeEventListener("abort", leave);
+        reject(error);
+      },
+    );
+  });
+}
+
+// ============================================================================
+// IndexedDB Persistence
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function isPersistenceEnabled(): boolean {
+  return (
+    env.isQueryCachePersistent &&
+    typeof window !== "undefined" &&
+    "indexedDB" in window
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      try {
+        const request = indexedDB.open(IDB_NAME, 1);
+        request.onupgradeneeded = () =>
+          request.result.createObjectStore(IDB_STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => resolve(null);
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+async function readPersisted(key: string): Promise<CacheEntry | null> {
+  if (!isPersistenceEnabled()) return null;
+
+  const db = await openDatabase();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    const request = db
+      .transaction(IDB_STORE, "readonly")
+      .objectStore(IDB_STORE)
+      .get(key);
+    request.onsuccess = () =>
+      resolve((request.result as CacheEntry | undefined) || null);
+    request.onerror = () => resolve(null);
+  });
+}
+
+async function writePersisted(key: string, entry: CacheEntry): Promise<void> {
+  if (!isPersistenceEnabled()) return;
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    db.transaction(IDB_STORE, "readwrite")
+      .objectStore(IDB_STORE)
+      .put(entry, key);
+  } catch (error) {
+    console.warn("[QueryCache] Failed to persist entry:", error);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Run `fetcher` through the cache
+ * @param key - Cache key from buildQueryKey
+ * @param ttl - Freshness window in ms
+ * @param fetcher - Performs the actual request with the cache-owned signal
+ * @param signal - Aborts this caller's wait (and the request, if nobody else waits on it)
+ * @returns Cached data when fresh or stale, otherwise the fetched data
+ */
+export async function cachedQuery<T>(
+  key: string,
+  ttl: number,
+  fetcher: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  const now = Date.now();
+  let entry = memoryCache.get(key) || null;
+
+  if (!entry) {
+    entry = await readPersisted(key);
+    if (entry) setMemoryEntry(key, entry);
+  }
+
+  if (entry && entry.expiresAt <= now) {
+    memoryCache.delete(key);
+    entry = null;
+  }
+
+  const revalidate = (waiterSignal?: AbortSignal): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return joinInFlight<T>(key, pending, waiterSignal);
+
+    const controller = new AbortController();
+    const request: InFlightRequest = {
+      controller,
+      waiters: 0,
+      promise: fetcher(controller.signal)
+        .then((data) => {
+          const fresh: CacheEntry = {
+            data,
+            staleAt: Date.now() + ttl,
+            expiresAt: Date.now() + ttl + QUERY_TTL.MAX_STALE,
+          };
+          setMemoryEntry(key, fresh);
+          void writePersisted(key, fresh);
+          return data;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === request) inFlight.delete(key);
+        }),
+    };
+
+    inFlight.set(key, request);
+    // Waiters handle the outcome; this keeps an abandoned request from surfacing as unhandled
+    request.promise.catch(() => undefined);
+    return joinInFlight<T>(key, request, waiterSignal);
+  };
+
+  if (entry) {
+    if (entry.staleAt <= now) {
+      // Serve stale, refresh in background
+      revalidate().catch((error) =>
+        console.warn("[QueryCache] Background revalidation failed:", error),
+      );
+    }
+    return entry.data as T;
+  }
+
+  return revalidate(signal);
+}
+
+/**
+ * Drop cached entries, optionally only those whose key starts with `prefix`
+ */
+export async function clearQueryCache(prefix?: string): Promise<void> {
+  Array.from(memoryCache.keys())
+    .filter((key) => !prefix || key.startsWith(prefix))
+    .forEach((key) => memoryCache.delete(key));
+
+  if (!isPersistenceEnabled()) return;
+
+  const db = await openDatabase();
+  if (!db) return;
+
+  const store = db.transaction(IDB_STORE, "readwrite").objectStore(IDB_STORE);
+  if (!prefix) {
+    store.clear();
+    return;
+  }
+
+  const request = store.getAllKeys();
+  request.onsuccess = () => {
+    request.result
+      .filter((key) => String(key).startsWith(prefix))
+      .forEach((key) => store.delete(key));
+  };
+}
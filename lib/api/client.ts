@@ -0,0 +1,366 @@
+import { analyticsService } from "@/lib/firebase/analytics";
+import { env } from "@/lib/env";
+import { buildQueryKey, cachedQuery, getQueryTtl } from "@/lib/api/cache";
+import {
+  claimChannel,
+  getBackoffDelay,
+  isRetryableStatus,
+  linkSignals,
+  parseRetryAfter,
+  releaseChannel,
+  REQUEST_POLICY,
+  RequestTimeoutError,
+  sleep,
+  type RequestControl,
+} from "@/lib/api/policy";
+import { describeValue, type Schema } from "@/lib/api/schema";
+import { getClientIPSync } from "@/lib/utils/client-ip";
+
+/**
+ * Core HTTP client for the IDX backend
+ * Every endpoint module in lib/api goes through `apiRequest` so the base URL,
+ * headers, retries, timeouts and cancellation are handled in exactly one place.
+ */
+
+/**
+ * Base URL for API requests (without the /api/v1 prefix)
+ */
+export const API_BASE_URL =
+  process.env.NEXT_PUBLIC_API_URL || "https://api-idx.gsphomelab.org";
+
+/**
+ * Origin of this Next.js app, needed when mock routes are called from the server
+ */
+const MOCK_SERVER_ORIGIN =
+  process.env.MOCK_API_ORIGIN || `http://localhost:${process.env.PORT || 3000}`;
+
+/**
+ * Versioned API root used by every endpoint
+ * In mock mode requests go to the local route handlers under app/api/mock
+ */
+export const API_ROOT = env.isMockApi
+  ? `${typeof window === "undefined" ? MOCK_SERVER_ORIGIN : ""}/api/mock`
+  : `${API_BASE_URL}/api/v1`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type QueryValue =
+  | string
+  | number
+  | boolean
+  | undefined
+  | null
+  | Array<string | number>;
+
+export interface ApiRequestOptions extends RequestControl {
+  /** HTTP method, defaults to GET */
+  method?: "GET" | "POST";
+  /** Query parameters; array values are appended as repeated keys */
+  query?: Record<string, QueryValue>;
+  /** JSON body for POST requests */
+  body?: unknown;
+  /** Human readable endpoint name used in error messages (e.g. "Broker Activity") */
+  label?: string;
+  /** Message used when the backend does not return one */
+  errorMessage?: string;
+  /** Fetch cache mode (used by server components) */
+  cache?: RequestCache;
+  /** Shape the response must match; mismatches throw ResponseValidationError */
+  schema?: Schema;
+  /** Serve GET requests through the shared query cache (client-side only) */
+  cached?: boolean;
+}
+
+/**
+ * Error thrown when the backend answers with a non-2xx status
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly body: unknown;
+
+  constructor(
+    message: string,
+    status: number,
+    endpoint: string,
+    body?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.endpoint = endpoint;
+    this.body = body;
+  }
+}
+
+/**
+ * Error thrown when a response does not match the expected schema
+ */
+export class ResponseValidationError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+  readonly expected: string;
+  readonly received: unknown;
+
+  constructor(
+    label: string,
+    endpoint: string,
+    path: string,
+    expected: string,
+    received: unknown,
+  ) {
+    super(
+      `Unexpected ${label} response: "${path}" should be ${expected}, received ${describeValue(received)}`,
+    );
+    this.name = "ResponseValidationError";
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Generate random hex string for x-nonce header
+ * @returns A unique nonce string
+ */
+export function generateNonce(): string {
+  return Array.from({ length: 32 }, () =>
+    Math.floor(Math.random() * 16).toString(16),
+  ).join("");
+}
+
+/**
+ * Build the headers every backend request must carry
+ * @param withJsonBody - Add Content-Type for JSON payloads
+ * @param clientIp - Visitor IP when it is not this browser's (server-side requests)
+ */
+export function buildApiHeaders(
+  withJsonBody = false,
+  clientIp?: string,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    "X-Nonce": generateNonce(),
+    "X-Ip-Client": clientIp || getClientIPSync() || "unknown",
+  };
+
+  if (withJsonBody) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  return headers;
+}
+
+/**
+ * Build a full URL from an endpoint path and query parameters
+ * @param endpoint - Path relative to the API root (e.g. "/broker-activity")
+ * @param query - Query parameters
+ */
+export function buildApiUrl(
+  endpoint: string,
+  query?: Record<string, QueryValue>,
+): string {
+  const params = new URLSearchParams();
+
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+
+  const queryString = params.toString();
+  return `${API_ROOT}${endpoint}${queryString ? `?${queryString}` : ""}`;
+}
+
+/**
+ * Try to read a JSON error payload without throwing
+ */
+async function readErrorBody(response: Response): Promise<unknown> {
+  try {
+    return await response.json();
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Request
+// ============================================================================
+
+/**
+ * Run one fetch attempt with its own timeout
+ */
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  label: string,
+  signal: AbortSignal,
+): Promise<Response> {
+  const controller = linkSignals([signal]);
+  const timer = setTimeout(
+    () => controller.abort(new RequestTimeoutError(label, timeoutMs)),
+    timeoutMs,
+  );
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    // Surface the abort reason (timeout or superseded) instead of a generic AbortError
+    throw controller.signal.aborted ? controller.signal.reason : error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Perform a request against the IDX backend with timeout and retries (no caching)
+ */
+async function performRequest<T>(
+  endpoint: string,
+  options: ApiRequestOptions,
+  signal: AbortSignal,
+): Promise<T> {
+  const {
+    method = "GET",
+    query,
+    body,
+    label = "API",
+    errorMessage,
+    cache,
+    schema,
+  } = options;
+  const timeoutMs = options.timeoutMs ?? REQUEST_POLICY.TIMEOUT_MS;
+  const retries =
+    method === "GET" ? (options.retries ?? REQUEST_POLICY.RETRIES) : 0;
+  const hasBody = body !== undefined;
+  const url = buildApiUrl(endpoint, query);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await fetchWithTimeout(
+        url,
+        {
+          method,
+          headers: buildApiHeaders(hasBody, options.clientIp),
+          body: hasBody ? JSON.stringify(body) : undefined,
+          cache,
+        },
+        timeoutMs,
+        label,
+        signal,
+      );
+    } catch (error) {
+      // Network error or timeout: retry unless the caller cancelled
+      if (signal.aborted || attempt >= retries) throw error;
+      await sleep(getBackoffDelay(attempt), signal);
+      continue;
+    }
+
+    if (!response.ok) {
+      if (isRetryableStatus(response.status) && attempt < retries) {
+        const retryAfter =
+          response.status === 429
+            ? parseRetryAfter(response.headers.get("Retry-After"))
+            : null;
+        await sleep(retryAfter ?? getBackoffDelay(attempt), signal);
+        continue;
+      }
+
+      const errorBody = await readErrorBody(response);
+      const backendMessage =
+        errorBody && typeof errorBody === "object" && "message" in errorBody
+          ? String((errorBody as { message: unknown }).message)
+          : "";
+
+      throw new ApiError(
+        backendMessage ||
+          errorMessage ||
+          `${label} API Error: ${response.status} ${response.statusText}`,
+        response.status,
+        endpoint,
+        errorBody,
+      );
+    }
+
+    const data: unknown = await response.json();
+
+    if (schema) {
+      const issue = schema.check(data, "");
+      if (issue) {
+        const error = new ResponseValidationError(
+          label,
+          endpoint,
+          issue.path,
+          issue.expected,
+          issue.received,
+        );
+        analyticsService.trackError("validation", error.message, endpoint);
+        throw error;
+      }
+    }
+
+    return data as T;
+  }
+}
+
+/**
+ * Perform a request against the IDX backend
+ *
+ * GET requests are retried with exponential backoff on network errors, timeouts,
+ * 5xx and 429 (honouring Retry-After). Channels are opt-in: when `channel` is set,
+ * starting a new request on the same channel aborts the previous one, which then
+ * rejects with RequestSupersededError so stale responses cannot overwrite newer
+ * state. Callers that opt in skip those errors with isAbortError.
+ *
+ * @param endpoint - Path relative to the API root (e.g. "/emitten/BBCA/info")
+ * @param options - Method, query, body, error labelling, caching and request control
+ * @returns Parsed JSON response
+ * @throws ApiError if the response status is not OK
+ * @throws ResponseValidationError if the payload does not match `options.schema`
+ * @throws RequestSupersededError or the signal's reason when the request was cancelled
+ */
+export async function apiRequest<T>(
+  endpoint: string,
+  options: ApiRequestOptions = {},
+): Promise<T> {
+  const { method = "GET", query, cached = false, channel } = options;
+  const ticket =
+    channel && typeof window !== "undefined" ? claimChannel(channel) : null;
+  const signal = linkSignals([
+    ticket?.controller.signal,
+    options.signal,
+  ]).signal;
+
+  try {
+    // The shared in-flight request runs on the cache's own signal; `signal` only ends this caller's wait
+    const data =
+      cached && method === "GET" && typeof window !== "undefined"
+        ? await cachedQuery<T>(
+            buildQueryKey(endpoint, query),
+            getQueryTtl(endpoint, query),
+            (sharedSignal) =>
+              performRequest<T>(endpoint, options, sharedSignal),
+            signal,
+          )
+        : await performRequest<T>(endpoint, options, signal);
+
+    // Superseded or aborted while the response was being read
+    if (signal.aborted) throw signal.reason;
+    return data;
+  } finally {
+    if (ticket) releaseChannel(ticket);
+  }
+}
@@ -1,19 +1,7 @@
-import { getClientIPSync } from "@/lib/utils/client-ip";
-
-/**
- * Generate random hex string for x-nonce header
- * @returns A unique nonce string
- */
-function generateNonce(): string {
-  return Array.from({ length: 32 }, () =>
-    Math.floor(Math.random() * 16).toString(16)
-  ).join('');
-}
-
-/**
- * Base URL for API requests
- */
-const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api-idx.gsphomelab.org';
+import { apiRequest } from "@/lib/api/client";
+import type { RequestControl } from "@/lib/api/policy";
+import { s } from "@/lib/api/schema";
+import { recordEmittenSector } from "@/lib/sectors/store";
 
 // ============================================================================
 // Types
@@ -31,6 +19,17 @@ export interface EmittenInfo {
   market_cap?: string;
   volume?: string;
   value?: string;
+  status?: string;
+  icon_url?: string;
+  indexes?: string[];
+  notation?: Array<{
+    notation_code: string;
+    notation_desc: string;
+    icon_url?: {
+      light_mode: string;
+      dark_mode: string;
+    };
+  }>;
 }
 
 export interface KeyStats {
@@ -84,6 +83,68 @@ export interface Profile {
   };
 }
 
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const emittenInfoSchema = s.object({
+  data: s.object({
+    symbol: s.string(),
+    name: s.string(),
+    price: s.string(),
+    sector: s.optional(s.string()),
+    sub_sector: s.optional(s.string()),
+  }),
+});
+
+const keyStatsSchema = s.object({
+  data: s.object({
+    closure_fin_items_results: s.array(
+      s.object({
+        keystats_name: s.string(),
+        fin_name_results: s.array(
+          s.object({
+            fitem: s.object({
+              name: s.string(),
+              value: s.string(),
+            }),
+          })
+        ),
+      })
+    ),
+    stats: s.optional(
+      s.object({
+        current_share_outstanding: s.string(),
+        market_cap: s.string(),
+      })
+    ),
+  }),
+});
+
+const profileSchema = s.object({
+  data: s.object({
+    background: s.optional(s.string()),
+    shareholder: s.optional(
+      s.array(
+        s.object({
+          name: s.string(),
+          percentage: s.string(),
+          badges: s.optional(s.array(s.string())),
+        })
+      )
+    ),
+    shareholder_numbers: s.optional(
+      s.array(
+        s.object({
+          shareholder_date: s.string(),
+          total_share: s.string(),
+          change: s.number(),
+        })
+      )
+    ),
+  }),
+});
+
 // ============================================================================
 // API Functions
 // ============================================================================
@@ -91,88 +152,80 @@ export interface Profile {
 /**
  * Fetch emitten info (price, sector, etc.)
  * @param symbol Emitten symbol (e.g., "BBCA")
+ * @param control Optional timeout, retry and cancellation overrides
  * @returns Emitten info data
  */
-export async function fetchEmittenInfo(symbol: string): Promise<EmittenInfo> {
-  const url = `${BASE_URL}/api/v1/emitten/${symbol}/info`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
-    },
+export async function fetchEmittenInfo(
+  symbol: string,
+  control?: RequestControl
+): Promise<EmittenInfo> {
+  const data = await apiRequest<{ data: EmittenInfo }>(`/emitten/${symbol}/info`, {
+    label: "Emitten Info",
+    schema: emittenInfoSchema,
+    cached: true,
+    ...control,
   });
-
-  if (!response.ok) {
-    throw new Error(`Emitten Info API Error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json();
+  // Feeds the sector index the peer comparison draws sub-sector peers from
+  recordEmittenSector(data.data);
   return data.data;
 }
 
 /**
  * Fetch emitten key stats (PE, PBV, ROE, etc.)
  * @param symbol Emitten symbol (e.g., "BBCA")
+ * @param control Optional timeout, retry and cancellation overrides
  * @returns Key stats data
  */
-export async function fetchEmittenKeyStats(symbol: string): Promise<KeyStats> {
-  const url = `${BASE_URL}/api/v1/emitten/${symbol}/key-stats`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
-    },
+export async function fetchEmittenKeyStats(
+  symbol: string,
+  control?: RequestControl
+): Promise<KeyStats> {
+  const data = await apiRequest<{ data: KeyStats }>(`/emitten/${symbol}/key-stats`, {
+    label: "Emitten Key Stats",
+    schema: keyStatsSchema,
+    cached: true,
+    ...control,
   });
-
-  if (!response.ok) {
-    throw new Error(`Emitten Key Stats API Error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json();
   return data.data;
 }
 
 /**
  * Fetch emitten profile (background, shareholders, etc.)
  * @param symbol Emitten symbol (e.g., "BBCA")
+ * @param control Optional timeout, retry and cancellation overrides
  * @returns Profile data
  */
-export async function fetchEmittenProfile(symbol: string): Promise<Profile> {
-  const url = `${BASE_URL}/api/v1/emitten/${symbol}/profile`;
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: {
-      'x-nonce': generateNonce(),
-      'X-Ip-Client': clientIP,
-    },
+export async function fetchEmittenProfile(
+  symbol: string,
+  control?: RequestControl
+): Promise<Profile> {
+  const data = await apiRequest<{ data: Profile }>(`/emitten/${symbol}/profile`, {
+    label: "Emitten Profile",
+    schema: profileSchema,
+    cached: true,
+    ...control,
   });
-
-  if (!response.ok) {
-    throw new Error(`Emitten Profile API Error: ${response.status} ${response.statusText}`);
-  }
-
-  const data = await response.json();
   return data.data;
 }
 
 /**
  * Fetch all emitten data in parallel
+ * A `channel` is split per endpoint ("<channel>:info", ...) so the three calls
+ * do not supersede each other
  * @param symbol Emitten symbol (e.g., "BBCA")
+ * @param control Optional timeout, retry and cancellation overrides
  * @returns Object containing info, keyStats, and profile
  */
-export async function fetchAllEmittenData(symbol: string) {
+export async function fetchAllEmittenData(symbol: string, control?: RequestControl) {
+  const sub = (suffix: string): RequestControl => ({
+    ...control,
+    channel: control?.channel && `${control.channel}:${suffix}`,
+  });
+
   const [info, keyStats, profile] = await Promise.all([
-    fetchEmittenInfo(symbol),
-    fetchEmittenKeyStats(symbol),
-    fetchEmittenProfile(symbol),
+    fetchEmittenInfo(symbol, sub("info")),
+    fetchEmittenKeyStats(symbol, sub("key-stats")),
+    fetchEmittenProfile(symbol, sub("profile")),
   ]);
 
   return { info, keyStats, profile };
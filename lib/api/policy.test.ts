@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { apiRequest, ApiError } from "./client";
+import {
+  claimChannel,
+  getBackoffDelay,
+  isAbortError,
+  linkSignals,
+  parseRetryAfter,
+  releaseChannel,
+  REQUEST_POLICY,
+  RequestSupersededError,
+  RequestTimeoutError,
+} from "./policy";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function jsonResponse(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+/** A fetch that never answers and rejects with the abort reason */
+function hangingFetch(_url: RequestInfo | URL, init?: RequestInit) {
+  return new Promise<Response>((_, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(init.signal?.reason), {
+      once: true,
+    });
+  });
+}
+
+beforeEach(() => {
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+  // No jitter, so backoff delays are exactly 500, 1000, 2000...
+  vi.spyOn(Math, "random").mockReturnValue(0);
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// ============================================================================
+// Helpers of the policy
+// ============================================================================
+
+describe("getBackoffDelay", () => {
+  it("doubles per attempt up to the maximum", () => {
+    expect(getBackoffDelay(0)).toBe(500);
+    expect(getBackoffDelay(1)).toBe(1000);
+    expect(getBackoffDelay(2)).toBe(2000);
+    expect(getBackoffDelay(10)).toBe(REQUEST_POLICY.BACKOFF_MAX_MS);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates, capped at the maximum backoff", () => {
+    vi.setSystemTime(new Date("2026-01-05T09:00:00Z"));
+
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter("0")).toBe(0);
+    expect(parseRetryAfter("3600")).toBe(REQUEST_POLICY.BACKOFF_MAX_MS);
+    expect(parseRetryAfter("Mon, 05 Jan 2026 09:00:04 GMT")).toBe(4000);
+    expect(parseRetryAfter("Mon, 05 Jan 2026 08:00:00 GMT")).toBe(0);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter("soon")).toBeNull();
+  });
+});
+
+describe("linkSignals", () => {
+  it("aborts with the reason of whichever signal aborts", () => {
+    const a = new AbortController();
+    const b = new AbortController();
+    const linked = linkSignals([a.signal, undefined, b.signal]);
+
+    b.abort(new Error("b"));
+
+    expect(linked.signal.aborted).toBe(true);
+    expect(linked.signal.reason).toEqual(new Error("b"));
+  });
+
+  it("is aborted from the start when a signal already is", () => {
+    const a = new AbortController();
+
+    a.abort(new Error("early"));
+
+    expect(linkSignals([a.signal]).signal.reason).toEqual(new Error("early"));
+  });
+});
+
+describe("channels", () => {
+  it("supersede the previous request on the same channel", () => {
+    const first = claimChannel("stock");
+    const other = claimChannel("calendar");
+    const second = claimChannel("stock");
+
+    expect(first.controller.signal.aborted).toBe(true);
+    expect(first.controller.signal.reason).toBeInstanceOf(
+      RequestSupersededError,
+    );
+    expect(isAbortError(first.controller.signal.reason)).toBe(true);
+    expect(other.controller.signal.aborted).toBe(false);
+
+    // Releasing a superseded ticket leaves the newer one in place
+    releaseChannel(first);
+    claimChannel("stock");
+    expect(second.controller.signal.aborted).toBe(true);
+
+    releaseChannel(other);
+  });
+});
+
+// ============================================================================
+// Retries, timeouts and cancellation through apiRequest
+// ============================================================================
+
+describe("apiRequest", () => {
+  it("retries 5xx responses with exponential backoff", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const request = apiRequest("/list-brokers");
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    await expect(request).resolves.toEqual({ ok: true });
+  });
+
+  it("waits as long as Retry-After says on 429", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({}, 429, { "Retry-After": "3" }))
+      .mockResolvedValueOnce(jsonResponse({ ok: true }));
+
+    const request = apiRequest("/list-brokers");
+
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(request).resolves.toEqual({ ok: true });
+  });
+
+  it("gives up after the configured retries with the backend message", async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse({ message: "Backend down" }, 500),
+    );
+
+    const request = apiRequest("/list-brokers");
+    const assertion = expect(request).rejects.toMatchObject({
+      name: "ApiError",
+      status: 500,
+      message: "Backend down",
+    });
+
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(fetchMock).toHaveBeenCalledTimes(REQUEST_POLICY.RETRIES + 1);
+  });
+
+  it("does not retry client errors or POST requests", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 500));
+
+    const post = apiRequest("/share-link", { method: "POST", body: {} });
+    const postAssertion = expect(post).rejects.toBeInstanceOf(ApiError);
+
+    await vi.runAllTimersAsync();
+    await postAssertion;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => jsonResponse({}, 404));
+
+    await expect(apiRequest("/list-brokers")).rejects.toMatchObject({
+      status: 404,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the caller's abort to the fetch and stops retrying", async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const request = apiRequest("/list-brokers", { signal: controller.signal });
+    const assertion = expect(request).rejects.toThrow("left the page");
+
+    await vi.advanceTimersByTimeAsync(0);
+    const fetchSignal = fetchMock.mock.calls[0][1]?.signal;
+
+    controller.abort(new Error("left the page"));
+    await assertion;
+
+    expect(fetchSignal?.aborted).toBe(true);
+    await vi.runAllTimersAsync();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops waiting for a backoff when the caller aborts", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({}, 503));
+    const controller = new AbortController();
+
+    const request = apiRequest("/list-brokers", { signal: controller.signal });
+    const assertion = expect(request).rejects.toThrow("cancelled");
+
+    await vi.advanceTimersByTimeAsync(100);
+    controller.abort(new Error("cancelled"));
+    await assertion;
+
+    await vi.runAllTimersAsync();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("times out every attempt and reports the timeout", async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    const request = apiRequest("/list-brokers", {
+      label: "Broker List",
+      timeoutMs: 1000,
+      retries: 1,
+    });
+    const assertion =
+      expect(request).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(fetchMock.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    // Backoff, then the second attempt times out as well
+    await vi.advanceTimersByTimeAsync(500 + 1000);
+
+    await assertion;
+    await expect(request).rejects.toThrow(
+      "Broker List API Error: request timed out after 1s",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
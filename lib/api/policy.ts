@@ -0,0 +1,206 @@
+/**
+ * Request policy for the IDX backend
+ * Timeouts, exponential-backoff retries, 429 Retry-After handling and
+ * cancellation of superseded requests.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RequestControl {
+  /**
+   * Opt-in: requests sharing a channel supersede each other, starting a new one
+   * aborts the previous. The superseded call rejects with RequestSupersededError
+   * (see isAbortError).
+   */
+  channel?: string;
+  /** External signal to abort the request */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in ms */
+  timeoutMs?: number;
+  /** Number of retries after the first attempt */
+  retries?: number;
+  /** X-Ip-Client to send instead of the cached browser IP (server-side callers forward the visitor's) */
+  clientIp?: string;
+}
+
+export interface ChannelTicket {
+  channel: string;
+  controller: AbortController;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const REQUEST_POLICY = {
+  /** Per-attempt timeout */
+  TIMEOUT_MS: 20000,
+  /** Retries for GET requests (POST is never retried) */
+  RETRIES: 2,
+  /** First backoff delay, doubled on every attempt */
+  BACKOFF_BASE_MS: 500,
+  /** Upper bound for backoff and Retry-After waits */
+  BACKOFF_MAX_MS: 10000,
+};
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Rejected from a request that was superseded by a newer one on its channel
+ * Named "AbortError" like a native abort, so isAbortError covers both.
+ */
+export class RequestSupersededError extends Error {
+  readonly channel: string;
+
+  constructor(channel: string) {
+    super(`Request on "${channel}" was superseded`);
+    this.name = "AbortError";
+    this.channel = channel;
+  }
+}
+
+/**
+ * Thrown when a single attempt exceeds its timeout
+ */
+export class RequestTimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(
+      `${label} API Error: request timed out after ${Math.round(timeoutMs / 1000)}s`,
+    );
+    this.name = "RequestTimeoutError";
+  }
+}
+
+// ============================================================================
+// Channels
+// ============================================================================
+
+const activeChannels = new Map<string, ChannelTicket>();
+
+/**
+ * Take ownership of a channel, aborting whatever request held it before
+ */
+export function claimChannel(channel: string): ChannelTicket {
+  const previous = activeChannels.get(channel);
+  if (previous) {
+    previous.controller.abort(new RequestSupersededError(channel));
+  }
+
+  const ticket: ChannelTicket = { channel, controller: new AbortController() };
+  activeChannels.set(channel, ticket);
+  return ticket;
+}
+
+/**
+ * Release a channel once its request settled (no-op if it was superseded)
+ */
+export function releaseChannel(ticket: ChannelTicket): void {
+  if (activeChannels.get(ticket.channel) === ticket) {
+    activeChannels.delete(ticket.channel);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Forward aborts from any of `signals` to a new controller
+ */
+export function linkSignals(
+  signals: Array<AbortSignal | undefined>,
+): AbortController {
+  const controller = new AbortController();
+
+  signals.forEach((signal) => {
+    if (!signal) return;
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+    } else {
+      signal.addEventListener("abort", () => controller.abort(signal.reason), {
+        once: true,
+      });
+    }
+  });
+
+  return controller;
+}
+
+/**
+ * Wait `ms`, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+/**
+ * Exponential backoff with jitter for the given retry attempt (0-based)
+ */
+export function getBackoffDelay(attempt: number): number {
+  const delay = REQUEST_POLICY.BACKOFF_BASE_MS * Math.pow(2, attempt);
+  return Math.min(
+    delay + Math.random() * REQUEST_POLICY.BACKOFF_BASE_MS,
+    REQUEST_POLICY.BACKOFF_MAX_MS,
+  );
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into ms
+ * @returns Delay in ms, or null when absent or unparsable
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.min(Math.max(0, seconds * 1000), REQUEST_POLICY.BACKOFF_MAX_MS);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.min(
+      Math.max(0, date - Date.now()),
+      REQUEST_POLICY.BACKOFF_MAX_MS,
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Whether `error` comes from a cancelled request (superseded or aborted by the caller)
+ * Callers usually ignore these instead of reporting them.
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    (error as { name?: unknown }).name === "AbortError"
+  );
+}
+
+/**
+ * Whether a status code is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
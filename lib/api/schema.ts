@@ -0,0 +1,136 @@
+/**
+ * Minimal runtime schema for validating backend payloads
+ * Only checks the fields the app reads; unknown fields pass through untouched.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SchemaIssue {
+  /** Field path, e.g. "data[3].brokers.YP.value" */
+  path: string;
+  /** Human readable expected type */
+  expected: string;
+  /** The value that was actually received */
+  received: unknown;
+}
+
+export interface Schema {
+  /** Expected type, used in error messages */
+  readonly expected: string;
+  /** Returns the first mismatch or null when the value is valid */
+  check(value: unknown, path: string): SchemaIssue | null;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive(
+  expected: string,
+  test: (value: unknown) => boolean,
+): Schema {
+  return {
+    expected,
+    check: (value, path) =>
+      test(value)
+        ? null
+        : { path: path || "(root)", expected, received: value },
+  };
+}
+
+// ============================================================================
+// Schema Builders
+// ============================================================================
+
+export const s = {
+  string: (): Schema =>
+    primitive("string", (value) => typeof value === "string"),
+
+  number: (): Schema =>
+    primitive(
+      "number",
+      (value) => typeof value === "number" && !Number.isNaN(value),
+    ),
+
+  boolean: (): Schema =>
+    primitive("boolean", (value) => typeof value === "boolean"),
+
+  /** Allow undefined or null in addition to the inner schema */
+  optional: (inner: Schema): Schema => ({
+    expected: `${inner.expected} | undefined`,
+    check: (value, path) =>
+      value === undefined || value === null ? null : inner.check(value, path),
+  }),
+
+  array: (item: Schema): Schema => ({
+    expected: `${item.expected}[]`,
+    check: (value, path) => {
+      if (!Array.isArray(value)) {
+        return {
+          path: path || "(root)",
+          expected: `${item.expected}[]`,
+          received: value,
+        };
+      }
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], joinPath(path, i));
+        if (issue) return issue;
+      }
+      return null;
+    },
+  }),
+
+  /** Object with a fixed set of known keys */
+  object: (shape: Record<string, Schema>): Schema => ({
+    expected: "object",
+    check: (value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return { path: path || "(root)", expected: "object", received: value };
+      }
+      for (const key of Object.keys(shape)) {
+        const issue = shape[key].check(
+          (value as Record<string, unknown>)[key],
+          joinPath(path, key),
+        );
+        if (issue) return issue;
+      }
+      return null;
+    },
+  }),
+
+  /** Object keyed by arbitrary strings (e.g. broker code) */
+  record: (item: Schema): Schema => ({
+    expected: `Record<string, ${item.expected}>`,
+    check: (value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return { path: path || "(root)", expected: "object", received: value };
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        const issue = item.check(entry, joinPath(path, key));
+        if (issue) return issue;
+      }
+      return null;
+    },
+  }),
+};
+
+/**
+ * Format a received value for error messages without dumping large payloads
+ */
+export function describeValue(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null) return "null";
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === "object") return "object";
+  if (typeof value === "string") {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  return String(value);
+}
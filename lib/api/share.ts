@@ -1,18 +1,4 @@
-// Import client IP utility
-import { getClientIPSync } from '@/lib/utils/client-ip';
-
-/**
- * Generate unique nonce for API requests
- * @returns A unique nonce string
- */
-function generateNonce(): string {
-  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
-}
-
-/**
- * Base URL for API requests
- */
-const BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'https://api-idx.gsphomelab.org';
+import { apiRequest } from "@/lib/api/client";
 
 // ============================================================================
 // Types
@@ -76,50 +62,27 @@ export interface GetSharedLinkResponse {
  * @throws Error if request fails
  */
 export async function createShareLink(request: ShareLinkRequest): Promise<ShareLinkResponse> {
-  const nonce = generateNonce();
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(`${BASE_URL}/api/v1/share-link`, {
+  return apiRequest<ShareLinkResponse>("/share-link", {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'X-Nonce': nonce,
-      'X-Ip-Client': clientIP,
-    },
-    body: JSON.stringify(request),
+    body: request,
+    errorMessage: "Failed to create share link",
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Failed to create share link');
-  }
-
-  return response.json();
 }
 
 /**
  * Get shared link data by slug
  * Automatically increments click count on backend
  * @param slug - Share link slug
+ * @param cache - Optional fetch cache mode (server-side metadata uses "no-store")
  * @returns Promise with shared link data
  * @throws Error if share link is not found or expired
  */
-export async function getSharedLink(slug: string): Promise<GetSharedLinkResponse> {
-  const nonce = generateNonce();
-  const clientIP = getClientIPSync() || 'unknown';
-
-  const response = await fetch(`${BASE_URL}/api/v1/share-link/${slug}`, {
-    method: 'GET',
-    headers: {
-      'X-Nonce': nonce,
-      'X-Ip-Client': clientIP,
-    },
+export async function getSharedLink(
+  slug: string,
+  cache?: RequestCache
+): Promise<GetSharedLinkResponse> {
+  return apiRequest<GetSharedLinkResponse>(`/share-link/${slug}`, {
+    errorMessage: "Invalid or expired share link",
+    cache,
   });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.message || 'Invalid or expired share link');
-  }
-
-  return response.json();
 }
@@ -0,0 +1,95 @@
+import { apiRequest, ApiError } from "@/lib/api/client";
+import type { RequestControl } from "@/lib/api/policy";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenInfo {
+  exp: number;
+  iat: number;
+  profile_token: string;
+}
+
+export type TokenExpiry = Pick<TokenInfo, "exp">;
+
+// ============================================================================
+// API Functions
+// ============================================================================
+
+/**
+ * Get the access token currently configured on the backend
+ * Only for the password-gated /token page and server routes; elsewhere use
+ * fetchAccessTokenExpiry.
+ * @returns Token info, or null if no token has been set
+ */
+export async function fetchAccessToken(
+  control?: RequestControl,
+): Promise<TokenInfo | null> {
+  try {
+    return await apiRequest<TokenInfo>("/config/access-token", control);
+  } catch (error) {
+    // Token doesn't exist
+    if (error instanceof ApiError && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Expiry of the backend access token, read through this app's server
+ * The token itself never reaches the browser.
+ * @returns Expiry, or null if no token has been set
+ */
+export async function fetchAccessTokenExpiry(): Promise<TokenExpiry | null> {
+  const response = await fetch("/api/auth/token-expiry");
+  const payload = (await response.json().catch(() => null)) as {
+    success: boolean;
+    data?: TokenExpiry | null;
+    error?: string;
+  } | null;
+
+  if (!response.ok || !payload?.success) {
+    throw new Error(
+      payload?.error ||
+        `Token expiry request failed: ${response.status} ${response.statusText}`,
+    );
+  }
+  return payload.data ?? null;
+}
+
+/**
+ * Set the access token used by the backend crawler
+ * @param token - Raw access token
+ */
+export async function setAccessToken(token: string): Promise<void> {
+  await apiRequest<unknown>("/config/access-token", {
+    method: "POST",
+    body: { token },
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Time left until a token expires, e.g. "3 days" or "Expired"
+ * @param exp - Expiry as a Unix timestamp (seconds)
+ */
+export function getTimeRemaining(exp: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const seconds = exp - now;
+
+  if (seconds <= 0) return "Expired";
+
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days} day${days > 1 ? "s" : ""}`;
+  if (hours > 0) return `${hours} hour${hours > 1 ? "s" : ""}`;
+  if (minutes > 0) return `${minutes} minute${minutes > 1 ? "s" : ""}`;
+  return "Less than a minute";
+}
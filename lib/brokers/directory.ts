@@ -0,0 +1,406 @@
+import { BrokerGroup } from "@/components/bigplayer/types";
+import { BROKERS, type Broker } from "@/data/brokers";
+
+/**
+ * Broker directory
+ * Single source of truth for broker lookups, group metadata and colors.
+ * Pages and charts should go through here so a broker looks the same everywhere.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Group names as returned by the backend (/list-brokers) */
+export type BrokerGroupName = "Asing" | "Lokal" | "Pemerintah";
+
+export type BrokerChipColor = "primary" | "secondary" | "warning" | "default";
+
+export interface BrokerGroupMeta {
+  /** Backend group name, empty for unknown */
+  name: BrokerGroupName | "";
+  /** Matching Big Player enum value */
+  enumValue: BrokerGroup;
+  /** Label shown in the UI */
+  displayName: string;
+  /** HeroUI color for chips */
+  chipColor: BrokerChipColor;
+  /** Tailwind text color class */
+  textColor: string;
+}
+
+export interface DirectoryBroker extends Broker {
+  /** True when the code is not in the directory and this entry is a fallback */
+  isUnknown: boolean;
+}
+
+// ============================================================================
+// Group Metadata
+// ============================================================================
+
+export const BROKER_GROUPS: Record<BrokerGroupName, BrokerGroupMeta> = {
+  Asing: {
+    name: "Asing",
+    enumValue: BrokerGroup.FOREIGN,
+    displayName: "Foreign",
+    chipColor: "warning", // Orange
+    textColor: "text-warning",
+  },
+  Lokal: {
+    name: "Lokal",
+    enumValue: BrokerGroup.LOCAL,
+    displayName: "Domestic",
+    chipColor: "secondary", // Purple
+    textColor: "text-secondary",
+  },
+  Pemerintah: {
+    name: "Pemerintah",
+    enumValue: BrokerGroup.GOVERNMENT,
+    displayName: "BUMN",
+    chipColor: "primary", // Blue
+    textColor: "text-primary",
+  },
+};
+
+const UNKNOWN_GROUP: BrokerGroupMeta = {
+  name: "",
+  enumValue: BrokerGroup.UNSPECIFIED,
+  displayName: "Unknown",
+  chipColor: "default",
+  textColor: "text-default-700",
+};
+
+const GROUP_BY_ENUM = new Map<string, BrokerGroupMeta>(
+  Object.values(BROKER_GROUPS).map((meta) => [meta.enumValue, meta]),
+);
+
+/**
+ * Distinct colors for charts; each broker code hashes to a fixed slot
+ */
+export const BROKER_PALETTE = [
+  "#ef4444", // red-500
+  "#f97316", // orange-500
+  "#eab308", // yellow-500
+  "#22c55e", // green-500
+  "#06b6d4", // cyan-500
+  "#3b82f6", // blue-500
+  "#8b5cf6", // violet-500
+  "#d946ef", // fuchsia-500
+  "#ec4899", // pink-500
+  "#6366f1", // indigo-500
+  "#14b8a6", // teal-500
+  "#84cc16", // lime-500
+];
+
+// ============================================================================
+// Directory State
+// ============================================================================
+
+export type BrokerStatus = "active" | "new" | "retired" | "unknown";
+
+export type DirectorySource = "bundled" | "cache" | "backend";
+
+export interface BrokerChange {
+  code: string;
+  before: Broker;
+  after: Broker;
+  /** Fields that differ (name, group, permission) */
+  fields: Array<"name" | "group" | "permission">;
+}
+
+export interface BrokerDirectoryDiff {
+  /** Codes served by the backend but missing from the bundled list */
+  added: Broker[];
+  /** Bundled codes the backend no longer serves (merged, renamed or delisted) */
+  retired: Broker[];
+  /** Codes present in both lists whose details changed */
+  changed: BrokerChange[];
+}
+
+const EMPTY_DIFF: BrokerDirectoryDiff = { added: [], retired: [], changed: [] };
+
+function indexByCode(brokers: Broker[]): Map<string, Broker> {
+  return new Map(brokers.map((broker) => [broker.code.toUpperCase(), broker]));
+}
+
+const bundledByCode = indexByCode(BROKERS);
+
+let brokerList: Broker[] = BROKERS;
+let brokersByCode = bundledByCode;
+let directoryDiff: BrokerDirectoryDiff = EMPTY_DIFF;
+let directorySource: DirectorySource = "bundled";
+let directoryVersion = 0;
+const listeners = new Set<() => void>();
+
+/**
+ * Compare a broker list against the bundled BROKERS constant
+ */
+export function diffBrokerLists(
+  bundled: Broker[],
+  current: Broker[],
+): BrokerDirectoryDiff {
+  const bundledMap = indexByCode(bundled);
+  const currentMap = indexByCode(current);
+  const diff: BrokerDirectoryDiff = { added: [], retired: [], changed: [] };
+
+  currentMap.forEach((broker, code) => {
+    const before = bundledMap.get(code);
+    if (!before) {
+      diff.added.push(broker);
+      return;
+    }
+
+    const fields = (["name", "group", "permission"] as const).filter(
+      (field) => (before[field] || "").trim() !== (broker[field] || "").trim(),
+    );
+    if (fields.length > 0) {
+      diff.changed.push({ code, before, after: broker, fields: [...fields] });
+    }
+  });
+
+  bundledMap.forEach((broker, code) => {
+    if (!currentMap.has(code)) diff.retired.push(broker);
+  });
+
+  return diff;
+}
+
+/**
+ * Replace the directory contents with a list from the backend (or its cache)
+ * Retired bundled brokers stay resolvable by code so historical data still renders.
+ */
+export function setDirectoryBrokers(
+  brokers: Broker[],
+  source: DirectorySource,
+): void {
+  brokerList = [...brokers].sort((a, b) => a.code.localeCompare(b.code));
+  brokersByCode = new Map([
+    ...Array.from(bundledByCode),
+    ...Array.from(indexByCode(brokerList)),
+  ]);
+  directoryDiff = diffBrokerLists(BROKERS, brokerList);
+  directorySource = source;
+  directoryVersion++;
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Subscribe to directory updates (e.g. after a backend sync)
+ * @returns Unsubscribe function
+ */
+export function subscribeDirectory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Incremented on every update; used as a snapshot for useSyncExternalStore
+ */
+export function getDirectoryVersion(): number {
+  return directoryVersion;
+}
+
+/**
+ * Where the current list came from
+ */
+export function getDirectorySource(): DirectorySource {
+  return directorySource;
+}
+
+/**
+ * Differences between the current list and the bundled fallback
+ */
+export function getDirectoryDiff(): BrokerDirectoryDiff {
+  return directoryDiff;
+}
+
+/**
+ * Current (active) brokers, for pickers
+ */
+export function getAllBrokers(): Broker[] {
+  return brokerList;
+}
+
+/**
+ * Whether a code is current, newly added, retired or not known at all
+ */
+export function getBrokerStatus(code: string): BrokerStatus {
+  const key = code.toUpperCase();
+  if (directoryDiff.added.some((broker) => broker.code.toUpperCase() === key))
+    return "new";
+  if (directoryDiff.retired.some((broker) => broker.code.toUpperCase() === key))
+    return "retired";
+  return brokersByCode.has(key) ? "active" : "unknown";
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Find a broker by code (O(1))
+ * @returns The broker, or undefined for unknown codes
+ */
+export function getBroker(code: string): Broker | undefined {
+  return brokersByCode.get(code.toUpperCase());
+}
+
+/**
+ * Find a broker by code, falling back to a placeholder entry for unknown codes
+ */
+export function resolveBroker(code: string): DirectoryBroker {
+  const broker = getBroker(code);
+  if (broker) {
+    return {
+      ...broker,
+      color: broker.color || getBrokerColor(broker.code),
+      isUnknown: false,
+    };
+  }
+
+  return {
+    id: 0,
+    code,
+    name: code,
+    permission: "",
+    group: "",
+    color: getBrokerColor(code),
+    isUnknown: true,
+  };
+}
+
+/**
+ * Backend group name of a broker ("Asing" | "Lokal" | "Pemerintah"), or "" when unknown
+ */
+export function getBrokerGroupCode(code: string): string {
+  return getBroker(code)?.group || "";
+}
+
+/**
+ * Metadata for a group given either its backend name or its BrokerGroup enum value
+ */
+export function getBrokerGroupMeta(group: string): BrokerGroupMeta {
+  return (
+    BROKER_GROUPS[group as BrokerGroupName] ||
+    GROUP_BY_ENUM.get(group) ||
+    UNKNOWN_GROUP
+  );
+}
+
+/**
+ * Convert a backend group name to the Big Player BrokerGroup enum
+ */
+export function toBrokerGroupEnum(group: string): BrokerGroup {
+  return getBrokerGroupMeta(group).enumValue;
+}
+
+/**
+ * Convert a BrokerGroup enum value to the backend group name ("" when unspecified)
+ */
+export function fromBrokerGroupEnum(group: BrokerGroup): BrokerGroupName | "" {
+  return getBrokerGroupMeta(group).name;
+}
+
+export function getBrokerGroupColor(group: string): BrokerChipColor {
+  return getBrokerGroupMeta(group).chipColor;
+}
+
+export function getBrokerGroupTextColor(group: string): string {
+  return getBrokerGroupMeta(group).textColor;
+}
+
+/**
+ * UI label for a group; unknown group names are shown as-is
+ */
+export function getBrokerGroupDisplayName(group: string): string {
+  const meta = getBrokerGroupMeta(group);
+  return meta === UNKNOWN_GROUP ? group || meta.displayName : meta.displayName;
+}
+
+/**
+ * Stable chart color for a broker code
+ * Uses the directory color when set, otherwise hashes the code into BROKER_PALETTE
+ */
+export function getBrokerColor(code: string): string {
+  const explicit = brokersByCode.get(code.toUpperCase())?.color;
+  if (explicit) return explicit;
+
+  let hash = 0;
+  const key = code.toUpperCase();
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return BROKER_PALETTE[hash % BROKER_PALETTE.length];
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Score how well `query` matches `text`
+ * Exact > prefix > word prefix > substring > in-order subsequence (3+ chars); 0 means no match
+ */
+function scoreText(text: string, query: string): number {
+  const haystack = text.toLowerCase();
+  if (haystack === query) return 100;
+  if (haystack.startsWith(query)) return 80;
+  if (haystack.split(/\s+/).some((word) => word.startsWith(query))) return 60;
+  if (haystack.includes(query)) return 40;
+  if (query.length < 3) return 0;
+
+  let position = 0;
+  for (const char of query) {
+    position = haystack.indexOf(char, position);
+    if (position === -1) return 0;
+    position++;
+  }
+  return 10;
+}
+
+/**
+ * Score a broker against a search query (code matches weigh more than name matches)
+ */
+export function scoreBroker(broker: Broker, query: string): number {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) return 1;
+
+  return Math.max(
+    scoreText(broker.code, normalized) * 1.5,
+    scoreText(broker.name, normalized),
+  );
+}
+
+/**
+ * Fuzzy search brokers by code or name, best matches first
+ */
+export function searchBrokers(query: string, limit?: number): Broker[] {
+  const results = brokerList
+    .map((broker) => ({ broker, score: scoreBroker(broker, query) }))
+    .filter((result) => result.score > 0)
+    .sort(
+      (a, b) => b.score - a.score || a.broker.code.localeCompare(b.broker.code),
+    )
+    .map((result) => result.broker);
+
+  return limit ? results.slice(0, limit) : results;
+}
+
+/**
+ * Autocomplete `defaultFilter` for items whose textValue is "CODE - Name"
+ */
+export function brokerAutocompleteFilter(
+  textValue: string,
+  inputValue: string,
+): boolean {
+  const normalized = inputValue.trim().toLowerCase();
+  if (!normalized) return true;
+
+  const [code, ...rest] = textValue.split(" - ");
+  return (
+    scoreText(code, normalized) > 0 ||
+    scoreText(rest.join(" - "), normalized) > 0
+  );
+}
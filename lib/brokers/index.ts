@@ -0,0 +1,6 @@
+/**
+ * Broker module barrel exports
+ */
+
+export * from "./directory";
+export { syncBrokerDirectory } from "./sync";
@@ -0,0 +1,95 @@
+import type { Broker } from "@/data/brokers";
+import { fetchBrokerList } from "@/lib/api/broker";
+import {
+  getDirectoryDiff,
+  setDirectoryBrokers,
+  type BrokerDirectoryDiff,
+} from "./directory";
+
+/**
+ * Broker directory sync
+ * Loads the broker list from /list-brokers at startup, caches it in localStorage
+ * and keeps the bundled BROKERS constant as the offline fallback.
+ */
+
+const STORAGE_KEY = "broker-directory";
+const SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface StoredDirectory {
+  syncedAt: number;
+  brokers: Broker[];
+}
+
+let syncPromise: Promise<BrokerDirectoryDiff | null> | null = null;
+
+function readStoredDirectory(): StoredDirectory | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const item = localStorage.getItem(STORAGE_KEY);
+    const stored = item ? (JSON.parse(item) as StoredDirectory) : null;
+    return stored && Array.isArray(stored.brokers) && stored.brokers.length > 0
+      ? stored
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredDirectory(brokers: Broker[]): void {
+  try {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ syncedAt: Date.now(), brokers }),
+    );
+  } catch (error) {
+    console.warn("[BrokerDirectory] Failed to cache broker list:", error);
+  }
+}
+
+/**
+ * Sync the directory with the backend
+ * Applies the localStorage copy first, then refreshes it when older than a day.
+ * Failures keep whatever list is already loaded (cache or bundled).
+ * @param force - Ignore the cache age and always fetch
+ * @returns The diff against the bundled list, or null when nothing could be loaded
+ */
+export function syncBrokerDirectory(
+  force = false,
+): Promise<BrokerDirectoryDiff | null> {
+  if (syncPromise && !force) return syncPromise;
+
+  syncPromise = (async () => {
+    const stored = readStoredDirectory();
+    if (stored) {
+      setDirectoryBrokers(stored.brokers, "cache");
+      if (!force && Date.now() - stored.syncedAt < SYNC_INTERVAL_MS) {
+        return getDirectoryDiff();
+      }
+    }
+
+    try {
+      const brokers = await fetchBrokerList();
+      if (brokers.length === 0) return stored ? getDirectoryDiff() : null;
+
+      setDirectoryBrokers(brokers, "backend");
+      writeStoredDirectory(brokers);
+
+      const diff = getDirectoryDiff();
+      if (diff.added.length > 0 || diff.retired.length > 0) {
+        console.info(
+          `[BrokerDirectory] ${diff.added.length} new, ${diff.retired.length} retired, ${diff.changed.length} changed vs bundled list`,
+        );
+      }
+      return diff;
+    } catch (error) {
+      console.warn(
+        "[BrokerDirectory] Sync failed, using fallback list:",
+        error,
+      );
+      return stored ? getDirectoryDiff() : null;
+    }
+  })();
+
+  return syncPromise;
+}
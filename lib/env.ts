@@ -11,6 +11,8 @@ const envSchema = {
   firebaseAppId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
   firebaseMeasurementId: process.env.NEXT_PUBLIC_FIREBASE_MEASUREMENT_ID,
   appEnv: process.env.NEXT_PUBLIC_APP_ENV || 'development',
+  mockApi: process.env.NEXT_PUBLIC_API_MOCK,
+  queryCachePersist: process.env.NEXT_PUBLIC_QUERY_CACHE_PERSIST,
 };
 
 // Type-safe environment variables
@@ -66,6 +68,19 @@ export const env = {
   get isProduction() {
     return envSchema.appEnv === 'production';
   },
+  /**
+   * Offline mock backend mode: API calls go to /api/mock route handlers
+   * that serve the fixtures in mock/ (set NEXT_PUBLIC_API_MOCK=true)
+   */
+  get isMockApi() {
+    return envSchema.mockApi === "true";
+  },
+  /**
+   * Persist the client query cache in IndexedDB across reloads
+   */
+  get isQueryCachePersistent() {
+    return envSchema.queryCachePersist === "true";
+  },
 } as const;
 
 export type Env = typeof env;
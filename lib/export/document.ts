@@ -0,0 +1,108 @@
+/**
+ * Export document model and CSV serializer
+ * Tables keep raw numeric values; formatting is left to the spreadsheet.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  /** Declared as a method so a typed table still fits ExportDocument's ExportTable<unknown> */
+  value(row: T): ExportCell;
+}
+
+export interface ExportTable<T = unknown> {
+  /** Sheet name in XLSX, section title in CSV */
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+export interface ExportDocument {
+  /** File name without extension */
+  filename: string;
+  /** Metadata rows written above every table, e.g. Symbol, Brokers, Date Range */
+  metadata: Record<string, ExportCell>;
+  tables: ExportTable[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Metadata as label/value rows, with the export timestamp appended
+ */
+export function getMetadataRows(document: ExportDocument): ExportCell[][] {
+  return Object.keys(document.metadata)
+    .filter(
+      (key) =>
+        document.metadata[key] !== undefined && document.metadata[key] !== "",
+    )
+    .map((key) => [key, document.metadata[key]])
+    .concat([["Exported At", new Date().toISOString()]]);
+}
+
+/**
+ * Header row followed by one row of raw values per record
+ */
+export function getTableRows(table: ExportTable): ExportCell[][] {
+  return [
+    table.columns.map((column) => column.header),
+    ...table.rows.map((row) =>
+      table.columns.map((column) => column.value(row)),
+    ),
+  ];
+}
+
+/**
+ * Number of data records across all tables
+ */
+export function countExportRecords(document: ExportDocument): number {
+  return document.tables.reduce((sum, table) => sum + table.rows.length, 0);
+}
+
+/**
+ * Build a file-system safe name such as "broker-calendar_FORE_2025-01-01_2025-03-31"
+ */
+export function buildExportFilename(
+  ...parts: Array<string | undefined>
+): string {
+  return parts
+    .filter((part): part is string => !!part)
+    .map((part) => part.replace(/[^a-zA-Z0-9._-]+/g, "-"))
+    .join("_");
+}
+
+function escapeCsvCell(value: ExportCell): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Serialize to CSV: metadata block, then each table with its name as a title row
+ */
+export function buildCsv(document: ExportDocument): string {
+  const lines: ExportCell[][] = [...getMetadataRows(document)];
+
+  document.tables.forEach((table) => {
+    lines.push([], [table.name], ...getTableRows(table));
+  });
+
+  // BOM so Excel opens the file as UTF-8
+  return (
+    "\uFEFF" +
+    lines.map((line) => line.map(escapeCsvCell).join(",")).join("\r\n")
+  );
+}
@@ -0,0 +1,41 @@
+import { buildCsv, type ExportDocument, type ExportFormat } from "./document";
+import { buildXlsx } from "./xlsx";
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * Save a blob through a temporary object URL
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.style.display = "none";
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Serialize a document and download it
+ * @returns Size of the written file in bytes
+ */
+export function exportDocument(
+  exportDoc: ExportDocument,
+  format: ExportFormat,
+): number {
+  if (exportDoc.tables.length === 0) {
+    throw new Error("Nothing to export");
+  }
+
+  const content = format === "csv" ? buildCsv(exportDoc) : buildXlsx(exportDoc);
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+
+  downloadBlob(blob, `${exportDoc.filename}.${format}`);
+  return blob.size;
+}
@@ -0,0 +1,7 @@
+/**
+ * Export module barrel exports
+ */
+
+export * from "./document";
+export * from "./download";
+export { buildXlsx } from "./xlsx";
@@ -21,6 +21,8 @@ import type {
   ApiCallPerformanceParams,
   ThemeChangedParams,
   ErrorOccurredParams,
+  DataExportInitiatedParams,
+  DataExportCompletedParams,
   ShareLinkGeneratedParams,
   ShareLinkClickedParams,
   BigPlayerMovementViewParams,
@@ -257,6 +259,40 @@ class AnalyticsService {
     } as ErrorOccurredParams);
   }
 
+  /**
+   * Track data export start
+   */
+  trackDataExportInitiated(
+    format: DataExportInitiatedParams["format"],
+    dataType: DataExportInitiatedParams["data_type"],
+    recordCount: number,
+    source?: string
+  ): void {
+    this.trackEvent("data_export_initiated", {
+      format,
+      data_type: dataType,
+      record_count: recordCount,
+      source,
+    } as DataExportInitiatedParams);
+  }
+
+  /**
+   * Track data export completion
+   */
+  trackDataExportCompleted(
+    format: string,
+    fileSizeBytes: number,
+    durationMs: number,
+    source?: string
+  ): void {
+    this.trackEvent("data_export_completed", {
+      format,
+      file_size_bytes: fileSizeBytes,
+      duration_ms: durationMs,
+      source,
+    } as DataExportCompletedParams);
+  }
+
   /**
    * Track share link generation
    */
@@ -310,7 +346,7 @@ class AnalyticsService {
    * Track Big Player Movement filter changes
    */
   trackBigPlayerFilterChanged(
-    filterType: 'date_preset' | 'date_start' | 'date_end' | 'symbol_search' | 'action_type',
+    filterType: "date_preset" | "date_start" | "date_end" | "symbol_search" | "action_type" | "watchlist" | "grouping" | "advanced",
     filterValue: string,
     previousValue?: string
   ): void {
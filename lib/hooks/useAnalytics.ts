@@ -152,6 +152,31 @@ export function useAnalytics() {
     return analyticsService.getDeviceId();
   }, []);
 
+  /**
+   * Track data export start
+   */
+  const trackDataExportInitiated = useCallback(
+    (
+      format: "csv" | "json" | "excel",
+      dataType: "summary" | "calendar" | "full",
+      recordCount: number,
+      source?: string
+    ) => {
+      analyticsService.trackDataExportInitiated(format, dataType, recordCount, source);
+    },
+    []
+  );
+
+  /**
+   * Track data export completion
+   */
+  const trackDataExportCompleted = useCallback(
+    (format: string, fileSizeBytes: number, durationMs: number, source?: string) => {
+      analyticsService.trackDataExportCompleted(format, fileSizeBytes, durationMs, source);
+    },
+    []
+  );
+
   /**
    * Track share link generation
    */
@@ -217,7 +242,7 @@ export function useAnalytics() {
    */
   const trackBigPlayerFilterChanged = useCallback(
     (
-      filterType: 'date_preset' | 'date_start' | 'date_end' | 'symbol_search' | 'action_type',
+      filterType: "date_preset" | "date_start" | "date_end" | "symbol_search" | "action_type" | "watchlist" | "grouping" | "advanced",
       filterValue: string,
       previousValue?: string
     ) => {
@@ -567,6 +592,8 @@ export function useAnalytics() {
     trackThemeChanged,
     trackError,
     getDeviceId,
+    trackDataExportInitiated,
+    trackDataExportCompleted,
     trackShareLinkGenerated,
     trackShareLinkClicked,
     trackBrokerFlowButtonClicked,
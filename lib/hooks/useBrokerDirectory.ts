@@ -0,0 +1,39 @@
+/**
+ * useBrokerDirectory Hook
+ * Re-renders when the broker directory is synced with the backend
+ */
+
+"use client";
+
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  getAllBrokers,
+  getDirectoryDiff,
+  getDirectorySource,
+  getDirectoryVersion,
+  subscribeDirectory,
+  syncBrokerDirectory,
+} from "@/lib/brokers";
+
+/**
+ * Current broker list plus its diff against the bundled fallback
+ * Triggers a sync on first use (no-op when one already ran).
+ */
+export function useBrokerDirectory() {
+  const version = useSyncExternalStore(
+    subscribeDirectory,
+    getDirectoryVersion,
+    () => 0,
+  );
+
+  useEffect(() => {
+    void syncBrokerDirectory();
+  }, []);
+
+  return {
+    brokers: getAllBrokers(),
+    diff: getDirectoryDiff(),
+    source: getDirectorySource(),
+    version,
+  };
+}
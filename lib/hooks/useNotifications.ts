@@ -0,0 +1,21 @@
+/**
+ * useNotifications Hook
+ * Re-renders when a notification is published, read or removed (in this or another tab)
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  getNotifications,
+  getServerNotifications,
+  subscribeNotifications,
+} from "@/lib/notifications";
+
+export function useNotifications() {
+  return useSyncExternalStore(
+    subscribeNotifications,
+    getNotifications,
+    getServerNotifications,
+  );
+}
@@ -0,0 +1,21 @@
+/**
+ * useValuationScenarios Hook
+ * Re-renders when a valuation scenario is saved or deleted (in this or another tab)
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  getScenarios,
+  getServerScenarios,
+  subscribeScenarios,
+} from "@/lib/valuation";
+
+export function useValuationScenarios() {
+  return useSyncExternalStore(
+    subscribeScenarios,
+    getScenarios,
+    getServerScenarios,
+  );
+}
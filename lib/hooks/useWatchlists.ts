@@ -0,0 +1,21 @@
+/**
+ * useWatchlists Hook
+ * Re-renders when any watchlist is created, edited or deleted (in this or another tab)
+ */
+
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  getServerWatchlists,
+  getWatchlists,
+  subscribeWatchlists,
+} from "@/lib/watchlists";
+
+export function useWatchlists() {
+  return useSyncExternalStore(
+    subscribeWatchlists,
+    getWatchlists,
+    getServerWatchlists,
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Mock filter helpers
+ * Date parsing and number formatting matching the real backend payloads
+ */
+
+const MONTHS: Record<string, number> = {
+  Jan: 0,
+  Feb: 1,
+  Mar: 2,
+  Apr: 3,
+  May: 4,
+  Jun: 5,
+  Jul: 6,
+  Aug: 7,
+  Sep: 8,
+  Oct: 9,
+  Nov: 10,
+  Dec: 11,
+};
+
+/**
+ * Parse the date formats used across fixtures into a UTC timestamp
+ * Supports "2025-11-03", "20251201" and "14 Jan 26"
+ * @returns Timestamp in ms, or NaN when the value cannot be parsed
+ */
+export function parseMockDate(value: string): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return Date.parse(`${value}T00:00:00Z`);
+  }
+
+  if (/^\d{8}$/.test(value)) {
+    return Date.UTC(
+      Number(value.slice(0, 4)),
+      Number(value.slice(4, 6)) - 1,
+      Number(value.slice(6, 8)),
+    );
+  }
+
+  const match = value.match(/^(\d{1,2}) ([A-Za-z]{3}) (\d{2}|\d{4})$/);
+  if (match && match[2] in MONTHS) {
+    const year =
+      match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return Date.UTC(year, MONTHS[match[2]], Number(match[1]));
+  }
+
+  return NaN;
+}
+
+/**
+ * Check whether a fixture date falls inside an optional YYYY-MM-DD range
+ */
+export function isWithinRange(
+  date: string,
+  from?: string | null,
+  to?: string | null,
+): boolean {
+  const time = parseMockDate(date);
+  if (isNaN(time)) return true;
+  if (from && time < parseMockDate(from)) return false;
+  if (to && time > parseMockDate(to)) return false;
+  return true;
+}
+
+/**
+ * Format a number the way the calendar endpoint does ("15656.6B", "(711.3M)")
+ */
+export function formatMockNumber(value: number): string {
+  const abs = Math.abs(value);
+  let formatted: string;
+
+  if (abs >= 1e9) {
+    formatted = `${(abs / 1e9).toFixed(1)}B`;
+  } else if (abs >= 1e6) {
+    formatted = `${(abs / 1e6).toFixed(1)}M`;
+  } else if (abs >= 1e3) {
+    formatted = `${(abs / 1e3).toFixed(1)}K`;
+  } else {
+    formatted = `${abs}`;
+  }
+
+  return value < 0 ? `(${formatted})` : formatted;
+}
+
+/**
+ * Read a symbol query parameter, normalized to upper case
+ */
+export function readSymbol(
+  searchParams: URLSearchParams,
+  key = "symbol",
+): string | null {
+  const value = searchParams.get(key);
+  return value ? value.trim().toUpperCase() : null;
+}
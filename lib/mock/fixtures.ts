@@ -0,0 +1,50 @@
+/**
+ * Mock fixtures
+ * Typed access to the recorded API responses in mock/
+ */
+
+import type { BigPlayerResponse } from "@/components/bigplayer/types";
+import type { Broker } from "@/data/brokers";
+import type {
+  BrokerActivityResponse,
+  BrokerSummaryResponse,
+  EmittenCalendarResponse,
+} from "@/lib/api/broker";
+import type { EmittenInfo, KeyStats, Profile } from "@/lib/api/emitten";
+
+import bigPlayersJson from "@/mock/api-big-players.json";
+import brokerCalendarJson from "@/mock/api-broker-calendar.json";
+import brokerSummaryJson from "@/mock/api-broker-summary.json";
+import emittenInfoJson from "@/mock/api-emitten-info.json";
+import emittenKeyStatsJson from "@/mock/api-emitten-key-stats.json";
+import emittenProfileJson from "@/mock/api-emitten-profile.json";
+import listBrokersJson from "@/mock/api-list-brokers.json";
+import brokerActivityJson from "@/mock/broker-activity.json";
+
+export const bigPlayersFixture = bigPlayersJson as unknown as BigPlayerResponse;
+export const brokerCalendarFixture =
+  brokerCalendarJson as unknown as EmittenCalendarResponse;
+export const brokerSummaryFixture =
+  brokerSummaryJson as unknown as BrokerSummaryResponse;
+export const brokerActivityFixture =
+  brokerActivityJson as unknown as BrokerActivityResponse;
+export const emittenInfoFixture = emittenInfoJson as unknown as {
+  data: EmittenInfo;
+};
+export const emittenKeyStatsFixture = emittenKeyStatsJson as unknown as {
+  data: KeyStats;
+};
+export const emittenProfileFixture = emittenProfileJson as unknown as {
+  data: Profile;
+};
+export const listBrokersFixture = listBrokersJson as unknown as {
+  message: string;
+  data: Broker[];
+};
+
+/**
+ * Deep copy a fixture so handlers can mutate the result freely
+ */
+export function cloneFixture<T>(fixture: T): T {
+  return JSON.parse(JSON.stringify(fixture)) as T;
+}
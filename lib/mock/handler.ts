@@ -0,0 +1,70 @@
+/**
+ * Mock route helpers
+ * Simulated latency and error injection shared by every app/api/mock handler
+ *
+ * Server env:
+ * - MOCK_API_LATENCY_MS: base latency per request (default 300)
+ * - MOCK_API_ERROR_RATE: probability 0..1 that a request fails (default 0)
+ * - MOCK_API_ERROR_STATUS: status code used for injected errors (default 500)
+ *
+ * Per-request overrides (handy with curl): ?mock_latency=1500&mock_error=503
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+
+const DEFAULT_LATENCY_MS = Number(process.env.MOCK_API_LATENCY_MS ?? 300);
+const DEFAULT_ERROR_RATE = Number(process.env.MOCK_API_ERROR_RATE ?? 0);
+const DEFAULT_ERROR_STATUS = Number(process.env.MOCK_API_ERROR_STATUS ?? 500);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Build an error response shaped like the real backend's
+ */
+export function mockError(status: number, message: string): NextResponse {
+  return NextResponse.json({ message }, { status });
+}
+
+/**
+ * Wrap a fixture builder with simulated latency and error injection
+ * @param request - Incoming request (read for per-request overrides)
+ * @param build - Returns the response body, or a NextResponse for custom statuses
+ */
+export async function mockResponse(
+  request: NextRequest,
+  build: () => unknown | Promise<unknown>,
+): Promise<NextResponse> {
+  const { searchParams } = request.nextUrl;
+
+  const latencyParam = Number(searchParams.get("mock_latency"));
+  const latency =
+    Number.isFinite(latencyParam) && latencyParam > 0
+      ? latencyParam
+      : DEFAULT_LATENCY_MS;
+  // +/- 30% jitter so loading states look realistic
+  await sleep(Math.max(0, latency * (0.7 + Math.random() * 0.6)));
+
+  const forcedStatus = Number(searchParams.get("mock_error"));
+  if (forcedStatus >= 400) {
+    return mockError(forcedStatus, `Mock error injected (${forcedStatus})`);
+  }
+
+  if (DEFAULT_ERROR_RATE > 0 && Math.random() < DEFAULT_ERROR_RATE) {
+    return mockError(
+      DEFAULT_ERROR_STATUS,
+      `Mock error injected (${DEFAULT_ERROR_STATUS})`,
+    );
+  }
+
+  try {
+    const body = await build();
+    return body instanceof NextResponse ? body : NextResponse.json(body);
+  } catch (error) {
+    return mockError(
+      500,
+      error instanceof Error ? error.message : "Mock handler failed",
+    );
+  }
+}
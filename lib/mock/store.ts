@@ -0,0 +1,53 @@
+/**
+ * In-memory state for mock endpoints that write data
+ * Resets whenever the dev server restarts
+ */
+
+import type { ShareLinkRequest, SharedLinkData } from "@/lib/api/share";
+import type { TokenInfo } from "@/lib/api/token";
+
+export const mockShareLinks = new Map<string, SharedLinkData>();
+
+let mockAccessToken: TokenInfo | null = null;
+
+/**
+ * Store a share link and return its record
+ */
+export function createMockShareLink(request: ShareLinkRequest): SharedLinkData {
+  const slug = request.customSlug || Math.random().toString(36).substring(2, 8);
+  const now = Date.now();
+  const ttlMs = (request.ttlDays || 7) * 24 * 60 * 60 * 1000;
+
+  const record: SharedLinkData = {
+    slug,
+    queryParams: {
+      symbol: request.symbol,
+      from: request.from,
+      to: request.to,
+      broker_code: request.broker_code,
+    },
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + ttlMs).toISOString(),
+    clickCount: 0,
+    isCustomSlug: Boolean(request.customSlug),
+    isValid: true,
+    remainingTime: ttlMs,
+  };
+
+  mockShareLinks.set(slug, record);
+  return record;
+}
+
+export function getMockAccessToken(): TokenInfo | null {
+  return mockAccessToken;
+}
+
+export function setMockAccessToken(token: string): TokenInfo {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  mockAccessToken = {
+    iat: issuedAt,
+    exp: issuedAt + 24 * 60 * 60,
+    profile_token: token,
+  };
+  return mockAccessToken;
+}
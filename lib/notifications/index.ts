@@ -0,0 +1,6 @@
+/**
+ * Notification module barrel exports
+ */
+
+export * from "./store";
+export * from "./watchers";
@@ -0,0 +1,236 @@
+/**
+ * Notification store
+ * Persistent in-app notifications (analysis results, backend status, share
+ * links, alerts) kept in localStorage. Page code publishes through
+ * `publishNotification`; the navbar notification center reads them through
+ * useNotifications and other open tabs pick changes up through the storage event.
+ */
+
+import {
+  createPersistedStore,
+  createStoreId,
+} from "@/lib/utils/persisted-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationCategory = "analysis" | "backend" | "share" | "alert";
+
+export type NotificationLevel = "info" | "success" | "warning" | "danger";
+
+export interface AppNotification {
+  id: string;
+  category: NotificationCategory;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  /** App path (or absolute URL) restoring the page state the notification is about */
+  href?: string;
+  /** Notifications with the same key are only published once */
+  dedupeKey?: string;
+  createdAt: number;
+  read: boolean;
+}
+
+export type NotificationInput = Pick<
+  AppNotification,
+  "category" | "title" | "message"
+> &
+  Partial<Pick<AppNotification, "level" | "href" | "dedupeKey">>;
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const NOTIFICATION_STORAGE_KEY = "notifications";
+
+/** Dedupe keys already published, kept so cleared notifications are not published again */
+const PUBLISHED_KEYS_STORAGE_KEY = "notifications:published-keys";
+
+export const NOTIFICATION_CATEGORIES: Array<{
+  key: NotificationCategory;
+  label: string;
+}> = [
+  { key: "analysis", label: "Analysis" },
+  { key: "backend", label: "Backend" },
+  { key: "share", label: "Share Links" },
+  { key: "alert", label: "Alerts" },
+];
+
+/** Oldest notifications are dropped beyond this */
+const MAX_NOTIFICATIONS = 200;
+const MAX_PUBLISHED_KEYS = 500;
+
+const EMPTY_NOTIFICATIONS: AppNotification[] = [];
+
+// ============================================================================
+// State
+// ============================================================================
+
+const store = createPersistedStore<AppNotification[]>({
+  key: NOTIFICATION_STORAGE_KEY,
+  fallback: EMPTY_NOTIFICATIONS,
+  label: "Notifications",
+  parse: (stored) =>
+    Array.isArray(stored)
+      ? stored.filter(
+          (notification): notification is AppNotification =>
+            !!notification &&
+            typeof notification.id === "string" &&
+            typeof notification.title === "string",
+        )
+      : EMPTY_NOTIFICATIONS,
+});
+
+function readPublishedKeys(): string[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(PUBLISHED_KEYS_STORAGE_KEY) || "[]",
+    );
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function rememberPublishedKey(key: string): void {
+  try {
+    const keys = [
+      key,
+      ...readPublishedKeys().filter((item) => item !== key),
+    ].slice(0, MAX_PUBLISHED_KEYS);
+    localStorage.setItem(PUBLISHED_KEYS_STORAGE_KEY, JSON.stringify(keys));
+  } catch {
+    // Dedupe then only covers the notifications still in the list
+  }
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * All notifications, newest first
+ * The array is replaced on every change, so it can be used as a useSyncExternalStore snapshot.
+ */
+export function getNotifications(): AppNotification[] {
+  return store.get();
+}
+
+/**
+ * Server snapshot (no localStorage during SSR)
+ */
+export function getServerNotifications(): AppNotification[] {
+  return store.getServerSnapshot();
+}
+
+export function countUnread(
+  list: AppNotification[],
+  category?: NotificationCategory,
+): number {
+  return list.filter(
+    (notification) =>
+      !notification.read && (!category || notification.category === category),
+  ).length;
+}
+
+/**
+ * Subscribe to notification changes, including changes made in other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeNotifications(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Publish a notification
+ * No-op on the server. A `dedupeKey` that was published before (even if that
+ * notification was cleared since) is not published again.
+ * @returns The new notification, or null when nothing was published
+ */
+export function publishNotification(
+  input: NotificationInput,
+): AppNotification | null {
+  if (typeof window === "undefined") return null;
+
+  const list = getNotifications();
+  if (input.dedupeKey) {
+    const key = input.dedupeKey;
+    if (
+      list.some((notification) => notification.dedupeKey === key) ||
+      readPublishedKeys().includes(key)
+    ) {
+      return null;
+    }
+    rememberPublishedKey(key);
+  }
+
+  const notification: AppNotification = {
+    id: createStoreId("nt"),
+    category: input.category,
+    level: input.level || "info",
+    title: input.title,
+    message: input.message,
+    href: input.href,
+    dedupeKey: input.dedupeKey,
+    createdAt: Date.now(),
+    read: false,
+  };
+
+  store.set([notification, ...list].slice(0, MAX_NOTIFICATIONS));
+  return notification;
+}
+
+export function markNotificationRead(id: string): void {
+  const list = getNotifications();
+  if (
+    !list.some((notification) => notification.id === id && !notification.read)
+  )
+    return;
+  store.set(
+    list.map((notification) =>
+      notification.id === id ? { ...notification, read: true } : notification,
+    ),
+  );
+}
+
+/**
+ * Mark everything (or one category) as read
+ */
+export function markAllNotificationsRead(
+  category?: NotificationCategory,
+): void {
+  const list = getNotifications();
+  if (countUnread(list, category) === 0) return;
+  store.set(
+    list.map((notification) =>
+      !category || notification.category === category
+        ? { ...notification, read: true }
+        : notification,
+    ),
+  );
+}
+
+export function removeNotification(id: string): void {
+  store.set(
+    getNotifications().filter((notification) => notification.id !== id),
+  );
+}
+
+/**
+ * Remove everything (or one category)
+ */
+export function clearNotifications(category?: NotificationCategory): void {
+  store.set(
+    category
+      ? getNotifications().filter(
+          (notification) => notification.category !== category,
+        )
+      : [],
+  );
+}
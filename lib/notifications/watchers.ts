@@ -0,0 +1,186 @@
+/**
+ * Background notification sources
+ * Periodically checks the backend access token, tracked share links and the
+ * in-app alert channel and publishes a notification for anything that needs
+ * attention. Started once per session from the app providers.
+ */
+
+import { fetchAlertHistory, getAlertsApiKey } from "@/lib/api/alerts";
+import { fetchAccessTokenExpiry, getTimeRemaining } from "@/lib/api/token";
+import { publishNotification } from "./store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TrackedShareLink {
+  slug: string;
+  url: string;
+  expiresAt: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Warn this long before the access token or a share link expires */
+const EXPIRY_WARNING_MS = 24 * 60 * 60 * 1000;
+
+const SHARE_LINKS_STORAGE_KEY = "notifications:share-links";
+const ALERTS_SINCE_STORAGE_KEY = "notifications:alerts-since";
+
+// ============================================================================
+// Share links
+// ============================================================================
+
+function readTrackedShareLinks(): TrackedShareLink[] {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(SHARE_LINKS_STORAGE_KEY) || "[]",
+    );
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeTrackedShareLinks(links: TrackedShareLink[]): void {
+  try {
+    localStorage.setItem(SHARE_LINKS_STORAGE_KEY, JSON.stringify(links));
+  } catch (error) {
+    console.warn("[Notifications] Failed to persist share links:", error);
+  }
+}
+
+/**
+ * Remember a share link created in this browser so its expiry can be announced
+ */
+export function trackShareLink(link: TrackedShareLink): void {
+  if (typeof window === "undefined") return;
+  writeTrackedShareLinks([
+    ...readTrackedShareLinks().filter((item) => item.slug !== link.slug),
+    link,
+  ]);
+}
+
+function checkShareLinks(): void {
+  const now = Date.now();
+  const remaining: TrackedShareLink[] = [];
+
+  readTrackedShareLinks().forEach((link) => {
+    const msLeft = new Date(link.expiresAt).getTime() - now;
+
+    if (msLeft <= 0) {
+      publishNotification({
+        category: "share",
+        level: "info",
+        title: "Share link expired",
+        message: `/${link.slug} no longer opens the shared analysis.`,
+        href: link.url,
+        dedupeKey: `share-expired-${link.slug}-${link.expiresAt}`,
+      });
+      return;
+    }
+
+    if (msLeft <= EXPIRY_WARNING_MS) {
+      publishNotification({
+        category: "share",
+        level: "warning",
+        title: "Share link expires soon",
+        message: `/${link.slug} expires in ${getTimeRemaining(Math.floor(new Date(link.expiresAt).getTime() / 1000))}.`,
+        href: link.url,
+        dedupeKey: `share-expiring-${link.slug}-${link.expiresAt}`,
+      });
+    }
+    remaining.push(link);
+  });
+
+  writeTrackedShareLinks(remaining);
+}
+
+// ============================================================================
+// Backend status
+// ============================================================================
+
+async function checkAccessToken(): Promise<void> {
+  const token = await fetchAccessTokenExpiry();
+  if (!token) return;
+
+  const msLeft = token.exp * 1000 - Date.now();
+  if (msLeft <= 0) {
+    publishNotification({
+      category: "backend",
+      level: "danger",
+      title: "Access token expired",
+      message:
+        "The backend crawler can no longer fetch new data. Set a new token.",
+      href: "/token",
+      dedupeKey: `token-expired-${token.exp}`,
+    });
+  } else if (msLeft <= EXPIRY_WARNING_MS) {
+    publishNotification({
+      category: "backend",
+      level: "warning",
+      title: "Access token expires soon",
+      message: `The backend access token expires in ${getTimeRemaining(token.exp)}.`,
+      href: "/token",
+      dedupeKey: `token-expiring-${token.exp}`,
+    });
+  }
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+async function pollAlerts(): Promise<void> {
+  // The alert routes need the key entered on /alerts
+  if (!getAlertsApiKey()) return;
+
+  const since = localStorage.getItem(ALERTS_SINCE_STORAGE_KEY) || undefined;
+  const { events } = await fetchAlertHistory({ since, channel: "in_app" });
+
+  // Oldest first so the newest ends up on top of the list
+  [...events].reverse().forEach((event) => {
+    publishNotification({
+      category: "alert",
+      level: "warning",
+      title: event.title,
+      message: event.message,
+      href: event.href,
+      dedupeKey: `alert-${event.id}`,
+    });
+  });
+
+  if (events.length > 0) {
+    localStorage.setItem(ALERTS_SINCE_STORAGE_KEY, events[0].triggeredAt);
+  }
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+function runChecks(): void {
+  checkShareLinks();
+  checkAccessToken().catch((error) =>
+    console.warn("[Notifications] Token check failed:", error),
+  );
+  pollAlerts().catch((error) =>
+    console.warn("[Notifications] Alert poll failed:", error),
+  );
+}
+
+/**
+ * Run every check now and then every 15 minutes
+ * @returns Stop function
+ */
+export function startNotificationWatchers(): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  runChecks();
+  const timer = window.setInterval(runChecks, CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
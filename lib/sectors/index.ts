@@ -0,0 +1,5 @@
+/**
+ * Sector index barrel exports
+ */
+
+export * from "./store";
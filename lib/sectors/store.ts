@@ -0,0 +1,133 @@
+/**
+ * Emitten sector index
+ * Sector and sub-sector of every emitten whose info this browser has loaded,
+ * persisted in localStorage. No API lists emittens by sector, so this is where
+ * same-sub-sector peers are looked up. Filled by fetchEmittenInfo.
+ */
+
+import type { EmittenInfo } from "@/lib/api/emitten";
+
+import { createPersistedStore } from "@/lib/utils/persisted-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SectorEntry {
+  symbol: string;
+  name: string;
+  sector: string;
+  subSector: string;
+  /** Epoch ms the info was last loaded */
+  seenAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const SECTOR_INDEX_STORAGE_KEY = "emitten-sectors";
+
+/** Roughly twice the number of listed IDX emittens; the least recently seen are dropped first */
+const MAX_ENTRIES = 2000;
+
+// ============================================================================
+// State
+// ============================================================================
+
+const store = createPersistedStore<Record<string, SectorEntry>>({
+  key: SECTOR_INDEX_STORAGE_KEY,
+  fallback: {},
+  label: "Sectors",
+  parse: (stored) =>
+    stored && typeof stored === "object" && !Array.isArray(stored)
+      ? Object.fromEntries(
+          Object.entries(stored as Record<string, SectorEntry>).filter(
+            ([, entry]) =>
+              !!entry &&
+              typeof entry.symbol === "string" &&
+              typeof entry.subSector === "string",
+          ),
+        )
+      : {},
+});
+
+function normalizeSubSector(subSector: string): string {
+  return subSector.trim().toLowerCase();
+}
+
+/** Persist the index, dropping the least recently seen entries beyond MAX_ENTRIES */
+function persist(entries: Record<string, SectorEntry>): void {
+  const all = Object.values(entries);
+  store.set(
+    all.length > MAX_ENTRIES
+      ? Object.fromEntries(
+          all
+            .sort((a, b) => b.seenAt - a.seenAt)
+            .slice(0, MAX_ENTRIES)
+            .map((entry) => [entry.symbol, entry]),
+        )
+      : entries,
+  );
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+export function getSectorEntry(symbol: string): SectorEntry | undefined {
+  return store.get()[symbol.toUpperCase()];
+}
+
+/**
+ * Known symbols in a sub-sector (case-insensitive), alphabetical
+ */
+export function findSymbolsInSubSector(subSector: string): string[] {
+  const key = normalizeSubSector(subSector);
+  if (!key) return [];
+
+  return Object.values(store.get())
+    .filter((entry) => normalizeSubSector(entry.subSector) === key)
+    .map((entry) => entry.symbol)
+    .sort();
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Remember an emitten's sector (client-only; no-op during SSR)
+ * Only writes to localStorage when the sector, sub-sector or name changed, or
+ * the entry was last refreshed more than a day ago.
+ */
+export function recordEmittenSector(
+  info: Pick<EmittenInfo, "symbol" | "name" | "sector" | "sub_sector">,
+): void {
+  if (typeof window === "undefined" || !info.symbol || !info.sub_sector) return;
+
+  const entries = store.get();
+  const symbol = info.symbol.toUpperCase();
+  const existing = entries[symbol];
+  const now = Date.now();
+  if (
+    existing &&
+    existing.name === info.name &&
+    existing.sector === info.sector &&
+    existing.subSector === info.sub_sector &&
+    now - existing.seenAt < 24 * 60 * 60 * 1000
+  ) {
+    return;
+  }
+
+  persist({
+    ...entries,
+    [symbol]: {
+      symbol,
+      name: info.name,
+      sector: info.sector,
+      subSector: info.sub_sector,
+      seenAt: now,
+    },
+  });
+}
@@ -125,17 +125,19 @@ export interface ErrorOccurredParams extends BaseEventParams {
   fatal: boolean;
 }
 
-// Data Export Events (for future use)
+// Data Export Events
 export interface DataExportInitiatedParams extends BaseEventParams {
   format: 'csv' | 'json' | 'excel';
   data_type: 'summary' | 'calendar' | 'full';
   record_count: number;
+  source?: string;
 }
 
 export interface DataExportCompletedParams extends BaseEventParams {
   format: string;
   file_size_bytes: number;
   duration_ms: number;
+  source?: string;
 }
 
 // Share Link Events
@@ -161,7 +163,7 @@ export interface BigPlayerMovementViewParams extends BaseEventParams {
 }
 
 export interface BigPlayerFilterChangedParams extends BaseEventParams {
-  filter_type: 'date_preset' | 'date_start' | 'date_end' | 'symbol_search' | 'action_type';
+  filter_type: "date_preset" | "date_start" | "date_end" | "symbol_search" | "action_type" | "watchlist" | "grouping" | "advanced";
   filter_value: string;
   previous_value?: string;
 }
@@ -0,0 +1,292 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ActionType,
+  BigPlayerMovementAggregated,
+  BigPlayerMovementRaw,
+} from "@/components/bigplayer/types";
+import { bigPlayersFixture } from "@/lib/mock/fixtures";
+
+import {
+  AGGREGATION_GROUPINGS,
+  aggregateBigPlayerMovements,
+  createMovementAggregator,
+  getGroupKey,
+  orderMovements,
+} from "./aggregation";
+
+const movements = bigPlayersFixture.data.movement;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function movementsOf(
+  name: string,
+  symbol?: string,
+  date?: string,
+): BigPlayerMovementRaw[] {
+  return movements.filter(
+    (entry) =>
+      entry.name === name &&
+      (!symbol || entry.symbol === symbol) &&
+      (!date || entry.date === date),
+  );
+}
+
+function findGroup(
+  groups: BigPlayerMovementAggregated[],
+  key: string,
+): BigPlayerMovementAggregated {
+  const group = groups.find((entry) => entry.key === key);
+  if (!group) throw new Error(`No group ${key}`);
+  return group;
+}
+
+function holdings(entries: BigPlayerMovementRaw[]): string[][] {
+  return entries.map((entry) => [entry.previous.value, entry.current.value]);
+}
+
+// Each movement starts from the holding the one before it ended at
+function expectChained(entries: BigPlayerMovementRaw[]) {
+  entries.slice(1).forEach((entry, index) => {
+    expect(entry.previous.value).toBe(entries[index].current.value);
+  });
+}
+
+function byKey(
+  groups: BigPlayerMovementAggregated[],
+): BigPlayerMovementAggregated[] {
+  return [...groups].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+describe("orderMovements", () => {
+  it("chains same-day buys listed newest first", () => {
+    const ordered = orderMovements(
+      movementsOf("PRAJOGO PANGESTU", "BREN", "13 Jan 26"),
+    );
+
+    expect(ordered).toHaveLength(10);
+    expectChained(ordered);
+    expect(ordered[0].previous.value).toBe("138,459,700");
+    expect(ordered[ordered.length - 1].current.value).toBe("139,789,700");
+  });
+
+  it("chains same-day sells down to the lowest holding", () => {
+    const ordered = orderMovements(
+      movementsOf("ANDREAS UTOMO", "GULA", "12 Jan 26"),
+    );
+
+    expectChained(ordered);
+    expect(holdings(ordered)).toEqual([
+      ["95,876,400", "76,206,400"],
+      ["76,206,400", "76,183,000"],
+      ["76,183,000", "76,122,700"],
+      ["76,122,700", "75,876,400"],
+    ]);
+  });
+
+  it("puts a buy before the sell that started from it, whatever the API order", () => {
+    const ordered = orderMovements(movementsOf("FERSINDO NUSA JAYA", "ITMA"));
+
+    expect(ordered.map((entry) => [entry.date, entry.action_type])).toEqual([
+      ["12 Jan 26", ActionType.SELL],
+      ["13 Jan 26", ActionType.BUY],
+      ["13 Jan 26", ActionType.SELL],
+    ]);
+    expectChained(ordered);
+  });
+
+  it("orders days oldest first", () => {
+    const ordered = orderMovements(movementsOf("ANDREAS UTOMO", "GULA"));
+
+    expect(ordered.map((entry) => entry.date)).toEqual([
+      "12 Jan 26",
+      "12 Jan 26",
+      "12 Jan 26",
+      "12 Jan 26",
+      "13 Jan 26",
+      "13 Jan 26",
+    ]);
+  });
+
+  it("keeps every entry", () => {
+    expect(orderMovements(movements)).toHaveLength(movements.length);
+  });
+});
+
+// ============================================================================
+// Holding span
+// ============================================================================
+
+describe("aggregated holdings", () => {
+  const groups = aggregateBigPlayerMovements(movements);
+
+  it("spans a buy group from its first previous to its last current holding", () => {
+    const group = findGroup(
+      groups,
+      "PRAJOGO PANGESTU-BREN-13 Jan 26-ACTION_TYPE_BUY",
+    );
+
+    expect(group.previous_holding_value).toBe("138,459,700");
+    expect(group.current_holding_value).toBe("139,789,700");
+    expect(group.total_change_value).toBe(139_789_700 - 138_459_700);
+  });
+
+  it("spans a sell group with the holding going down", () => {
+    const group = findGroup(
+      groups,
+      "ANDREAS UTOMO-GULA-12 Jan 26-ACTION_TYPE_SELL",
+    );
+
+    expect(group.previous_holding_value).toBe("95,876,400");
+    expect(group.current_holding_value).toBe("75,876,400");
+    expect(group.total_change_value).toBe(75_876_400 - 95_876_400);
+  });
+
+  it("keeps raw entries oldest first", () => {
+    const group = findGroup(groups, "HENDRA-OBMD-13 Jan 26-ACTION_TYPE_BUY");
+
+    expect(holdings(group.raw_entries)).toEqual([
+      ["59,574,200", "62,395,800"],
+      ["62,395,800", "62,866,900"],
+    ]);
+  });
+});
+
+// ============================================================================
+// Groupings
+// ============================================================================
+
+describe("groupings", () => {
+  it("covers every entry exactly once in each grouping", () => {
+    AGGREGATION_GROUPINGS.forEach(({ key }) => {
+      const groups = aggregateBigPlayerMovements(movements, key);
+      const keys = new Set(movements.map((entry) => getGroupKey(entry, key)));
+
+      expect(groups).toHaveLength(keys.size);
+      expect(groups.reduce((sum, group) => sum + group.entry_count, 0)).toBe(
+        movements.length,
+      );
+    });
+  });
+
+  it("day: one group per holder, symbol, day and side", () => {
+    const groups = aggregateBigPlayerMovements(movements, "day");
+    const buy = findGroup(
+      groups,
+      "ANDRIANSYAH PRAYITNO-BSML-12 Jan 26-ACTION_TYPE_BUY",
+    );
+    const sell = findGroup(
+      groups,
+      "ANDRIANSYAH PRAYITNO-BSML-12 Jan 26-ACTION_TYPE_SELL",
+    );
+
+    expect(buy.action_type).toBe(ActionType.BUY);
+    expect([buy.previous_holding_value, buy.current_holding_value]).toEqual([
+      "210,039,400",
+      "214,339,400",
+    ]);
+    expect(sell.action_type).toBe(ActionType.SELL);
+    expect([sell.previous_holding_value, sell.current_holding_value]).toEqual([
+      "214,339,400",
+      "206,354,700",
+    ]);
+  });
+
+  it("week: nets buys and sells of the calendar week", () => {
+    const groups = aggregateBigPlayerMovements(movements, "week");
+    const group = findGroup(groups, "ANDRIANSYAH PRAYITNO-BSML-W2026-01-12");
+
+    expect(group.entry_count).toBe(4);
+    expect(group.date_start).toBe("12 Jan 26");
+    expect(group.date_end).toBe("13 Jan 26");
+    expect(group.previous_holding_value).toBe("210,039,400");
+    expect(group.current_holding_value).toBe("207,854,700");
+    expect(group.total_change_value).toBe(207_854_700 - 210_039_400);
+    expect(group.action_type).toBe(ActionType.SELL);
+  });
+
+  it("range: one group per holder and symbol over all days", () => {
+    const groups = aggregateBigPlayerMovements(movements, "range");
+    const group = findGroup(groups, "ANDREAS UTOMO-GULA");
+
+    expect(group.entry_count).toBe(6);
+    expect(group.action_type).toBe(ActionType.SELL);
+    expect(group.previous_holding_value).toBe("95,876,400");
+    expect(group.current_holding_value).toBe("49,556,400");
+    expect(group.raw_entries[0].date).toBe("12 Jan 26");
+  });
+
+  it("holder: sums holdings across symbols and drops the percentages", () => {
+    const groups = aggregateBigPlayerMovements(movements, "holder");
+    const group = findGroup(groups, "CGS INTERNATIONAL SEKURITAS INDONESIA");
+
+    expect(group.symbol.split(", ").sort()).toEqual(["BRMS", "HILL"]);
+    expect(group.previous_holding_value).toBe(
+      (7_999_791_548 + 2_976_879_700).toLocaleString("en-US"),
+    );
+    expect(group.current_holding_value).toBe(
+      (7_999_809_548 + 2_975_835_000).toLocaleString("en-US"),
+    );
+    expect(group.previous_holding_percentage).toBe("");
+    expect(group.current_holding_percentage).toBe("");
+    expect(group.action_type).toBe(ActionType.SELL);
+  });
+});
+
+// ============================================================================
+// Paged aggregation
+// ============================================================================
+
+describe("createMovementAggregator", () => {
+  const PAGE_SIZE = 50;
+  const pages = Array.from(
+    { length: Math.ceil(movements.length / PAGE_SIZE) },
+    (_, index) => movements.slice(index * PAGE_SIZE, (index + 1) * PAGE_SIZE),
+  );
+
+  it.each(AGGREGATION_GROUPINGS.map(({ key }) => key))(
+    "matches one-shot aggregation per %s",
+    (grouping) => {
+      const aggregator = createMovementAggregator(grouping);
+      const merged = new Map<string, BigPlayerMovementAggregated>();
+
+      pages.forEach((page) => {
+        aggregator.add(page).forEach((group) => merged.set(group.key, group));
+      });
+
+      const oneShot = aggregateBigPlayerMovements(movements, grouping);
+      expect(aggregator.size).toBe(oneShot.length);
+      expect(byKey(Array.from(merged.values()))).toEqual(byKey(oneShot));
+    },
+  );
+
+  it("re-emits a group split across pages with all of its entries", () => {
+    const aggregator = createMovementAggregator("range");
+    const [first, second] = pages.map((page) => aggregator.add(page));
+
+    // GULA is listed on the first (13 Jan) and second (12 Jan) page
+    expect(findGroup(first, "ANDREAS UTOMO-GULA").entry_count).toBe(2);
+
+    const merged = findGroup(second, "ANDREAS UTOMO-GULA");
+    expect(merged.entry_count).toBe(6);
+    expect(merged.previous_holding_value).toBe("95,876,400");
+    expect(merged.current_holding_value).toBe("49,556,400");
+  });
+
+  it("only returns the groups a page touched", () => {
+    const aggregator = createMovementAggregator("day");
+    aggregator.add(pages[0]);
+
+    const changed = aggregator.add(pages[1]);
+    const touched = new Set(pages[1].map((entry) => getGroupKey(entry, "day")));
+    expect(changed.map((group) => group.key).sort()).toEqual(
+      Array.from(touched).sort(),
+    );
+  });
+});
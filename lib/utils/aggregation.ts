@@ -4,24 +4,142 @@ import {
   ActionType,
   SourceType,
 } from "@/components/bigplayer/types";
-import { parseLargeNumber } from "./format";
+import { parseLargeNumber, parsePercentage } from "./format";
+
+/**
+ * How raw movements are grouped into table rows
+ * - day: name + symbol + date + action_type (one row per holder, stock, day and side)
+ * - week: name + symbol + calendar week (Mon-Sun), buys and sells netted
+ * - range: name + symbol over the whole loaded range
+ * - holder: name across every symbol
+ */
+export type AggregationGrouping = "day" | "week" | "range" | "holder";
+
+export const AGGREGATION_GROUPINGS: Array<{ key: AggregationGrouping; label: string }> = [
+  { key: "day", label: "Per Day" },
+  { key: "week", label: "Per Week" },
+  { key: "range", label: "Whole Range" },
+  { key: "holder", label: "Per Holder" },
+];
+
+/**
+ * CMH ID of an entry, or null when the backend sends none ("" or "0")
+ */
+export function getCmhId(entry: Pick<BigPlayerMovementRaw, "cmh_id">): string | null {
+  return entry.cmh_id && entry.cmh_id !== "0" ? entry.cmh_id : null;
+}
+
+/**
+ * Identity of a single movement
+ * `id` alone is not unique: the backend repeats it for all movements of a holder.
+ */
+export function getMovementKey(entry: BigPlayerMovementRaw): string {
+  return [
+    entry.id,
+    entry.symbol,
+    entry.date,
+    entry.action_type,
+    entry.previous.value,
+    entry.current.value,
+    entry.data_source.type,
+  ].join("|");
+}
+
+// Parse an API date ("14 Jan 26" or "2026-01-14") to YYYY-MM-DD
+function toIsoDate(date: string): string {
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return date;
+
+  const month = String(parsed.getMonth() + 1).padStart(2, "0");
+  const day = String(parsed.getDate()).padStart(2, "0");
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+// Monday of the entry's calendar week as YYYY-MM-DD
+function getWeekStart(date: string): string {
+  const parsed = new Date(toIsoDate(date) + "T00:00:00Z");
+  if (isNaN(parsed.getTime())) return date;
+
+  parsed.setUTCDate(parsed.getUTCDate() - ((parsed.getUTCDay() + 6) % 7));
+  return parsed.toISOString().split("T")[0];
+}
+
+/**
+ * Composite key of the group an entry belongs to
+ */
+export function getGroupKey(entry: BigPlayerMovementRaw, grouping: AggregationGrouping = "day"): string {
+  switch (grouping) {
+    case "week":
+      return `${entry.name}-${entry.symbol}-W${getWeekStart(entry.date)}`;
+    case "range":
+      return `${entry.name}-${entry.symbol}`;
+    case "holder":
+      return entry.name;
+    default:
+      return `${entry.name}-${entry.symbol}-${entry.date}-${entry.action_type}`;
+  }
+}
+
+/**
+ * Order entries chronologically
+ * The backend lists same-day movements newest first and gives no time, so
+ * within a day entries are chained by holding: each movement starts from the
+ * holding the previous one ended at. Unchained entries keep their oldest-first order.
+ */
+export function orderMovements(entries: BigPlayerMovementRaw[]): BigPlayerMovementRaw[] {
+  const entriesByDate = new Map<string, BigPlayerMovementRaw[]>();
+
+  // Reverse the API order so unchained entries fall back to oldest first
+  [...entries].reverse().forEach((entry) => {
+    const key = `${toIsoDate(entry.date)}|${entry.symbol}`;
+    entriesByDate.set(key, [...(entriesByDate.get(key) || []), entry]);
+  });
+
+  return Array.from(entriesByDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([, dayEntries]) => chainByHolding(dayEntries));
+}
+
+function chainByHolding(entries: BigPlayerMovementRaw[]): BigPlayerMovementRaw[] {
+  if (entries.length < 2) return entries;
+
+  const currentValues = new Set(entries.map((entry) => entry.current.value));
+  const remaining = new Set(entries);
+  const ordered: BigPlayerMovementRaw[] = [];
+
+  // A chain starts where no other movement ended at this entry's previous holding
+  entries
+    .filter((entry) => !currentValues.has(entry.previous.value))
+    .forEach((head) => {
+      let next: BigPlayerMovementRaw | undefined = head;
+      while (next && remaining.has(next)) {
+        const link: BigPlayerMovementRaw = next;
+        remaining.delete(link);
+        ordered.push(link);
+        next = entries.find((entry) => remaining.has(entry) && entry.previous.value === link.current.value);
+      }
+    });
+
+  return [...ordered, ...Array.from(remaining)];
+}
 
 /**
  * Aggregate multiple Big Player Movement entries
- * Groups by: name + symbol + date + action_type
+ * Groups by name + symbol + date + action_type unless another grouping is given
  *
  * @param rawEntries - Array of raw Big Player Movement data
+ * @param grouping - How entries are grouped (default: per day)
  * @returns Array of aggregated entries
  */
 export function aggregateBigPlayerMovements(
-  rawEntries: BigPlayerMovementRaw[]
+  rawEntries: BigPlayerMovementRaw[],
+  grouping: AggregationGrouping = "day"
 ): BigPlayerMovementAggregated[] {
   // Group entries by composite key
   const groupedEntries = new Map<string, BigPlayerMovementRaw[]>();
 
   rawEntries.forEach((entry) => {
-    // Create composite key: name-symbol-date-action
-    const key = `${entry.name}-${entry.symbol}-${entry.date}-${entry.action_type}`;
+    const key = getGroupKey(entry, grouping);
 
     if (!groupedEntries.has(key)) {
       groupedEntries.set(key, []);
@@ -41,6 +159,80 @@ export function aggregateBigPlayerMovements(
   return aggregatedEntries;
 }
 
+/**
+ * Incremental version of `aggregateBigPlayerMovements` for paged data
+ * Each `add` returns only the groups that changed, so a group spanning a page
+ * boundary is re-emitted with its merged entries instead of appearing twice.
+ */
+export function createMovementAggregator(grouping: AggregationGrouping = "day") {
+  const groupedEntries = new Map<string, BigPlayerMovementRaw[]>();
+
+  return {
+    /**
+     * Add a page of raw entries
+     * @returns The new or updated aggregated groups
+     */
+    add(rawEntries: BigPlayerMovementRaw[]): BigPlayerMovementAggregated[] {
+      const changedKeys = new Set<string>();
+
+      rawEntries.forEach((entry) => {
+        const key = getGroupKey(entry, grouping);
+
+        if (!groupedEntries.has(key)) {
+          groupedEntries.set(key, []);
+        }
+
+        groupedEntries.get(key)!.push(entry);
+        changedKeys.add(key);
+      });
+
+      return Array.from(changedKeys).map((key) => aggregateGroup(groupedEntries.get(key)!, key));
+    },
+
+    /** Number of groups aggregated so far */
+    get size(): number {
+      return groupedEntries.size;
+    },
+  };
+}
+
+/**
+ * Holding before the first and after the last movement
+ * Per symbol, from the date-ordered entries; values of several symbols are
+ * summed and their percentages left empty since they do not add up.
+ */
+function getHoldingSpan(ordered: BigPlayerMovementRaw[]) {
+  const bySymbol = new Map<string, BigPlayerMovementRaw[]>();
+  ordered.forEach((entry) => {
+    bySymbol.set(entry.symbol, [...(bySymbol.get(entry.symbol) || []), entry]);
+  });
+
+  if (bySymbol.size === 1) {
+    const first = ordered[0];
+    const last = ordered[ordered.length - 1];
+    return {
+      previousValue: first.previous.value,
+      previousPercentage: first.previous.percentage,
+      currentValue: last.current.value,
+      currentPercentage: last.current.percentage,
+    };
+  }
+
+  let previousTotal = 0;
+  let currentTotal = 0;
+  bySymbol.forEach((entries) => {
+    previousTotal += parseLargeNumber(entries[0].previous.value);
+    currentTotal += parseLargeNumber(entries[entries.length - 1].current.value);
+  });
+
+  return {
+    previousValue: previousTotal.toLocaleString("en-US"),
+    previousPercentage: "",
+    currentValue: currentTotal.toLocaleString("en-US"),
+    currentPercentage: "",
+  };
+}
+
 /**
  * Aggregate a group of entries with the same key
  */
@@ -52,21 +244,15 @@ function aggregateGroup(
     throw new Error("Cannot aggregate empty entry group");
   }
 
-  const firstEntry = entries[0];
+  const ordered = orderMovements(entries);
+  const firstEntry = ordered[0];
+  const lastEntry = ordered[ordered.length - 1];
 
   // Sum up all change values
   let totalChangeValue = 0;
-  let totalCurrentHolding = 0;
-  let totalPreviousHolding = 0;
 
   entries.forEach((entry) => {
-    const changeValue = parseLargeNumber(entry.changes.value);
-    const currentValue = parseLargeNumber(entry.current.value);
-    const previousValue = parseLargeNumber(entry.previous.value);
-
-    totalChangeValue += changeValue;
-    totalCurrentHolding += currentValue;
-    totalPreviousHolding += previousValue;
+    totalChangeValue += parseLargeNumber(entry.changes.value);
   });
 
   // Calculate weighted average percentage change
@@ -76,7 +262,7 @@ function aggregateGroup(
 
   entries.forEach((entry) => {
     const changeValue = Math.abs(parseLargeNumber(entry.changes.value));
-    const changePercentage = parseFloat(entry.changes.percentage) || 0;
+    const changePercentage = parsePercentage(entry.changes.percentage);
 
     weightedPercentageSum += changePercentage * changeValue;
     totalWeight += changeValue;
@@ -87,7 +273,7 @@ function aggregateGroup(
   // Collect unique brokers
   const brokers = new Set<string>();
   entries.forEach((entry) => {
-    if (entry.broker_detail.code && entry.broker_detail.code !== "") {
+    if (entry.broker_detail?.code && entry.broker_detail.code !== "") {
       brokers.add(entry.broker_detail.code);
     }
   });
@@ -100,38 +286,45 @@ function aggregateGroup(
     }
   });
 
-  // Collect unique sources
+  // Collect unique sources, symbols and badges
   const sources = new Set<SourceType>();
+  const symbols = new Set<string>();
+  const badges = new Set(firstEntry.badges || []);
   entries.forEach((entry) => {
     sources.add(entry.data_source.type);
+    symbols.add(entry.symbol);
+    (entry.badges || []).forEach((badge) => badges.add(badge));
   });
 
-  // Get the latest current holding percentage and earliest previous
-  // Use the entry with the largest current value as the "latest"
-  const sortedByCurrentValue = [...entries].sort((a, b) => {
-    const aValue = parseLargeNumber(a.current.value);
-    const bValue = parseLargeNumber(b.current.value);
-    return bValue - aValue; // Descending
-  });
+  // Mixed groups (week, range, holder) take the side of their net change
+  const actionTypes = new Set(entries.map((entry) => entry.action_type));
+  const actionType =
+    actionTypes.size === 1
+      ? firstEntry.action_type
+      : totalChangeValue >= 0
+        ? ActionType.BUY
+        : ActionType.SELL;
 
-  const latestEntry = sortedByCurrentValue[0];
+  const holding = getHoldingSpan(ordered);
 
   return {
     key,
-    name: firstEntry.name,
-    symbol: firstEntry.symbol,
-    date: firstEntry.date,
-    action_type: firstEntry.action_type as ActionType,
-    nationality: firstEntry.nationality,
-    badges: firstEntry.badges,
+    name: lastEntry.name,
+    symbol: Array.from(symbols).join(", "),
+    date: lastEntry.date,
+    date_start: firstEntry.date,
+    date_end: lastEntry.date,
+    action_type: actionType as ActionType,
+    nationality: lastEntry.nationality,
+    badges: Array.from(badges),
 
     // Aggregated values
     total_change_value: totalChangeValue,
     avg_change_percentage: avgChangePercentage,
-    current_holding_value: latestEntry.current.value,
-    current_holding_percentage: latestEntry.current.percentage,
-    previous_holding_value: latestEntry.previous.value,
-    previous_holding_percentage: latestEntry.previous.percentage,
+    current_holding_value: holding.currentValue,
+    current_holding_percentage: holding.currentPercentage,
+    previous_holding_value: holding.previousValue,
+    previous_holding_percentage: holding.previousPercentage,
 
     // Additional info
     brokers: Array.from(brokers),
@@ -139,8 +332,8 @@ function aggregateGroup(
     sources: Array.from(sources),
     entry_count: entries.length,
 
-    // Original entries
-    raw_entries: entries,
+    // Original entries, oldest first
+    raw_entries: ordered,
   };
 }
 
@@ -164,6 +357,20 @@ export function filterBySymbol(
   });
 }
 
+/**
+ * Keep only entries whose symbol is in `symbols` (e.g. a watchlist)
+ */
+export function filterBySymbols(
+  entries: BigPlayerMovementAggregated[],
+  symbols: string[]
+): BigPlayerMovementAggregated[] {
+  const allowed = new Set(symbols.map((symbol) => symbol.toUpperCase()));
+  // Per-holder groups list several symbols ("BBCA, BBRI")
+  return entries.filter((entry) =>
+    entry.symbol.split(", ").some((symbol) => allowed.has(symbol.toUpperCase()))
+  );
+}
+
 /**
  * Filter aggregated entries by action type
  */
@@ -0,0 +1,381 @@
+import {
+  ActionType,
+  BigPlayerFilters,
+  BigPlayerMovementAggregated,
+  BigPlayerMovementRaw,
+  BrokerGroup,
+  DatePreset,
+  NationalityType,
+  ShareholderBadge,
+  SourceType,
+} from "@/components/bigplayer/types";
+import { parseSymbols } from "@/lib/watchlists";
+import { AGGREGATION_GROUPINGS, AggregationGrouping } from "./aggregation";
+import { parsePercentage } from "./format";
+
+/**
+ * Big Player advanced filters
+ * Per-movement filters (nationality, source, badge, broker group, CROSS) run
+ * before aggregation, value and holding thresholds run on the aggregated rows.
+ * The whole filter state round-trips through the page URL; a watchlist travels
+ * as its symbols, since watchlist ids only exist in the author's browser.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BigPlayerAdvancedFilters = Pick<
+  BigPlayerFilters,
+  | "nationalities"
+  | "sources"
+  | "badges"
+  | "brokerGroups"
+  | "excludeCross"
+  | "minChangeValue"
+  | "maxChangeValue"
+  | "minHoldingPercentage"
+>;
+
+/** Everything the Big Player page keeps in its URL */
+export interface BigPlayerUrlState extends BigPlayerFilters {
+  grouping: AggregationGrouping;
+}
+
+export interface FilterOption<T extends string> {
+  value: T;
+  label: string;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const NATIONALITY_OPTIONS: FilterOption<NationalityType>[] = [
+  { value: NationalityType.LOCAL, label: "Local" },
+  { value: NationalityType.FOREIGN, label: "Foreign" },
+];
+
+export const SOURCE_OPTIONS: FilterOption<SourceType>[] = [
+  { value: SourceType.IDX, label: "IDX" },
+  { value: SourceType.KSEI, label: "KSEI" },
+];
+
+export const BADGE_OPTIONS: FilterOption<ShareholderBadge>[] = [
+  { value: ShareholderBadge.PENGENDALI, label: "Controller" },
+  { value: ShareholderBadge.DIREKTUR, label: "Director" },
+];
+
+export const BROKER_GROUP_OPTIONS: FilterOption<BrokerGroup>[] = [
+  { value: BrokerGroup.LOCAL, label: "Local" },
+  { value: BrokerGroup.FOREIGN, label: "Foreign" },
+  { value: BrokerGroup.GOVERNMENT, label: "Government" },
+  { value: BrokerGroup.UNSPECIFIED, label: "Unspecified" },
+];
+
+export const DEFAULT_ADVANCED_FILTERS: BigPlayerAdvancedFilters = {
+  nationalities: [],
+  sources: [],
+  badges: [],
+  brokerGroups: [],
+  excludeCross: false,
+  minChangeValue: null,
+  maxChangeValue: null,
+  minHoldingPercentage: null,
+};
+
+const DATE_PRESETS: DatePreset[] = [
+  "today",
+  "3days",
+  "5days",
+  "7days",
+  "1month",
+  "3months",
+  "6months",
+  "1year",
+  "custom",
+];
+
+const ACTION_TYPES = ["all", "buy", "sell", "other"] as const;
+
+// ============================================================================
+// Filtering
+// ============================================================================
+
+/**
+ * Whether any filter has to run on the raw movements
+ */
+export function hasMovementFilters(filters: BigPlayerAdvancedFilters): boolean {
+  return (
+    filters.nationalities.length > 0 ||
+    filters.sources.length > 0 ||
+    filters.badges.length > 0 ||
+    filters.brokerGroups.length > 0 ||
+    filters.excludeCross
+  );
+}
+
+/**
+ * Number of advanced filters that differ from the defaults (for the toggle badge)
+ */
+export function countAdvancedFilters(
+  filters: BigPlayerAdvancedFilters,
+): number {
+  return [
+    filters.nationalities.length > 0,
+    filters.sources.length > 0,
+    filters.badges.length > 0,
+    filters.brokerGroups.length > 0,
+    filters.excludeCross,
+    filters.minChangeValue !== null,
+    filters.maxChangeValue !== null,
+    filters.minHoldingPercentage !== null,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Keep the raw movements matching the per-movement filters
+ * Badges match when the holder carries any of the selected badges.
+ */
+export function filterMovements(
+  entries: BigPlayerMovementRaw[],
+  filters: BigPlayerAdvancedFilters,
+): BigPlayerMovementRaw[] {
+  return entries.filter((entry) => {
+    if (filters.excludeCross && entry.action_type === ActionType.CROSS)
+      return false;
+    if (
+      filters.nationalities.length > 0 &&
+      !filters.nationalities.includes(entry.nationality)
+    )
+      return false;
+    if (
+      filters.sources.length > 0 &&
+      !filters.sources.includes(entry.data_source.type)
+    )
+      return false;
+    if (
+      filters.badges.length > 0 &&
+      !(entry.badges || []).some((badge) => filters.badges.includes(badge))
+    ) {
+      return false;
+    }
+    if (
+      filters.brokerGroups.length > 0 &&
+      !filters.brokerGroups.includes(
+        entry.broker_detail?.group || BrokerGroup.UNSPECIFIED,
+      )
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+// Current holding % of a row; cross-symbol rows use their largest holding
+function getHoldingPercentage(row: BigPlayerMovementAggregated): number {
+  if (row.current_holding_percentage)
+    return parsePercentage(row.current_holding_percentage);
+  return Math.max(
+    ...row.raw_entries.map((entry) =>
+      parsePercentage(entry.current.percentage),
+    ),
+  );
+}
+
+/**
+ * Keep the aggregated rows within the change value and holding thresholds
+ * Change values are compared by magnitude so the bounds apply to buys and sells alike.
+ */
+export function filterByThresholds(
+  rows: BigPlayerMovementAggregated[],
+  filters: BigPlayerAdvancedFilters,
+): BigPlayerMovementAggregated[] {
+  const { minChangeValue, maxChangeValue, minHoldingPercentage } = filters;
+  if (
+    minChangeValue === null &&
+    maxChangeValue === null &&
+    minHoldingPercentage === null
+  ) {
+    return rows;
+  }
+
+  return rows.filter((row) => {
+    const change = Math.abs(row.total_change_value);
+    if (minChangeValue !== null && change < minChangeValue) return false;
+    if (maxChangeValue !== null && change > maxChangeValue) return false;
+    if (
+      minHoldingPercentage !== null &&
+      getHoldingPercentage(row) < minHoldingPercentage
+    )
+      return false;
+    return true;
+  });
+}
+
+// ============================================================================
+// URL state
+// ============================================================================
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Enum values travel without their prefix, e.g. NATIONALITY_TYPE_FOREIGN -> foreign
+function toParamList(values: string[], prefix: string): string {
+  return values
+    .map((value) => value.replace(prefix, "").toLowerCase())
+    .join(",");
+}
+
+function fromParamList<T extends string>(
+  param: string | undefined,
+  prefix: string,
+  allowed: T[],
+): T[] {
+  if (!param) return [];
+  const values = param
+    .split(",")
+    .map((token) => `${prefix}${token.trim().toUpperCase()}` as T);
+  return Array.from(new Set(values.filter((value) => allowed.includes(value))));
+}
+
+function readParam(params: SearchParams, key: string): string | undefined {
+  const value = params[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function readNumber(params: SearchParams, key: string): number | null {
+  const value = readParam(params, key);
+  if (!value) return null;
+  const parsed = Number(value.replace(/,/g, ""));
+  return isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Query string for the Big Player page; defaults are left out
+ */
+export function serializeBigPlayerFilters(state: BigPlayerUrlState): string {
+  const query = new URLSearchParams();
+
+  if (state.datePreset !== "today") query.set("preset", state.datePreset);
+  if (state.datePreset === "custom") {
+    if (state.dateStart) query.set("from", state.dateStart);
+    if (state.dateEnd) query.set("to", state.dateEnd);
+  }
+  if (state.symbolSearch) query.set("q", state.symbolSearch);
+  if (state.actionType && state.actionType !== "all")
+    query.set("action", state.actionType);
+  if (state.symbols && state.symbols.length > 0)
+    query.set("symbols", state.symbols.join(","));
+  if (state.grouping !== "day") query.set("group", state.grouping);
+
+  if (state.nationalities.length > 0)
+    query.set(
+      "nationality",
+      toParamList(state.nationalities, "NATIONALITY_TYPE_"),
+    );
+  if (state.sources.length > 0)
+    query.set("source", toParamList(state.sources, "SOURCE_TYPE_"));
+  if (state.badges.length > 0)
+    query.set("badge", toParamList(state.badges, "SHAREHOLDER_BADGE_"));
+  if (state.brokerGroups.length > 0)
+    query.set("broker_group", toParamList(state.brokerGroups, "BROKER_GROUP_"));
+  if (state.excludeCross) query.set("exclude_cross", "1");
+  if (state.minChangeValue !== null)
+    query.set("min_change", String(state.minChangeValue));
+  if (state.maxChangeValue !== null)
+    query.set("max_change", String(state.maxChangeValue));
+  if (state.minHoldingPercentage !== null)
+    query.set("min_holding", String(state.minHoldingPercentage));
+
+  return query.toString();
+}
+
+/**
+ * Read the Big Player filter state from page search params
+ * Unknown or malformed values fall back to the defaults.
+ */
+export function parseBigPlayerFilters(params: SearchParams): BigPlayerUrlState {
+  const preset = readParam(params, "preset") as DatePreset | undefined;
+  const datePreset = preset && DATE_PRESETS.includes(preset) ? preset : "today";
+  const action = readParam(params, "action") as
+    | (typeof ACTION_TYPES)[number]
+    | undefined;
+  const group = readParam(params, "group") as AggregationGrouping | undefined;
+
+  return {
+    datePreset,
+    dateStart: datePreset === "custom" ? readParam(params, "from") : undefined,
+    dateEnd: datePreset === "custom" ? readParam(params, "to") : undefined,
+    symbolSearch: readParam(params, "q") || "",
+    actionType: action && ACTION_TYPES.includes(action) ? action : "all",
+    symbols: parseSymbols(readParam(params, "symbols") || "").symbols,
+    grouping:
+      group && AGGREGATION_GROUPINGS.some((option) => option.key === group)
+        ? group
+        : "day",
+
+    nationalities: fromParamList(
+      readParam(params, "nationality"),
+      "NATIONALITY_TYPE_",
+      Object.values(NationalityType),
+    ),
+    sources: fromParamList(
+      readParam(params, "source"),
+      "SOURCE_TYPE_",
+      Object.values(SourceType),
+    ),
+    badges: fromParamList(
+      readParam(params, "badge"),
+      "SHAREHOLDER_BADGE_",
+      Object.values(ShareholderBadge),
+    ),
+    brokerGroups: fromParamList(
+      readParam(params, "broker_group"),
+      "BROKER_GROUP_",
+      Object.values(BrokerGroup),
+    ),
+    excludeCross: readParam(params, "exclude_cross") === "1",
+    minChangeValue: readNumber(params, "min_change"),
+    maxChangeValue: readNumber(params, "max_change"),
+    minHoldingPercentage: readNumber(params, "min_holding"),
+  };
+}
+
+/**
+ * Human readable summary of the active advanced filters (export metadata)
+ */
+export function describeAdvancedFilters(
+  filters: BigPlayerAdvancedFilters,
+): string {
+  const labelsOf = <T extends string>(
+    options: FilterOption<T>[],
+    selected: T[],
+  ) =>
+    options
+      .filter((option) => selected.includes(option.value))
+      .map((option) => option.label)
+      .join(", ");
+
+  const parts: string[] = [];
+  if (filters.nationalities.length > 0)
+    parts.push(
+      `Nationality: ${labelsOf(NATIONALITY_OPTIONS, filters.nationalities)}`,
+    );
+  if (filters.sources.length > 0)
+    parts.push(`Source: ${labelsOf(SOURCE_OPTIONS, filters.sources)}`);
+  if (filters.badges.length > 0)
+    parts.push(`Badge: ${labelsOf(BADGE_OPTIONS, filters.badges)}`);
+  if (filters.brokerGroups.length > 0)
+    parts.push(
+      `Broker group: ${labelsOf(BROKER_GROUP_OPTIONS, filters.brokerGroups)}`,
+    );
+  if (filters.minChangeValue !== null)
+    parts.push(`Min change: ${filters.minChangeValue}`);
+  if (filters.maxChangeValue !== null)
+    parts.push(`Max change: ${filters.maxChangeValue}`);
+  if (filters.minHoldingPercentage !== null)
+    parts.push(`Min holding: ${filters.minHoldingPercentage}%`);
+  if (filters.excludeCross) parts.push("Exclude Cross");
+
+  return parts.join("; ");
+}
@@ -0,0 +1,163 @@
+import type { BrokerActivityResponse } from "@/lib/api/broker";
+
+/**
+ * Broker-vs-broker comparison
+ * Lines up the stock lists of several brokers over the same window and flags
+ * where their books overlap or offset each other.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ComparedBroker {
+  code: string;
+  activity: BrokerActivityResponse;
+}
+
+export interface BrokerPosition {
+  side: "BUY" | "SELL";
+  value: number;
+  volume: number;
+  avgPrice: number;
+}
+
+/**
+ * - all_buy / all_sell: every compared broker is on the same side
+ * - opposite: at least one broker buys while another sells
+ * - partial: traded by more than one broker, on the same side, but not by all
+ * - single: only one broker traded it
+ */
+export type OverlapCategory =
+  | "all_buy"
+  | "all_sell"
+  | "opposite"
+  | "partial"
+  | "single";
+
+export interface Absorption {
+  /** Selling broker with the largest sell value */
+  seller: string;
+  /** Buying broker with the largest buy value */
+  buyer: string;
+  sellValue: number;
+  buyValue: number;
+  /** Total buy value of the compared brokers divided by their total sell value */
+  ratio: number;
+}
+
+export interface StockOverlapRow {
+  symbol: string;
+  /** Position per broker code; missing when that broker did not trade the stock */
+  positions: Record<string, BrokerPosition>;
+  category: OverlapCategory;
+  /** Set when the buying side takes up most of the selling side */
+  absorption: Absorption | null;
+  /** Sum of all compared brokers' traded value */
+  grossValue: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const COMPARE_LIMITS = {
+  MIN_BROKERS: 2,
+  MAX_BROKERS: 4,
+};
+
+/** Buying must cover at least this share of the selling to count as absorption */
+export const ABSORPTION_MIN_RATIO = 0.7;
+
+// ============================================================================
+// Overlap
+// ============================================================================
+
+function getCategory(
+  positions: BrokerPosition[],
+  brokerCount: number,
+): OverlapCategory {
+  if (positions.length === 1) return "single";
+
+  const sides = new Set(positions.map((position) => position.side));
+  if (sides.size > 1) return "opposite";
+  if (positions.length < brokerCount) return "partial";
+  return sides.has("BUY") ? "all_buy" : "all_sell";
+}
+
+function getAbsorption(
+  positions: Record<string, BrokerPosition>,
+): Absorption | null {
+  const entries = Object.entries(positions);
+  const sellers = entries.filter(([, position]) => position.side === "SELL");
+  const buyers = entries.filter(([, position]) => position.side === "BUY");
+  if (sellers.length === 0 || buyers.length === 0) return null;
+
+  const totalSell = sellers.reduce(
+    (sum, [, position]) => sum + position.value,
+    0,
+  );
+  const totalBuy = buyers.reduce(
+    (sum, [, position]) => sum + position.value,
+    0,
+  );
+  const ratio = totalSell > 0 ? totalBuy / totalSell : 0;
+  if (ratio < ABSORPTION_MIN_RATIO) return null;
+
+  const [seller, sellPosition] = sellers.sort(
+    (a, b) => b[1].value - a[1].value,
+  )[0];
+  const [buyer, buyPosition] = buyers.sort(
+    (a, b) => b[1].value - a[1].value,
+  )[0];
+
+  return {
+    seller,
+    buyer,
+    sellValue: sellPosition.value,
+    buyValue: buyPosition.value,
+    ratio,
+  };
+}
+
+/**
+ * Merge the brokers' stock lists into one row per symbol
+ * Rows traded by several brokers come first, then by gross value.
+ */
+export function buildStockOverlap(
+  brokers: ComparedBroker[],
+): StockOverlapRow[] {
+  const positionsBySymbol = new Map<string, Record<string, BrokerPosition>>();
+
+  brokers.forEach(({ code, activity }) => {
+    activity.stocks.items.forEach((item) => {
+      const positions = positionsBySymbol.get(item.symbol) || {};
+      positions[code] = {
+        side: item.side,
+        value: item.value.raw,
+        volume: item.volume.raw,
+        avgPrice: item.avg_price.raw,
+      };
+      positionsBySymbol.set(item.symbol, positions);
+    });
+  });
+
+  const rows = Array.from(positionsBySymbol.entries()).map(
+    ([symbol, positions]) => {
+      const list = Object.values(positions);
+      return {
+        symbol,
+        positions,
+        category: getCategory(list, brokers.length),
+        absorption: getAbsorption(positions),
+        grossValue: list.reduce((sum, position) => sum + position.value, 0),
+      };
+    },
+  );
+
+  return rows.sort(
+    (a, b) =>
+      Object.keys(b.positions).length - Object.keys(a.positions).length ||
+      b.grossValue - a.grossValue,
+  );
+}
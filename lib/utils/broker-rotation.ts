@@ -0,0 +1,206 @@
+import {
+  fetchBrokerActivity,
+  type BrokerActivityResponse,
+} from "@/lib/api/broker";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { getTradingDaysBetween } from "@/lib/utils/trading-calendar";
+
+/**
+ * Broker activity day-by-day drill-down
+ * Fetches one broker activity snapshot per trading day and turns them into a
+ * days x symbols matrix so book rotation within a range becomes visible.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DailyBrokerActivity {
+  date: string;
+  activity: BrokerActivityResponse | null;
+  /** Error message when this day could not be fetched */
+  error: string | null;
+}
+
+export type RotationDirection = "buy_to_sell" | "sell_to_buy";
+
+export interface RotationMatrixRow {
+  symbol: string;
+  /** Net value per date (BUY positive, SELL negative); missing dates are not traded */
+  cells: Record<string, number>;
+  total: number;
+  grossValue: number;
+  /** Last side switch within the range, if any */
+  rotation: { direction: RotationDirection; date: string } | null;
+}
+
+export interface RotationTypeChange {
+  date: string;
+  from: string;
+  to: string;
+}
+
+export interface RotationMatrix {
+  /** Trading days in ascending order (failed days included, see DailyBrokerActivity.error) */
+  dates: string[];
+  rows: RotationMatrixRow[];
+  /** rotation_indicator.type per date */
+  rotationTypes: Record<string, string>;
+  /** Days on which rotation_indicator.type differs from the previous fetched day */
+  typeChanges: RotationTypeChange[];
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const DRILLDOWN_LIMITS = {
+  /** Longer ranges are cut to their most recent sessions */
+  MAX_DAYS: 20,
+  CONCURRENCY: 4,
+};
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Fetch broker activity for each trading day of [from, to]
+ * Only the last DRILLDOWN_LIMITS.MAX_DAYS sessions are fetched. Days that fail
+ * are returned with `error` set instead of failing the whole drill-down.
+ * @returns One entry per trading day in ascending order
+ */
+export async function fetchDailyBrokerActivity(
+  broker: string,
+  from: string,
+  to: string,
+  options: {
+    signal?: AbortSignal;
+    onProgress?: (completed: number, total: number) => void;
+  } = {},
+): Promise<DailyBrokerActivity[]> {
+  const { signal, onProgress } = options;
+  const days = getTradingDaysBetween(from, to).slice(
+    -DRILLDOWN_LIMITS.MAX_DAYS,
+  );
+  let completed = 0;
+
+  return mapWithConcurrency(
+    days,
+    DRILLDOWN_LIMITS.CONCURRENCY,
+    async (date) => {
+      if (signal?.aborted) throw signal.reason;
+
+      let result: DailyBrokerActivity;
+      try {
+        const activity = await fetchBrokerActivity(
+          { broker, from: date, to: date },
+          { signal },
+        );
+        result = { date, activity, error: null };
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        result = {
+          date,
+          activity: null,
+          error: error instanceof Error ? error.message : "Failed to fetch",
+        };
+      }
+
+      completed++;
+      onProgress?.(completed, days.length);
+      return result;
+    },
+  );
+}
+
+// ============================================================================
+// Matrix
+// ============================================================================
+
+/**
+ * Build the days x symbols matrix
+ * Rows are ordered by gross traded value so the broker's main names come first.
+ */
+export function buildRotationMatrix(
+  days: DailyBrokerActivity[],
+): RotationMatrix {
+  const dates = days.map((day) => day.date);
+  const rowsBySymbol = new Map<string, RotationMatrixRow>();
+  const rotationTypes: Record<string, string> = {};
+
+  days.forEach(({ date, activity }) => {
+    if (!activity) return;
+    rotationTypes[date] = activity.derived_metrics.rotation_indicator.type;
+
+    activity.stocks.items.forEach((item) => {
+      const row = rowsBySymbol.get(item.symbol) || {
+        symbol: item.symbol,
+        cells: {},
+        total: 0,
+        grossValue: 0,
+        rotation: null,
+      };
+      const value = item.side === "BUY" ? item.value.raw : -item.value.raw;
+
+      row.cells[date] = (row.cells[date] || 0) + value;
+      row.total += value;
+      row.grossValue += Math.abs(value);
+      rowsBySymbol.set(item.symbol, row);
+    });
+  });
+
+  const rows = Array.from(rowsBySymbol.values());
+  rows.forEach((row) => {
+    row.rotation = findLastRotation(dates, row.cells);
+  });
+  rows.sort((a, b) => b.grossValue - a.grossValue);
+
+  return {
+    dates,
+    rows,
+    rotationTypes,
+    typeChanges: findTypeChanges(dates, rotationTypes),
+  };
+}
+
+/**
+ * Most recent day on which the net side flipped (ignoring days without trades)
+ */
+function findLastRotation(
+  dates: string[],
+  cells: Record<string, number>,
+): RotationMatrixRow["rotation"] {
+  let previousSign = 0;
+  let rotation: RotationMatrixRow["rotation"] = null;
+
+  dates.forEach((date) => {
+    const sign = Math.sign(cells[date] || 0);
+    if (sign === 0) return;
+    if (previousSign !== 0 && sign !== previousSign) {
+      rotation = { direction: sign < 0 ? "buy_to_sell" : "sell_to_buy", date };
+    }
+    previousSign = sign;
+  });
+
+  return rotation;
+}
+
+function findTypeChanges(
+  dates: string[],
+  rotationTypes: Record<string, string>,
+): RotationTypeChange[] {
+  const changes: RotationTypeChange[] = [];
+  let previous: string | null = null;
+
+  dates.forEach((date) => {
+    const type = rotationTypes[date];
+    if (type === undefined) return;
+    if (previous !== null && type !== previous) {
+      changes.push({ date, from: previous, to: type });
+    }
+    previous = type;
+  });
+
+  return changes;
+}
@@ -0,0 +1,238 @@
+import { fetchBrokerCalendar, fetchBrokerSummary } from "@/lib/api/broker";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+
+/**
+ * Multi-symbol broker calendar scan
+ * Runs the calendar + broker summary analysis of one broker set over many symbols
+ * and ranks where that set is accumulating.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface BrokerScanParams {
+  symbols: string[];
+  /** Broker set; empty means the backend picks the dominant brokers per symbol */
+  brokers: string[];
+  from: string;
+  to: string;
+}
+
+export interface BrokerScanOptions {
+  /** Maximum symbols analyzed at the same time */
+  concurrency?: number;
+  /** Aborts pending requests; the scan then rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Called as each symbol finishes (in completion order) */
+  onResult?: (row: BrokerScanRow, completed: number, total: number) => void;
+}
+
+export interface BrokerScanRow {
+  symbol: string;
+  /** Error message when this symbol could not be analyzed */
+  error: string | null;
+  phase: "accumulation" | "distribution" | "";
+  strength: string;
+  netBuy: number;
+  netSell: number;
+  /** netBuy - netSell of the broker set */
+  net: number;
+  totalValue: number;
+  priceFrom: number;
+  priceTo: number;
+  priceChangePercent: number;
+  /** Brokers the calendar reports as accumulating / distributing */
+  dominantBrokers: string[];
+  distributionBrokers: string[];
+  /** Net value of the broker set according to the broker summary */
+  summaryNet: number;
+  /** Largest buyer and seller of the whole symbol in the broker summary */
+  topBuyer: string;
+  topSeller: string;
+}
+
+export type BrokerScanSortKey = "net" | "phase" | "price";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const BROKER_SCAN_LIMITS = {
+  MAX_SYMBOLS: 60,
+  DEFAULT_CONCURRENCY: 4,
+};
+
+// ============================================================================
+// Scan
+// ============================================================================
+
+function emptyRow(symbol: string, error: string | null): BrokerScanRow {
+  return {
+    symbol,
+    error,
+    phase: "",
+    strength: "",
+    netBuy: 0,
+    netSell: 0,
+    net: 0,
+    totalValue: 0,
+    priceFrom: 0,
+    priceTo: 0,
+    priceChangePercent: 0,
+    dominantBrokers: [],
+    distributionBrokers: [],
+    summaryNet: 0,
+    topBuyer: "",
+    topSeller: "",
+  };
+}
+
+/**
+ * Analyze a single symbol for the broker set
+ */
+async function scanSymbol(
+  symbol: string,
+  params: BrokerScanParams,
+  signal?: AbortSignal,
+): Promise<BrokerScanRow> {
+  const control = { signal };
+  const [calendar, summary] = await Promise.all([
+    fetchBrokerCalendar(
+      { symbol, from: params.from, to: params.to, brokerCodes: params.brokers },
+      control,
+    ),
+    fetchBrokerSummary({ symbol, from: params.from, to: params.to }, control),
+  ]);
+
+  const brokerSet = new Set(
+    params.brokers.length > 0 ? params.brokers : calendar.brokers || [],
+  );
+  const summaryBuy = summary.brokers_buy
+    .filter((entry) => brokerSet.has(entry.broker_code))
+    .reduce((sum, entry) => sum + entry.buy_value, 0);
+  const summarySell = summary.brokers_sell
+    .filter((entry) => brokerSet.has(entry.broker_code))
+    .reduce((sum, entry) => sum + entry.sell_value, 0);
+
+  const topBuyer = [...summary.brokers_buy].sort(
+    (a, b) => b.buy_value - a.buy_value,
+  )[0];
+  const topSeller = [...summary.brokers_sell].sort(
+    (a, b) => b.sell_value - a.sell_value,
+  )[0];
+
+  const netBuy = calendar.summary.total_buy_value || 0;
+  const netSell = calendar.summary.total_sell_value || 0;
+  const trend = (calendar.summary.trend || "").toLowerCase();
+
+  return {
+    ...emptyRow(symbol, null),
+    phase: trend === "accumulation" || trend === "distribution" ? trend : "",
+    strength: calendar.summary.strength || "",
+    netBuy,
+    netSell,
+    net: netBuy - netSell,
+    totalValue: calendar.summary.total_value || 0,
+    priceFrom: calendar.summary.price_movement?.from || 0,
+    priceTo: calendar.summary.price_movement?.to || 0,
+    priceChangePercent: calendar.summary.price_movement?.change_pct || 0,
+    dominantBrokers: calendar.summary.dominant_brokers || [],
+    distributionBrokers: calendar.summary.distribution_brokers || [],
+    summaryNet: summaryBuy - summarySell,
+    topBuyer: topBuyer?.broker_code || "",
+    topSeller: topSeller?.broker_code || "",
+  };
+}
+
+/**
+ * Scan every symbol with bounded concurrency
+ * A failing symbol becomes a row with `error` set; it does not stop the scan.
+ * @returns Rows in the order of `params.symbols`
+ */
+export async function scanBrokerCalendar(
+  params: BrokerScanParams,
+  options: BrokerScanOptions = {},
+): Promise<BrokerScanRow[]> {
+  const {
+    concurrency = BROKER_SCAN_LIMITS.DEFAULT_CONCURRENCY,
+    signal,
+    onResult,
+  } = options;
+  let completed = 0;
+
+  return mapWithConcurrency(params.symbols, concurrency, async (symbol) => {
+    if (signal?.aborted) throw signal.reason;
+
+    let row: BrokerScanRow;
+    try {
+      row = await scanSymbol(symbol, params, signal);
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      row = emptyRow(
+        symbol,
+        error instanceof Error ? error.message : "Analysis failed",
+      );
+    }
+
+    completed++;
+    onResult?.(row, completed, params.symbols.length);
+    return row;
+  });
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+const PHASE_RANK: Record<BrokerScanRow["phase"], number> = {
+  accumulation: 2,
+  "": 1,
+  distribution: 0,
+};
+
+/**
+ * Order scan rows, strongest accumulation first; failed symbols always go last
+ * - net: netBuy - netSell, descending
+ * - phase: accumulation, then unknown, then distribution; net breaks ties
+ * - price: price change %, descending
+ * @param ascending - Reverse the order of successful rows
+ */
+export function rankScanRows(
+  rows: BrokerScanRow[],
+  sortKey: BrokerScanSortKey,
+  ascending: boolean = false,
+): BrokerScanRow[] {
+  const compare = (a: BrokerScanRow, b: BrokerScanRow): number => {
+    switch (sortKey) {
+      case "phase":
+        return PHASE_RANK[b.phase] - PHASE_RANK[a.phase] || b.net - a.net;
+      case "price":
+        return b.priceChangePercent - a.priceChangePercent;
+      case "net":
+      default:
+        return b.net - a.net;
+    }
+  };
+
+  return [...rows].sort((a, b) => {
+    if (!!a.error !== !!b.error) return a.error ? 1 : -1;
+    return ascending ? compare(b, a) : compare(a, b);
+  });
+}
+
+/**
+ * Link to the full broker calendar analysis of one scanned symbol
+ */
+export function buildBrokerCalendarHref(
+  symbol: string,
+  params: Omit<BrokerScanParams, "symbols">,
+): string {
+  const query = new URLSearchParams({
+    symbol,
+    from: params.from,
+    to: params.to,
+  });
+  if (params.brokers.length > 0) query.set("brokers", params.brokers.join(","));
+  return `/broker-calendar?${query.toString()}`;
+}
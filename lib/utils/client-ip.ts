@@ -135,6 +135,20 @@ export function getClientIPSync(): string | null {
   return getCachedIP();
 }
 
+/**
+ * Visitor IP of an incoming request, for API routes that call the backend on its behalf
+ * Prefers the X-Ip-Client the browser sent, then the first X-Forwarded-For hop, then X-Real-Ip.
+ */
+export function getRequestClientIP(headers: Headers): string | null {
+  const sent = headers.get("x-ip-client")?.trim();
+  if (sent && sent !== "unknown") return sent;
+
+  const forwarded = headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  if (forwarded) return forwarded;
+
+  return headers.get("x-real-ip")?.trim() || null;
+}
+
 /**
  * Clear cached IP (useful for testing or privacy)
  */
@@ -0,0 +1,32 @@
+/**
+ * Map over `items` with at most `limit` workers in flight
+ * Results keep the input order. A rejected worker rejects the whole call, so
+ * workers that should not abort the batch must catch their own errors.
+ * @param items - Inputs to process
+ * @param limit - Maximum concurrent workers
+ * @param worker - Async function applied to each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const run = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  };
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(Math.max(1, limit), items.length); i++) {
+    workers.push(run());
+  }
+  await Promise.all(workers);
+
+  return results;
+}
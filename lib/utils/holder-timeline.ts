@@ -0,0 +1,182 @@
+import {
+  ActionType,
+  BigPlayerMovementRaw,
+  NationalityType,
+  ShareholderBadge,
+  SourceType,
+} from "@/components/bigplayer/types";
+import { getCmhId, getMovementKey, orderMovements } from "./aggregation";
+import { parseLargeNumber, parsePercentage } from "./format";
+
+/**
+ * Big Player holder timeline
+ * Follows one shareholder across dates and symbols instead of the
+ * name-symbol-date-action groups used by the movement table.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Identifies a shareholder. `cmhId` wins when both sides carry one, otherwise
+ * entries are matched on the (case-insensitive) name.
+ */
+export interface HolderRef {
+  name: string;
+  cmhId?: string;
+}
+
+export interface HoldingPoint {
+  date: string;
+  /** Holding percentage after the last movement of the day */
+  percentage: number;
+  /** Shares held after the last movement of the day */
+  value: number;
+}
+
+export interface HolderSymbolSummary {
+  symbol: string;
+  points: HoldingPoint[];
+  firstPercentage: number;
+  lastPercentage: number;
+  /** Shares added (positive) or released (negative) over all movements */
+  netShares: number;
+  buyCount: number;
+  sellCount: number;
+  otherCount: number;
+  sources: SourceType[];
+  entryCount: number;
+}
+
+export interface HolderTimeline {
+  name: string;
+  cmhIds: string[];
+  nationality: NationalityType | null;
+  badges: ShareholderBadge[];
+  /** Every matching movement, oldest first */
+  entries: BigPlayerMovementRaw[];
+  /** One summary per symbol, largest absolute net first */
+  symbols: HolderSymbolSummary[];
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+const normalizeName = (name: string) => name.trim().toUpperCase();
+
+export function getHolderRef(
+  entry: Pick<BigPlayerMovementRaw, "name" | "cmh_id">,
+): HolderRef {
+  return { name: entry.name, cmhId: getCmhId(entry) || undefined };
+}
+
+export function matchesHolder(
+  entry: BigPlayerMovementRaw,
+  holder: HolderRef,
+): boolean {
+  const cmhId = getCmhId(entry);
+  if (holder.cmhId && cmhId) {
+    return cmhId === holder.cmhId;
+  }
+  return normalizeName(entry.name) === normalizeName(holder.name);
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/**
+ * Collect a holder's movements and summarize them per symbol
+ * Duplicate movements (e.g. when extra history was merged in) are counted once.
+ */
+export function buildHolderTimeline(
+  rawEntries: BigPlayerMovementRaw[],
+  holder: HolderRef,
+): HolderTimeline {
+  const seen = new Set<string>();
+  const entries = orderMovements(
+    rawEntries.filter((entry) => {
+      if (!matchesHolder(entry, holder)) return false;
+      const key = getMovementKey(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+  );
+
+  const entriesBySymbol = new Map<string, BigPlayerMovementRaw[]>();
+  entries.forEach((entry) => {
+    const list = entriesBySymbol.get(entry.symbol) || [];
+    list.push(entry);
+    entriesBySymbol.set(entry.symbol, list);
+  });
+
+  const symbols = Array.from(entriesBySymbol.entries())
+    .map(([symbol, list]) => summarizeSymbol(symbol, list))
+    .sort((a, b) => Math.abs(b.netShares) - Math.abs(a.netShares));
+
+  const latest = entries[entries.length - 1];
+  const cmhIds = new Set(
+    entries.map(getCmhId).filter((cmhId): cmhId is string => !!cmhId),
+  );
+  const badges = new Set(entries.flatMap((entry) => entry.badges || []));
+
+  return {
+    name: latest?.name || holder.name,
+    cmhIds: Array.from(cmhIds),
+    nationality: latest?.nationality || null,
+    badges: Array.from(badges),
+    entries,
+    symbols,
+  };
+}
+
+/**
+ * @param entries - One symbol's movements, oldest first
+ */
+function summarizeSymbol(
+  symbol: string,
+  entries: BigPlayerMovementRaw[],
+): HolderSymbolSummary {
+  const pointsByDate = new Map<string, HoldingPoint>();
+  const sources = new Set<SourceType>();
+  let netShares = 0;
+  let buyCount = 0;
+  let sellCount = 0;
+  let otherCount = 0;
+
+  entries.forEach((entry) => {
+    // Later movements of the same day overwrite earlier ones
+    pointsByDate.set(entry.date, {
+      date: entry.date,
+      percentage: parsePercentage(entry.current.percentage),
+      value: parseLargeNumber(entry.current.value),
+    });
+    sources.add(entry.data_source.type);
+    netShares +=
+      parseLargeNumber(entry.current.value) -
+      parseLargeNumber(entry.previous.value);
+
+    if (entry.action_type === ActionType.BUY) buyCount++;
+    else if (entry.action_type === ActionType.SELL) sellCount++;
+    else otherCount++;
+  });
+
+  const first = entries[0];
+  const points = Array.from(pointsByDate.values());
+
+  return {
+    symbol,
+    points,
+    firstPercentage: parsePercentage(first.previous.percentage),
+    lastPercentage: points[points.length - 1].percentage,
+    netShares,
+    buyCount,
+    sellCount,
+    otherCount,
+    sources: Array.from(sources),
+    entryCount: entries.length,
+  };
+}
@@ -0,0 +1,232 @@
+import {
+  ActionType,
+  BigPlayerMovementRaw,
+  ShareholderBadge,
+} from "@/components/bigplayer/types";
+import type { Profile } from "@/lib/api/emitten";
+import { getMovementKey, orderMovements } from "./aggregation";
+import { parseLargeNumber, parsePercentage } from "./format";
+
+/**
+ * Per-symbol ownership change
+ * Turns one emitten's Big Player movements into holder series, net flow per
+ * action type and the controller/director movements, and lines the latest
+ * movements up against the profile shareholder snapshot.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface HolderSeries {
+  name: string;
+  badges: ShareholderBadge[];
+  /** Holding % per date, carried forward from the holder's last movement */
+  percentages: Record<string, number>;
+  latestPercentage: number;
+  netShares: number;
+}
+
+export interface ActionFlow {
+  actionType: ActionType;
+  count: number;
+  /** Shares added minus shares released */
+  netShares: number;
+  /** Sum of the reported change values */
+  changeValue: number;
+}
+
+export interface InsiderFlow {
+  badge: ShareholderBadge;
+  /** Movements of holders carrying the badge, newest first */
+  entries: BigPlayerMovementRaw[];
+  netShares: number;
+  buyCount: number;
+  sellCount: number;
+}
+
+export interface OwnershipDashboard {
+  symbol: string;
+  /** Movement dates in ascending order */
+  dates: string[];
+  /** Largest current holding first */
+  holders: HolderSeries[];
+  flows: ActionFlow[];
+  insiders: Record<"controller" | "director", InsiderFlow>;
+  entries: BigPlayerMovementRaw[];
+}
+
+export interface SnapshotComparisonRow {
+  name: string;
+  badges: string[];
+  /** Percentage in `profile.shareholder`, null when the holder is not listed */
+  snapshotPercentage: number | null;
+  /** Percentage after the holder's latest movement, null when it did not move */
+  movementPercentage: number | null;
+}
+
+// ============================================================================
+// Dashboard
+// ============================================================================
+
+const normalizeName = (name: string) => name.trim().toUpperCase();
+
+const getNetShares = (entry: BigPlayerMovementRaw) =>
+  parseLargeNumber(entry.current.value) -
+  parseLargeNumber(entry.previous.value);
+
+/**
+ * Build the ownership dashboard for one symbol
+ * Duplicate movements (e.g. repeated across fetched pages) are counted once.
+ * @param rawEntries - Movements of any symbols; only `symbol` is kept
+ */
+export function buildOwnershipDashboard(
+  rawEntries: BigPlayerMovementRaw[],
+  symbol: string,
+): OwnershipDashboard {
+  const seen = new Set<string>();
+  const entries = orderMovements(
+    rawEntries.filter((entry) => {
+      if (entry.symbol.toUpperCase() !== symbol.toUpperCase()) return false;
+      const key = getMovementKey(entry);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+  );
+  const dates = Array.from(new Set(entries.map((entry) => entry.date)));
+
+  return {
+    symbol: symbol.toUpperCase(),
+    dates,
+    holders: buildHolderSeries(entries, dates),
+    flows: buildActionFlows(entries),
+    insiders: {
+      controller: buildInsiderFlow(entries, ShareholderBadge.PENGENDALI),
+      director: buildInsiderFlow(entries, ShareholderBadge.DIREKTUR),
+    },
+    entries,
+  };
+}
+
+/**
+ * @param entries - Movements of one symbol, oldest first
+ */
+function buildHolderSeries(
+  entries: BigPlayerMovementRaw[],
+  dates: string[],
+): HolderSeries[] {
+  const entriesByHolder = new Map<string, BigPlayerMovementRaw[]>();
+  entries.forEach((entry) => {
+    const key = normalizeName(entry.name);
+    entriesByHolder.set(key, [...(entriesByHolder.get(key) || []), entry]);
+  });
+
+  const series = Array.from(entriesByHolder.values()).map((list) => {
+    const lastByDate = new Map<string, number>();
+    list.forEach((entry) =>
+      lastByDate.set(entry.date, parsePercentage(entry.current.percentage)),
+    );
+
+    // Before the first movement the holder sits at its first "previous" percentage
+    let current = parsePercentage(list[0].previous.percentage);
+    const percentages: Record<string, number> = {};
+    dates.forEach((date) => {
+      current = lastByDate.get(date) ?? current;
+      percentages[date] = current;
+    });
+
+    return {
+      name: list[list.length - 1].name,
+      badges: Array.from(new Set(list.flatMap((entry) => entry.badges || []))),
+      percentages,
+      latestPercentage: current,
+      netShares: list.reduce((sum, entry) => sum + getNetShares(entry), 0),
+    };
+  });
+
+  return series.sort((a, b) => b.latestPercentage - a.latestPercentage);
+}
+
+function buildActionFlows(entries: BigPlayerMovementRaw[]): ActionFlow[] {
+  return Object.values(ActionType)
+    .map((actionType) => {
+      const matching = entries.filter(
+        (entry) => entry.action_type === actionType,
+      );
+      return {
+        actionType,
+        count: matching.length,
+        netShares: matching.reduce(
+          (sum, entry) => sum + getNetShares(entry),
+          0,
+        ),
+        changeValue: matching.reduce(
+          (sum, entry) => sum + parseLargeNumber(entry.changes.value),
+          0,
+        ),
+      };
+    })
+    .filter((flow) => flow.count > 0);
+}
+
+function buildInsiderFlow(
+  entries: BigPlayerMovementRaw[],
+  badge: ShareholderBadge,
+): InsiderFlow {
+  const matching = entries.filter((entry) => entry.badges?.includes(badge));
+
+  return {
+    badge,
+    entries: [...matching].reverse(),
+    netShares: matching.reduce((sum, entry) => sum + getNetShares(entry), 0),
+    buyCount: matching.filter((entry) => entry.action_type === ActionType.BUY)
+      .length,
+    sellCount: matching.filter((entry) => entry.action_type === ActionType.SELL)
+      .length,
+  };
+}
+
+// ============================================================================
+// Snapshot comparison
+// ============================================================================
+
+/**
+ * Join the profile shareholder snapshot with the holders seen in the movements
+ * Snapshot holders come first in their listed order, followed by holders that
+ * moved but are not in the snapshot.
+ */
+export function compareWithSnapshot(
+  holders: HolderSeries[],
+  shareholders: NonNullable<Profile["shareholder"]>,
+): SnapshotComparisonRow[] {
+  const holdersByName = new Map(
+    holders.map((holder) => [normalizeName(holder.name), holder]),
+  );
+  const matched = new Set<string>();
+
+  const rows: SnapshotComparisonRow[] = shareholders.map((shareholder) => {
+    const key = normalizeName(shareholder.name);
+    const holder = holdersByName.get(key);
+    if (holder) matched.add(key);
+
+    return {
+      name: shareholder.name,
+      badges: shareholder.badges || holder?.badges || [],
+      snapshotPercentage: parsePercentage(shareholder.percentage),
+      movementPercentage: holder ? holder.latestPercentage : null,
+    };
+  });
+
+  holders.forEach((holder) => {
+    if (matched.has(normalizeName(holder.name))) return;
+    rows.push({
+      name: holder.name,
+      badges: holder.badges,
+      snapshotPercentage: null,
+      movementPercentage: holder.latestPercentage,
+    });
+  });
+
+  return rows;
+}
@@ -0,0 +1,318 @@
+import {
+  fetchEmittenInfo,
+  type EmittenInfo,
+  type KeyStats,
+} from "@/lib/api/emitten";
+import { findSymbolsInSubSector, getSectorEntry } from "@/lib/sectors/store";
+import { mapWithConcurrency } from "@/lib/utils/concurrency";
+import { parseNumber } from "@/lib/utils/valuation";
+import {
+  calculateEmittenFundamentals,
+  calculateIntrinsicValue,
+  extractValuationInputs,
+  type ValuationAssumptions,
+} from "@/lib/valuation";
+
+/**
+ * Peer comparison
+ * Puts the key metrics, fundamental scores and intrinsic-value upside of an
+ * emitten and its peers side by side, and flags the values that stand out.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PeerMetricKey =
+  | "pe"
+  | "pbv"
+  | "roe"
+  | "netMargin"
+  | "debtToEquity"
+  | "marketCap"
+  | "freeFloat"
+  | "profitability"
+  | "valuation"
+  | "risk"
+  | "growth"
+  | "overall"
+  | "upside";
+
+export type PeerSortKey = "symbol" | PeerMetricKey;
+
+export type SortDirection = "asc" | "desc";
+
+export interface PeerRow {
+  symbol: string;
+  name: string;
+  sector: string;
+  subSector: string;
+  /** Label of the threshold profile the scores were computed against */
+  profileLabel: string;
+  /** null when the metric is missing from key stats */
+  values: Record<PeerMetricKey, number | null>;
+}
+
+export interface PeerColumn {
+  key: PeerMetricKey;
+  label: string;
+  format: "multiple" | "percent" | "amount" | "score";
+  /** Which direction is favourable; null when neither is (size, float) */
+  better: "higher" | "lower" | null;
+}
+
+/**
+ * - high / low: beyond the upper / lower Tukey fence of the peer group
+ */
+export type OutlierSide = "high" | "low";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const PEER_LIMITS = {
+  /** Peers compared next to the base symbol */
+  MAX_PEERS: 15,
+  /** fetchAllEmittenData calls in flight (each one is three requests) */
+  CONCURRENCY: 3,
+  /** Fewer values than this are not enough to call anything an outlier */
+  MIN_OUTLIER_SAMPLE: 4,
+  /** Watchlist symbols missing from the sector index looked up per peer search */
+  MAX_SECTOR_LOOKUPS: 45,
+};
+
+/** Tukey fences: Q1 − k·IQR and Q3 + k·IQR */
+export const OUTLIER_IQR_MULTIPLIER = 1.5;
+
+export const PEER_COLUMNS: PeerColumn[] = [
+  { key: "pe", label: "PE", format: "multiple", better: "lower" },
+  { key: "pbv", label: "PBV", format: "multiple", better: "lower" },
+  { key: "roe", label: "ROE", format: "percent", better: "higher" },
+  {
+    key: "netMargin",
+    label: "Net Margin",
+    format: "percent",
+    better: "higher",
+  },
+  { key: "debtToEquity", label: "D/E", format: "multiple", better: "lower" },
+  { key: "marketCap", label: "Market Cap", format: "amount", better: null },
+  { key: "freeFloat", label: "Free Float", format: "percent", better: null },
+  {
+    key: "profitability",
+    label: "Profitability",
+    format: "score",
+    better: "higher",
+  },
+  { key: "valuation", label: "Valuation", format: "score", better: "higher" },
+  { key: "risk", label: "Risk", format: "score", better: "higher" },
+  { key: "growth", label: "Growth", format: "score", better: "higher" },
+  { key: "overall", label: "Overall", format: "score", better: "higher" },
+  { key: "upside", label: "Upside", format: "percent", better: "higher" },
+];
+
+// ============================================================================
+// Rows
+// ============================================================================
+
+function toMetric(value: string | undefined): number | null {
+  if (!value || value === "-") return null;
+  const parsed = parseNumber(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Build one grid row from the emitten's info and key stats
+ * @param assumptions - Valuation assumptions the upside is computed with
+ */
+export function buildPeerRow(
+  info: EmittenInfo,
+  keyStats: KeyStats | null,
+  assumptions: ValuationAssumptions,
+): PeerRow {
+  const { metrics, profile, score } = calculateEmittenFundamentals(
+    info,
+    keyStats,
+  );
+  const { upside } = calculateIntrinsicValue(
+    extractValuationInputs(info, keyStats),
+    assumptions,
+  );
+
+  return {
+    symbol: info.symbol.toUpperCase(),
+    name: info.name,
+    sector: info.sector,
+    subSector: info.sub_sector,
+    profileLabel: profile.label,
+    values: {
+      pe: toMetric(metrics.pe),
+      pbv: toMetric(metrics.pbv),
+      roe: toMetric(metrics.roe),
+      netMargin: toMetric(metrics.netMargin),
+      debtToEquity: toMetric(metrics.debtToEquity),
+      marketCap: toMetric(keyStats?.stats?.market_cap),
+      freeFloat: toMetric(keyStats?.stats?.free_float),
+      profitability: score.profitability,
+      valuation: score.valuation,
+      risk: score.risk,
+      growth: score.growth,
+      overall: score.overall,
+      upside,
+    },
+  };
+}
+
+/**
+ * Whether a peer shares the base emitten's sub-sector (case-insensitive)
+ */
+export function isSameSubSector(row: PeerRow, base: PeerRow): boolean {
+  return (
+    !!base.subSector &&
+    row.subSector.trim().toLowerCase() === base.subSector.trim().toLowerCase()
+  );
+}
+
+// ============================================================================
+// Peer candidates
+// ============================================================================
+
+export interface SubSectorPeers {
+  /** Sub-sector of the base emitten; empty when it could not be determined */
+  subSector: string;
+  /** Same-sub-sector symbols, watchlist symbols first, at most MAX_PEERS */
+  peers: string[];
+}
+
+/**
+ * Same-sub-sector peer candidates for an emitten
+ * No API lists emittens by sector, so candidates come from the sector index
+ * (every emitten whose info this browser loaded) plus the given watchlist
+ * symbols, the first MAX_SECTOR_LOOKUPS of which are looked up when the index
+ * does not know them yet.
+ * @param symbol - Base emitten
+ * @param watchlistSymbols - Symbols of the user's watchlists, preferred as peers
+ */
+export async function findSubSectorPeers(
+  symbol: string,
+  watchlistSymbols: string[] = [],
+): Promise<SubSectorPeers> {
+  const base = symbol.toUpperCase();
+  const subSector =
+    getSectorEntry(base)?.subSector ||
+    (await fetchEmittenInfo(base)).sub_sector ||
+    "";
+  if (!subSector) return { subSector: "", peers: [] };
+
+  const watched = Array.from(
+    new Set(watchlistSymbols.map((entry) => entry.toUpperCase())),
+  ).filter((entry) => entry !== base);
+  const unknown = watched
+    .filter((entry) => !getSectorEntry(entry))
+    .slice(0, PEER_LIMITS.MAX_SECTOR_LOOKUPS);
+
+  // fetchEmittenInfo records each result in the sector index
+  await mapWithConcurrency(unknown, PEER_LIMITS.CONCURRENCY, async (entry) => {
+    try {
+      await fetchEmittenInfo(entry);
+    } catch (error) {
+      console.warn(
+        `[PeerComparison] Sector lookup failed for ${entry}:`,
+        error,
+      );
+    }
+  });
+
+  const sameSubSector = new Set(findSymbolsInSubSector(subSector));
+  sameSubSector.delete(base);
+  const preferred = watched.filter((entry) => sameSubSector.has(entry));
+  const others = Array.from(sameSubSector).filter(
+    (entry) => !preferred.includes(entry),
+  );
+
+  return {
+    subSector,
+    peers: [...preferred, ...others].slice(0, PEER_LIMITS.MAX_PEERS),
+  };
+}
+
+// ============================================================================
+// Sorting
+// ============================================================================
+
+/**
+ * Sort rows by a column; missing values always go last
+ */
+export function sortPeerRows(
+  rows: PeerRow[],
+  key: PeerSortKey,
+  direction: SortDirection,
+): PeerRow[] {
+  const factor = direction === "asc" ? 1 : -1;
+
+  return [...rows].sort((a, b) => {
+    if (key === "symbol") return a.symbol.localeCompare(b.symbol) * factor;
+
+    const valueA = a.values[key];
+    const valueB = b.values[key];
+    if (valueA === null && valueB === null)
+      return a.symbol.localeCompare(b.symbol);
+    if (valueA === null) return 1;
+    if (valueB === null) return -1;
+    return (valueA - valueB) * factor;
+  });
+}
+
+// ============================================================================
+// Outliers
+// ============================================================================
+
+/**
+ * Quantile of sorted values, linearly interpolated between closest ranks
+ */
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Symbols whose value for `key` falls outside the Tukey fences of the group
+ * Returns an empty map when fewer than MIN_OUTLIER_SAMPLE peers have the metric.
+ */
+export function findOutliers(
+  rows: PeerRow[],
+  key: PeerMetricKey,
+): Map<string, OutlierSide> {
+  const outliers = new Map<string, OutlierSide>();
+  const values = rows
+    .map((row) => row.values[key])
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+  if (values.length < PEER_LIMITS.MIN_OUTLIER_SAMPLE) return outliers;
+
+  const q1 = quantile(values, 0.25);
+  const q3 = quantile(values, 0.75);
+  const spread = (q3 - q1) * OUTLIER_IQR_MULTIPLIER;
+
+  rows.forEach((row) => {
+    const value = row.values[key];
+    if (value === null) return;
+    if (value > q3 + spread) outliers.set(row.symbol, "high");
+    else if (value < q1 - spread) outliers.set(row.symbol, "low");
+  });
+
+  return outliers;
+}
+
+/**
+ * Outliers for every column, keyed by column
+ */
+export function findAllOutliers(
+  rows: PeerRow[],
+): Record<PeerMetricKey, Map<string, OutlierSide>> {
+  return PEER_COLUMNS.reduce(
+    (acc, column) => ({ ...acc, [column.key]: findOutliers(rows, column.key) }),
+    {} as Record<PeerMetricKey, Map<string, OutlierSide>>,
+  );
+}
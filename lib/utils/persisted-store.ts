@@ -0,0 +1,106 @@
+/**
+ * localStorage-backed client store
+ * Holds one JSON value under a storage key, loads it lazily on the client and
+ * notifies subscribers on every change, including changes other open tabs make
+ * (picked up through the storage event). Values are replaced, never mutated, so
+ * `get` can be used as a useSyncExternalStore snapshot.
+ */
+
+export interface PersistedStoreOptions<T> {
+  /** localStorage key */
+  key: string;
+  /** Value during SSR and when nothing valid is stored */
+  fallback: T;
+  /** Turn the parsed JSON into a valid value, dropping malformed parts */
+  parse: (stored: unknown) => T;
+  /** Log prefix for persistence failures, e.g. "Watchlists" */
+  label: string;
+}
+
+export interface PersistedStore<T> {
+  /** Current value (client-only; the fallback during SSR) */
+  get: () => T;
+  /** Server snapshot (no localStorage during SSR) */
+  getServerSnapshot: () => T;
+  /** Replace the value, persist it and notify subscribers */
+  set: (next: T) => void;
+  /**
+   * Subscribe to changes, including edits made in other tabs
+   * @returns Unsubscribe function
+   */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export function createPersistedStore<T>({
+  key,
+  fallback,
+  parse,
+  label,
+}: PersistedStoreOptions<T>): PersistedStore<T> {
+  let value = fallback;
+  let loaded = false;
+  const listeners = new Set<() => void>();
+
+  const read = (): T => {
+    try {
+      const item = localStorage.getItem(key);
+
+      return item ? parse(JSON.parse(item)) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+
+  const get = (): T => {
+    if (!loaded && typeof window !== "undefined") {
+      value = read();
+      loaded = true;
+    }
+
+    return value;
+  };
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  const handleStorageEvent = (event: StorageEvent) => {
+    if (event.key !== key) return;
+    value = read();
+    loaded = true;
+    notify();
+  };
+
+  return {
+    get,
+    getServerSnapshot: () => fallback,
+    set(next) {
+      value = next;
+      loaded = true;
+      try {
+        localStorage.setItem(key, JSON.stringify(next));
+      } catch (error) {
+        console.warn(`[${label}] Failed to persist ${key}:`, error);
+      }
+      notify();
+    },
+    subscribe(listener) {
+      if (listeners.size === 0 && typeof window !== "undefined") {
+        window.addEventListener("storage", handleStorageEvent);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== "undefined") {
+          window.removeEventListener("storage", handleStorageEvent);
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Random id for an item of a persisted store, e.g. "wl-m1x2y3-a1b2c3"
+ */
+export function createStoreId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,437 @@
+import { IDX_HOLIDAYS } from "@/data/idx-holidays";
+
+/**
+ * IDX trading calendar
+ * All dates are "YYYY-MM-DD" strings in the Asia/Jakarta timezone (WIB).
+ * Arithmetic is done on UTC midnights so the host timezone never shifts a date.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export interface TradingDayBucket {
+  startDate: string;
+  endDate: string;
+  /** Trading sessions in the bucket */
+  sessions: number;
+}
+
+/** How a range is divided into periods */
+export type TradingBucketing =
+  | { mode: "count"; count: number }
+  | { mode: "weekly" }
+  | { mode: "monthly" }
+  | { mode: "custom"; breakpoints: string[] };
+
+export type TradingPreset =
+  | "today"
+  | "3days"
+  | "5days"
+  | "7days"
+  | "1week"
+  | "20sessions"
+  | "1month"
+  | "3months"
+  | "6months"
+  | "12months"
+  | "1year";
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const TRADING_TIMEZONE = "Asia/Jakarta";
+
+/** WIB is UTC+7 and has no daylight saving time */
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Preset definitions: either the last N sessions or N calendar months back
+ */
+export const TRADING_PRESETS: Record<
+  TradingPreset,
+  { sessions?: number; months?: number }
+> = {
+  today: { sessions: 1 },
+  "3days": { sessions: 3 },
+  "5days": { sessions: 5 },
+  "7days": { sessions: 7 },
+  "1week": { sessions: 5 },
+  "20sessions": { sessions: 20 },
+  "1month": { months: 1 },
+  "3months": { months: 3 },
+  "6months": { months: 6 },
+  "12months": { months: 12 },
+  "1year": { months: 12 },
+};
+
+/** Allowed range for equal-session bucketing */
+export const BUCKET_COUNT_LIMITS = { MIN: 2, MAX: 24 };
+
+const MONTH_NAMES = [
+  "Jan",
+  "Feb",
+  "Mar",
+  "Apr",
+  "May",
+  "Jun",
+  "Jul",
+  "Aug",
+  "Sep",
+  "Oct",
+  "Nov",
+  "Dec",
+];
+
+const holidayNames = new Map<string, string>(
+  IDX_HOLIDAYS.map((holiday) => [holiday.date, holiday.name]),
+);
+
+// ============================================================================
+// Date Helpers
+// ============================================================================
+
+function toUtcTime(date: string): number {
+  const [year, month, day] = date.split("-").map(Number);
+  return Date.UTC(year, month - 1, day);
+}
+
+function fromUtcTime(time: number): string {
+  return new Date(time).toISOString().split("T")[0];
+}
+
+/**
+ * Shift a date by whole calendar days
+ */
+export function addCalendarDays(date: string, days: number): string {
+  return fromUtcTime(toUtcTime(date) + days * DAY_MS);
+}
+
+/**
+ * Shift a date by calendar months, clamping to the end of shorter months
+ */
+export function addCalendarMonths(date: string, months: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return fromUtcTime(target.getTime());
+}
+
+/**
+ * Today's date in Jakarta, regardless of the browser or server timezone
+ */
+export function getTodayDate(): string {
+  return fromUtcTime(Date.now() + WIB_OFFSET_MS);
+}
+
+// ============================================================================
+// Trading Days
+// ============================================================================
+
+/**
+ * Name of the exchange holiday on `date`, if any
+ */
+export function getHolidayName(date: string): string | null {
+  return holidayNames.get(date) || null;
+}
+
+/**
+ * Whether the exchange is open on `date` (weekday and not a holiday)
+ */
+export function isTradingDay(date: string): boolean {
+  const weekday = new Date(toUtcTime(date)).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !holidayNames.has(date);
+}
+
+/**
+ * `date` itself if it is a trading day, otherwise the closest earlier one
+ */
+export function getTradingDayOnOrBefore(date: string): string {
+  let current = date;
+  while (!isTradingDay(current)) current = addCalendarDays(current, -1);
+  return current;
+}
+
+/**
+ * `date` itself if it is a trading day, otherwise the closest later one
+ */
+export function getTradingDayOnOrAfter(date: string): string {
+  let current = date;
+  while (!isTradingDay(current)) current = addCalendarDays(current, 1);
+  return current;
+}
+
+/**
+ * The most recent trading session up to and including today
+ */
+export function getLatestTradingDay(): string {
+  return getTradingDayOnOrBefore(getTodayDate());
+}
+
+/**
+ * Move `offset` trading days from `date` (negative goes back)
+ * A non-trading `date` is first snapped in the direction of travel.
+ */
+export function addTradingDays(date: string, offset: number): string {
+  const step = offset < 0 ? -1 : 1;
+  let current =
+    step < 0 ? getTradingDayOnOrBefore(date) : getTradingDayOnOrAfter(date);
+  let remaining = Math.abs(offset);
+
+  while (remaining > 0) {
+    current = addCalendarDays(current, step);
+    if (isTradingDay(current)) remaining--;
+  }
+  return current;
+}
+
+/**
+ * All trading days in [start, end], inclusive and in ascending order
+ */
+export function getTradingDaysBetween(start: string, end: string): string[] {
+  const days: string[] = [];
+  if (!ISO_DATE.test(start) || !ISO_DATE.test(end)) return days;
+
+  for (
+    let current = start;
+    current <= end;
+    current = addCalendarDays(current, 1)
+  ) {
+    if (isTradingDay(current)) days.push(current);
+  }
+  return days;
+}
+
+/**
+ * Number of trading sessions in [start, end]
+ */
+export function countTradingDays(start: string, end: string): number {
+  return getTradingDaysBetween(start, end).length;
+}
+
+// ============================================================================
+// Presets & Buckets
+// ============================================================================
+
+/**
+ * Resolve a preset to a range ending on the latest trading session
+ */
+export function getPresetRange(preset: TradingPreset): DateRange {
+  const end = getLatestTradingDay();
+  const { sessions, months } = TRADING_PRESETS[preset];
+
+  if (sessions) {
+    return { start: addTradingDays(end, -(sessions - 1)), end };
+  }
+
+  return {
+    start: getTradingDayOnOrAfter(addCalendarMonths(end, -(months || 0))),
+    end,
+  };
+}
+
+/**
+ * Find which of `presets` produces exactly this range
+ * @returns The matching preset, or "" for a custom range
+ */
+export function getMatchingPreset<T extends TradingPreset>(
+  start: string,
+  end: string,
+  presets: readonly T[],
+): T | "" {
+  for (const preset of presets) {
+    const range = getPresetRange(preset);
+    if (range.start === start && range.end === end) return preset;
+  }
+  return "";
+}
+
+/**
+ * Split the trading days of [start, end] into `count` buckets of (nearly) equal sessions
+ * Earlier buckets take the remainder. Fewer buckets are returned when the range has
+ * fewer sessions than `count`, so no bucket is ever empty.
+ * @returns Buckets in chronological order
+ */
+export function splitTradingDays(
+  start: string,
+  end: string,
+  count: number,
+): TradingDayBucket[] {
+  const days = getTradingDaysBetween(start, end);
+  const bucketCount = Math.min(count, days.length);
+  const buckets: TradingDayBucket[] = [];
+
+  let cursor = 0;
+  for (let i = 0; i < bucketCount; i++) {
+    const size =
+      Math.floor(days.length / bucketCount) +
+      (i < days.length % bucketCount ? 1 : 0);
+    buckets.push({
+      startDate: days[cursor],
+      endDate: days[cursor + size - 1],
+      sessions: size,
+    });
+    cursor += size;
+  }
+
+  return buckets;
+}
+
+/**
+ * Group consecutive trading days that share a key into buckets
+ */
+function groupTradingDays(
+  days: string[],
+  keyOf: (day: string) => string | number,
+): TradingDayBucket[] {
+  const buckets: TradingDayBucket[] = [];
+  let currentKey: string | number | null = null;
+
+  days.forEach((day) => {
+    const key = keyOf(day);
+    const last = buckets[buckets.length - 1];
+    if (last && key === currentKey) {
+      last.endDate = day;
+      last.sessions++;
+    } else {
+      buckets.push({ startDate: day, endDate: day, sessions: 1 });
+      currentKey = key;
+    }
+  });
+
+  return buckets;
+}
+
+/**
+ * Divide the trading days of [start, end] according to `bucketing`
+ * - count: N buckets of equal sessions (clamped to BUCKET_COUNT_LIMITS)
+ * - weekly / monthly: one bucket per calendar week (Mon-Fri) or month
+ * - custom: a new bucket starts on each breakpoint date
+ * @returns Non-empty buckets in chronological order
+ */
+export function bucketTradingDays(
+  start: string,
+  end: string,
+  bucketing: TradingBucketing,
+): TradingDayBucket[] {
+  switch (bucketing.mode) {
+    case "count": {
+      const count = Math.min(
+        Math.max(Math.round(bucketing.count), BUCKET_COUNT_LIMITS.MIN),
+        BUCKET_COUNT_LIMITS.MAX,
+      );
+      return splitTradingDays(start, end, count);
+    }
+    case "weekly":
+      return groupTradingDays(getTradingDaysBetween(start, end), (day) => {
+        const weekday = new Date(toUtcTime(day)).getUTCDay();
+        return addCalendarDays(day, -((weekday + 6) % 7));
+      });
+    case "monthly":
+      return groupTradingDays(getTradingDaysBetween(start, end), (day) =>
+        day.slice(0, 7),
+      );
+    case "custom": {
+      const breakpoints = bucketing.breakpoints
+        .filter((date) => ISO_DATE.test(date))
+        .sort();
+      return groupTradingDays(
+        getTradingDaysBetween(start, end),
+        (day) => breakpoints.filter((breakpoint) => breakpoint <= day).length,
+      );
+    }
+  }
+}
+
+/**
+ * Read a bucketing back from storage or a URL
+ * @returns The bucketing, or null when `value` does not have a valid shape
+ */
+export function parseTradingBucketing(value: unknown): TradingBucketing | null {
+  if (!value || typeof value !== "object") return null;
+
+  const stored = value as {
+    mode?: unknown;
+    count?: unknown;
+    breakpoints?: unknown;
+  };
+  switch (stored.mode) {
+    case "count":
+      return typeof stored.count === "number" && Number.isFinite(stored.count)
+        ? { mode: "count", count: stored.count }
+        : null;
+    case "weekly":
+    case "monthly":
+      return { mode: stored.mode };
+    case "custom":
+      return Array.isArray(stored.breakpoints)
+        ? {
+            mode: "custom",
+            breakpoints: stored.breakpoints.filter(
+              (date): date is string =>
+                typeof date === "string" && ISO_DATE.test(date),
+            ),
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Short label for a date range, e.g. "03 Mar - 14 Mar 2025" or "28 Dec 2024 - 09 Jan 2025"
+ */
+export function formatTradingRangeLabel(start: string, end: string): string {
+  const format = (date: string, withYear: boolean) => {
+    const [year, month, day] = date.split("-");
+    return `${day} ${MONTH_NAMES[Number(month) - 1]}${withYear ? ` ${year}` : ""}`;
+  };
+
+  if (start === end) return format(start, true);
+  return `${format(start, start.slice(0, 4) !== end.slice(0, 4))} - ${format(end, true)}`;
+}
+
+/**
+ * Human readable span of a range, in calendar time and trading sessions
+ * @param compact - Short form for buttons (e.g. "3M 2D · 62S")
+ * @returns e.g. "3 Months 2 Days · 62 sessions"
+ */
+export function formatRangeDuration(
+  start: string,
+  end: string,
+  compact: boolean = false,
+): string {
+  if (!ISO_DATE.test(start) || !ISO_DATE.test(end)) return "-";
+
+  const [from, to] = start <= end ? [start, end] : [end, start];
+  const sessions = countTradingDays(from, to);
+
+  let months = 0;
+  while (addCalendarMonths(from, months + 1) <= to) months++;
+  const days = Math.round(
+    (toUtcTime(to) - toUtcTime(addCalendarMonths(from, months))) / DAY_MS,
+  );
+
+  const parts: string[] = [];
+  if (compact) {
+    if (months > 0) parts.push(`${months}M`);
+    if (days > 0 || months === 0) parts.push(`${days}D`);
+    return `${parts.join(" ")} · ${sessions}S`;
+  }
+
+  if (months > 0) parts.push(`${months} Month${months > 1 ? "s" : ""}`);
+  if (days > 0 || months === 0)
+    parts.push(`${days} Day${days !== 1 ? "s" : ""}`);
+  return `${parts.join(" ")} · ${sessions} session${sessions !== 1 ? "s" : ""}`;
+}
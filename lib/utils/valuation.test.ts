@@ -0,0 +1,190 @@
+import type { SectorMetricKey } from "./valuation";
+
+import { describe, expect, it } from "vitest";
+
+import { rankAgainstSector, resolveThresholdProfile } from "./valuation";
+
+import { THRESHOLDS } from "@/config/valuation";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function rankOf(
+  key: SectorMetricKey,
+  value: string | number,
+  thresholds = THRESHOLDS,
+) {
+  return rankAgainstSector({ [key]: value }, thresholds)[0]?.rank;
+}
+
+// ============================================================================
+// Threshold profiles
+// ============================================================================
+
+describe("resolveThresholdProfile", () => {
+  it("applies the sub-sector profile on top of the sector profile", () => {
+    const profile = resolveThresholdProfile("Keuangan", "Bank");
+
+    expect(profile.id).toBe("financials/banks");
+    expect(profile.label).toBe("Keuangan › Bank");
+    expect(profile.matchedBy).toBe("sub_sector");
+    // Set by both: the sub-sector wins
+    expect(profile.thresholds.debtToEquity).toEqual({
+      safe: 6,
+      moderate: 8,
+      risky: 10,
+    });
+    // Set by the sub-sector only
+    expect(profile.thresholds.pe).toEqual({
+      cheap: 8,
+      fair: 12,
+      expensive: 18,
+    });
+    expect(profile.thresholds.roe).toEqual({
+      excellent: 18,
+      good: 14,
+      fair: 10,
+      poor: 6,
+    });
+    // Set by the sector only
+    expect(profile.thresholds.pbv).toEqual({
+      cheap: 1,
+      fair: 2,
+      expensive: 3,
+    });
+    expect(profile.thresholds.roa).toEqual({
+      excellent: 2.5,
+      good: 1.5,
+      fair: 1,
+      poor: 0.5,
+    });
+    // Set by neither
+    expect(profile.thresholds.revenueGrowth).toEqual(THRESHOLDS.revenueGrowth);
+    expect(profile.thresholds.netIncomeGrowth).toEqual(
+      THRESHOLDS.netIncomeGrowth,
+    );
+  });
+
+  it("leaves the global thresholds untouched", () => {
+    const before = JSON.stringify(THRESHOLDS);
+
+    resolveThresholdProfile("Keuangan", "Bank");
+    resolveThresholdProfile("Energi", "Batu Bara");
+
+    expect(JSON.stringify(THRESHOLDS)).toBe(before);
+  });
+
+  it("uses the sector profile when the sub-sector has none", () => {
+    const profile = resolveThresholdProfile("Energi", "Minyak & Gas");
+
+    expect(profile.id).toBe("energy");
+    expect(profile.label).toBe("Energi");
+    expect(profile.matchedBy).toBe("sector");
+    expect(profile.thresholds.pe).toEqual({ cheap: 5, fair: 8, expensive: 12 });
+    expect(profile.thresholds.roe).toEqual(THRESHOLDS.roe);
+  });
+
+  it("uses the sub-sector profile when the sector has none", () => {
+    const profile = resolveThresholdProfile("Unknown", "Coal");
+
+    expect(profile.id).toBe("coal");
+    expect(profile.matchedBy).toBe("sub_sector");
+    expect(profile.thresholds.pe).toEqual({ cheap: 4, fair: 6, expensive: 9 });
+    expect(profile.thresholds.pbv).toEqual(THRESHOLDS.pbv);
+  });
+
+  it("matches English names regardless of case and punctuation", () => {
+    expect(resolveThresholdProfile("FINANCIALS", "banks").id).toBe(
+      "financials/banks",
+    );
+    expect(resolveThresholdProfile("properti  real-estat").id).toBe("property");
+  });
+
+  it("falls back to the default profile when nothing matches", () => {
+    for (const profile of [
+      resolveThresholdProfile("Unknown", "Unknown"),
+      resolveThresholdProfile(),
+      resolveThresholdProfile("", ""),
+    ]) {
+      expect(profile.id).toBe("default");
+      expect(profile.label).toBe("Semua Sektor (IDX)");
+      expect(profile.matchedBy).toBe("default");
+      expect(profile.thresholds).toBe(THRESHOLDS);
+    }
+  });
+});
+
+// ============================================================================
+// Sector ranking
+// ============================================================================
+
+describe("rankAgainstSector", () => {
+  it("ranks higher-is-better metrics on each mark (roe 20/15/10/5)", () => {
+    expect(rankOf("roe", 25)).toBe("top");
+    expect(rankOf("roe", 20)).toBe("top");
+    expect(rankOf("roe", 19.99)).toBe("above");
+    expect(rankOf("roe", 15)).toBe("above");
+    expect(rankOf("roe", 10)).toBe("inline");
+    expect(rankOf("roe", 5)).toBe("below");
+    expect(rankOf("roe", 4.99)).toBe("bottom");
+    expect(rankOf("roe", -3)).toBe("bottom");
+  });
+
+  it("ranks lower-is-better metrics on each mark (pe 10/15/20)", () => {
+    expect(rankOf("pe", 0)).toBe("top");
+    expect(rankOf("pe", 10)).toBe("top");
+    expect(rankOf("pe", 10.01)).toBe("above");
+    expect(rankOf("pe", 15)).toBe("above");
+    expect(rankOf("pe", 20)).toBe("below");
+    expect(rankOf("pe", 20.01)).toBe("bottom");
+  });
+
+  it("never ranks a negative PE or PBV as cheap", () => {
+    expect(rankOf("pe", -4.2)).toBe("bottom");
+    expect(rankOf("pe", "-4.2")).toBe("bottom");
+    expect(rankOf("pe", "(4.2)")).toBe("bottom");
+    expect(rankOf("pbv", -0.5)).toBe("bottom");
+    expect(rankOf("pbv", 0)).toBe("top");
+  });
+
+  it("ranks against the resolved sector thresholds", () => {
+    const { thresholds } = resolveThresholdProfile("Keuangan", "Bank");
+
+    expect(rankOf("pe", 8, thresholds)).toBe("top");
+    expect(rankOf("pe", 9, thresholds)).toBe("above");
+    expect(rankOf("debtToEquity", 5, thresholds)).toBe("top");
+    expect(rankOf("debtToEquity", 5)).toBe("bottom");
+  });
+
+  it("reports the middle mark as the benchmark and parses reported strings", () => {
+    const [roe, pe] = rankAgainstSector(
+      { roe: "16.5%", pe: "12.3" },
+      THRESHOLDS,
+    );
+
+    expect(roe).toMatchObject({
+      key: "roe",
+      value: 16.5,
+      benchmark: 15,
+      unit: "%",
+      rank: "above",
+    });
+    expect(pe).toMatchObject({
+      key: "pe",
+      value: 12.3,
+      benchmark: 15,
+      unit: "×",
+      rank: "above",
+    });
+  });
+
+  it("leaves out missing metrics", () => {
+    const benchmarks = rankAgainstSector(
+      { roe: "-", netMargin: "", pe: 12 },
+      THRESHOLDS,
+    );
+
+    expect(benchmarks.map((benchmark) => benchmark.key)).toEqual(["pe"]);
+  });
+});
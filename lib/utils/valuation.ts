@@ -1,29 +1,24 @@
 /**
  * Valuation and scoring utilities
- * Calculate intrinsic value and fundamental scores from key stats data
+ * Valuation formulas and fundamental scores from key stats data; the models
+ * that combine the formulas into a fair value range live in lib/valuation
  */
 
-import { THRESHOLDS, SCORING_WEIGHTS, SCORE_COLORS } from "@/config/valuation";
+import {
+  THRESHOLDS,
+  SCORING_WEIGHTS,
+  SCORE_COLORS,
+  SECTOR_THRESHOLD_PROFILES,
+  SUB_SECTOR_THRESHOLD_PROFILES,
+  type ThresholdOverrides,
+  type ThresholdProfileConfig,
+  type Thresholds,
+} from "@/config/valuation";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export interface IntrinsicValueResult {
-  graham: number;
-  peterLynch: number;
-  ihsgRelative: number;
-  assetBased: number;
-  range: {
-    low: number;
-    mid: number;
-    high: number;
-  };
-  currentPrice: number;
-  upside: number;
-  status: "undervalued" | "fair" | "overvalued";
-}
-
 export interface FundamentalScore {
   profitability: number;
   valuation: number;
@@ -38,6 +33,39 @@ export interface ScoreDetail {
   color: string;
 }
 
+export interface ThresholdProfile {
+  /** e.g. "financials/banks", or "default" when nothing matched */
+  id: string;
+  /** e.g. "Keuangan › Bank" */
+  label: string;
+  matchedBy: "sub_sector" | "sector" | "default";
+  thresholds: Thresholds;
+}
+
+export type BenchmarkRank = "top" | "above" | "inline" | "below" | "bottom";
+
+export interface SectorBenchmark {
+  key: SectorMetricKey;
+  label: string;
+  value: number;
+  /** The profile's middle mark for the metric (e.g. "good" ROE, "fair" PE) */
+  benchmark: number;
+  unit: "%" | "×";
+  rank: BenchmarkRank;
+}
+
+export type SectorMetricKey =
+  | "roe"
+  | "netMargin"
+  | "roa"
+  | "pe"
+  | "pbv"
+  | "debtToEquity"
+  | "currentRatio"
+  | "altmanZScore"
+  | "revenueGrowth"
+  | "netIncomeGrowth";
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -55,24 +83,25 @@ export function parsePercentage(value: string | number): number {
 
 /**
  * Parse number string to actual number
- * Handles formats like "1,155 B", "62 B", etc.
+ * Handles formats like "1,155 B", "62 B", "(448 B)", "-0.37"
  */
 export function parseNumber(value: string | number): number {
   if (typeof value === "number") return value;
 
+  const text = value.toString().trim();
+  const num = parseFloat(text.replace(/[^0-9.]/g, ""));
+  if (isNaN(num)) return 0;
+
+  // Negative amounts are reported in parentheses
+  const sign = text.startsWith("-") || (text.startsWith("(") && text.endsWith(")")) ? -1 : 1;
+
   // Handle billions
-  if (value.toString().includes("B")) {
-    const num = parseFloat(value.toString().replace(/[^0-9.]/g, ""));
-    return num * 1000000000;
-  }
+  if (text.includes("B")) return sign * num * 1000000000;
 
   // Handle millions
-  if (value.toString().includes("M")) {
-    const num = parseFloat(value.toString().replace(/[^0-9.]/g, ""));
-    return num * 1000000;
-  }
+  if (text.includes("M")) return sign * num * 1000000;
 
-  return parseFloat(value.toString()) || 0;
+  return sign * num;
 }
 
 /**
@@ -159,82 +188,6 @@ export function getAssetBasedValue(bookValuePerShare: number): number {
   return bookValuePerShare;
 }
 
-/**
- * Calculate comprehensive intrinsic value
- */
-export function calculateIntrinsicValue(
-  eps: number,
-  bookValuePerShare: number,
-  growthRate: number,
-  currentPrice: number,
-  ihsgPE: number,
-  valuationMode: "conservative" | "moderate" | "aggressive" = "moderate"
-): IntrinsicValueResult {
-  // Calculate multipliers based on valuation mode
-  const getMultiplier = (mode: "conservative" | "moderate" | "aggressive") => {
-    switch (mode) {
-      case "conservative":
-        return {
-          graham: 0.85,    // 15% discount
-          peterLynch: 0.80, // 20% discount
-          ihsgRelative: 0.85, // 15% discount
-          assetBased: 0.90, // 10% discount
-        };
-      case "moderate":
-        return {
-          graham: 1.0,
-          peterLynch: 1.0,
-          ihsgRelative: 1.0,
-          assetBased: 1.0,
-        };
-      case "aggressive":
-        return {
-          graham: 1.15,    // 15% premium
-          peterLynch: 1.20, // 20% premium
-          ihsgRelative: 1.15, // 15% premium
-          assetBased: 1.10, // 10% premium
-        };
-    }
-  };
-
-  const multiplier = getMultiplier(valuationMode);
-
-  // Calculate all methods with multipliers
-  const graham = calculateGrahamValue(eps, growthRate) * multiplier.graham;
-  const peterLynch = calculatePeterLynchValue(eps, growthRate) * multiplier.peterLynch;
-  const ihsgRelative = calculateIHSGRelativeValue(eps, ihsgPE) * multiplier.ihsgRelative;
-  const assetBased = getAssetBasedValue(bookValuePerShare) * multiplier.assetBased;
-
-  // Determine range (use reasonable values)
-  const values = [graham, peterLynch, ihsgRelative, assetBased].filter(
-    (v) => v > 0 && v < currentPrice * 10 // Filter outliers
-  );
-
-  const low = Math.min(...values);
-  const high = Math.max(...values);
-  const mid = (low + high) / 2;
-
-  // Calculate upside/downside
-  const upside = ((mid - currentPrice) / currentPrice) * 100;
-
-  // Determine status
-  let status: "undervalued" | "fair" | "overvalued";
-  if (upside > 20) status = "undervalued";
-  else if (upside < -20) status = "overvalued";
-  else status = "fair";
-
-  return {
-    graham,
-    peterLynch,
-    ihsgRelative,
-    assetBased,
-    range: { low, mid, high },
-    currentPrice,
-    upside,
-    status,
-  };
-}
-
 // ============================================================================
 // FUNDAMENTAL SCORE CALCULATIONS
 // ============================================================================
@@ -245,7 +198,8 @@ export function calculateIntrinsicValue(
 export function scoreProfitability(
   roe: string | number,
   netMargin: string | number,
-  roa: string | number
+  roa: string | number,
+  thresholds: Thresholds = THRESHOLDS
 ): ScoreDetail {
   const roeValue = parsePercentage(roe);
   const nmValue = parsePercentage(netMargin);
@@ -254,18 +208,18 @@ export function scoreProfitability(
   // Score individual metrics
   const roeScore = scoreInRange(
     roeValue,
-    THRESHOLDS.roe.poor,
-    THRESHOLDS.roe.excellent
+    thresholds.roe.poor,
+    thresholds.roe.excellent
   );
   const nmScore = scoreInRange(
     nmValue,
-    THRESHOLDS.netMargin.poor,
-    THRESHOLDS.netMargin.excellent
+    thresholds.netMargin.poor,
+    thresholds.netMargin.excellent
   );
   const roaScore = scoreInRange(
     roaValue,
-    THRESHOLDS.roa.poor,
-    THRESHOLDS.roa.excellent
+    thresholds.roa.poor,
+    thresholds.roa.excellent
   );
 
   // Weighted average
@@ -287,7 +241,8 @@ export function scoreProfitability(
 export function scoreValuation(
   pe: string | number,
   pbv: string | number,
-  ihsgPE?: string | number
+  ihsgPE?: string | number,
+  thresholds: Thresholds = THRESHOLDS
 ): ScoreDetail {
   const peValue = parsePercentage(pe);
   const pbvValue = parsePercentage(pbv);
@@ -306,16 +261,16 @@ export function scoreValuation(
   } else {
     peScore = scoreReverse(
       peValue,
-      THRESHOLDS.pe.cheap,
-      THRESHOLDS.pe.expensive * 2
+      thresholds.pe.cheap,
+      thresholds.pe.expensive * 2
     );
   }
 
   // Score PBV (lower is better)
   const pbvScore = scoreReverse(
     pbvValue,
-    THRESHOLDS.pbv.cheap,
-    THRESHOLDS.pbv.expensive * 2
+    thresholds.pbv.cheap,
+    thresholds.pbv.expensive * 2
   );
 
   // Weighted average
@@ -336,7 +291,8 @@ export function scoreValuation(
 export function scoreRisk(
   altmanZScore: string | number,
   debtToEquity: string | number,
-  currentRatio: string | number
+  currentRatio: string | number,
+  thresholds: Thresholds = THRESHOLDS
 ): ScoreDetail {
   const zScore = parsePercentage(altmanZScore);
   const derValue = parsePercentage(debtToEquity);
@@ -345,22 +301,22 @@ export function scoreRisk(
   // Score Altman Z-Score (higher is better)
   const zScoreScore = scoreInRange(
     zScore,
-    THRESHOLDS.altmanZScore.distress,
-    THRESHOLDS.altmanZScore.safe + 2
+    thresholds.altmanZScore.distress,
+    thresholds.altmanZScore.safe + 2
   );
 
   // Score D/E (lower is better)
   const derScore = scoreReverse(
     derValue,
-    THRESHOLDS.debtToEquity.safe,
-    THRESHOLDS.debtToEquity.risky
+    thresholds.debtToEquity.safe,
+    thresholds.debtToEquity.risky
   );
 
   // Score Current Ratio (higher is better)
   const crScore = scoreInRange(
     crValue,
-    THRESHOLDS.currentRatio.weak,
-    THRESHOLDS.currentRatio.strong + 1
+    thresholds.currentRatio.weak,
+    thresholds.currentRatio.strong + 1
   );
 
   // Weighted average
@@ -381,7 +337,8 @@ export function scoreRisk(
  */
 export function scoreGrowth(
   revenueGrowth: string | number,
-  netIncomeGrowth: string | number
+  netIncomeGrowth: string | number,
+  thresholds: Thresholds = THRESHOLDS
 ): ScoreDetail {
   const rgValue = parsePercentage(revenueGrowth);
   const nigValue = parsePercentage(netIncomeGrowth);
@@ -389,13 +346,13 @@ export function scoreGrowth(
   // Score individual metrics
   const rgScore = scoreInRange(
     rgValue,
-    THRESHOLDS.revenueGrowth.poor,
-    THRESHOLDS.revenueGrowth.excellent + 10
+    thresholds.revenueGrowth.poor,
+    thresholds.revenueGrowth.excellent + 10
   );
   const nigScore = scoreInRange(
     nigValue,
-    THRESHOLDS.netIncomeGrowth.poor,
-    THRESHOLDS.netIncomeGrowth.excellent + 10
+    thresholds.netIncomeGrowth.poor,
+    thresholds.netIncomeGrowth.excellent + 10
   );
 
   // Weighted average
@@ -434,3 +391,160 @@ export function calculateFundamentalScore(
     overall,
   };
 }
+
+// ============================================================================
+// SECTOR THRESHOLD PROFILES
+// ============================================================================
+
+const DEFAULT_PROFILE_LABEL = "Semua Sektor (IDX)";
+
+/**
+ * Normalize a sector name for matching ("Properti & Real Estat" -> "properti real estat")
+ */
+function normalizeSectorName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function findProfile(profiles: ThresholdProfileConfig[], name?: string): ThresholdProfileConfig | undefined {
+  if (!name) return undefined;
+  const key = normalizeSectorName(name);
+  return profiles.find((profile) => profile.match.some((match) => normalizeSectorName(match) === key));
+}
+
+function mergeThresholdGroup<K extends keyof Thresholds>(
+  base: Thresholds,
+  overrides: ThresholdOverrides,
+  key: K
+): Thresholds[K] {
+  return { ...base[key], ...overrides[key] };
+}
+
+function applyOverrides(base: Thresholds, overrides: ThresholdOverrides): Thresholds {
+  const merged = { ...base };
+  (Object.keys(overrides) as Array<keyof Thresholds>).forEach(<K extends keyof Thresholds>(key: K) => {
+    merged[key] = mergeThresholdGroup(base, overrides, key);
+  });
+  return merged;
+}
+
+/**
+ * Thresholds for an emitten's sector and sub-sector
+ * Global THRESHOLDS, overridden by the sector profile, then by the sub-sector profile.
+ */
+export function resolveThresholdProfile(sector?: string, subSector?: string): ThresholdProfile {
+  const sectorProfile = findProfile(SECTOR_THRESHOLD_PROFILES, sector);
+  const subSectorProfile = findProfile(SUB_SECTOR_THRESHOLD_PROFILES, subSector);
+
+  let thresholds = THRESHOLDS;
+  if (sectorProfile) thresholds = applyOverrides(thresholds, sectorProfile.overrides);
+  if (subSectorProfile) thresholds = applyOverrides(thresholds, subSectorProfile.overrides);
+
+  const used = [sectorProfile, subSectorProfile].filter((profile): profile is ThresholdProfileConfig => !!profile);
+
+  return {
+    id: used.length > 0 ? used.map((profile) => profile.id).join("/") : "default",
+    label: used.length > 0 ? used.map((profile) => profile.label).join(" › ") : DEFAULT_PROFILE_LABEL,
+    matchedBy: subSectorProfile ? "sub_sector" : sectorProfile ? "sector" : "default",
+    thresholds,
+  };
+}
+
+/**
+ * Rank a value against an ordered set of marks (best first)
+ * Five marks: top/above/inline/below/bottom; three marks: top/above/below/bottom.
+ */
+function rankAgainstMarks(value: number, marks: number[], higherIsBetter: boolean): BenchmarkRank {
+  const ranks: BenchmarkRank[] = marks.length >= 4
+    ? ["top", "above", "inline", "below"]
+    : ["top", "above", "below"];
+  const index = marks.findIndex((mark) => (higherIsBetter ? value >= mark : value <= mark));
+  return index === -1 ? "bottom" : ranks[index];
+}
+
+/**
+ * Compare an emitten's metrics to its sector profile
+ * Metrics that are missing ("-") are left out.
+ */
+export function rankAgainstSector(
+  metrics: Partial<Record<SectorMetricKey, string | number>>,
+  thresholds: Thresholds
+): SectorBenchmark[] {
+  const { roe, netMargin, roa, pe, pbv, debtToEquity, currentRatio, altmanZScore, revenueGrowth, netIncomeGrowth } =
+    thresholds;
+
+  // marks are ordered best first; benchmark is the profile's middle mark
+  const definitions: Array<{
+    key: SectorMetricKey;
+    label: string;
+    unit: "%" | "×";
+    higherIsBetter: boolean;
+    marks: number[];
+    benchmark: number;
+  }> = [
+    { key: "roe", label: "ROE", unit: "%", higherIsBetter: true, marks: [roe.excellent, roe.good, roe.fair, roe.poor], benchmark: roe.good },
+    {
+      key: "netMargin",
+      label: "Net Margin",
+      unit: "%",
+      higherIsBetter: true,
+      marks: [netMargin.excellent, netMargin.good, netMargin.fair, netMargin.poor],
+      benchmark: netMargin.good,
+    },
+    { key: "roa", label: "ROA", unit: "%", higherIsBetter: true, marks: [roa.excellent, roa.good, roa.fair, roa.poor], benchmark: roa.good },
+    { key: "pe", label: "PE", unit: "×", higherIsBetter: false, marks: [pe.cheap, pe.fair, pe.expensive], benchmark: pe.fair },
+    { key: "pbv", label: "PBV", unit: "×", higherIsBetter: false, marks: [pbv.cheap, pbv.fair, pbv.expensive], benchmark: pbv.fair },
+    {
+      key: "debtToEquity",
+      label: "D/E",
+      unit: "×",
+      higherIsBetter: false,
+      marks: [debtToEquity.safe, debtToEquity.moderate, debtToEquity.risky],
+      benchmark: debtToEquity.moderate,
+    },
+    {
+      key: "currentRatio",
+      label: "Current Ratio",
+      unit: "×",
+      higherIsBetter: true,
+      marks: [currentRatio.strong, currentRatio.adequate, currentRatio.weak],
+      benchmark: currentRatio.adequate,
+    },
+    {
+      key: "altmanZScore",
+      label: "Altman Z",
+      unit: "×",
+      higherIsBetter: true,
+      marks: [altmanZScore.safe, altmanZScore.moderate, altmanZScore.distress],
+      benchmark: altmanZScore.moderate,
+    },
+    {
+      key: "revenueGrowth",
+      label: "Revenue Growth",
+      unit: "%",
+      higherIsBetter: true,
+      marks: [revenueGrowth.excellent, revenueGrowth.good, revenueGrowth.fair, revenueGrowth.poor],
+      benchmark: revenueGrowth.good,
+    },
+    {
+      key: "netIncomeGrowth",
+      label: "Net Income Growth",
+      unit: "%",
+      higherIsBetter: true,
+      marks: [netIncomeGrowth.excellent, netIncomeGrowth.good, netIncomeGrowth.fair, netIncomeGrowth.poor],
+      benchmark: netIncomeGrowth.good,
+    },
+  ];
+
+  return definitions.flatMap((definition) => {
+    const raw = metrics[definition.key];
+    if (raw === undefined || raw === "-" || raw === "") return [];
+
+    const value = parseNumber(raw);
+    // A negative PE/PBV (losses, negative equity) is never cheap
+    const rank = !definition.higherIsBetter && value < 0
+      ? "bottom"
+      : rankAgainstMarks(value, definition.marks, definition.higherIsBetter);
+
+    return [{ key: definition.key, label: definition.label, value, benchmark: definition.benchmark, unit: definition.unit, rank }];
+  });
+}
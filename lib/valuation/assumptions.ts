@@ -0,0 +1,108 @@
+/**
+ * Valuation assumption helpers
+ * Compare assumptions against the built-in presets and sanitise assumptions
+ * read back from localStorage.
+ */
+
+import { VALUATION_PRESETS } from "@/config/valuation";
+import type { ValuationAssumptions, ValuationMode } from "./types";
+
+/** The assumptions last picked in the emitten sidebar */
+export const ASSUMPTIONS_STORAGE_KEY = "valuation-assumptions";
+
+const VALUATION_MODES = Object.keys(VALUATION_PRESETS) as ValuationMode[];
+
+function isSameRecord(
+  a: Record<string, number>,
+  b: Record<string, number>,
+): boolean {
+  const ids = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(ids).every((id) => a[id] === b[id]);
+}
+
+export function isSameAssumptions(
+  a: ValuationAssumptions,
+  b: ValuationAssumptions,
+): boolean {
+  return (Object.keys(a) as Array<keyof ValuationAssumptions>).every((key) =>
+    key === "weights" || key === "adjustments"
+      ? isSameRecord(a[key], b[key])
+      : a[key] === b[key],
+  );
+}
+
+/**
+ * The preset `assumptions` are identical to, or null once the user edited anything
+ */
+export function findMatchingPreset(
+  assumptions: ValuationAssumptions,
+): ValuationMode | null {
+  return (
+    VALUATION_MODES.find((mode) =>
+      isSameAssumptions(VALUATION_PRESETS[mode], assumptions),
+    ) ?? null
+  );
+}
+
+/**
+ * Fill stored (possibly partial or outdated) assumptions in from the moderate preset
+ */
+export function normalizeAssumptions(value: unknown): ValuationAssumptions {
+  const base = VALUATION_PRESETS.moderate;
+  if (!value || typeof value !== "object") return base;
+
+  const stored = value as Partial<Record<keyof ValuationAssumptions, unknown>>;
+  const number = (key: keyof ValuationAssumptions, fallback: number) =>
+    typeof stored[key] === "number" && Number.isFinite(stored[key])
+      ? (stored[key] as number)
+      : fallback;
+  const optional = (key: "growthRate" | "ihsgPE") =>
+    typeof stored[key] === "number" && Number.isFinite(stored[key])
+      ? (stored[key] as number)
+      : null;
+
+  const record = (key: "weights" | "adjustments") => {
+    const values: Record<string, number> = {};
+    if (stored[key] && typeof stored[key] === "object") {
+      Object.entries(stored[key] as Record<string, unknown>).forEach(
+        ([id, value]) => {
+          if (typeof value === "number" && Number.isFinite(value) && value >= 0)
+            values[id] = value;
+        },
+      );
+    }
+    return values;
+  };
+
+  return {
+    growthRate: optional("growthRate"),
+    ihsgPE: optional("ihsgPE"),
+    ihsgPESource: stored.ihsgPESource === "median" ? "median" : "current",
+    discountRate: number("discountRate", base.discountRate),
+    marginOfSafety: number("marginOfSafety", base.marginOfSafety),
+    maxGrowthRate: number("maxGrowthRate", base.maxGrowthRate),
+    highGrowthYears: number("highGrowthYears", base.highGrowthYears),
+    fadeYears: number("fadeYears", base.fadeYears),
+    terminalGrowth: number("terminalGrowth", base.terminalGrowth),
+    dividendGrowth: number("dividendGrowth", base.dividendGrowth),
+    evEbitdaMultiple: number("evEbitdaMultiple", base.evEbitdaMultiple),
+    adjustments: record("adjustments"),
+    weights: record("weights"),
+  };
+}
+
+/**
+ * The assumptions last picked in the emitten sidebar, or the moderate preset
+ * (client-only; unreadable entries are dropped)
+ */
+export function readStoredAssumptions(): ValuationAssumptions {
+  try {
+    const stored = localStorage.getItem(ASSUMPTIONS_STORAGE_KEY);
+    return stored
+      ? normalizeAssumptions(JSON.parse(stored))
+      : VALUATION_PRESETS.moderate;
+  } catch {
+    localStorage.removeItem(ASSUMPTIONS_STORAGE_KEY);
+    return VALUATION_PRESETS.moderate;
+  }
+}
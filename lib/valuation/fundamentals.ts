@@ -0,0 +1,79 @@
+/**
+ * Emitten fundamentals
+ * The key metrics, fundamental score and sector benchmarks of one emitten,
+ * shared by the emitten sidebar and the peer comparison.
+ */
+
+import type { EmittenInfo, KeyStats } from "@/lib/api/emitten";
+import {
+  calculateFundamentalScore,
+  rankAgainstSector,
+  resolveThresholdProfile,
+  scoreGrowth,
+  scoreProfitability,
+  scoreRisk,
+  scoreValuation,
+  type FundamentalScore,
+  type SectorBenchmark,
+  type SectorMetricKey,
+  type ThresholdProfile,
+} from "@/lib/utils/valuation";
+import { getKeyStatValue } from "./inputs";
+
+export interface EmittenFundamentals {
+  /** Key stats values as reported, "-" when missing */
+  metrics: Record<SectorMetricKey, string>;
+  profile: ThresholdProfile;
+  score: FundamentalScore;
+  benchmarks: SectorBenchmark[];
+}
+
+/**
+ * Read the scored metrics out of key stats
+ */
+export function extractFundamentalMetrics(
+  keyStats: KeyStats | null,
+): Record<SectorMetricKey, string> {
+  const read = (categoryName: string, metricName: string) =>
+    getKeyStatValue(keyStats, categoryName, metricName);
+
+  return {
+    roe: read("Management Effectiveness", "Return on Equity (TTM)"),
+    netMargin: read("Profitability", "Net Profit Margin (Quarter)"),
+    roa: read("Management Effectiveness", "Return on Assets (TTM)"),
+    pe: read("Current Valuation", "Current PE Ratio (TTM)"),
+    pbv: read("Current Valuation", "Current Price to Book Value"),
+    debtToEquity: read("Solvency", "Debt to Equity Ratio (Quarter)"),
+    currentRatio: read("Solvency", "Current Ratio (Quarter)"),
+    altmanZScore: read("Solvency", "Altman Z-Score (Modified)"),
+    revenueGrowth: read("Growth", "Revenue (Quarter YoY Growth)"),
+    netIncomeGrowth: read("Growth", "Net Income (Quarter YoY Growth)"),
+  };
+}
+
+/**
+ * Score an emitten against its sector / sub-sector threshold profile
+ */
+export function calculateEmittenFundamentals(
+  info: EmittenInfo,
+  keyStats: KeyStats | null,
+): EmittenFundamentals {
+  const metrics = extractFundamentalMetrics(keyStats);
+  const profile = resolveThresholdProfile(info.sector, info.sub_sector);
+  const { thresholds } = profile;
+
+  const score = calculateFundamentalScore(
+    scoreProfitability(metrics.roe, metrics.netMargin, metrics.roa, thresholds),
+    scoreValuation(metrics.pe, metrics.pbv, undefined, thresholds),
+    // The risk score has never read the current ratio; feeding it in would shift every emitten's score
+    scoreRisk(metrics.altmanZScore, metrics.debtToEquity, "-", thresholds),
+    scoreGrowth(metrics.revenueGrowth, metrics.netIncomeGrowth, thresholds),
+  );
+
+  return {
+    metrics,
+    profile,
+    score,
+    benchmarks: rankAgainstSector(metrics, thresholds),
+  };
+}
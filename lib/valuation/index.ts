@@ -0,0 +1,11 @@
+/**
+ * Valuation module barrel exports
+ */
+
+export * from "./types";
+export * from "./inputs";
+export * from "./models";
+export * from "./intrinsic";
+export * from "./assumptions";
+export * from "./scenarios";
+export * from "./fundamentals";
@@ -0,0 +1,79 @@
+/**
+ * Valuation inputs
+ * Reads the figures the valuation models need out of the emitten key stats.
+ */
+
+import type { EmittenInfo, KeyStats } from "@/lib/api/emitten";
+import { parseNumber, parsePercentage } from "@/lib/utils/valuation";
+import type { ValuationInputs } from "./types";
+
+/**
+ * Raw key stats value, e.g. getKeyStatValue(keyStats, 'Per Share', 'Current EPS (TTM)')
+ * @returns The formatted value, or "-" when the metric is missing
+ */
+export function getKeyStatValue(
+  keyStats: KeyStats | null,
+  categoryName: string,
+  metricName: string,
+): string {
+  if (!keyStats) return "-";
+
+  const category = keyStats.closure_fin_items_results.find(
+    (cat) => cat.keystats_name === categoryName,
+  );
+  const metric = category?.fin_name_results.find(
+    (item) => item.fitem.name === metricName,
+  );
+
+  return metric?.fitem.value || "-";
+}
+
+/**
+ * Parse everything the valuation models read for one emitten
+ */
+export function extractValuationInputs(
+  info: EmittenInfo,
+  keyStats: KeyStats | null,
+): ValuationInputs {
+  const read = (categoryName: string, metricName: string) =>
+    parseNumber(getKeyStatValue(keyStats, categoryName, metricName));
+
+  // Parsed exactly as the IHSG-relative value always was, so the presets keep their output
+  const ihsgPE = parsePercentage(
+    getKeyStatValue(keyStats, "Current Valuation", "Current PE Ratio (TTM)")
+      .replace("× IHSG", "")
+      .trim(),
+  );
+  const ihsgMedianPE =
+    getKeyStatValue(
+      keyStats,
+      "Current Valuation",
+      "IHSG PE Ratio TTM (Median)",
+    ) !== "-"
+      ? read("Current Valuation", "IHSG PE Ratio TTM (Median)")
+      : null;
+
+  // Net debt falls back to enterprise value minus market cap
+  const netDebt =
+    getKeyStatValue(keyStats, "Balance Sheet", "Net Debt (Quarter)") !== "-"
+      ? read("Balance Sheet", "Net Debt (Quarter)")
+      : parseNumber(keyStats?.stats?.enterprise_value || "0") -
+        parseNumber(keyStats?.stats?.market_cap || "0");
+
+  return {
+    price: parseNumber(info.price),
+    eps: read("Per Share", "Current EPS (TTM)"),
+    bookValuePerShare: read("Per Share", "Current Book Value Per Share"),
+    growthRate: read("Growth", "Revenue (Quarter YoY Growth)"),
+    ihsgPE,
+    ihsgMedianPE,
+    sharesOutstanding: parseNumber(
+      keyStats?.stats?.current_share_outstanding || "0",
+    ),
+    freeCashFlow: read("Cash Flow Statement", "Free cash flow (TTM)"),
+    dividendPerShare: read("Dividend", "Dividend (TTM)"),
+    ebitda: read("Income Statement", "EBITDA (TTM)"),
+    netDebt,
+    evToEbitda: read("Current Valuation", "EV to EBITDA (TTM)"),
+  };
+}
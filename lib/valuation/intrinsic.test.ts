@@ -0,0 +1,355 @@
+import type {
+  ValuationAssumptions,
+  ValuationInputs,
+  ValuationMode,
+} from "./types";
+
+import { describe, expect, it } from "vitest";
+
+import { getKeyStatValue, extractValuationInputs } from "./inputs";
+import { calculateIntrinsicValue } from "./intrinsic";
+import { getValuationModels } from "./models";
+
+import { VALUATION_PRESETS } from "@/config/valuation";
+import {
+  emittenInfoFixture,
+  emittenKeyStatsFixture,
+} from "@/lib/mock/fixtures";
+import { parsePercentage } from "@/lib/utils/valuation";
+
+const MODES: ValuationMode[] = ["conservative", "moderate", "aggressive"];
+
+// ============================================================================
+// Legacy calculation
+// ============================================================================
+
+interface LegacyInputs {
+  eps: number;
+  bookValuePerShare: number;
+  growthRate: number;
+  price: number;
+  ihsgPE: number;
+}
+
+const LEGACY_MULTIPLIERS: Record<
+  ValuationMode,
+  [number, number, number, number]
+> = {
+  conservative: [0.85, 0.8, 0.85, 0.9],
+  moderate: [1, 1, 1, 1],
+  aggressive: [1.15, 1.2, 1.15, 1.1],
+};
+
+// The intrinsic value calculation as it was before models could be registered and weighted
+function legacyIntrinsicValue(
+  { eps, bookValuePerShare, growthRate, price, ihsgPE }: LegacyInputs,
+  mode: ValuationMode,
+) {
+  const [grahamM, lynchM, ihsgM, assetM] = LEGACY_MULTIPLIERS[mode];
+  const graham =
+    eps * (8.5 + 2 * Math.min(Math.max(growthRate, 0), 50)) * grahamM;
+  const peterLynch = eps * Math.max(growthRate, 0) * lynchM;
+  const ihsgRelative = eps * ihsgPE * ihsgM;
+  const assetBased = bookValuePerShare * assetM;
+
+  const values = [graham, peterLynch, ihsgRelative, assetBased].filter(
+    (v) => v > 0 && v < price * 10,
+  );
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const mid = (low + high) / 2;
+  const upside = ((mid - price) / price) * 100;
+  const status =
+    upside > 20 ? "undervalued" : upside < -20 ? "overvalued" : "fair";
+
+  return {
+    graham,
+    peterLynch,
+    ihsgRelative,
+    assetBased,
+    range: { low, mid, high },
+    upside,
+    status,
+  };
+}
+
+// Inputs parsed the way the emitten summary used to parse them
+function legacyInputsFromFixture(): LegacyInputs {
+  const keyStats = emittenKeyStatsFixture.data;
+  const metric = (category: string, name: string) =>
+    getKeyStatValue(keyStats, category, name);
+
+  return {
+    eps: parsePercentage(metric("Per Share", "Current EPS (TTM)")),
+    bookValuePerShare: parsePercentage(
+      metric("Per Share", "Current Book Value Per Share"),
+    ),
+    growthRate: parsePercentage(
+      metric("Growth", "Revenue (Quarter YoY Growth)"),
+    ),
+    price: parsePercentage(emittenInfoFixture.data.price),
+    ihsgPE: parsePercentage(
+      metric("Current Valuation", "Current PE Ratio (TTM)")
+        .replace("× IHSG", "")
+        .trim(),
+    ),
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function buildInputs(
+  overrides: Partial<ValuationInputs> = {},
+): ValuationInputs {
+  return {
+    price: 1000,
+    eps: 100,
+    bookValuePerShare: 800,
+    growthRate: 10,
+    ihsgPE: 12,
+    ihsgMedianPE: null,
+    sharesOutstanding: 1_000_000,
+    freeCashFlow: 50_000_000,
+    dividendPerShare: 20,
+    ebitda: 200_000_000,
+    netDebt: 100_000_000,
+    evToEbitda: 6,
+    ...overrides,
+  };
+}
+
+function toLegacy(inputs: ValuationInputs): LegacyInputs {
+  const { eps, bookValuePerShare, growthRate, price, ihsgPE } = inputs;
+
+  return { eps, bookValuePerShare, growthRate, price, ihsgPE };
+}
+
+function withAssumptions(
+  patch: Partial<ValuationAssumptions>,
+): ValuationAssumptions {
+  return { ...VALUATION_PRESETS.moderate, ...patch };
+}
+
+function modelValue(
+  result: ReturnType<typeof calculateIntrinsicValue>,
+  id: string,
+): number | null {
+  return result.models.find((model) => model.id === id)?.value ?? null;
+}
+
+// ============================================================================
+// Legacy parity
+// ============================================================================
+
+describe("built-in presets", () => {
+  const cases: Array<[string, ValuationInputs, LegacyInputs]> = [
+    [
+      "the mock emitten",
+      extractValuationInputs(
+        emittenInfoFixture.data,
+        emittenKeyStatsFixture.data,
+      ),
+      legacyInputsFromFixture(),
+    ],
+    ["a steady grower", buildInputs(), toLegacy(buildInputs())],
+    [
+      "a shrinking emitten",
+      buildInputs({ growthRate: -12 }),
+      toLegacy(buildInputs({ growthRate: -12 })),
+    ],
+    [
+      "an expensive PE",
+      buildInputs({ ihsgPE: 150 }),
+      toLegacy(buildInputs({ ihsgPE: 150 })),
+    ],
+  ];
+
+  describe.each(MODES)("%s", (mode) => {
+    it.each(cases)(
+      "matches the legacy calculation for %s",
+      (_, inputs, legacyInputs) => {
+        const result = calculateIntrinsicValue(inputs, VALUATION_PRESETS[mode]);
+        const legacy = legacyIntrinsicValue(legacyInputs, mode);
+
+        expect(modelValue(result, "graham")).toBeCloseTo(legacy.graham, 8);
+        expect(modelValue(result, "peterLynch")).toBeCloseTo(
+          legacy.peterLynch,
+          8,
+        );
+        expect(modelValue(result, "ihsgRelative")).toBeCloseTo(
+          legacy.ihsgRelative,
+          8,
+        );
+        expect(modelValue(result, "assetBased")).toBeCloseTo(
+          legacy.assetBased,
+          8,
+        );
+
+        expect(result.midMethod).toBe("midpoint");
+        expect(result.range?.low).toBeCloseTo(legacy.range.low, 8);
+        expect(result.range?.mid).toBeCloseTo(legacy.range.mid, 8);
+        expect(result.range?.high).toBeCloseTo(legacy.range.high, 8);
+        expect(result.upside).toBeCloseTo(legacy.upside, 8);
+        expect(result.status).toBe(legacy.status);
+      },
+    );
+  });
+
+  it("feeds the emitten's current PE, not the IHSG median, to the IHSG-relative model", () => {
+    const inputs = extractValuationInputs(
+      emittenInfoFixture.data,
+      emittenKeyStatsFixture.data,
+    );
+
+    expect(inputs.ihsgPE).toBe(355.63);
+    expect(inputs.ihsgMedianPE).toBe(8.53);
+    expect(
+      modelValue(
+        calculateIntrinsicValue(inputs, VALUATION_PRESETS.moderate),
+        "ihsgRelative",
+      ),
+    ).toBeCloseTo(0.37 * 355.63, 8);
+  });
+
+  it("uses the IHSG median only when asked to", () => {
+    const ihsgRelative = (
+      inputs: ValuationInputs,
+      patch: Partial<ValuationAssumptions>,
+    ) =>
+      modelValue(
+        calculateIntrinsicValue(inputs, withAssumptions(patch)),
+        "ihsgRelative",
+      );
+    const withMedian = buildInputs({ ihsgMedianPE: 9 });
+
+    expect(ihsgRelative(withMedian, {})).toBe(1200);
+    expect(ihsgRelative(withMedian, { ihsgPESource: "median" })).toBe(900);
+    // Falls back to the current PE when the median is not reported
+    expect(ihsgRelative(buildInputs(), { ihsgPESource: "median" })).toBe(1200);
+    // A typed PE beats both
+    expect(
+      ihsgRelative(withMedian, { ihsgPESource: "median", ihsgPE: 5 }),
+    ).toBe(500);
+  });
+});
+
+// ============================================================================
+// Model registry
+// ============================================================================
+
+describe("model registry", () => {
+  it("runs every registered model but only weights the four original methods by default", () => {
+    const result = calculateIntrinsicValue(
+      buildInputs(),
+      VALUATION_PRESETS.moderate,
+    );
+
+    expect(result.models.map((model) => model.id)).toEqual(
+      getValuationModels().map((model) => model.id),
+    );
+    expect(
+      result.models.filter((model) => model.included).map((model) => model.id),
+    ).toEqual(["graham", "peterLynch", "ihsgRelative", "assetBased"]);
+    result.models
+      .filter(
+        (model) =>
+          !["graham", "peterLynch", "ihsgRelative", "assetBased"].includes(
+            model.id,
+          ),
+      )
+      .forEach((model) => expect(model.weight).toBe(0));
+  });
+});
+
+// ============================================================================
+// Midpoint and weighted mid
+// ============================================================================
+
+describe("mid value", () => {
+  // graham 2850, peterLynch 1000, ihsgRelative 1200, assetBased 800
+  const inputs = buildInputs();
+
+  it("is halfway between low and high when every included model has the same weight", () => {
+    const result = calculateIntrinsicValue(
+      inputs,
+      withAssumptions({
+        weights: { graham: 3, peterLynch: 3, ihsgRelative: 3, assetBased: 3 },
+      }),
+    );
+
+    expect(result.midMethod).toBe("midpoint");
+    expect(result.range).toEqual({ low: 800, mid: 1825, high: 2850 });
+  });
+
+  it("is the weighted average once the weights differ", () => {
+    const result = calculateIntrinsicValue(
+      inputs,
+      withAssumptions({ weights: { graham: 2, assetBased: 0 } }),
+    );
+
+    expect(result.midMethod).toBe("weighted");
+    expect(result.range?.low).toBe(1000);
+    expect(result.range?.high).toBe(2850);
+    expect(result.range?.mid).toBeCloseTo((2850 * 2 + 1000 + 1200) / 4, 8);
+    expect(result.upside).toBeCloseTo(((7900 / 4 - 1000) / 1000) * 100, 8);
+  });
+
+  it("applies the mode adjustment before the margin of safety", () => {
+    const result = calculateIntrinsicValue(
+      inputs,
+      withAssumptions({ adjustments: { assetBased: 0.5 }, marginOfSafety: 10 }),
+    );
+
+    expect(modelValue(result, "assetBased")).toBeCloseTo(800 * 0.5 * 0.9, 8);
+    expect(modelValue(result, "graham")).toBeCloseTo(2850 * 0.9, 8);
+  });
+});
+
+// ============================================================================
+// Exclusions
+// ============================================================================
+
+describe("excluded values", () => {
+  it("leaves out values at or over ten times the price", () => {
+    const result = calculateIntrinsicValue(
+      buildInputs({ ihsgPE: 100 }),
+      VALUATION_PRESETS.moderate,
+    );
+    const ihsg = result.models.find((model) => model.id === "ihsgRelative");
+
+    expect(ihsg?.value).toBe(10000);
+    expect(ihsg?.included).toBe(false);
+    expect(ihsg?.note).toMatch(/Outlier/);
+    expect(result.range?.high).toBe(2850);
+  });
+
+  it("leaves out zero and negative values", () => {
+    const result = calculateIntrinsicValue(
+      buildInputs({ growthRate: -5 }),
+      VALUATION_PRESETS.moderate,
+    );
+    const lynch = result.models.find((model) => model.id === "peterLynch");
+
+    expect(lynch?.value).toBe(0);
+    expect(lynch?.included).toBe(false);
+    expect(lynch?.note).toBe("Not a positive value");
+    expect(result.range).toEqual({
+      low: 800,
+      mid: (800 + 1200) / 2,
+      high: 1200,
+    });
+  });
+
+  it("returns no range when nothing is left", () => {
+    const result = calculateIntrinsicValue(
+      buildInputs({ eps: -10, bookValuePerShare: -5 }),
+      VALUATION_PRESETS.moderate,
+    );
+
+    expect(result.range).toBeNull();
+    expect(result.upside).toBeNull();
+    expect(result.status).toBeNull();
+  });
+});
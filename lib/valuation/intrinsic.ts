@@ -0,0 +1,176 @@
+/**
+ * Intrinsic value
+ * Runs every registered model and blends the weighted ones into a fair value range.
+ */
+
+import { getValuationModels } from "./models";
+import type {
+  IntrinsicValueResult,
+  ValuationAssumptions,
+  ValuationInputs,
+  ValuationModelInput,
+  ValuationModelResult,
+  ValuationWeights,
+} from "./types";
+
+/** Values this many times the current price are treated as outliers */
+const OUTLIER_PRICE_MULTIPLE = 10;
+
+/** Upside beyond ±20% moves the status away from "fair" */
+const FAIR_VALUE_BAND = 20;
+
+/**
+ * Weight a model gets under `weights`
+ */
+export function getModelWeight(
+  weights: ValuationWeights,
+  id: string,
+  defaultWeight: number,
+): number {
+  const weight = weights[id] ?? defaultWeight;
+  return Number.isFinite(weight) && weight > 0 ? weight : 0;
+}
+
+/**
+ * Reported PE the IHSG-relative model uses under `assumptions` (before a manual override)
+ */
+export function getReportedIhsgPE(
+  inputs: ValuationInputs,
+  assumptions: ValuationAssumptions,
+): number {
+  return assumptions.ihsgPESource === "median" && inputs.ihsgMedianPE !== null
+    ? inputs.ihsgMedianPE
+    : inputs.ihsgPE;
+}
+
+/**
+ * Reported inputs with the user's growth rate and IHSG PE overrides applied
+ */
+export function applyAssumptionOverrides(
+  inputs: ValuationInputs,
+  assumptions: ValuationAssumptions,
+): ValuationInputs {
+  return {
+    ...inputs,
+    growthRate: assumptions.growthRate ?? inputs.growthRate,
+    ihsgPE: assumptions.ihsgPE ?? getReportedIhsgPE(inputs, assumptions),
+  };
+}
+
+/**
+ * Calculate the fair value range
+ * low/high are the extremes of the included models. With equal weights mid is
+ * the midpoint of the two, as before models could be weighted; otherwise it is
+ * the weighted average of the included models.
+ */
+export function calculateIntrinsicValue(
+  reportedInputs: ValuationInputs,
+  assumptions: ValuationAssumptions,
+): IntrinsicValueResult {
+  const inputs = applyAssumptionOverrides(reportedInputs, assumptions);
+  const currentPrice = inputs.price;
+  const margin = 1 - assumptions.marginOfSafety / 100;
+  const marginInput: ValuationModelInput = {
+    label: "Margin of Safety",
+    value: assumptions.marginOfSafety,
+    format: "percent",
+  };
+
+  const models: ValuationModelResult[] = getValuationModels().map((model) => {
+    const output = model.calculate(inputs, assumptions);
+    const adjustment = assumptions.adjustments[model.id] ?? 1;
+    const value =
+      output.value === null ? null : output.value * adjustment * margin;
+    const weight = getModelWeight(
+      assumptions.weights,
+      model.id,
+      model.defaultWeight,
+    );
+
+    const extraInputs: ValuationModelInput[] = [];
+    let formula = output.formula;
+    if (adjustment !== 1) {
+      extraInputs.push({
+        label: "Mode Adjustment",
+        value: adjustment,
+        format: "multiple",
+      });
+      formula += ` × ${adjustment}`;
+    }
+    if (assumptions.marginOfSafety !== 0) {
+      extraInputs.push(marginInput);
+      formula += ` × (1 − ${assumptions.marginOfSafety}%)`;
+    }
+
+    let note = output.note;
+    if (value !== null && !(value > 0)) {
+      note = "Not a positive value";
+    } else if (
+      value !== null &&
+      currentPrice > 0 &&
+      value >= currentPrice * OUTLIER_PRICE_MULTIPLE
+    ) {
+      note = `Outlier, over ${OUTLIER_PRICE_MULTIPLE}× the current price`;
+    }
+
+    return {
+      ...output,
+      id: model.id,
+      label: model.label,
+      value,
+      weight,
+      included: value !== null && !note && weight > 0,
+      inputs: [...output.inputs, ...extraInputs],
+      formula,
+      note,
+    };
+  });
+
+  const included = models.filter((model) => model.included);
+  if (included.length === 0) {
+    return {
+      models,
+      range: null,
+      midMethod: "midpoint",
+      currentPrice,
+      upside: null,
+      status: null,
+    };
+  }
+
+  const values = included.map((model) => model.value as number);
+  const totalWeight = included.reduce((sum, model) => sum + model.weight, 0);
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const midMethod = included.every(
+    (model) => model.weight === included[0].weight,
+  )
+    ? "midpoint"
+    : "weighted";
+  const mid =
+    midMethod === "midpoint"
+      ? (low + high) / 2
+      : included.reduce(
+          (sum, model) => sum + (model.value as number) * model.weight,
+          0,
+        ) / totalWeight;
+
+  const upside =
+    currentPrice > 0 ? ((mid - currentPrice) / currentPrice) * 100 : null;
+
+  let status: IntrinsicValueResult["status"] = null;
+  if (upside !== null) {
+    if (upside > FAIR_VALUE_BAND) status = "undervalued";
+    else if (upside < -FAIR_VALUE_BAND) status = "overvalued";
+    else status = "fair";
+  }
+
+  return {
+    models,
+    range: { low, mid, high },
+    midMethod,
+    currentPrice,
+    upside,
+    status,
+  };
+}
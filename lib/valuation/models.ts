@@ -0,0 +1,344 @@
+/**
+ * Valuation model registry
+ * Every model turns the same inputs and assumptions into a fair value per
+ * share plus the figures it used. New models register under their own id;
+ * users then weight them in the sidebar. The cash flow and EV/EBITDA models
+ * start at weight 0 so the default range stays the four original methods.
+ */
+
+import {
+  calculateGrahamValue,
+  calculateIHSGRelativeValue,
+  calculatePeterLynchValue,
+  getAssetBasedValue,
+} from "@/lib/utils/valuation";
+import type {
+  ValuationAssumptions,
+  ValuationInputs,
+  ValuationModel,
+  ValuationModelInput,
+} from "./types";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Growth rate (%) for the first DCF stage
+ * The reported growth is capped; a growth rate the user entered is taken as is.
+ */
+function getHighGrowthRate(
+  inputs: ValuationInputs,
+  assumptions: ValuationAssumptions,
+): number {
+  return (
+    assumptions.growthRate ??
+    clamp(inputs.growthRate, 0, assumptions.maxGrowthRate)
+  );
+}
+
+// ============================================================================
+// Earnings and book value models
+// ============================================================================
+
+const grahamModel: ValuationModel = {
+  id: "graham",
+  label: "Graham Formula",
+  defaultWeight: 1,
+  calculate: (inputs) => ({
+    value: calculateGrahamValue(inputs.eps, inputs.growthRate),
+    inputs: [
+      { label: "EPS (TTM)", value: inputs.eps, format: "currency" },
+      {
+        label: "Growth (g, capped at 50%)",
+        value: clamp(inputs.growthRate, 0, 50),
+        format: "percent",
+      },
+    ],
+    formula: "EPS × (8.5 + 2×g)",
+  }),
+};
+
+const peterLynchModel: ValuationModel = {
+  id: "peterLynch",
+  label: "Peter Lynch",
+  defaultWeight: 1,
+  calculate: (inputs) => ({
+    value: calculatePeterLynchValue(inputs.eps, inputs.growthRate),
+    inputs: [
+      { label: "EPS (TTM)", value: inputs.eps, format: "currency" },
+      {
+        label: "Growth (g)",
+        value: Math.max(inputs.growthRate, 0),
+        format: "percent",
+      },
+    ],
+    formula: "EPS × g",
+  }),
+};
+
+const ihsgRelativeModel: ValuationModel = {
+  id: "ihsgRelative",
+  label: "IHSG Relative",
+  defaultWeight: 1,
+  calculate: (inputs) => ({
+    value: calculateIHSGRelativeValue(inputs.eps, inputs.ihsgPE),
+    inputs: [
+      { label: "EPS (TTM)", value: inputs.eps, format: "currency" },
+      { label: "PE IHSG", value: inputs.ihsgPE, format: "multiple" },
+    ],
+    formula: "EPS × PE IHSG",
+  }),
+};
+
+const assetBasedModel: ValuationModel = {
+  id: "assetBased",
+  label: "Asset Based",
+  defaultWeight: 1,
+  calculate: (inputs) => ({
+    value: getAssetBasedValue(inputs.bookValuePerShare),
+    inputs: [
+      {
+        label: "Book Value / Share",
+        value: inputs.bookValuePerShare,
+        format: "currency",
+      },
+    ],
+    formula: "BVPS",
+  }),
+};
+
+// ============================================================================
+// Cash flow models
+// ============================================================================
+
+/**
+ * Free cash flow to equity grown at a high rate, faded linearly to the
+ * terminal rate, then capitalised with the Gordon growth formula
+ */
+const dcfModel: ValuationModel = {
+  id: "dcf",
+  label: "Multi-stage DCF",
+  defaultWeight: 0,
+  calculate: (inputs, assumptions) => {
+    const highGrowth = getHighGrowthRate(inputs, assumptions);
+    const { discountRate, terminalGrowth, highGrowthYears, fadeYears } =
+      assumptions;
+    const formula =
+      `(PV of FCF growing ${highGrowth.toFixed(1)}% for ${highGrowthYears}y, fading to ${terminalGrowth}% ` +
+      `over ${fadeYears}y + PV of terminal value) ÷ Shares, at ${discountRate}%`;
+    const baseInputs: ValuationModelInput[] = [
+      {
+        label: "Free Cash Flow (TTM)",
+        value: inputs.freeCashFlow,
+        format: "amount",
+      },
+      {
+        label: "Shares Outstanding",
+        value: inputs.sharesOutstanding,
+        format: "amount",
+      },
+      {
+        label: `Growth, years 1-${highGrowthYears}`,
+        value: highGrowth,
+        format: "percent",
+      },
+      { label: "Fade Period", value: fadeYears, format: "years" },
+      { label: "Terminal Growth", value: terminalGrowth, format: "percent" },
+      { label: "Discount Rate", value: discountRate, format: "percent" },
+    ];
+
+    if (inputs.freeCashFlow <= 0) {
+      return {
+        value: null,
+        inputs: baseInputs,
+        formula,
+        note: "Free cash flow is not positive",
+      };
+    }
+    if (inputs.sharesOutstanding <= 0) {
+      return {
+        value: null,
+        inputs: baseInputs,
+        formula,
+        note: "Shares outstanding unknown",
+      };
+    }
+    if (discountRate <= terminalGrowth) {
+      return {
+        value: null,
+        inputs: baseInputs,
+        formula,
+        note: "Discount rate must exceed terminal growth",
+      };
+    }
+
+    const r = discountRate / 100;
+    const years = highGrowthYears + fadeYears;
+    let cashFlow = inputs.freeCashFlow;
+    let presentValue = 0;
+
+    for (let year = 1; year <= years; year++) {
+      const growth =
+        year <= highGrowthYears
+          ? highGrowth
+          : highGrowth -
+            ((highGrowth - terminalGrowth) * (year - highGrowthYears)) /
+              fadeYears;
+      cashFlow *= 1 + growth / 100;
+      presentValue += cashFlow / Math.pow(1 + r, year);
+    }
+
+    const terminalValue =
+      (cashFlow * (1 + terminalGrowth / 100)) / (r - terminalGrowth / 100);
+    const presentTerminalValue = terminalValue / Math.pow(1 + r, years);
+
+    return {
+      value: (presentValue + presentTerminalValue) / inputs.sharesOutstanding,
+      inputs: [
+        ...baseInputs,
+        { label: "PV of Cash Flows", value: presentValue, format: "amount" },
+        {
+          label: "PV of Terminal Value",
+          value: presentTerminalValue,
+          format: "amount",
+        },
+      ],
+      formula,
+    };
+  },
+};
+
+/**
+ * Gordon growth dividend discount model on the trailing dividend
+ */
+const ddmModel: ValuationModel = {
+  id: "ddm",
+  label: "Dividend Discount",
+  defaultWeight: 0,
+  calculate: (inputs, assumptions) => {
+    const { discountRate, dividendGrowth } = assumptions;
+    const nextDividend = inputs.dividendPerShare * (1 + dividendGrowth / 100);
+    const formula = `D₀ × (1 + ${dividendGrowth}%) ÷ (${discountRate}% − ${dividendGrowth}%)`;
+    const modelInputs: ValuationModelInput[] = [
+      {
+        label: "Dividend / Share (TTM)",
+        value: inputs.dividendPerShare,
+        format: "currency",
+      },
+      { label: "Dividend Growth", value: dividendGrowth, format: "percent" },
+      { label: "Discount Rate", value: discountRate, format: "percent" },
+      { label: "Next Dividend (D₁)", value: nextDividend, format: "currency" },
+    ];
+
+    if (inputs.dividendPerShare <= 0) {
+      return {
+        value: null,
+        inputs: modelInputs,
+        formula,
+        note: "No dividend in the last 12 months",
+      };
+    }
+    if (discountRate <= dividendGrowth) {
+      return {
+        value: null,
+        inputs: modelInputs,
+        formula,
+        note: "Discount rate must exceed dividend growth",
+      };
+    }
+
+    return {
+      value: nextDividend / ((discountRate - dividendGrowth) / 100),
+      inputs: modelInputs,
+      formula,
+    };
+  },
+};
+
+// ============================================================================
+// Relative models
+// ============================================================================
+
+const evEbitdaModel: ValuationModel = {
+  id: "evEbitda",
+  label: "EV/EBITDA Relative",
+  defaultWeight: 0,
+  calculate: (inputs, assumptions) => {
+    const multiple = assumptions.evEbitdaMultiple;
+    const formula = `(EBITDA × ${multiple}× − Net Debt) ÷ Shares`;
+    const modelInputs: ValuationModelInput[] = [
+      { label: "EBITDA (TTM)", value: inputs.ebitda, format: "amount" },
+      { label: "Target EV/EBITDA", value: multiple, format: "multiple" },
+      {
+        label: "Current EV/EBITDA",
+        value: inputs.evToEbitda,
+        format: "multiple",
+      },
+      { label: "Net Debt", value: inputs.netDebt, format: "amount" },
+      {
+        label: "Shares Outstanding",
+        value: inputs.sharesOutstanding,
+        format: "amount",
+      },
+    ];
+
+    if (inputs.ebitda <= 0) {
+      return {
+        value: null,
+        inputs: modelInputs,
+        formula,
+        note: "EBITDA is not positive",
+      };
+    }
+    if (inputs.sharesOutstanding <= 0) {
+      return {
+        value: null,
+        inputs: modelInputs,
+        formula,
+        note: "Shares outstanding unknown",
+      };
+    }
+
+    return {
+      value:
+        (inputs.ebitda * multiple - inputs.netDebt) / inputs.sharesOutstanding,
+      inputs: modelInputs,
+      formula,
+    };
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const models = new Map<string, ValuationModel>(
+  [
+    grahamModel,
+    peterLynchModel,
+    ihsgRelativeModel,
+    assetBasedModel,
+    dcfModel,
+    ddmModel,
+    evEbitdaModel,
+  ].map((model) => [model.id, model]),
+);
+
+/**
+ * Register (or replace) a valuation model
+ */
+export function registerValuationModel(model: ValuationModel): void {
+  models.set(model.id, model);
+}
+
+/**
+ * Registered models in registration order
+ */
+export function getValuationModels(): ValuationModel[] {
+  return Array.from(models.values());
+}
@@ -0,0 +1,176 @@
+/**
+ * Valuation scenario store
+ * Named sets of valuation assumptions saved per symbol (e.g. "BBCA: bear case")
+ * in localStorage. The emitten sidebar reads them through useValuationScenarios;
+ * other open tabs pick changes up through the storage event.
+ */
+
+import type { ValuationAssumptions } from "./types";
+
+import { normalizeAssumptions } from "./assumptions";
+
+import {
+  createPersistedStore,
+  createStoreId,
+} from "@/lib/utils/persisted-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ValuationScenario {
+  id: string;
+  /** Uppercase symbol the scenario belongs to */
+  symbol: string;
+  name: string;
+  assumptions: ValuationAssumptions;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const SCENARIO_STORAGE_KEY = "valuation-scenarios";
+
+export const SCENARIO_LIMITS = {
+  MAX_PER_SYMBOL: 10,
+  MAX_NAME_LENGTH: 40,
+};
+
+const EMPTY_SCENARIOS: ValuationScenario[] = [];
+
+// ============================================================================
+// State
+// ============================================================================
+
+const store = createPersistedStore<ValuationScenario[]>({
+  key: SCENARIO_STORAGE_KEY,
+  fallback: EMPTY_SCENARIOS,
+  label: "Valuation",
+  parse: (stored) =>
+    Array.isArray(stored)
+      ? stored
+          .filter(
+            (scenario): scenario is ValuationScenario =>
+              !!scenario &&
+              typeof scenario.id === "string" &&
+              typeof scenario.symbol === "string" &&
+              typeof scenario.name === "string",
+          )
+          .map((scenario) => ({
+            ...scenario,
+            assumptions: normalizeAssumptions(scenario.assumptions),
+          }))
+      : EMPTY_SCENARIOS,
+});
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * All scenarios in creation order
+ * The array is replaced on every change, so it can be used as a useSyncExternalStore snapshot.
+ */
+export function getScenarios(): ValuationScenario[] {
+  return store.get();
+}
+
+/**
+ * Server snapshot (no localStorage during SSR)
+ */
+export function getServerScenarios(): ValuationScenario[] {
+  return store.getServerSnapshot();
+}
+
+export function getScenariosForSymbol(
+  list: ValuationScenario[],
+  symbol: string,
+): ValuationScenario[] {
+  const key = symbol.toUpperCase();
+  return list.filter((scenario) => scenario.symbol === key);
+}
+
+/**
+ * Subscribe to scenario changes, including edits made in other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeScenarios(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Save assumptions under a name for a symbol; an existing scenario with the
+ * same name (case-insensitive) is overwritten
+ * @throws Error when the name is empty or too long, or the symbol is full
+ */
+export function saveScenario(
+  symbol: string,
+  name: string,
+  assumptions: ValuationAssumptions,
+): ValuationScenario {
+  const key = symbol.toUpperCase();
+  const normalized = normalizeName(name);
+  if (!normalized) throw new Error("Scenario name is required");
+  if (normalized.length > SCENARIO_LIMITS.MAX_NAME_LENGTH) {
+    throw new Error(
+      `Scenario name must not exceed ${SCENARIO_LIMITS.MAX_NAME_LENGTH} characters`,
+    );
+  }
+
+  const list = getScenarios();
+  const now = Date.now();
+  const existing = list.find(
+    (scenario) =>
+      scenario.symbol === key &&
+      scenario.name.toLowerCase() === normalized.toLowerCase(),
+  );
+
+  if (existing) {
+    const updated: ValuationScenario = {
+      ...existing,
+      name: normalized,
+      assumptions,
+      updatedAt: now,
+    };
+    store.set(
+      list.map((scenario) =>
+        scenario.id === existing.id ? updated : scenario,
+      ),
+    );
+    return updated;
+  }
+
+  if (
+    getScenariosForSymbol(list, key).length >= SCENARIO_LIMITS.MAX_PER_SYMBOL
+  ) {
+    throw new Error(
+      `You can keep at most ${SCENARIO_LIMITS.MAX_PER_SYMBOL} scenarios per symbol`,
+    );
+  }
+
+  const scenario: ValuationScenario = {
+    id: createStoreId("vs"),
+    symbol: key,
+    name: normalized,
+    assumptions,
+    createdAt: now,
+    updatedAt: now,
+  };
+  store.set([...list, scenario]);
+  return scenario;
+}
+
+export function deleteScenario(id: string): void {
+  store.set(getScenarios().filter((scenario) => scenario.id !== id));
+}
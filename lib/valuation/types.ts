@@ -0,0 +1,134 @@
+/**
+ * Valuation model types
+ * Shared by the model registry, the intrinsic value calculation and the
+ * sidebar components that show and weight each model.
+ */
+
+// ============================================================================
+// Inputs
+// ============================================================================
+
+/**
+ * Per-emitten figures parsed from the key stats (currency amounts in IDR,
+ * rates in %). Missing metrics are 0.
+ */
+export interface ValuationInputs {
+  price: number;
+  eps: number;
+  bookValuePerShare: number;
+  /** Revenue YoY growth, used as the default growth rate */
+  growthRate: number;
+  /** PE the IHSG-relative model multiplies EPS by: the reported "Current PE Ratio (TTM)" */
+  ihsgPE: number;
+  /** Median PE of the IHSG; null when the key stats do not report it */
+  ihsgMedianPE: number | null;
+  sharesOutstanding: number;
+  freeCashFlow: number;
+  dividendPerShare: number;
+  ebitda: number;
+  netDebt: number;
+  /** Current EV/EBITDA of the emitten itself */
+  evToEbitda: number;
+}
+
+export type ValuationMode = "conservative" | "moderate" | "aggressive";
+
+/**
+ * - current: the reported "Current PE Ratio (TTM)", what the model always read
+ * - median: the reported IHSG median PE
+ */
+export type IhsgPESource = "current" | "median";
+
+/**
+ * Assumptions the models read; the valuation modes are presets of these
+ */
+export interface ValuationAssumptions {
+  /** Overrides the reported revenue growth (%); null uses the reported figure */
+  growthRate: number | null;
+  /** Overrides the PE the IHSG-relative model uses; null uses the reported figure */
+  ihsgPE: number | null;
+  /** Reported PE used when ihsgPE is null; median falls back to current when it is not reported */
+  ihsgPESource: IhsgPESource;
+  /** Cost of equity used to discount cash flows and dividends (%) */
+  discountRate: number;
+  /** Discount taken off every model's output (%); negative values are a premium */
+  marginOfSafety: number;
+  /** Upper bound on the reported growth rate before it feeds the DCF (%) */
+  maxGrowthRate: number;
+  highGrowthYears: number;
+  /** Years over which growth fades linearly to the terminal rate */
+  fadeYears: number;
+  terminalGrowth: number;
+  dividendGrowth: number;
+  /** Target EV/EBITDA multiple */
+  evEbitdaMultiple: number;
+  /** Per-model multipliers of the valuation mode, applied before the margin of safety */
+  adjustments: ValuationAdjustments;
+  weights: ValuationWeights;
+}
+
+/** Multiplier per model id; missing ids are 1 */
+export type ValuationAdjustments = Record<string, number>;
+
+/** Weight per model id; missing ids use the model's default weight, 0 leaves it out */
+export type ValuationWeights = Record<string, number>;
+
+// ============================================================================
+// Models
+// ============================================================================
+
+export interface ValuationModelInput {
+  label: string;
+  value: number;
+  format: "currency" | "amount" | "percent" | "multiple" | "years" | "number";
+}
+
+export interface ValuationModelOutput {
+  /** Fair value per share; null when the model does not apply to this emitten */
+  value: number | null;
+  inputs: ValuationModelInput[];
+  /** Human-readable formula with the assumptions filled in */
+  formula: string;
+  /** Why the model was skipped or what it glossed over */
+  note?: string;
+}
+
+export interface ValuationModel {
+  id: string;
+  label: string;
+  defaultWeight: number;
+  calculate(
+    inputs: ValuationInputs,
+    assumptions: ValuationAssumptions,
+  ): ValuationModelOutput;
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+export interface ValuationModelResult extends ValuationModelOutput {
+  id: string;
+  label: string;
+  weight: number;
+  /** Whether the value feeds the range (weighted, applicable and not an outlier) */
+  included: boolean;
+}
+
+export interface IntrinsicValueResult {
+  models: ValuationModelResult[];
+  /** null when no included model produced a usable value */
+  range: {
+    low: number;
+    mid: number;
+    high: number;
+  } | null;
+  /**
+   * - midpoint: every included model has the same weight, mid is halfway between low and high
+   * - weighted: mid is the weighted average of the included models
+   */
+  midMethod: "midpoint" | "weighted";
+  currentPrice: number;
+  upside: number | null;
+  status: "undervalued" | "fair" | "overvalued" | null;
+}
@@ -0,0 +1,6 @@
+/**
+ * Watchlist module barrel exports
+ */
+
+export * from "./store";
+export * from "./transfer";
@@ -0,0 +1,251 @@
+/**
+ * Watchlist store
+ * Named groups of IDX symbols (e.g. "Banking", "Coal") persisted in localStorage.
+ * Pages read them through useWatchlists; every change notifies subscribers and
+ * other open tabs pick it up through the storage event.
+ */
+
+import {
+  createPersistedStore,
+  createStoreId,
+} from "@/lib/utils/persisted-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  /** Uppercase symbols, unique, in insertion order */
+  symbols: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const WATCHLIST_STORAGE_KEY = "watchlists";
+
+export const WATCHLIST_LIMITS = {
+  MAX_LISTS: 50,
+  MAX_SYMBOLS: 200,
+  MAX_NAME_LENGTH: 40,
+};
+
+/** IDX tickers are four letters, optionally with a suffix such as "-W" for warrants */
+const SYMBOL_PATTERN = /^[A-Z]{4}(-[A-Z0-9]{1,2})?$/;
+
+const EMPTY_WATCHLISTS: Watchlist[] = [];
+
+// ============================================================================
+// Symbols
+// ============================================================================
+
+/**
+ * Whether `symbol` looks like an IDX ticker (expects an uppercase string)
+ */
+export function isValidSymbol(symbol: string): boolean {
+  return SYMBOL_PATTERN.test(symbol);
+}
+
+/**
+ * Split pasted text ("BBCA, BBRI bmri\nTLKM") into valid, unique, uppercase symbols
+ * @returns Accepted symbols and the tokens that were rejected
+ */
+export function parseSymbols(input: string | string[]): {
+  symbols: string[];
+  invalid: string[];
+} {
+  const tokens = Array.isArray(input) ? input : input.split(/[\s,;]+/);
+  const symbols: string[] = [];
+  const invalid: string[] = [];
+
+  tokens.forEach((token) => {
+    const symbol = String(token).trim().toUpperCase();
+    if (!symbol) return;
+    if (!isValidSymbol(symbol)) {
+      invalid.push(symbol);
+    } else if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+  });
+
+  return { symbols, invalid };
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+const store = createPersistedStore<Watchlist[]>({
+  key: WATCHLIST_STORAGE_KEY,
+  fallback: EMPTY_WATCHLISTS,
+  label: "Watchlists",
+  parse: (stored) =>
+    Array.isArray(stored)
+      ? stored.filter(
+          (list): list is Watchlist =>
+            !!list &&
+            typeof list.id === "string" &&
+            typeof list.name === "string" &&
+            Array.isArray(list.symbols),
+        )
+      : EMPTY_WATCHLISTS,
+});
+
+function normalizeName(name: string): string {
+  return name.trim().replace(/\s+/g, " ");
+}
+
+function requireWatchlist(id: string): Watchlist {
+  const list = getWatchlist(id);
+  if (!list) throw new Error("Watchlist not found");
+  return list;
+}
+
+function validateName(name: string, exceptId?: string): string {
+  const normalized = normalizeName(name);
+  if (!normalized) throw new Error("Watchlist name is required");
+  if (normalized.length > WATCHLIST_LIMITS.MAX_NAME_LENGTH) {
+    throw new Error(
+      `Watchlist name must not exceed ${WATCHLIST_LIMITS.MAX_NAME_LENGTH} characters`,
+    );
+  }
+  const duplicate = findWatchlistByName(normalized);
+  if (duplicate && duplicate.id !== exceptId) {
+    throw new Error(`A watchlist named "${normalized}" already exists`);
+  }
+  return normalized;
+}
+
+function limitSymbols(symbols: string[]): string[] {
+  if (symbols.length > WATCHLIST_LIMITS.MAX_SYMBOLS) {
+    throw new Error(
+      `A watchlist can hold at most ${WATCHLIST_LIMITS.MAX_SYMBOLS} symbols`,
+    );
+  }
+  return symbols;
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * All watchlists in creation order
+ * The array is replaced on every change, so it can be used as a useSyncExternalStore snapshot.
+ */
+export function getWatchlists(): Watchlist[] {
+  return store.get();
+}
+
+/**
+ * Server snapshot (no localStorage during SSR)
+ */
+export function getServerWatchlists(): Watchlist[] {
+  return store.getServerSnapshot();
+}
+
+export function getWatchlist(id: string): Watchlist | undefined {
+  return getWatchlists().find((list) => list.id === id);
+}
+
+export function findWatchlistByName(name: string): Watchlist | undefined {
+  const key = normalizeName(name).toLowerCase();
+  return getWatchlists().find((list) => list.name.toLowerCase() === key);
+}
+
+/**
+ * Subscribe to watchlist changes, including edits made in other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeWatchlists(listener: () => void): () => void {
+  return store.subscribe(listener);
+}
+
+// ============================================================================
+// Mutations
+// ============================================================================
+
+/**
+ * Create a watchlist
+ * @throws Error when the name is empty or taken, or a limit is exceeded
+ */
+export function createWatchlist(
+  name: string,
+  symbols: string[] = [],
+): Watchlist {
+  const lists = getWatchlists();
+  if (lists.length >= WATCHLIST_LIMITS.MAX_LISTS) {
+    throw new Error(
+      `You can keep at most ${WATCHLIST_LIMITS.MAX_LISTS} watchlists`,
+    );
+  }
+
+  const now = Date.now();
+  const list: Watchlist = {
+    id: createStoreId("wl"),
+    name: validateName(name),
+    symbols: limitSymbols(parseSymbols(symbols).symbols),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  store.set([...lists, list]);
+  return list;
+}
+
+export function renameWatchlist(id: string, name: string): void {
+  const list = requireWatchlist(id);
+  const normalized = validateName(name, id);
+  store.set(
+    getWatchlists().map((item) =>
+      item.id === list.id
+        ? { ...item, name: normalized, updatedAt: Date.now() }
+        : item,
+    ),
+  );
+}
+
+/**
+ * Replace the symbols of a watchlist (invalid tokens are dropped)
+ */
+export function setWatchlistSymbols(id: string, symbols: string[]): void {
+  const list = requireWatchlist(id);
+  const next = limitSymbols(parseSymbols(symbols).symbols);
+  store.set(
+    getWatchlists().map((item) =>
+      item.id === list.id
+        ? { ...item, symbols: next, updatedAt: Date.now() }
+        : item,
+    ),
+  );
+}
+
+/**
+ * Append symbols that are not in the watchlist yet
+ * @returns Number of symbols actually added
+ */
+export function addSymbolsToWatchlist(id: string, symbols: string[]): number {
+  const list = requireWatchlist(id);
+  const added = parseSymbols(symbols).symbols.filter(
+    (symbol) => !list.symbols.includes(symbol),
+  );
+  if (added.length > 0) setWatchlistSymbols(id, [...list.symbols, ...added]);
+  return added.length;
+}
+
+export function removeSymbolFromWatchlist(id: string, symbol: string): void {
+  const list = requireWatchlist(id);
+  setWatchlistSymbols(
+    id,
+    list.symbols.filter((item) => item !== symbol.toUpperCase()),
+  );
+}
+
+export function deleteWatchlist(id: string): void {
+  store.set(getWatchlists().filter((list) => list.id !== id));
+}
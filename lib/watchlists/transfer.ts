@@ -0,0 +1,121 @@
+import {
+  WATCHLIST_LIMITS,
+  addSymbolsToWatchlist,
+  createWatchlist,
+  findWatchlistByName,
+  getWatchlists,
+  parseSymbols,
+  type Watchlist,
+} from "./store";
+
+/**
+ * Watchlist import/export
+ * Plain JSON so lists can be shared between teammates or browsers.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WatchlistFile {
+  version: 1;
+  exportedAt: string;
+  watchlists: Array<Pick<Watchlist, "name" | "symbols">>;
+}
+
+export interface WatchlistImportResult {
+  created: string[];
+  /** Existing lists (matched by name) that received new symbols */
+  merged: string[];
+  /** Symbols that are not valid IDX tickers */
+  invalidSymbols: string[];
+  /** Lists that could not be imported, with the reason */
+  errors: string[];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Serialize watchlists to JSON
+ * @param ids - Only these lists (default: all)
+ */
+export function exportWatchlists(ids?: string[]): string {
+  const file: WatchlistFile = {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    watchlists: getWatchlists()
+      .filter((list) => !ids || ids.includes(list.id))
+      .map((list) => ({ name: list.name, symbols: list.symbols })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Import watchlists from JSON
+ * Accepts a WatchlistFile or a bare array of { name, symbols }. Lists whose name
+ * already exists are merged (new symbols appended) instead of duplicated.
+ * @throws Error when the text is not valid watchlist JSON
+ */
+export function importWatchlists(json: string): WatchlistImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : parsed &&
+        typeof parsed === "object" &&
+        Array.isArray((parsed as WatchlistFile).watchlists)
+      ? (parsed as WatchlistFile).watchlists
+      : null;
+  if (!entries) throw new Error("No watchlists found in file");
+
+  const result: WatchlistImportResult = {
+    created: [],
+    merged: [],
+    invalidSymbols: [],
+    errors: [],
+  };
+
+  entries.forEach((entry, index) => {
+    const name = entry && typeof entry.name === "string" ? entry.name : "";
+    if (!name.trim() || !Array.isArray(entry.symbols)) {
+      result.errors.push(`Entry ${index + 1}: missing name or symbols`);
+      return;
+    }
+
+    const { symbols, invalid } = parseSymbols(entry.symbols);
+    invalid.forEach((symbol) => {
+      if (!result.invalidSymbols.includes(symbol))
+        result.invalidSymbols.push(symbol);
+    });
+
+    try {
+      const existing = findWatchlistByName(name);
+      if (existing) {
+        if (addSymbolsToWatchlist(existing.id, symbols) > 0)
+          result.merged.push(existing.name);
+      } else {
+        result.created.push(
+          createWatchlist(name, symbols.slice(0, WATCHLIST_LIMITS.MAX_SYMBOLS))
+            .name,
+        );
+      }
+    } catch (error) {
+      result.errors.push(
+        `${name}: ${error instanceof Error ? error.message : "import failed"}`,
+      );
+    }
+  });
+
+  return result;
+}